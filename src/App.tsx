@@ -13,11 +13,13 @@ import { Dashboard, Alerts } from "./components/dashboard";
 import { ProjectsList, AddProject, ProjectDetails } from "./components/projects";
 import { ReadinessForm, ReadinessQueue } from "./components/readiness";
 import { AdditionalWoApprovals } from "./components/additionalWoApprovals";
+import { YardCalendar } from "./components/yardCalendar";
 import {
   WorkOrders,
   AddWorkOrder,
   VesselWorkOrders,
   EditWorkOrder,
+  WorkOrderPrintRegister,
 } from "./components/workOrders";
 import {
   WorkVerification,
@@ -29,11 +31,15 @@ import {
   AddWorkProgress,
   WorkProgressTable,
   EditWorkProgress,
+  BulkWorkProgress,
 } from "./components/workProgress";
 import {
   InvoiceList,
   InvoiceDetails,
   ManageInvoice,
+  TaxSettingsPage,
+  ARAgingReport,
+  ManageCreditNote,
 } from "./components/invoice";
 import { ExportData } from "./components/exportData";
 import { ImportData } from "./components/importData";
@@ -86,6 +92,7 @@ function AppRoutes() {
           path="/projects/:projectId/readiness"
           element={<ReadinessForm />}
         />
+        <Route path="/yard-calendar" element={<YardCalendar />} />
         <Route path="/readiness-queue" element={<ReadinessQueue />} />
         <Route
           path="/additional-wo-approvals"
@@ -103,6 +110,10 @@ function AppRoutes() {
           path="/edit-work-order/:workOrderId"
           element={<EditWorkOrder />}
         />
+        <Route
+          path="/work-orders/print-register"
+          element={<WorkOrderPrintRegister />}
+        />
 
         {/* Work Details */}
         <Route path="/work-details" element={<WorkOrderDetails />} />
@@ -127,6 +138,10 @@ function AppRoutes() {
           path="/add-work-progress/:workDetailsId"
           element={<AddWorkProgress />}
         />
+        <Route
+          path="/bulk-work-progress/:workOrderId?"
+          element={<BulkWorkProgress />}
+        />
         <Route
           path="/work-details/:workDetailsId/progress"
           element={<WorkProgressTable />}
@@ -158,6 +173,12 @@ function AppRoutes() {
         <Route path="/invoices/create/:bastpId" element={<ManageInvoice />} />
         <Route path="/invoices/edit/:invoiceId" element={<ManageInvoice />} />
         <Route path="/invoices/:invoiceId" element={<InvoiceDetails />} />
+        <Route
+          path="/invoices/:invoiceId/credit-notes/new"
+          element={<ManageCreditNote />}
+        />
+        <Route path="/tax-settings" element={<TaxSettingsPage />} />
+        <Route path="/ar-aging" element={<ARAgingReport />} />
 
         {/* Activity Log Routes */}
         <Route path="/activity-logs" element={<ActivityLogPage />} />
@@ -3,10 +3,6 @@ import { useNavigate } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
 import type { BASTPWithDetails, BASTPStatus } from "../../types/bastp.types";
 import { useAuth } from "../../hooks/useAuth";
-import {
-  getLatestVerificationByWorkDetails,
-  isApproved,
-} from "../../utils/workVerificationStatus";
 import {
   Plus,
   AlertTriangle,
@@ -115,85 +111,13 @@ export default function BASTP() {
   }, [fetchBASTPs]);
 
   // --- AUTO UPDATE STATUS ---
+  // DRAFT -> VERIFIED -> READY_FOR_INVOICE is enforced by the database (see
+  // 20260807100000_server_side_bastp_status_promotion.sql); only the
+  // INVOICED catch-up still happens here.
   useEffect(() => {
     if (!loading && bastps.length > 0) {
       bastps.forEach(async (bastp) => {
-        // 1. Check if all work details are verified -> VERIFIED
-        if (
-          bastp.status === "DRAFT" &&
-          bastp.bastp_work_details &&
-          bastp.bastp_work_details.length > 0
-        ) {
-          const workDetailIds = (bastp.bastp_work_details ?? [])
-            .map((bwd: any) => bwd.work_details?.id)
-            .filter(Boolean);
-
-          if (workDetailIds.length === 0) return;
-
-          // Cancelled work details never get verified — don't let them
-          // block this BASTP from being promoted to VERIFIED.
-          const cancelledIds = new Set(
-            (bastp.bastp_work_details ?? [])
-              .filter((bwd: any) => bwd.work_details?.cancelled_at)
-              .map((bwd: any) => bwd.work_details?.id),
-          );
-
-          const { data: verifications, error } = await supabase
-            .from("work_verification")
-            .select("work_details_id, status, created_at")
-            .in("work_details_id", workDetailIds)
-            .is("deleted_at", null);
-
-          if (!error) {
-            const latestByWorkDetails = getLatestVerificationByWorkDetails(
-              verifications || [],
-            );
-            const allVerified = workDetailIds.every(
-              (id) =>
-                cancelledIds.has(id) || isApproved(latestByWorkDetails.get(id)),
-            );
-            if (allVerified) {
-              await supabase
-                .from("bastp")
-                .update({ status: "VERIFIED" })
-                .eq("id", bastp.id);
-              fetchBASTPs();
-              return;
-            }
-          }
-        }
-
-        // 2. If every non-cancelled work detail has its materials submitted
-        // and the Form Penawaran has been uploaded, status VERIFIED ->
-        // READY_FOR_INVOICE
-        if (
-          bastp.status === "VERIFIED" &&
-          bastp.bastp_work_details &&
-          bastp.bastp_work_details.length > 0
-        ) {
-          const relevantDetails = (bastp.bastp_work_details ?? []).filter(
-            (bwd: any) => !bwd.work_details?.cancelled_at,
-          );
-          const allMaterialsSubmitted =
-            relevantDetails.length > 0 &&
-            relevantDetails.every(
-              (bwd: any) => bwd.materials_status === "SUBMITTED",
-            );
-          const formPenawaranUploaded = !!bastp.form_penawaran_storage_path;
-
-          if (allMaterialsSubmitted && formPenawaranUploaded) {
-            await supabase
-              .from("bastp")
-              .update({
-                status: "READY_FOR_INVOICE",
-                ready_for_invoice_date: new Date().toISOString(),
-              })
-              .eq("id", bastp.id);
-            fetchBASTPs();
-          }
-        }
-
-        // 3. If invoice created for this BASTP -> INVOICED
+        // If invoice created for this BASTP -> INVOICED
         // Check if there's an invoice with this bastp_id
         if (bastp.status === "READY_FOR_INVOICE") {
           const { data: invoices, error: invoiceError } = await supabase
@@ -14,12 +14,21 @@ import {
   isOpenForRework,
 } from "../../utils/workVerificationStatus";
 import { getLatestProgressRecord } from "../../utils/progressPercentage";
-import { suggestBastpNumber } from "../../utils/bastpNumbering";
+import {
+  reserveBastpNumber,
+  suggestBastpNumber,
+} from "../../utils/bastpNumbering";
+import {
+  describeTakenNumber,
+  releaseSequentialNumber,
+  type DocumentNumberReservation,
+} from "../../utils/documentNumbering";
 import type {
   GeneralServiceType,
   GeneralServiceInput,
 } from "../../types/generalService.types";
 import { ActivityLogService } from "../../services/activityLogService";
+import { resolveGeneralServicePrices } from "../../utils/generalServicePrices";
 import {
   AlertTriangle,
   ArrowLeft,
@@ -109,9 +118,9 @@ export default function CreateBASTP() {
     WorkDetailsWithProgress[]
   >([]);
   const [existingBastp, setExistingBastp] = useState<BASTP | null>(null);
-  // The work-detail composition as loaded, so we can tell at submit time
-  // whether it actually changed and the BASTP needs to go back to DRAFT
-  // for re-verification.
+  // The work-detail composition as loaded, so submit only adds and removes
+  // the bastp_work_details rows that changed (the sync_bastp_status()
+  // triggers on those rows move the status).
   const [initialWorkDetailIds, setInitialWorkDetailIds] = useState<
     Set<number>
   >(new Set());
@@ -153,6 +162,8 @@ export default function CreateBASTP() {
     GeneralServiceInput[]
   >([]);
   const [loadingServiceTypes, setLoadingServiceTypes] = useState(false);
+  // Price-list price per service type for the current BASTP date and vessel
+  const [listPrices, setListPrices] = useState<Record<number, number>>({});
 
   // Fetch vessels
   const fetchVessels = useCallback(async () => {
@@ -225,6 +236,35 @@ export default function CreateBASTP() {
     }
   }, []);
 
+  // Per-day prices from the general service price list. Only used as a
+  // hint here — handleSubmit re-resolves them when saving.
+  useEffect(() => {
+    const vessel = vessels.find((v) => v.id === formData.vessel_id);
+    if (!formData.date || !vessel) {
+      setListPrices({});
+      return;
+    }
+
+    let cancelled = false;
+    resolveGeneralServicePrices(formData.date, vessel)
+      .then((prices) => {
+        if (!cancelled) setListPrices(prices);
+      })
+      .catch((err) => {
+        console.error("Error resolving general service prices:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.date, formData.vessel_id, vessels]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+
   // Fetch existing BASTP data (for edit mode)
   const fetchExistingBastp = useCallback(async () => {
     if (!bastpId) return;
@@ -817,6 +857,8 @@ export default function CreateBASTP() {
       return;
     }
 
+    let numberReservation: DocumentNumberReservation | null = null;
+
     try {
       setSubmitting(true);
       setError(null);
@@ -834,16 +876,16 @@ export default function CreateBASTP() {
 
       if (!userProfile) throw new Error("User profile not found");
 
+      const servicePrices = await resolveGeneralServicePrices(
+        formData.date,
+        vessels.find((v) => v.id === formData.vessel_id),
+      );
+
       if (isEditMode && bastpId) {
         // ========== UPDATE MODE ==========
-        // If the work-detail composition changed, the BASTP needs to go
-        // back through review — don't let it stay VERIFIED (or beyond) for
-        // items nobody has approved yet.
-        const currentIds = new Set(selectedWorkDetails.map((wd) => wd.id));
-        const compositionChanged =
-          currentIds.size !== initialWorkDetailIds.size ||
-          [...currentIds].some((id) => !initialWorkDetailIds.has(id));
-
+        // No status handling here: adding or removing work details below
+        // re-runs sync_bastp_status() server-side, which sends the BASTP
+        // back to DRAFT if any of them still needs review.
         const { error: updateError } = await supabase
           .from("bastp")
           .update({
@@ -858,7 +900,6 @@ export default function CreateBASTP() {
               formData.tanggal_tambat_setelah_turun_dock || null,
             to_name: formData.to_name || null,
             to_role: formData.to_role || null,
-            ...(compositionChanged ? { status: "DRAFT" } : {}),
             updated_at: new Date().toISOString(),
           })
           .eq("id", bastpId);
@@ -870,6 +911,7 @@ export default function CreateBASTP() {
         // materials_status of every unchanged work detail on each edit,
         // even ones that don't touch composition at all (e.g. just editing
         // the BASTP date or general services).
+        const currentIds = new Set(selectedWorkDetails.map((wd) => wd.id));
         const removedIds = [...initialWorkDetailIds].filter(
           (id) => !currentIds.has(id),
         );
@@ -906,18 +948,28 @@ export default function CreateBASTP() {
           .delete()
           .eq("bastp_id", bastpId);
 
-        // Only insert general services if there are any selected
+        // Only insert general services if there are any selected. A price
+        // already on the BASTP (e.g. negotiated on a draft invoice) is kept;
+        // otherwise the price list fills it in.
         if (selectedServices.length > 0) {
-          const servicesToInsert = selectedServices.map((service) => ({
-            bastp_id: parseInt(bastpId),
-            service_type_id: service.service_type_id,
-            start_date: service.start_date,
-            close_date: service.close_date,
-            total_days: service.total_days,
-            unit_price: 0,
-            payment_price: 0,
-            remarks: service.remarks || null,
-          }));
+          const servicesToInsert = selectedServices.map((service) => {
+            const unit_price =
+              existingBastp?.general_services?.find(
+                (gs) => gs.service_type_id === service.service_type_id,
+              )?.unit_price ||
+              servicePrices[service.service_type_id] ||
+              0;
+            return {
+              bastp_id: parseInt(bastpId),
+              service_type_id: service.service_type_id,
+              start_date: service.start_date,
+              close_date: service.close_date,
+              total_days: service.total_days,
+              unit_price,
+              payment_price: unit_price * service.total_days,
+              remarks: service.remarks || null,
+            };
+          });
 
           const { error: servicesError } = await supabase
             .from("general_services")
@@ -939,10 +991,19 @@ export default function CreateBASTP() {
         navigate(`/bastp/${bastpId}`);
       } else {
         // ========== CREATE MODE ==========
+        // The number on screen is only a preview — reserve the real one now
+        // (see reserveSequentialNumber).
+        numberReservation = await reserveBastpNumber(formData.date);
+        const takenNumberNotice = describeTakenNumber(
+          "BASTP",
+          formData.number,
+          numberReservation,
+        );
+
         const { data: bastpData, error: bastpError } = await supabase
           .from("bastp")
           .insert({
-            number: formData.number,
+            number: numberReservation.documentNumber,
             date: formData.date,
             vessel_id: formData.vessel_id,
             user_id: userProfile.id,
@@ -961,6 +1022,7 @@ export default function CreateBASTP() {
           .single();
 
         if (bastpError) throw bastpError;
+        numberReservation = null;
 
         // Insert work details
         const workDetailsToInsert = selectedWorkDetails.map((wd) => ({
@@ -974,18 +1036,22 @@ export default function CreateBASTP() {
 
         if (workDetailsError) throw workDetailsError;
 
-        // Insert general services (required in create mode)
+        // Insert general services (required in create mode), priced from
+        // the price list for the BASTP date
         if (selectedServices.length > 0) {
-          const servicesToInsert = selectedServices.map((service) => ({
-            bastp_id: bastpData.id,
-            service_type_id: service.service_type_id,
-            start_date: service.start_date,
-            close_date: service.close_date,
-            total_days: service.total_days,
-            unit_price: 0,
-            payment_price: 0,
-            remarks: service.remarks || null,
-          }));
+          const servicesToInsert = selectedServices.map((service) => {
+            const unit_price = servicePrices[service.service_type_id] || 0;
+            return {
+              bastp_id: bastpData.id,
+              service_type_id: service.service_type_id,
+              start_date: service.start_date,
+              close_date: service.close_date,
+              total_days: service.total_days,
+              unit_price,
+              payment_price: unit_price * service.total_days,
+              remarks: service.remarks || null,
+            };
+          });
 
           const { error: servicesError } = await supabase
             .from("general_services")
@@ -1003,9 +1069,14 @@ export default function CreateBASTP() {
           description: `Created BASTP ${bastpData.number}`,
         });
 
+        if (takenNumberNotice) {
+          alert(takenNumberNotice);
+        }
+
         navigate(`/bastp/${bastpData.id}`);
       }
     } catch (err) {
+      await releaseSequentialNumber(numberReservation);
       console.error("Error saving BASTP:", err);
       setError(err instanceof Error ? err.message : "Failed to save BASTP");
     } finally {
@@ -1159,8 +1230,10 @@ export default function CreateBASTP() {
               />
               {!isEditMode && (
                 <p className="text-xs text-gray-500 mt-1">
-                  Auto-generated from the BASTP Date below. Need to change
-                  it? Edit the BASTP after creating it.
+                  Auto-generated from the BASTP Date below and reserved
+                  when you save — if someone else takes it first, the next
+                  free number is used. Need to change it? Edit the BASTP
+                  after creating it.
                 </p>
               )}
             </div>
@@ -1491,6 +1564,10 @@ export default function CreateBASTP() {
                 const serviceData = selectedServices.find(
                   (s) => s.service_type_id === serviceType.id,
                 );
+                // Removed service types stay visible only on BASTPs that
+                // already use them.
+                if (serviceType.deleted_at && !isSelected) return null;
+                const listPrice = listPrices[serviceType.id];
 
                 return (
                   <div
@@ -1517,6 +1594,13 @@ export default function CreateBASTP() {
                         <label className="font-medium text-gray-900 cursor-pointer">
                           {serviceType.service_name}
                         </label>
+                        {formData.vessel_id > 0 && (
+                          <p className="text-xs text-gray-500 mt-0.5">
+                            {listPrice !== undefined
+                              ? `Price list: ${formatCurrency(listPrice)} / day`
+                              : "No price-list price for this date and vessel"}
+                          </p>
+                        )}
 
                         {/* Days Input - Only show if selected */}
                         {isSelected && (
@@ -3,6 +3,7 @@ import { useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
 import { useAuth } from "../../hooks/useAuth";
 import { useDashboardData } from "../../hooks/useDashboardData";
+import { OfflineQueueIndicator } from "../workProgress/OfflineProgressQueue";
 import {
   LayoutDashboard,
   FolderKanban,
@@ -25,6 +26,10 @@ import {
   ClipboardCheck,
   Bell,
   Database,
+  Printer,
+  Percent,
+  Hourglass,
+  CalendarDays,
   type LucideIcon,
 } from "lucide-react";
 
@@ -167,6 +172,13 @@ export default function Layout({ children, onLogout }: LayoutProps) {
           current: location.pathname.startsWith("/projects"),
           show: canAccess("workOrders"),
         },
+        {
+          name: "Yard Calendar",
+          href: "/yard-calendar",
+          icon: CalendarDays,
+          current: location.pathname === "/yard-calendar",
+          show: canAccess("yardCalendar"),
+        },
         {
           name: "Work Orders",
           href: "/work-orders",
@@ -253,6 +265,20 @@ export default function Layout({ children, onLogout }: LayoutProps) {
             location.pathname.includes("/invoice"),
           show: canAccess("invoices"),
         },
+        {
+          name: "AR Aging",
+          href: "/ar-aging",
+          icon: Hourglass,
+          current: location.pathname === "/ar-aging",
+          show: canAccess("arAging"),
+        },
+        {
+          name: "Tax Settings",
+          href: "/tax-settings",
+          icon: Percent,
+          current: location.pathname === "/tax-settings",
+          show: canAccess("taxSettings"),
+        },
       ],
     },
     {
@@ -303,6 +329,13 @@ export default function Layout({ children, onLogout }: LayoutProps) {
           current: location.pathname === "/master-data",
           show: canAccess("masterData"),
         },
+        {
+          name: "WO Print Register",
+          href: "/work-orders/print-register",
+          icon: Printer,
+          current: location.pathname === "/work-orders/print-register",
+          show: canAccess("printRegister"),
+        },
       ],
     },
   ];
@@ -443,6 +476,11 @@ export default function Layout({ children, onLogout }: LayoutProps) {
             </div>
 
             <div className="flex items-center space-x-1 ml-auto">
+              {/* Progress writers may be filing from the dock with no
+                  connection; the badge also keeps their queue replaying. */}
+              {(profile?.role === "MASTER" ||
+                profile?.role === "PRODUCTION") && <OfflineQueueIndicator />}
+
               <button
                 onClick={() => navigate("/alerts")}
                 title="Alerts"
@@ -1,8 +1,24 @@
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useDashboardData, type DashboardAlert } from "../../hooks/useDashboardData";
 
 const PER_PAGE = 10;
 
+const PRIORITY_ORDER: Record<DashboardAlert["priority"], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+const byPriority = (a: DashboardAlert, b: DashboardAlert) =>
+  PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+
+interface AlertActions {
+  onDismiss: (key: string) => void;
+  onSnooze: (key: string, days: number) => void;
+  onRestore: (key: string) => void;
+}
+
 const formatDate = (dateString: string | null | undefined) => {
   if (!dateString) return "-";
   return new Date(dateString).toLocaleDateString("en-US", {
@@ -12,31 +28,55 @@ const formatDate = (dateString: string | null | undefined) => {
   });
 };
 
-const getAlertIcon = (type: DashboardAlert["type"]) =>
-  type === "overdue" ? "🚨" : "💰";
+const ALERT_ICONS: Record<DashboardAlert["type"], string> = {
+  overdue: "🚨",
+  ready_for_invoice: "💰",
+  invoice_overdue: "⏰",
+  invoice_due_soon: "📅",
+  bastp_awaiting_invoice: "📄",
+};
 
 const getAlertColor = (priority: DashboardAlert["priority"]) =>
   priority === "high"
     ? "bg-red-50 border-red-200 text-red-800"
-    : "bg-yellow-50 border-yellow-200 text-yellow-800";
+    : priority === "medium"
+      ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+      : "bg-blue-50 border-blue-200 text-blue-800";
+
+function AlertCard({
+  alert,
+  hidden,
+  actions,
+}: {
+  alert: DashboardAlert;
+  hidden: boolean;
+  actions: AlertActions;
+}) {
+  const navigate = useNavigate();
 
-function AlertCard({ alert }: { alert: DashboardAlert }) {
   return (
-    <div className={`p-4 rounded-lg border ${getAlertColor(alert.priority)}`}>
+    <div
+      className={`p-4 rounded-lg border ${getAlertColor(alert.priority)} ${
+        hidden ? "opacity-60" : ""
+      }`}
+    >
       <div className="flex items-start space-x-3">
-        <span className="text-lg">{getAlertIcon(alert.type)}</span>
+        <span className="text-lg">{ALERT_ICONS[alert.type]}</span>
         <div className="flex-1">
           {/* The work item itself — without this, every alert on the same
               WO with the same target date renders as an identical-looking
               card, which is what made this look like a duplication bug. */}
           <div className="font-medium text-sm text-gray-900">
-            {alert.workDetailDescription || "(no description)"}
+            {alert.subject ||
+              alert.workDetailDescription ||
+              "(no description)"}
           </div>
           <div className="text-sm font-semibold text-gray-700 mt-0.5">
             {alert.vesselName}
           </div>
           <div className="text-xs text-gray-600 mb-1">
-            {alert.vesselCompany} · {alert.woLabel}
+            {alert.vesselCompany}
+            {alert.woLabel && ` · ${alert.woLabel}`}
           </div>
           <div className="text-sm">{alert.message}</div>
           {alert.targetCloseDate && (
@@ -44,6 +84,50 @@ function AlertCard({ alert }: { alert: DashboardAlert }) {
               Target: {formatDate(alert.targetCloseDate)}
             </div>
           )}
+          {alert.dueDate && (
+            <div className="text-xs mt-2">Due: {formatDate(alert.dueDate)}</div>
+          )}
+          <div className="flex flex-wrap items-center gap-3 mt-3 text-xs font-medium">
+            {alert.link && (
+              <button
+                onClick={() => navigate(alert.link!)}
+                className="text-blue-700 hover:text-blue-900 underline"
+              >
+                Open{" "}
+                {alert.type === "bastp_awaiting_invoice" ? "BASTP" : "invoice"}{" "}
+                →
+              </button>
+            )}
+            {hidden ? (
+              <button
+                onClick={() => actions.onRestore(alert.key)}
+                className="text-gray-700 hover:text-gray-900 underline"
+              >
+                Restore
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => actions.onSnooze(alert.key, 1)}
+                  className="text-gray-700 hover:text-gray-900 underline"
+                >
+                  Snooze 1 day
+                </button>
+                <button
+                  onClick={() => actions.onSnooze(alert.key, 7)}
+                  className="text-gray-700 hover:text-gray-900 underline"
+                >
+                  Snooze 7 days
+                </button>
+                <button
+                  onClick={() => actions.onDismiss(alert.key)}
+                  className="text-gray-700 hover:text-gray-900 underline"
+                >
+                  Dismiss
+                </button>
+              </>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -114,9 +198,13 @@ function Pagination({
 function AlertSection({
   title,
   alerts,
+  actions,
+  hidden = false,
 }: {
   title: string;
   alerts: DashboardAlert[];
+  actions: AlertActions;
+  hidden?: boolean;
 }) {
   const [page, setPage] = useState(1);
   const totalPages = Math.ceil(alerts.length / PER_PAGE);
@@ -137,7 +225,12 @@ function AlertSection({
       </h3>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {pageAlerts.map((alert) => (
-          <AlertCard key={alert.key} alert={alert} />
+          <AlertCard
+            key={alert.key}
+            alert={alert}
+            hidden={hidden}
+            actions={actions}
+          />
         ))}
       </div>
       <Pagination
@@ -151,7 +244,17 @@ function AlertSection({
 }
 
 export default function Alerts() {
-  const { alerts, loading, error, refetch } = useDashboardData();
+  const {
+    alerts,
+    hiddenAlerts,
+    dismissAlert,
+    snoozeAlert,
+    restoreAlert,
+    loading,
+    error,
+    refetch,
+  } = useDashboardData();
+  const [showHidden, setShowHidden] = useState(false);
 
   if (loading) {
     return (
@@ -180,10 +283,19 @@ export default function Alerts() {
     );
   }
 
-  const overdueAlerts = alerts.filter((a) => a.type === "overdue");
-  const readyForInvoiceAlerts = alerts.filter(
-    (a) => a.type === "ready_for_invoice",
-  );
+  const actions: AlertActions = {
+    onDismiss: dismissAlert,
+    onSnooze: snoozeAlert,
+    onRestore: restoreAlert,
+  };
+  const ofType = (type: DashboardAlert["type"]) =>
+    alerts.filter((a) => a.type === type).sort(byPriority);
+
+  const overdueAlerts = ofType("overdue");
+  const readyForInvoiceAlerts = ofType("ready_for_invoice");
+  const invoiceOverdueAlerts = ofType("invoice_overdue");
+  const invoiceDueSoonAlerts = ofType("invoice_due_soon");
+  const bastpAwaitingInvoiceAlerts = ofType("bastp_awaiting_invoice");
 
   return (
     <div className="p-6 space-y-6">
@@ -193,6 +305,22 @@ export default function Alerts() {
           {alerts.length} active alert{alerts.length === 1 ? "" : "s"} —{" "}
           {overdueAlerts.length} overdue, {readyForInvoiceAlerts.length} ready
           for invoicing
+          {invoiceOverdueAlerts.length > 0 &&
+            `, ${invoiceOverdueAlerts.length} invoice${
+              invoiceOverdueAlerts.length === 1 ? "" : "s"
+            } past due`}
+          {hiddenAlerts.length > 0 && (
+            <>
+              {" · "}
+              <button
+                onClick={() => setShowHidden((v) => !v)}
+                className="text-blue-600 hover:text-blue-800 underline"
+              >
+                {showHidden ? "Hide" : "Show"} {hiddenAlerts.length} dismissed
+                or snoozed
+              </button>
+            </>
+          )}
         </p>
       </div>
 
@@ -202,13 +330,42 @@ export default function Alerts() {
         </div>
       ) : (
         <>
-          <AlertSection title="Overdue" alerts={overdueAlerts} />
+          <AlertSection
+            title="Invoices Past Due"
+            alerts={invoiceOverdueAlerts}
+            actions={actions}
+          />
+          <AlertSection
+            title="Invoices Due Soon"
+            alerts={invoiceDueSoonAlerts}
+            actions={actions}
+          />
+          <AlertSection
+            title="BASTPs Awaiting Invoice"
+            alerts={bastpAwaitingInvoiceAlerts}
+            actions={actions}
+          />
+          <AlertSection
+            title="Overdue"
+            alerts={overdueAlerts}
+            actions={actions}
+          />
           <AlertSection
             title="Ready for Invoicing"
             alerts={readyForInvoiceAlerts}
+            actions={actions}
           />
         </>
       )}
+
+      {showHidden && (
+        <AlertSection
+          title="Dismissed & Snoozed"
+          alerts={[...hiddenAlerts].sort(byPriority)}
+          actions={actions}
+          hidden
+        />
+      )}
     </div>
   );
 }
@@ -400,6 +400,11 @@ export default function Dashboard() {
     );
   };
 
+  const invoicedWorkDetails =
+    stats.workDetailsInvoicedPaid +
+    stats.workDetailsInvoicedPartiallyPaid +
+    stats.workDetailsInvoicedUnpaid;
+
   const formatCurrency = (amount: number) =>
     new Intl.NumberFormat("id-ID", {
       style: "currency",
@@ -649,15 +654,24 @@ export default function Dashboard() {
         <h2 className="text-xl font-semibold text-gray-900 mb-4">
           Invoiced Work Details
         </h2>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
           <StatCard
             label="Paid"
             value={stats.workDetailsInvoicedPaid}
             color="text-green-600"
             borderColor="border-green-500"
             percentOf={{
-              total:
-                stats.workDetailsInvoicedPaid + stats.workDetailsInvoicedUnpaid,
+              total: invoicedWorkDetails,
+              ofLabel: "invoiced work details",
+            }}
+          />
+          <StatCard
+            label="Partially Paid"
+            value={stats.workDetailsInvoicedPartiallyPaid}
+            color="text-yellow-600"
+            borderColor="border-yellow-500"
+            percentOf={{
+              total: invoicedWorkDetails,
               ofLabel: "invoiced work details",
             }}
           />
@@ -667,8 +681,7 @@ export default function Dashboard() {
             color="text-red-600"
             borderColor="border-red-500"
             percentOf={{
-              total:
-                stats.workDetailsInvoicedPaid + stats.workDetailsInvoicedUnpaid,
+              total: invoicedWorkDetails,
               ofLabel: "invoiced work details",
             }}
           />
@@ -695,28 +708,29 @@ export default function Dashboard() {
               },
               {
                 label: "Invoiced",
-                value:
-                  stats.workDetailsInvoicedPaid +
-                  stats.workDetailsInvoicedUnpaid,
+                value: invoicedWorkDetails,
                 color: PIPELINE_RAMP[4],
               },
             ]}
           />
           <ComparisonBars
             title="Invoiced — Paid vs Unpaid"
-            subtitle={`Of ${(
-              stats.workDetailsInvoicedPaid + stats.workDetailsInvoicedUnpaid
-            ).toLocaleString()} invoiced work details`}
+            subtitle={`Of ${invoicedWorkDetails.toLocaleString()} invoiced work details`}
             segments={[
               {
                 label: "Paid",
                 value: stats.workDetailsInvoicedPaid,
                 color: STATUS.good,
               },
+              {
+                label: "Partially Paid",
+                value: stats.workDetailsInvoicedPartiallyPaid,
+                color: STATUS.warning,
+              },
               {
                 label: "Unpaid",
                 value: stats.workDetailsInvoicedUnpaid,
-                color: STATUS.warning,
+                color: STATUS.critical,
               },
             ]}
           />
@@ -724,17 +738,17 @@ export default function Dashboard() {
         <div className="grid grid-cols-1 mt-6">
           <ComparisonBars
             title="Invoiced Value — Paid vs Unpaid"
-            subtitle="Total invoiced amount by payment status"
+            subtitle={`Amount due (incl. PPN) across ${stats.invoicedInvoiceCount.toLocaleString()} invoices — settled by payments and PPh 23 certificates vs outstanding`}
             formatValue={formatCurrency}
             segments={[
               {
                 label: "Paid",
-                value: stats.workDetailsInvoicedPaidValue,
+                value: stats.invoicedValueSettled,
                 color: STATUS.good,
               },
               {
                 label: "Unpaid",
-                value: stats.workDetailsInvoicedUnpaidValue,
+                value: stats.invoicedValueOutstanding,
                 color: STATUS.warning,
               },
             ]}
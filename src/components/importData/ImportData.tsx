@@ -9,6 +9,7 @@ import {
   AlertTriangle,
   ArrowLeft,
   Loader2,
+  TrendingDown,
 } from "lucide-react";
 import { useAuth } from "../../hooks/useAuth";
 import { supabase } from "../../lib/supabase";
@@ -43,25 +44,14 @@ import {
   type ValidatedProgressRow,
   type ImportResult,
 } from "../../utils/importHandler";
-import { downloadFile } from "../../utils/exportHandler";
+import { downloadFile, downloadXLSX } from "../../utils/exportHandler";
+import { regressionReasonLabel } from "../../utils/progressPercentage";
 
 type Tab = "work-orders" | "work-details" | "work-progress";
 type ImportStep = "upload" | "preview" | "result";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-function downloadXLSX(buffer: Uint8Array, filename: string) {
-  const blob = new Blob([buffer], {
-    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.click();
-  URL.revokeObjectURL(url);
-}
-
 // Error rows first (stable within each group, by original row order) so a
 // handful of errors in thousands of rows don't require scrolling to find.
 // The Row column still shows each row's real spreadsheet row number.
@@ -233,6 +223,11 @@ function WDPreviewTable({ rows }: { rows: ValidatedImportRow[] }) {
                     </td>
                     <td className="px-3 py-2 text-gray-800 max-w-xs truncate">
                       {row.description || <em className="text-gray-400">—</em>}
+                      {row.template_id != null && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-700">
+                          Job template
+                        </span>
+                      )}
                     </td>
                     <td className="px-3 py-2 text-gray-800">
                       {row.location || <em className="text-gray-400">—</em>}
@@ -377,7 +372,17 @@ function WPPreviewTable({ rows }: { rows: ValidatedProgressRow[] }) {
                       {row.notes || <em className="text-gray-400">—</em>}
                     </td>
                     <td className="px-3 py-2">
-                      <ActionBadge row={row} />
+                      <div className="flex flex-wrap items-center gap-1">
+                        <ActionBadge row={row} />
+                        {row.regressed_from !== undefined && (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800 whitespace-nowrap">
+                            <TrendingDown className="w-3 h-3" /> from{" "}
+                            {row.regressed_from}%
+                            {row.parsed_regression_reason &&
+                              ` · ${regressionReasonLabel(row.parsed_regression_reason)}`}
+                          </span>
+                        )}
+                      </div>
                     </td>
                   </tr>
                   {hasErrors && (
@@ -1308,6 +1313,16 @@ export default function ImportData() {
                           </code>
                         ))}
                       </div>
+                      <p className="font-medium mt-2 mb-1">
+                        Optional job library column — leave description,
+                        location, work scope, quantity and UOM blank to take
+                        them from the standard job:
+                      </p>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-1">
+                        <code className="bg-blue-100 text-blue-800 px-2 py-0.5 rounded text-xs font-mono">
+                          job_template
+                        </code>
+                      </div>
                     </div>
                     <div className="mt-4 flex flex-wrap gap-3">
                       <button
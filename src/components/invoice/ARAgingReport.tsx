@@ -0,0 +1,427 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "../../lib/supabase";
+import { useAuth } from "../../hooks/useAuth";
+import { downloadXLSX } from "../../utils/exportHandler";
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  buildAgingRows,
+  generateArAgingXLSX,
+  groupAgingRows,
+  sumAgingRows,
+  type AgingBucket,
+  type AgingGroupBy,
+  type AgingInvoiceSource,
+} from "../../utils/arAging";
+import {
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Loader,
+  Lock,
+  Search,
+  XCircle,
+} from "lucide-react";
+
+const BUCKET_BORDERS: Record<AgingBucket, string> = {
+  NOT_DUE: "border-blue-500",
+  DAYS_0_30: "border-green-500",
+  DAYS_31_60: "border-yellow-500",
+  DAYS_61_90: "border-orange-500",
+  DAYS_90_PLUS: "border-red-500",
+};
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function ARAgingReport() {
+  const navigate = useNavigate();
+  const { canAccess } = useAuth();
+  const canView = canAccess("arAging");
+
+  const [invoices, setInvoices] = useState<AgingInvoiceSource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const [asOf, setAsOf] = useState(today);
+  const [groupBy, setGroupBy] = useState<AgingGroupBy>("company");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (canView) fetchInvoices();
+  }, [canView]);
+
+  const fetchInvoices = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from("invoice_details")
+        .select(
+          `
+          id,
+          created_at,
+          invoice_number,
+          company,
+          due_date,
+          bastp_collection_date,
+          total_price_after,
+          pph_23,
+          bastp:bastp_id (
+            id,
+            number,
+            vessel:vessel_id (
+              id,
+              name,
+              company
+            )
+          ),
+          invoice_payments (
+            entry_type,
+            payment_date,
+            amount,
+            deleted_at
+          ),
+          credit_notes (
+            credit_note_date,
+            total_price_after,
+            pph_23,
+            deleted_at
+          )
+        `,
+        )
+        .is("deleted_at", null);
+
+      if (fetchError) throw fetchError;
+
+      setInvoices((data || []) as unknown as AgingInvoiceSource[]);
+    } catch (err) {
+      console.error("Error fetching invoices for AR aging:", err);
+      setError(err instanceof Error ? err.message : "Failed to load invoices");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reportDate = asOf || today();
+
+  const rows = useMemo(() => {
+    const all = buildAgingRows(invoices, reportDate);
+    if (!searchTerm) return all;
+    const searchLower = searchTerm.toLowerCase();
+    return all.filter(
+      (row) =>
+        row.company.toLowerCase().includes(searchLower) ||
+        row.vesselName.toLowerCase().includes(searchLower) ||
+        (row.invoiceNumber?.toLowerCase() || "").includes(searchLower),
+    );
+  }, [invoices, reportDate, searchTerm]);
+
+  const groups = useMemo(() => groupAgingRows(rows, groupBy), [rows, groupBy]);
+  const totals = useMemo(() => sumAgingRows(rows), [rows]);
+
+  const toggleGroup = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      downloadXLSX(
+        await generateArAgingXLSX(rows, reportDate),
+        `ar_aging_${reportDate}.xlsx`,
+      );
+    } catch (err) {
+      console.error("Error exporting AR aging:", err);
+      alert("Failed to export AR aging report. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+  if (!canView) {
+    return (
+      <div className="p-8">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 flex items-start gap-3">
+          <Lock className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+          <div>
+            <p className="text-yellow-900 font-medium">
+              You don't have permission to view the AR aging report.
+            </p>
+            <p className="text-sm text-yellow-700 mt-1">
+              This page is restricted to the Master, Finance, and Manager roles.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center h-64">
+          <Loader className="w-12 h-12 text-blue-600 animate-spin" />
+          <span className="ml-3 text-gray-600">Loading invoices...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">AR Aging</h1>
+          <p className="text-gray-600 mt-2">
+            Outstanding invoice balances by days past due
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={exporting || rows.length === 0}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {exporting ? (
+            <Loader className="w-4 h-4 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4" />
+          )}
+          Export XLSX
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-2">
+          <XCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Bucket totals */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {AGING_BUCKETS.map((bucket) => (
+          <div
+            key={bucket}
+            className={`bg-white p-4 rounded-lg shadow border-l-4 ${BUCKET_BORDERS[bucket]}`}
+          >
+            <p className="text-xs font-medium text-gray-600">
+              {AGING_BUCKET_LABELS[bucket]}
+            </p>
+            <p className="text-lg font-bold text-gray-900">
+              {formatCurrency(totals[bucket])}
+            </p>
+          </div>
+        ))}
+        <div className="bg-white p-4 rounded-lg shadow border-l-4 border-gray-700">
+          <p className="text-xs font-medium text-gray-600">Total Outstanding</p>
+          <p className="text-lg font-bold text-gray-900">
+            {formatCurrency(totals.total)}
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            As of
+          </label>
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Group by
+          </label>
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+            {(["company", "vessel"] as AgingGroupBy[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => {
+                  setGroupBy(option);
+                  setExpanded(new Set());
+                }}
+                className={`px-4 py-2 text-sm font-medium transition-colors ${
+                  groupBy === option
+                    ? "bg-blue-600 text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {option === "company" ? "Company" : "Vessel"}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex-1 min-w-[240px] relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search company, vessel or invoice number..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          />
+        </div>
+      </div>
+
+      {/* Aging table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {groups.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No outstanding invoices.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    {groupBy === "company" ? "Company" : "Vessel"}
+                  </th>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <th
+                      key={bucket}
+                      className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase whitespace-nowrap"
+                    >
+                      {AGING_BUCKET_LABELS[bucket]}
+                    </th>
+                  ))}
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Total
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {groups.map((group) => {
+                  const isExpanded = expanded.has(group.key);
+                  return (
+                    <Fragment key={group.key}>
+                      <tr
+                        onClick={() => toggleGroup(group.key)}
+                        className="hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex items-center gap-2">
+                            {isExpanded ? (
+                              <ChevronDown className="w-4 h-4 text-gray-400" />
+                            ) : (
+                              <ChevronRight className="w-4 h-4 text-gray-400" />
+                            )}
+                            <div>
+                              <div className="font-medium text-gray-900">
+                                {group.vesselName ?? group.company}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {group.vesselName && `${group.company} · `}
+                                {group.invoices.length} invoice
+                                {group.invoices.length === 1 ? "" : "s"}
+                              </div>
+                            </div>
+                          </div>
+                        </td>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <td
+                            key={bucket}
+                            className="px-4 py-3 text-sm text-right text-gray-900 whitespace-nowrap"
+                          >
+                            {group.totals[bucket]
+                              ? formatCurrency(group.totals[bucket])
+                              : "-"}
+                          </td>
+                        ))}
+                        <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900 whitespace-nowrap">
+                          {formatCurrency(group.totals.total)}
+                        </td>
+                      </tr>
+                      {isExpanded &&
+                        group.invoices.map((row) => (
+                          <tr
+                            key={row.id}
+                            onClick={() => navigate(`/invoices/${row.id}`)}
+                            className="bg-gray-50 hover:bg-blue-50 cursor-pointer"
+                          >
+                            <td className="pl-12 pr-4 py-2 text-sm">
+                              <div className="text-blue-600 font-medium">
+                                {row.invoiceNumber || `Invoice #${row.id}`}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {groupBy === "company" &&
+                                  `${row.vesselName} · `}
+                                Due {formatDate(row.dueDate)}
+                                {row.dueDateAssumed && " (no due date set)"}
+                                {row.daysOverdue > 0 &&
+                                  ` · ${row.daysOverdue} days overdue`}
+                              </div>
+                            </td>
+                            {AGING_BUCKETS.map((bucket) => (
+                              <td
+                                key={bucket}
+                                className="px-4 py-2 text-sm text-right text-gray-700 whitespace-nowrap"
+                              >
+                                {row.bucket === bucket
+                                  ? formatCurrency(row.outstanding)
+                                  : ""}
+                              </td>
+                            ))}
+                            <td className="px-4 py-2 text-sm text-right text-gray-700 whitespace-nowrap">
+                              {formatCurrency(row.outstanding)}
+                            </td>
+                          </tr>
+                        ))}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+              <tfoot className="bg-gray-100">
+                <tr>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900">
+                    Total
+                  </td>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <td
+                      key={bucket}
+                      className="px-4 py-3 text-sm text-right font-semibold text-gray-900 whitespace-nowrap"
+                    >
+                      {formatCurrency(totals[bucket])}
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-sm text-right font-bold text-gray-900 whitespace-nowrap">
+                    {formatCurrency(totals.total)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { forwardRef } from "react";
+import type { CreditNote, Invoice } from "../../types/invoiceTypes";
+import {
+  describePpnRate,
+  formatTaxRate,
+  getInvoiceTaxSnapshot,
+} from "../../utils/invoiceTax";
+import { CREDIT_NOTE_KIND_LABELS } from "../../utils/creditNotes";
+import { INVOICE_PRINT_STYLES } from "./invoicePrintStyles";
+
+interface CreditNotePrintProps {
+  creditNote: CreditNote;
+  invoice: Invoice;
+}
+
+const CreditNotePrint = forwardRef<HTMLDivElement, CreditNotePrintProps>(
+  ({ creditNote, invoice }, ref) => {
+    const formatDate = (dateString: string | null | undefined) => {
+      if (!dateString) return "-";
+      return new Date(dateString).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      });
+    };
+
+    const formatCurrency = (amount: number) => {
+      return new Intl.NumberFormat("id-ID", {
+        style: "currency",
+        currency: "IDR",
+        minimumFractionDigits: 0,
+      }).format(amount);
+    };
+
+    // Same snapshot the credited invoice was printed with, so the tax
+    // labels on both documents agree.
+    const taxSnapshot = getInvoiceTaxSnapshot(invoice);
+    const lines = creditNote.credit_note_lines || [];
+
+    return (
+      <div ref={ref} className="bg-white text-xs">
+        <style>{INVOICE_PRINT_STYLES}</style>
+
+        <table className="print-table">
+          <thead>
+            <tr>
+              <td>
+                <img src="/images/invoice-header.png" alt="Company Header" />
+              </td>
+            </tr>
+          </thead>
+          <tfoot>
+            <tr>
+              <td>
+                <img src="/images/invoice-footer.png" alt="Company Footer" />
+              </td>
+            </tr>
+          </tfoot>
+          <tbody>
+            {/* Credit Note Title */}
+            <tr>
+              <td>
+                <div className="text-center mb-4 section-block">
+                  <h1 className="text-2xl font-bold text-gray-900">
+                    CREDIT NOTE
+                  </h1>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {creditNote.credit_note_number}
+                  </p>
+                </div>
+              </td>
+            </tr>
+
+            {/* Credit Note Info */}
+            <tr>
+              <td>
+                <table className="w-full text-xs mb-4 section-block">
+                  <tbody>
+                    <tr>
+                      <td className="align-top w-1/2">
+                        <div className="space-y-1">
+                          <div className="flex gap-2">
+                            <span className="text-gray-600 w-32">
+                              Client Company:
+                            </span>
+                            <span className="font-medium">
+                              {invoice.customer_legal_name ||
+                                invoice.company ||
+                                "-"}
+                            </span>
+                          </div>
+                          {invoice.customer_npwp && (
+                            <div className="flex gap-2">
+                              <span className="text-gray-600 w-32">NPWP:</span>
+                              <span className="font-medium">
+                                {invoice.customer_npwp}
+                              </span>
+                            </div>
+                          )}
+                          {invoice.customer_billing_address && (
+                            <div className="flex gap-2">
+                              <span className="text-gray-600 w-32 flex-shrink-0">
+                                Address:
+                              </span>
+                              <span className="font-medium whitespace-pre-line">
+                                {invoice.customer_billing_address}
+                              </span>
+                            </div>
+                          )}
+                          <div className="flex gap-2">
+                            <span className="text-gray-600 w-32">UP:</span>
+                            <span className="font-medium">
+                              {invoice.customer_invoice_recipient || "ACCOUNTING"}
+                            </span>
+                          </div>
+                          <div className="flex gap-2">
+                            <span className="text-gray-600 w-32">
+                              Credit Note Date:
+                            </span>
+                            <span className="font-medium">
+                              {formatDate(creditNote.credit_note_date)}
+                            </span>
+                          </div>
+                          <div className="flex gap-2">
+                            <span className="text-gray-600 w-32">Type:</span>
+                            <span className="font-medium">
+                              {CREDIT_NOTE_KIND_LABELS[creditNote.kind]}
+                            </span>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="align-top w-1/2 text-right">
+                        <div className="space-y-1">
+                          <div className="flex justify-end gap-2">
+                            <span className="text-gray-600">
+                              Original Invoice:
+                            </span>
+                            <span className="font-medium">
+                              {invoice.invoice_number || `#${invoice.id}`}
+                            </span>
+                          </div>
+                          <div className="flex justify-end gap-2">
+                            <span className="text-gray-600">Invoice Date:</span>
+                            <span className="font-medium">
+                              {formatDate(invoice.created_at)}
+                            </span>
+                          </div>
+                          {invoice.faktur_number && (
+                            <div className="flex justify-end gap-2">
+                              <span className="text-gray-600">Faktur:</span>
+                              <span className="font-medium">
+                                {invoice.faktur_number}
+                              </span>
+                            </div>
+                          )}
+                          <div className="flex justify-end gap-2">
+                            <span className="text-gray-600">Vessel Name:</span>
+                            <span className="font-medium">
+                              {invoice.bastp?.vessel?.name || "-"}
+                            </span>
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </td>
+            </tr>
+
+            {/* Reason */}
+            <tr>
+              <td>
+                <div className="mb-4 section-block">
+                  <h3 className="font-semibold text-gray-900 mb-1 text-xs">
+                    Reason:
+                  </h3>
+                  <p className="text-xs text-gray-700 whitespace-pre-wrap border border-gray-300 rounded p-2">
+                    {creditNote.reason}
+                  </p>
+                </div>
+              </td>
+            </tr>
+
+            {/* Credited Lines */}
+            <tr>
+              <td>
+                <div className="mb-4">
+                  <h3 className="font-semibold text-gray-900 mb-2 text-xs">
+                    Credited Items
+                  </h3>
+                  <table className="content-table w-full border-collapse border border-gray-300 text-xs">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="border border-gray-300 px-2 py-1 text-left font-semibold">
+                          No.
+                        </th>
+                        <th className="border border-gray-300 px-2 py-1 text-left font-semibold">
+                          Description
+                        </th>
+                        <th className="border border-gray-300 px-2 py-1 text-right font-semibold">
+                          Credited Amount (IDR)
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lines.map((line, index) => (
+                        <tr key={line.id}>
+                          <td className="border border-gray-300 px-2 py-1">
+                            {index + 1}
+                          </td>
+                          <td className="border border-gray-300 px-2 py-1">
+                            <div className="font-medium">
+                              {line.description || "-"}
+                            </div>
+                            <div className="text-gray-500 mt-0.5">
+                              {line.general_service_id
+                                ? "General service"
+                                : "Work detail"}
+                            </div>
+                          </td>
+                          <td className="border border-gray-300 px-2 py-1 text-right font-medium">
+                            {formatCurrency(Number(line.amount))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </td>
+            </tr>
+
+            {/* Total Calculations */}
+            <tr>
+              <td>
+                <div className="mb-4 section-block">
+                  <table className="w-full border-collapse border border-gray-300 text-xs">
+                    <tbody>
+                      <tr className="bg-blue-50">
+                        <td className="border border-gray-300 px-2 py-2 text-right font-semibold">
+                          Subtotal Credited (Before Tax):
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2 text-right font-bold text-sm">
+                          {formatCurrency(
+                            Number(creditNote.total_price_before),
+                          )}
+                        </td>
+                      </tr>
+                      <tr>
+                        <td className="border border-gray-300 px-2 py-1.5 text-right">
+                          {invoice.ppn_applicable === false
+                            ? "PPN (Not Applied):"
+                            : `${describePpnRate(taxSnapshot)}:`}
+                        </td>
+                        <td className="border border-gray-300 px-2 py-1.5 text-right font-medium">
+                          + {formatCurrency(Number(creditNote.ppn))}
+                        </td>
+                      </tr>
+                      <tr>
+                        <td className="border border-gray-300 px-2 py-1.5 text-right">
+                          {taxSnapshot.pph_23_applicable
+                            ? `PPh 23 (${formatTaxRate(taxSnapshot.pph_23_rate)} - Withholding Tax):`
+                            : "PPh 23 (Exempt):"}
+                        </td>
+                        <td className="border border-gray-300 px-2 py-1.5 text-right font-medium">
+                          - {formatCurrency(Number(creditNote.pph_23))}
+                        </td>
+                      </tr>
+                      <tr className="bg-green-50">
+                        <td className="border border-gray-300 px-2 py-2 text-right font-bold">
+                          Total Credit (After Tax):
+                        </td>
+                        <td className="border border-gray-300 px-2 py-2 text-right font-bold text-base">
+                          {formatCurrency(Number(creditNote.total_price_after))}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                  <p className="text-gray-600 mt-2">
+                    This amount is deducted from invoice{" "}
+                    {invoice.invoice_number || `#${invoice.id}`}
+                    {creditNote.kind === "CANCELLATION" &&
+                      ", which is hereby cancelled"}
+                    .
+                  </p>
+                </div>
+              </td>
+            </tr>
+
+            {/* Signature Section */}
+            <tr>
+              <td>
+                <table className="w-full mt-2 pt-2 border-t border-gray-300 section-block">
+                  <tbody>
+                    <tr>
+                      <td className="align-top w-1/2"></td>
+                      <td className="align-top w-1/2 text-right">
+                        <div className="text-center inline-block">
+                          <p className="font-semibold text-xs mb-0.5">
+                            PT BAROKAH GALANGAN PERKASA
+                          </p>
+                          <div className="h-12 mb-1"></div>
+                          <div className="border-t border-gray-400 pt-1 inline-block min-w-[180px]">
+                            <p className="font-medium text-xs">
+                              KHUSNUL KHOTIMAH
+                            </p>
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </td>
+            </tr>
+
+            {/* Print Date */}
+            <tr>
+              <td>
+                <div className="mt-4 text-center text-xs text-gray-500">
+                  Printed on:{" "}
+                  {new Date().toLocaleDateString("en-US", {
+                    year: "numeric",
+                    month: "long",
+                    day: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </div>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    );
+  },
+);
+
+CreditNotePrint.displayName = "CreditNotePrint";
+
+export default CreditNotePrint;
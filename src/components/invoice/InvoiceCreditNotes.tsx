@@ -0,0 +1,207 @@
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useReactToPrint } from "react-to-print";
+import type { CreditNote, Invoice } from "../../types/invoiceTypes";
+import {
+  CREDIT_NOTE_KIND_LABELS,
+  activeCreditNotes,
+  getCreditableLines,
+  isInvoiceSent,
+} from "../../utils/creditNotes";
+import CreditNotePrint from "./CreditNotePrint";
+import { FileMinus, FileText, Plus, Printer, X } from "lucide-react";
+
+interface InvoiceCreditNotesProps {
+  invoice: Invoice;
+  profilesMap: Record<number, { id: number; name: string; email: string }>;
+  canWrite: boolean;
+}
+
+export default function InvoiceCreditNotes({
+  invoice,
+  profilesMap,
+  canWrite,
+}: InvoiceCreditNotesProps) {
+  const navigate = useNavigate();
+  const printRef = useRef<HTMLDivElement>(null);
+  const [printing, setPrinting] = useState<CreditNote | null>(null);
+
+  const handlePrint = useReactToPrint({
+    contentRef: printRef,
+    documentTitle: `CreditNote-${printing?.credit_note_number || ""}`,
+    pageStyle: `
+    @page {
+      size: A4;
+      margin: 0;
+    }
+    @media print {
+      body {
+        -webkit-print-color-adjust: exact;
+        print-color-adjust: exact;
+      }
+      .no-print {
+        display: none !important;
+      }
+    }
+  `,
+  });
+
+  const creditNotes = activeCreditNotes(invoice).sort(
+    (a, b) =>
+      a.credit_note_date.localeCompare(b.credit_note_date) ||
+      a.created_at.localeCompare(b.created_at),
+  );
+
+  const sent = isInvoiceSent(invoice);
+  const canIssue =
+    canWrite &&
+    sent &&
+    !invoice.cancelled_at &&
+    getCreditableLines(invoice).some((line) => line.remaining > 0);
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+
+  // Nothing to show on a draft invoice that has never had a credit note.
+  if (!sent && creditNotes.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Credit Notes</h2>
+        {canIssue && (
+          <button
+            onClick={() => navigate(`/invoices/${invoice.id}/credit-notes/new`)}
+            className="inline-flex items-center gap-2 px-3 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" /> Issue Credit Note
+          </button>
+        )}
+      </div>
+
+      {creditNotes.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <FileMinus className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+          <p className="text-sm">
+            No credit notes. This invoice has been sent, so corrections and
+            cancellations are made by issuing one.
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Number
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Date
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Type / Reason
+                </th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Total Credit
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Issued By
+                </th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {creditNotes.map((cn) => (
+                <tr key={cn.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900 whitespace-nowrap">
+                    {cn.credit_note_number}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">
+                    {formatDate(cn.credit_note_date)}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    <span
+                      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                        cn.kind === "CANCELLATION"
+                          ? "bg-red-100 text-red-800"
+                          : "bg-orange-100 text-orange-800"
+                      }`}
+                    >
+                      {CREDIT_NOTE_KIND_LABELS[cn.kind]}
+                    </span>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {cn.reason}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium whitespace-nowrap">
+                    {formatCurrency(Number(cn.total_price_after))}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {cn.user_id
+                      ? profilesMap[cn.user_id]?.name || "Unknown"
+                      : "-"}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => setPrinting(cn)}
+                      className="text-purple-600 hover:text-purple-800"
+                      title="Print credit note"
+                    >
+                      <Printer className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Print Preview Modal */}
+      {printing && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 overflow-y-auto">
+          <div className="bg-white rounded-lg max-w-5xl w-full my-8 shadow-2xl">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 sticky top-0 bg-white rounded-t-lg no-print z-10">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <FileText className="w-5 h-5" /> Credit Note Print Preview
+              </h3>
+              <div className="flex gap-2">
+                <button
+                  onClick={handlePrint}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Printer className="w-4 h-4" /> Print
+                </button>
+                <button
+                  onClick={() => setPrinting(null)}
+                  className="text-gray-500 hover:text-gray-700 px-2"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-y-auto max-h-[80vh]">
+              <CreditNotePrint
+                ref={printRef}
+                creditNote={printing}
+                invoice={invoice}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,20 @@ import type { Invoice } from "../../types/invoiceTypes";
 import { useReactToPrint } from "react-to-print";
 import InvoicePrint from "./InvoicePrint";
 import { useAuth } from "../../hooks/useAuth";
+import InvoicePaymentLedger from "./InvoicePaymentLedger";
+import InvoiceCreditNotes from "./InvoiceCreditNotes";
+import {
+  PAYMENT_STATUS_LABELS,
+  summarizeInvoicePayments,
+} from "../../utils/invoicePayments";
+import {
+  calculateInvoiceTaxes,
+  describePpnRate,
+  formatTaxRate,
+  getInvoiceTaxSnapshot,
+  hasDppNilaiLain,
+} from "../../utils/invoiceTax";
+import { isInvoiceSent } from "../../utils/creditNotes";
 import { ActivityLogService } from "../../services/activityLogService";
 import {
   ArrowLeft,
@@ -28,7 +42,7 @@ import {
 export default function InvoiceDetails() {
   const { invoiceId } = useParams<{ invoiceId: string }>();
   const navigate = useNavigate();
-  const { isReadOnly, canAccess } = useAuth();
+  const { profile, isReadOnly, canAccess } = useAuth();
   const canWrite = canAccess("invoices") && !isReadOnly;
 
   const [invoice, setInvoice] = useState<Invoice | null>(null);
@@ -38,15 +52,6 @@ export default function InvoiceDetails() {
     Record<number, { id: number; name: string; email: string }>
   >({});
 
-  // Quick payment-status update (no need to open the edit form just to mark
-  // an invoice paid).
-  const [showMarkPaidForm, setShowMarkPaidForm] = useState(false);
-  const [markPaidDate, setMarkPaidDate] = useState(
-    () => new Date().toISOString().split("T")[0],
-  );
-  const [updatingPayment, setUpdatingPayment] = useState(false);
-  const [paymentError, setPaymentError] = useState<string | null>(null);
-
   // Document viewer states
   const [viewingDocument, setViewingDocument] = useState(false);
   const [documentError, setDocumentError] = useState<string | null>(null);
@@ -55,6 +60,7 @@ export default function InvoiceDetails() {
 
   const printRef = useRef<HTMLDivElement>(null);
   const [showPrintPreview, setShowPrintPreview] = useState(false);
+  const [issuing, setIssuing] = useState(false);
 
   useEffect(() => {
     if (invoiceId) {
@@ -62,9 +68,11 @@ export default function InvoiceDetails() {
     }
   }, [invoiceId]);
 
-  const fetchInvoiceDetails = async () => {
+  // `quiet` refetches after a ledger change without swapping the page for the
+  // loading spinner.
+  const fetchInvoiceDetails = async (quiet = false) => {
     try {
-      setLoading(true);
+      if (!quiet) setLoading(true);
       setError(null);
 
       const { data, error: fetchError } = await supabase
@@ -130,6 +138,43 @@ export default function InvoiceDetails() {
                 customer_wo_number
               )
             )
+          ),
+          invoice_payments (
+            id,
+            created_at,
+            deleted_at,
+            invoice_details_id,
+            entry_type,
+            payment_date,
+            amount,
+            method,
+            reference,
+            withholding_certificate_number,
+            notes,
+            recorded_by
+          ),
+          credit_notes (
+            id,
+            created_at,
+            deleted_at,
+            invoice_details_id,
+            user_id,
+            credit_note_number,
+            credit_note_date,
+            kind,
+            reason,
+            total_price_before,
+            ppn,
+            pph_23,
+            total_price_after,
+            credit_note_lines (
+              id,
+              credit_note_id,
+              invoice_work_details_id,
+              general_service_id,
+              description,
+              amount
+            )
           )
         `,
         )
@@ -183,98 +228,6 @@ export default function InvoiceDetails() {
     }).format(amount);
   };
 
-  const handleConfirmMarkAsPaid = async () => {
-    if (!invoice) return;
-    if (!markPaidDate) {
-      setPaymentError("Please select a payment date");
-      return;
-    }
-
-    try {
-      setUpdatingPayment(true);
-      setPaymentError(null);
-
-      const { error: updateError } = await supabase
-        .from("invoice_details")
-        .update({
-          payment_status: true,
-          payment_date: markPaidDate,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", invoice.id);
-
-      if (updateError) throw updateError;
-
-      await ActivityLogService.logActivity({
-        action: "update",
-        tableName: "invoice_details",
-        recordId: invoice.id,
-        oldData: { payment_status: false, payment_date: invoice.payment_date },
-        newData: { payment_status: true, payment_date: markPaidDate },
-        description: `Marked invoice ${invoice.invoice_number || invoice.id} as paid`,
-      });
-
-      setInvoice({
-        ...invoice,
-        payment_status: true,
-        payment_date: markPaidDate,
-      });
-      setShowMarkPaidForm(false);
-    } catch (err) {
-      console.error("Error marking invoice as paid:", err);
-      setPaymentError(
-        err instanceof Error ? err.message : "Failed to update payment status",
-      );
-    } finally {
-      setUpdatingPayment(false);
-    }
-  };
-
-  const handleMarkAsUnpaid = async () => {
-    if (!invoice) return;
-    if (
-      !window.confirm(
-        "Mark this invoice as unpaid again? This clears the recorded payment date.",
-      )
-    ) {
-      return;
-    }
-
-    try {
-      setUpdatingPayment(true);
-      setPaymentError(null);
-
-      const { error: updateError } = await supabase
-        .from("invoice_details")
-        .update({
-          payment_status: false,
-          payment_date: null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", invoice.id);
-
-      if (updateError) throw updateError;
-
-      await ActivityLogService.logActivity({
-        action: "update",
-        tableName: "invoice_details",
-        recordId: invoice.id,
-        oldData: { payment_status: true, payment_date: invoice.payment_date },
-        newData: { payment_status: false, payment_date: null },
-        description: `Reverted invoice ${invoice.invoice_number || invoice.id} to unpaid`,
-      });
-
-      setInvoice({ ...invoice, payment_status: false, payment_date: null });
-    } catch (err) {
-      console.error("Error reverting invoice to unpaid:", err);
-      setPaymentError(
-        err instanceof Error ? err.message : "Failed to update payment status",
-      );
-    } finally {
-      setUpdatingPayment(false);
-    }
-  };
-
   // Calculate subtotals
   const calculateWorkDetailsTotal = () => {
     return (
@@ -315,6 +268,46 @@ export default function InvoiceDetails() {
   `,
   });
 
+  // Issuing makes the invoice read-only; later changes go through an
+  // amendment on the edit page.
+  const handleIssue = async () => {
+    if (!invoice || !profile) return;
+
+    const confirmed = window.confirm(
+      `Issue invoice ${invoice.invoice_number || invoice.id}? After this it can only be changed through an amendment with a reason.`,
+    );
+    if (!confirmed) return;
+
+    try {
+      setIssuing(true);
+      const issuedAt = new Date().toISOString();
+
+      const { error: issueError } = await supabase
+        .from("invoice_details")
+        .update({ issued_at: issuedAt, issued_by: profile.id })
+        .eq("id", invoice.id)
+        .is("issued_at", null);
+
+      if (issueError) throw issueError;
+
+      await ActivityLogService.logActivity({
+        action: "update",
+        tableName: "invoice_details",
+        recordId: invoice.id,
+        oldData: { issued_at: null },
+        newData: { issued_at: issuedAt },
+        description: `Issued invoice ${invoice.invoice_number || invoice.id}`,
+      });
+
+      await fetchInvoiceDetails(true);
+    } catch (err) {
+      console.error("Error issuing invoice:", err);
+      alert(err instanceof Error ? err.message : "Failed to issue invoice");
+    } finally {
+      setIssuing(false);
+    }
+  };
+
   // View document with modal
   const handleViewDocument = async () => {
     if (!invoice?.bastp?.storage_path) {
@@ -383,6 +376,9 @@ export default function InvoiceDetails() {
     );
   }
 
+  const taxSnapshot = getInvoiceTaxSnapshot(invoice);
+  const payment = summarizeInvoicePayments(invoice, invoice.invoice_payments);
+
   return (
     <div className="p-8 max-w-7xl mx-auto">
       {/* Header */}
@@ -415,12 +411,38 @@ export default function InvoiceDetails() {
           >
             <Printer className="w-4 h-4" /> Print Invoice
           </button>
+          {canWrite && !invoice.issued_at && (
+            <button
+              onClick={handleIssue}
+              disabled={issuing}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {issuing ? (
+                <Loader className="w-4 h-4 animate-spin" />
+              ) : (
+                <Lock className="w-4 h-4" />
+              )}{" "}
+              Issue Invoice
+            </button>
+          )}
           {!isReadOnly && (
             <button
               onClick={() => navigate(`/invoices/edit/${invoice.id}`)}
               className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
             >
-              <Edit className="w-4 h-4" /> Edit Invoice
+              {isInvoiceSent(invoice) ? (
+                <>
+                  <Lock className="w-4 h-4" /> Update Receipt
+                </>
+              ) : invoice.issued_at ? (
+                <>
+                  <Edit className="w-4 h-4" /> Amend Invoice
+                </>
+              ) : (
+                <>
+                  <Edit className="w-4 h-4" /> Edit Invoice
+                </>
+              )}
             </button>
           )}
         </div>
@@ -432,17 +454,28 @@ export default function InvoiceDetails() {
         </div>
       )}
 
+      {invoice.cancelled_at && (
+        <div className="mb-6 bg-gray-100 border border-gray-300 rounded-lg p-4 flex items-center gap-3">
+          <Ban className="w-6 h-6 text-gray-600 flex-shrink-0" />
+          <p className="text-gray-800">
+            <span className="font-semibold">Cancelled</span> by credit note on{" "}
+            {formatDate(invoice.cancelled_at)}. Nothing further is due on this
+            invoice.
+          </p>
+        </div>
+      )}
+
       {/* Payment Status Banner */}
       <div
         className={`rounded-lg p-4 mb-6 ${
-          invoice.payment_status
+          payment.status === "PAID"
             ? "bg-green-50 border border-green-200"
             : "bg-yellow-50 border border-yellow-200"
         }`}
       >
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
-            {invoice.payment_status ? (
+            {payment.status === "PAID" ? (
               <CheckCircle2 className="w-8 h-8 text-green-600" />
             ) : (
               <Clock className="w-8 h-8 text-yellow-600" />
@@ -450,23 +483,34 @@ export default function InvoiceDetails() {
             <div>
               <h3
                 className={`font-semibold ${
-                  invoice.payment_status ? "text-green-900" : "text-yellow-900"
+                  payment.status === "PAID"
+                    ? "text-green-900"
+                    : "text-yellow-900"
                 }`}
               >
-                {invoice.payment_status
+                {payment.status === "PAID"
                   ? "Payment Received"
-                  : "Payment Pending"}
+                  : payment.status === "PARTIALLY_PAID"
+                    ? PAYMENT_STATUS_LABELS.PARTIALLY_PAID
+                    : "Payment Pending"}
               </h3>
-              {invoice.payment_status && invoice.payment_date && (
+              {payment.status === "PAID" && payment.lastPaymentDate && (
                 <p className="text-sm text-green-700">
-                  Paid on {formatDate(invoice.payment_date)}
+                  Settled on {formatDate(payment.lastPaymentDate)}
                 </p>
               )}
-              {!invoice.payment_status && invoice.due_date && (
+              {payment.status !== "PAID" && invoice.due_date && (
                 <p className="text-sm text-yellow-700">
                   Expected payment by {formatDate(invoice.due_date)}
                 </p>
               )}
+              {payment.withholdingOutstanding > 0 &&
+                payment.outstanding === payment.withholdingOutstanding && (
+                  <p className="text-sm text-yellow-700">
+                    Only the PPh 23 withholding certificate is still
+                    outstanding.
+                  </p>
+                )}
             </div>
           </div>
           <div className="text-right">
@@ -477,65 +521,58 @@ export default function InvoiceDetails() {
           </div>
         </div>
 
-        {canWrite && (
-          <div className="mt-4 pt-4 border-t border-black/10">
-            {paymentError && (
-              <p className="text-sm text-red-700 mb-3">{paymentError}</p>
-            )}
-            {invoice.payment_status ? (
-              <button
-                onClick={handleMarkAsUnpaid}
-                disabled={updatingPayment}
-                className="text-sm font-medium text-green-800 hover:text-green-950 underline disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Mark as unpaid (correct a mistake)
-              </button>
-            ) : showMarkPaidForm ? (
-              <div className="flex flex-wrap items-end gap-3">
-                <div>
-                  <label className="block text-xs font-medium text-gray-700 mb-1">
-                    Payment Date
-                  </label>
-                  <input
-                    type="date"
-                    value={markPaidDate}
-                    onChange={(e) => setMarkPaidDate(e.target.value)}
-                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                  />
-                </div>
-                <button
-                  onClick={handleConfirmMarkAsPaid}
-                  disabled={updatingPayment}
-                  className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {updatingPayment && (
-                    <Loader className="w-4 h-4 animate-spin" />
-                  )}
-                  Confirm Paid
-                </button>
-                <button
-                  onClick={() => {
-                    setShowMarkPaidForm(false);
-                    setPaymentError(null);
-                  }}
-                  disabled={updatingPayment}
-                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Cancel
-                </button>
-              </div>
-            ) : (
-              <button
-                onClick={() => setShowMarkPaidForm(true)}
-                className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
-              >
-                <CheckCircle2 className="w-4 h-4" /> Mark as Paid
-              </button>
-            )}
+        <div className="mt-4 pt-4 border-t border-black/10 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-600">Amount Due (incl. PPh 23)</p>
+            <p className="font-semibold text-gray-900">
+              {formatCurrency(payment.amountDue)}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-600">Received</p>
+            <p className="font-semibold text-gray-900">
+              {formatCurrency(payment.paid)}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-600">PPh 23 Withheld</p>
+            <p className="font-semibold text-gray-900">
+              {formatCurrency(payment.withheld)}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-600">Outstanding</p>
+            <p
+              className={`font-semibold ${
+                payment.outstanding > 0 ? "text-red-700" : "text-green-700"
+              }`}
+            >
+              {formatCurrency(payment.outstanding)}
+            </p>
           </div>
+        </div>
+        {payment.credited > 0 && (
+          <p className="mt-3 text-sm text-gray-700">
+            Amount due is after {formatCurrency(payment.credited)} reversed by
+            credit notes.
+          </p>
         )}
       </div>
 
+      <InvoicePaymentLedger
+        invoice={invoice}
+        summary={payment}
+        profilesMap={profilesMap}
+        canWrite={canWrite}
+        onChanged={() => fetchInvoiceDetails(true)}
+      />
+
+      <InvoiceCreditNotes
+        invoice={invoice}
+        profilesMap={profilesMap}
+        canWrite={canWrite}
+      />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content - 2 columns */}
         <div className="lg:col-span-2 space-y-6">
@@ -925,17 +962,42 @@ export default function InvoiceDetails() {
 
               {/* Tax Breakdown */}
               <div className="bg-white/50 rounded-lg p-4 space-y-2">
+                {hasDppNilaiLain(taxSnapshot) && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-gray-700">
+                      DPP Nilai Lain ({taxSnapshot.ppn_dpp_numerator}/
+                      {taxSnapshot.ppn_dpp_denominator} of Subtotal)
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {formatCurrency(
+                        calculateInvoiceTaxes(
+                          invoice.total_price_before || 0,
+                          taxSnapshot,
+                          true,
+                        ).ppnBase,
+                      )}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center text-sm">
                   <span className="text-gray-700">
-                    PPN (11% of Subtotal)
-                    {invoice.ppn_applicable === false && " — Not Applied"}
+                    {describePpnRate(taxSnapshot)}
+                    {invoice.ppn_applicable === false &&
+                      (taxSnapshot.ppn_exemption_reason
+                        ? ` — Exempt (${taxSnapshot.ppn_exemption_reason})`
+                        : " — Not Applied")}
                   </span>
                   <span className="font-medium text-gray-900">
                     {formatCurrency(invoice.ppn || 0)}
                   </span>
                 </div>
                 <div className="flex justify-between items-center text-sm">
-                  <span className="text-gray-700">PPh 23 (2% of Subtotal)</span>
+                  <span className="text-gray-700">
+                    PPh 23 ({formatTaxRate(taxSnapshot.pph_23_rate)} of
+                    Subtotal)
+                    {!taxSnapshot.pph_23_applicable &&
+                      ` — Exempt (${taxSnapshot.pph_23_exemption_reason})`}
+                  </span>
                   <span className="font-medium text-gray-900">
                     {formatCurrency(invoice.pph_23 || 0)}
                   </span>
@@ -970,6 +1032,41 @@ export default function InvoiceDetails() {
               Invoice Information
             </h2>
             <div className="space-y-3">
+              <div>
+                <p className="text-sm text-gray-600">Status</p>
+                <p className="font-medium text-gray-900">
+                  {invoice.cancelled_at
+                    ? "Cancelled"
+                    : isInvoiceSent(invoice)
+                      ? "Sent"
+                      : invoice.issued_at
+                        ? "Issued"
+                        : "Draft"}
+                  {(invoice.revision || 0) > 0 &&
+                    ` · Revision ${invoice.revision}`}
+                </p>
+                {invoice.issued_at && (
+                  <p className="text-xs text-gray-500">
+                    Issued {formatDate(invoice.issued_at)}
+                    {invoice.issued_by &&
+                      profilesMap[invoice.issued_by] &&
+                      ` by ${profilesMap[invoice.issued_by].name}`}
+                  </p>
+                )}
+                {invoice.amended_at && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Last amended {formatDate(invoice.amended_at)}
+                    {invoice.amended_by &&
+                      profilesMap[invoice.amended_by] &&
+                      ` by ${profilesMap[invoice.amended_by].name}`}
+                    {invoice.amendment_reason && (
+                      <span className="block italic">
+                        “{invoice.amendment_reason}”
+                      </span>
+                    )}
+                  </p>
+                )}
+              </div>
               {invoice.invoice_number && (
                 <div>
                   <p className="text-sm text-gray-600">Invoice Number</p>
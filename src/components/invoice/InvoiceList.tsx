@@ -4,6 +4,12 @@ import { supabase } from "../../lib/supabase";
 import type { Invoice } from "../../types/invoiceTypes";
 import type { BASTPWithDetails } from "../../types/bastp.types";
 import { useAuth } from "../../hooks/useAuth";
+import {
+  PAYMENT_STATUS_LABELS,
+  summarizeInvoicePayments,
+  type InvoicePaymentStatus,
+  type InvoicePaymentSummary,
+} from "../../utils/invoicePayments";
 import {
   DollarSign,
   FileText,
@@ -15,8 +21,26 @@ import {
   ExternalLink,
   Download,
   Loader,
+  Wallet,
 } from "lucide-react";
 
+type InvoiceViewMode = "ready-bastp" | "unpaid" | "partial" | "paid";
+
+const VIEW_MODE_STATUS: Record<
+  Exclude<InvoiceViewMode, "ready-bastp">,
+  InvoicePaymentStatus
+> = {
+  unpaid: "UNPAID",
+  partial: "PARTIALLY_PAID",
+  paid: "PAID",
+};
+
+const PAYMENT_STATUS_BADGES: Record<InvoicePaymentStatus, string> = {
+  UNPAID: "bg-red-100 text-red-800",
+  PARTIALLY_PAID: "bg-yellow-100 text-yellow-800",
+  PAID: "bg-green-100 text-green-800",
+};
+
 export default function InvoiceList() {
   const navigate = useNavigate();
   const { isReadOnly } = useAuth();
@@ -28,9 +52,7 @@ export default function InvoiceList() {
 
   // Filter states
   const [searchTerm, setSearchTerm] = useState("");
-  const [viewMode, setViewMode] = useState<"ready-bastp" | "unpaid" | "paid">(
-    "unpaid",
-  );
+  const [viewMode, setViewMode] = useState<InvoiceViewMode>("unpaid");
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
@@ -90,6 +112,12 @@ export default function InvoiceList() {
               quantity,
               uom
             )
+          ),
+          invoice_payments (
+            entry_type,
+            payment_date,
+            amount,
+            deleted_at
           )
         `,
         )
@@ -159,12 +187,29 @@ export default function InvoiceList() {
     setCurrentPage(1);
   }, [searchTerm, viewMode]);
 
+  // Payment state is derived from each invoice's ledger, not the cached
+  // payment_status flag, so partial payments get their own tab.
+  const paymentSummaries = useMemo(
+    () =>
+      new Map<number, InvoicePaymentSummary>(
+        invoices.map((inv) => [
+          inv.id,
+          summarizeInvoicePayments(inv, inv.invoice_payments),
+        ]),
+      ),
+    [invoices],
+  );
+
   // Filtering
   const filteredInvoices = useMemo(() => {
-    // Each tab IS a status filter — "Paid" and "Unpaid" are mutually
-    // exclusive sections rather than one combined list with a dropdown.
-    let filtered = invoices.filter((inv) =>
-      viewMode === "paid" ? inv.payment_status === true : inv.payment_status === false,
+    if (viewMode === "ready-bastp") return [];
+
+    // Each tab IS a status filter — "Unpaid", "Partially Paid" and "Paid"
+    // are mutually exclusive sections rather than one combined list with a
+    // dropdown.
+    let filtered = invoices.filter(
+      (inv) =>
+        paymentSummaries.get(inv.id)?.status === VIEW_MODE_STATUS[viewMode],
     );
 
     // Search filter
@@ -181,7 +226,7 @@ export default function InvoiceList() {
     }
 
     return filtered;
-  }, [invoices, viewMode, searchTerm]);
+  }, [invoices, paymentSummaries, viewMode, searchTerm]);
 
   const filteredBASTPs = useMemo(() => {
     if (!searchTerm) return readyBASTPs;
@@ -204,15 +249,18 @@ export default function InvoiceList() {
   const totalPages = Math.ceil(filteredInvoices.length / itemsPerPage);
 
   // Stats
-  const stats = useMemo(
-    () => ({
+  const stats = useMemo(() => {
+    const countStatus = (status: InvoicePaymentStatus) =>
+      invoices.filter((inv) => paymentSummaries.get(inv.id)?.status === status)
+        .length;
+    return {
       total: invoices.length,
-      paid: invoices.filter((inv) => inv.payment_status).length,
-      unpaid: invoices.filter((inv) => !inv.payment_status).length,
+      paid: countStatus("PAID"),
+      partial: countStatus("PARTIALLY_PAID"),
+      unpaid: countStatus("UNPAID"),
       ready: readyBASTPs.length,
-    }),
-    [invoices, readyBASTPs],
-  );
+    };
+  }, [invoices, paymentSummaries, readyBASTPs]);
 
   const formatDate = (dateString: string | null | undefined) => {
     if (!dateString) return "-";
@@ -315,7 +363,7 @@ export default function InvoiceList() {
       )}
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <div className="bg-white p-4 rounded-lg shadow border-l-4 border-blue-500">
           <p className="text-xs font-medium text-gray-600">Total Invoices</p>
           <p className="text-2xl font-bold text-gray-900">{stats.total}</p>
@@ -324,6 +372,10 @@ export default function InvoiceList() {
           <p className="text-xs font-medium text-gray-600">Paid</p>
           <p className="text-2xl font-bold text-gray-900">{stats.paid}</p>
         </div>
+        <div className="bg-white p-4 rounded-lg shadow border-l-4 border-yellow-500">
+          <p className="text-xs font-medium text-gray-600">Partially Paid</p>
+          <p className="text-2xl font-bold text-gray-900">{stats.partial}</p>
+        </div>
         <div className="bg-white p-4 rounded-lg shadow border-l-4 border-red-500">
           <p className="text-xs font-medium text-gray-600">Unpaid</p>
           <p className="text-2xl font-bold text-gray-900">{stats.unpaid}</p>
@@ -361,6 +413,16 @@ export default function InvoiceList() {
             >
               <DollarSign className="w-4 h-4" /> Unpaid ({stats.unpaid})
             </button>
+            <button
+              onClick={() => setViewMode("partial")}
+              className={`flex items-center gap-2 px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                viewMode === "partial"
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              }`}
+            >
+              <Wallet className="w-4 h-4" /> Partially Paid ({stats.partial})
+            </button>
             <button
               onClick={() => setViewMode("paid")}
               className={`flex items-center gap-2 px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
@@ -386,7 +448,7 @@ export default function InvoiceList() {
         </div>
 
         {/* Content */}
-        {viewMode === "unpaid" || viewMode === "paid" ? (
+        {viewMode !== "ready-bastp" ? (
           <div className="overflow-x-auto">
             {paginatedInvoices.length > 0 ? (
               <>
@@ -417,116 +479,137 @@ export default function InvoiceList() {
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {paginatedInvoices.map((invoice) => (
-                      <tr key={invoice.id} className="hover:bg-gray-50">
-                        <td className="px-6 py-4">
-                          <div className="text-sm">
-                            <div className="font-medium text-gray-900">
-                              {invoice.invoice_number || (
-                                <span className="text-gray-400">
-                                  No invoice #
-                                </span>
+                    {paginatedInvoices.map((invoice) => {
+                      const payment = paymentSummaries.get(invoice.id)!;
+                      return (
+                        <tr key={invoice.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4">
+                            <div className="text-sm">
+                              <div className="font-medium text-gray-900">
+                                {invoice.invoice_number || (
+                                  <span className="text-gray-400">
+                                    No invoice #
+                                  </span>
+                                )}
+                              </div>
+                              {invoice.faktur_number && (
+                                <div className="text-xs text-gray-500">
+                                  Faktur: {invoice.faktur_number}
+                                </div>
                               )}
+                              <div className="text-xs text-gray-500 mt-1">
+                                {invoice.invoice_work_details?.length || 0} work
+                                detail(s)
+                              </div>
                             </div>
-                            {invoice.faktur_number && (
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm">
+                              <div className="font-medium text-gray-900">
+                                {invoice.bastp?.number}
+                              </div>
                               <div className="text-xs text-gray-500">
-                                Faktur: {invoice.faktur_number}
+                                {invoice.bastp?.vessel?.name}
+                              </div>
+                              <div className="text-xs text-gray-400">
+                                {invoice.bastp?.vessel?.company}
                               </div>
-                            )}
-                            <div className="text-xs text-gray-500 mt-1">
-                              {invoice.invoice_work_details?.length || 0} work
-                              detail(s)
                             </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="text-sm">
-                            <div className="font-medium text-gray-900">
-                              {invoice.bastp?.number}
+                          </td>
+                          <td className="px-6 py-4">
+                            {invoice.bastp?.storage_path ? (
+                              <button
+                                onClick={() =>
+                                  handleViewDocument(
+                                    invoice.bastp?.storage_path || null,
+                                    invoice.bastp?.number || "",
+                                  )
+                                }
+                                disabled={viewingDocument}
+                                className="inline-flex items-center gap-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                <FileText className="w-4 h-4" /> View BASTP
+                              </button>
+                            ) : (
+                              <span className="text-xs text-gray-400">
+                                No document
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm space-y-1">
+                              {invoice.due_date && (
+                                <div className="text-xs">
+                                  <span className="text-gray-500">Due:</span>{" "}
+                                  <span className="font-medium">
+                                    {formatDate(invoice.due_date)}
+                                  </span>
+                                </div>
+                              )}
+                              {invoice.collection_date && (
+                                <div className="text-xs text-gray-500">
+                                  Collected:{" "}
+                                  {formatDate(invoice.collection_date)}
+                                </div>
+                              )}
                             </div>
-                            <div className="text-xs text-gray-500">
-                              {invoice.bastp?.vessel?.name}
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm">
+                              <div className="font-bold text-gray-900">
+                                {formatCurrency(invoice.total_price_after || 0)}
+                              </div>
+                              <div className="text-xs text-gray-500 mt-1">
+                                After Tax
+                              </div>
                             </div>
-                            <div className="text-xs text-gray-400">
-                              {invoice.bastp?.vessel?.company}
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="flex flex-col gap-2">
+                              {invoice.cancelled_at ? (
+                                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                                  Cancelled
+                                </span>
+                              ) : (
+                                <span
+                                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${PAYMENT_STATUS_BADGES[payment.status]}`}
+                                >
+                                  {PAYMENT_STATUS_LABELS[payment.status]}
+                                </span>
+                              )}
+                              {payment.credited > 0 && !invoice.cancelled_at && (
+                                <div className="text-xs text-gray-500">
+                                  Credited: {formatCurrency(payment.credited)}
+                                </div>
+                              )}
+                              {payment.status !== "PAID" && (
+                                <div className="text-xs text-gray-700">
+                                  Outstanding:{" "}
+                                  <span className="font-medium">
+                                    {formatCurrency(payment.outstanding)}
+                                  </span>
+                                </div>
+                              )}
+                              {payment.lastPaymentDate && (
+                                <div className="text-xs text-gray-500">
+                                  Last: {formatDate(payment.lastPaymentDate)}
+                                </div>
+                              )}
                             </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          {invoice.bastp?.storage_path ? (
+                          </td>
+                          <td className="px-6 py-4 text-center">
                             <button
                               onClick={() =>
-                                handleViewDocument(
-                                  invoice.bastp?.storage_path || null,
-                                  invoice.bastp?.number || "",
-                                )
+                                navigate(`/invoices/${invoice.id}`)
                               }
-                              disabled={viewingDocument}
-                              className="inline-flex items-center gap-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                              className="flex items-center gap-2 text-blue-600 hover:text-blue-800 text-sm font-medium mx-auto"
                             >
-                              <FileText className="w-4 h-4" /> View BASTP
+                              View Details <ArrowRight className="w-4 h-4" />
                             </button>
-                          ) : (
-                            <span className="text-xs text-gray-400">
-                              No document
-                            </span>
-                          )}
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="text-sm space-y-1">
-                            {invoice.due_date && (
-                              <div className="text-xs">
-                                <span className="text-gray-500">Due:</span>{" "}
-                                <span className="font-medium">
-                                  {formatDate(invoice.due_date)}
-                                </span>
-                              </div>
-                            )}
-                            {invoice.collection_date && (
-                              <div className="text-xs text-gray-500">
-                                Collected: {formatDate(invoice.collection_date)}
-                              </div>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="text-sm">
-                            <div className="font-bold text-gray-900">
-                              {formatCurrency(invoice.total_price_after || 0)}
-                            </div>
-                            <div className="text-xs text-gray-500 mt-1">
-                              After Tax
-                            </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="flex flex-col gap-2">
-                            <span
-                              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                                invoice.payment_status
-                                  ? "bg-green-100 text-green-800"
-                                  : "bg-red-100 text-red-800"
-                              }`}
-                            >
-                              {invoice.payment_status ? "✓ Paid" : "⏳ Unpaid"}
-                            </span>
-                            {invoice.payment_date && (
-                              <div className="text-xs text-gray-500">
-                                {formatDate(invoice.payment_date)}
-                              </div>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 text-center">
-                          <button
-                            onClick={() => navigate(`/invoices/${invoice.id}`)}
-                            className="flex items-center gap-2 text-blue-600 hover:text-blue-800 text-sm font-medium mx-auto"
-                          >
-                            View Details <ArrowRight className="w-4 h-4" />
-                          </button>
-                        </td>
-                      </tr>
-                    ))}
+                          </td>
+                        </tr>
+                      );
+                    })}
                   </tbody>
                 </table>
 
@@ -0,0 +1,469 @@
+import { useState } from "react";
+import { supabase } from "../../lib/supabase";
+import { useAuth } from "../../hooks/useAuth";
+import { ActivityLogService } from "../../services/activityLogService";
+import type { Invoice } from "../../types/invoiceTypes";
+import {
+  PAYMENT_METHOD_LABELS,
+  type InvoicePayment,
+  type InvoicePaymentSummary,
+  type PaymentEntryType,
+  type PaymentMethod,
+} from "../../utils/invoicePayments";
+import { Plus, Loader, Trash2, Receipt, FileCheck } from "lucide-react";
+
+interface InvoicePaymentLedgerProps {
+  invoice: Invoice;
+  summary: InvoicePaymentSummary;
+  profilesMap: Record<number, { id: number; name: string; email: string }>;
+  canWrite: boolean;
+  onChanged: () => void;
+}
+
+interface EntryForm {
+  entry_type: PaymentEntryType;
+  payment_date: string;
+  amount: string;
+  method: PaymentMethod;
+  reference: string;
+  withholding_certificate_number: string;
+  notes: string;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function InvoicePaymentLedger({
+  invoice,
+  summary,
+  profilesMap,
+  canWrite,
+  onChanged,
+}: InvoicePaymentLedgerProps) {
+  const { profile } = useAuth();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<EntryForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const entries = (invoice.invoice_payments || [])
+    .filter((p) => !p.deleted_at)
+    .sort(
+      (a, b) =>
+        a.payment_date.localeCompare(b.payment_date) ||
+        a.created_at.localeCompare(b.created_at),
+    );
+
+  // Cash is expected to cover everything except the PPh 23 the customer
+  // withholds, which is settled by its certificate instead.
+  const suggestedAmount = (entryType: PaymentEntryType) =>
+    entryType === "WITHHOLDING"
+      ? summary.withholdingOutstanding
+      : summary.outstanding - summary.withholdingOutstanding;
+
+  const openForm = (entryType: PaymentEntryType) => {
+    const amount = suggestedAmount(entryType);
+    setForm({
+      entry_type: entryType,
+      payment_date: today(),
+      amount: amount > 0 ? String(amount) : "",
+      method: "BANK_TRANSFER",
+      reference: "",
+      withholding_certificate_number: "",
+      notes: "",
+    });
+    setError(null);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setForm(null);
+    setError(null);
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const amount = Number(form.amount);
+    if (!form.payment_date) {
+      setError("Please select a date");
+      return;
+    }
+    if (!amount || amount <= 0) {
+      setError("Amount must be greater than zero");
+      return;
+    }
+    if (
+      form.entry_type === "WITHHOLDING" &&
+      !form.withholding_certificate_number.trim()
+    ) {
+      setError(
+        "Please enter the withholding certificate (bukti potong) number",
+      );
+      return;
+    }
+    if (
+      amount > summary.outstanding &&
+      !window.confirm(
+        `This ${form.entry_type === "WITHHOLDING" ? "withholding" : "payment"} of ${formatCurrency(amount)} exceeds the outstanding balance of ${formatCurrency(summary.outstanding)}. Record it anyway?`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const isPayment = form.entry_type === "PAYMENT";
+      const payload = {
+        invoice_details_id: invoice.id,
+        entry_type: form.entry_type,
+        payment_date: form.payment_date,
+        amount,
+        method: isPayment ? form.method : null,
+        reference: isPayment ? form.reference.trim() || null : null,
+        withholding_certificate_number: isPayment
+          ? null
+          : form.withholding_certificate_number.trim(),
+        notes: form.notes.trim() || null,
+        recorded_by: profile?.id ?? null,
+      };
+
+      const { data, error: insertError } = await supabase
+        .from("invoice_payments")
+        .insert(payload)
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      await ActivityLogService.logActivity({
+        action: "create",
+        tableName: "invoice_payments",
+        recordId: data.id,
+        newData: data,
+        description: `Recorded ${isPayment ? "payment" : "PPh 23 withholding"} of ${formatCurrency(amount)} on invoice ${invoice.invoice_number || invoice.id}`,
+      });
+
+      closeForm();
+      onChanged();
+    } catch (err) {
+      console.error("Error recording invoice payment:", err);
+      setError(err instanceof Error ? err.message : "Failed to record payment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (entry: InvoicePayment) => {
+    const label =
+      entry.entry_type === "WITHHOLDING" ? "withholding" : "payment";
+    if (
+      !window.confirm(
+        `Remove the ${label} of ${formatCurrency(entry.amount)} dated ${formatDate(entry.payment_date)}? The outstanding balance will be recalculated.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from("invoice_payments")
+        .update({
+          deleted_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", entry.id);
+
+      if (updateError) throw updateError;
+
+      await ActivityLogService.logActivity({
+        action: "delete",
+        tableName: "invoice_payments",
+        recordId: entry.id,
+        oldData: entry,
+        description: `Removed ${label} of ${formatCurrency(entry.amount)} from invoice ${invoice.invoice_number || invoice.id}`,
+      });
+
+      onChanged();
+    } catch (err) {
+      console.error("Error removing invoice payment:", err);
+      setError(err instanceof Error ? err.message : "Failed to remove payment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm";
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Payment Ledger</h2>
+        {canWrite && !showForm && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => openForm("PAYMENT")}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" /> Record Payment
+            </button>
+            {Number(invoice.pph_23 || 0) > 0 && (
+              <button
+                onClick={() => openForm("WITHHOLDING")}
+                className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+              >
+                <FileCheck className="w-4 h-4" /> Record PPh 23 Certificate
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-700 mb-3">{error}</p>}
+
+      {showForm && form && (
+        <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">
+            {form.entry_type === "PAYMENT"
+              ? "Record Payment"
+              : "Record PPh 23 Withholding"}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Date <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                value={form.payment_date}
+                onChange={(e) =>
+                  setForm({ ...form, payment_date: e.target.value })
+                }
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Amount (IDR) <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            {form.entry_type === "PAYMENT" ? (
+              <>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Method
+                  </label>
+                  <select
+                    value={form.method}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        method: e.target.value as PaymentMethod,
+                      })
+                    }
+                    className={inputClass}
+                  >
+                    {(
+                      Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]
+                    ).map((method) => (
+                      <option key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Reference
+                  </label>
+                  <input
+                    type="text"
+                    value={form.reference}
+                    onChange={(e) =>
+                      setForm({ ...form, reference: e.target.value })
+                    }
+                    placeholder="Bank / giro / cheque reference"
+                    className={inputClass}
+                  />
+                </div>
+              </>
+            ) : (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  Certificate Number <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={form.withholding_certificate_number}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      withholding_certificate_number: e.target.value,
+                    })
+                  }
+                  placeholder="Bukti potong PPh 23 number"
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <button
+              onClick={closeForm}
+              disabled={saving}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-white transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving && <Loader className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <Receipt className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+          <p className="text-sm">No payments recorded yet.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Date
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Type
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Method / Reference
+                </th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Amount
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Recorded By
+                </th>
+                {canWrite && <th className="px-4 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {entries.map((entry) => (
+                <tr key={entry.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">
+                    {formatDate(entry.payment_date)}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {entry.entry_type === "PAYMENT" ? (
+                      <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Payment
+                      </span>
+                    ) : (
+                      <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                        PPh 23 Withholding
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {entry.entry_type === "PAYMENT" ? (
+                      <>
+                        {entry.method
+                          ? PAYMENT_METHOD_LABELS[entry.method]
+                          : "-"}
+                        {entry.reference && (
+                          <div className="text-xs text-gray-500">
+                            {entry.reference}
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        {entry.withholding_certificate_number || (
+                          <span className="text-yellow-700">
+                            Certificate number not recorded
+                          </span>
+                        )}
+                      </>
+                    )}
+                    {entry.notes && (
+                      <div className="text-xs text-gray-500 italic">
+                        {entry.notes}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium whitespace-nowrap">
+                    {formatCurrency(entry.amount)}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {entry.recorded_by
+                      ? profilesMap[entry.recorded_by]?.name || "Unknown"
+                      : "-"}
+                  </td>
+                  {canWrite && (
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleRemove(entry)}
+                        disabled={saving}
+                        className="text-red-600 hover:text-red-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Remove entry"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,14 @@
 import { forwardRef } from "react";
 import type { Invoice } from "../../types/invoiceTypes";
 import { CheckCircle2 } from "lucide-react";
+import {
+  calculateInvoiceTaxes,
+  describePpnRate,
+  formatTaxRate,
+  getInvoiceTaxSnapshot,
+  hasDppNilaiLain,
+} from "../../utils/invoiceTax";
+import { INVOICE_PRINT_STYLES } from "./invoicePrintStyles";
 
 interface InvoicePrintProps {
   invoice: Invoice;
@@ -43,130 +51,13 @@ const InvoicePrint = forwardRef<HTMLDivElement, InvoicePrintProps>(
       );
     };
 
+    // Labels come from the rates stored on the invoice, not the current
+    // tax tables, so a reprint matches the original.
+    const taxSnapshot = getInvoiceTaxSnapshot(invoice);
+
     return (
       <div ref={ref} className="bg-white text-xs">
-        <style>
-          {`
-            @media print {
-              html, body {
-                margin: 0;
-                padding: 0;
-              }
-              
-              @page {
-                size: A4;
-                margin: 6mm;
-              }
-              
-              /* Main wrapper table */
-              .print-table {
-                width: 100%;
-                border-collapse: collapse;
-              }
-              
-              /* Header repeats on every page */
-              .print-table thead {
-                display: table-header-group;
-              }
-
-              .print-table thead td {
-                padding: 0 6mm;
-                vertical-align: top;
-              }
-
-              .print-table thead img {
-                width: 100%;
-                height: auto;
-                max-height: 35mm;
-                object-fit: contain;
-                object-position: top center;
-                display: block;
-              }
-
-              /* Footer repeats on every page */
-              .print-table tfoot {
-                display: table-footer-group;
-              }
-
-              .print-table tfoot td {
-                padding: 0 6mm;
-                vertical-align: bottom;
-              }
-
-              .print-table tfoot img {
-                width: 100%;
-                height: auto;
-                max-height: 20mm;
-                object-fit: contain;
-                object-position: bottom center;
-                display: block;
-              }
-
-              /* Body content */
-              .print-table tbody {
-                display: table-row-group;
-              }
-              
-              .print-table tbody > tr {
-                page-break-inside: avoid;
-                break-inside: avoid;
-              }
-              
-              .print-table tbody td {
-                padding: 2mm 6mm;
-                vertical-align: top;
-              }
-              
-              /* Inner tables */
-              .content-table {
-                width: 100%;
-                border-collapse: collapse;
-              }
-              
-              .content-table thead {
-                display: table-header-group;
-              }
-              
-              .content-table tbody tr {
-                page-break-inside: avoid;
-                break-inside: avoid;
-              }
-              
-              .section-block {
-                page-break-inside: avoid;
-                break-inside: avoid;
-              }
-            }
-            
-            @media screen {
-              .print-table {
-                width: 100%;
-              }
-              
-              .print-table thead td {
-                padding: 0 1.5rem;
-              }
-              
-              .print-table thead img {
-                width: 100%;
-                height: auto;
-                max-height: 35mm;
-                margin-bottom: 1rem;
-              }
-
-              .print-table tfoot img {
-                width: 100%;
-                height: auto;
-                max-height: 20mm;
-                margin-top: 1rem;
-              }
-
-              .print-table tbody td {
-                padding: 0.5rem 1.5rem;
-              }
-            }
-          `}
-        </style>
+        <style>{INVOICE_PRINT_STYLES}</style>
 
         {/* Main table structure - thead repeats on every page */}
         <table className="print-table">
@@ -192,6 +83,7 @@ const InvoicePrint = forwardRef<HTMLDivElement, InvoicePrintProps>(
                   <h1 className="text-2xl font-bold text-gray-900">INVOICE</h1>
                   <p className="text-sm text-gray-600 mt-1">
                     {invoice.invoice_number || "Draft Invoice"}
+                    {(invoice.revision || 0) > 0 && ` · Rev. ${invoice.revision}`}
                   </p>
                 </div>
               </td>
@@ -214,12 +106,34 @@ const InvoicePrint = forwardRef<HTMLDivElement, InvoicePrintProps>(
                               Client Company:
                             </span>
                             <span className="font-medium">
-                              {invoice.company || "-"}
+                              {invoice.customer_legal_name ||
+                                invoice.company ||
+                                "-"}
                             </span>
                           </div>
+                          {invoice.customer_npwp && (
+                            <div className="flex gap-2">
+                              <span className="text-gray-600 w-32">NPWP:</span>
+                              <span className="font-medium">
+                                {invoice.customer_npwp}
+                              </span>
+                            </div>
+                          )}
+                          {invoice.customer_billing_address && (
+                            <div className="flex gap-2">
+                              <span className="text-gray-600 w-32 flex-shrink-0">
+                                Address:
+                              </span>
+                              <span className="font-medium whitespace-pre-line">
+                                {invoice.customer_billing_address}
+                              </span>
+                            </div>
+                          )}
                           <div className="flex gap-2">
                             <span className="text-gray-600 w-32">UP:</span>
-                            <span className="font-medium">ACCOUNTING</span>
+                            <span className="font-medium">
+                              {invoice.customer_invoice_recipient || "ACCOUNTING"}
+                            </span>
                           </div>
                           <div className="flex gap-2">
                             <span className="text-gray-600 w-32">
@@ -443,11 +357,30 @@ const InvoicePrint = forwardRef<HTMLDivElement, InvoicePrintProps>(
                           {formatCurrency(invoice.total_price_before || 0)}
                         </td>
                       </tr>
+                      {hasDppNilaiLain(taxSnapshot) && (
+                        <tr>
+                          <td className="border border-gray-300 px-2 py-1.5 text-right">
+                            DPP Nilai Lain ({taxSnapshot.ppn_dpp_numerator}/
+                            {taxSnapshot.ppn_dpp_denominator}):
+                          </td>
+                          <td className="border border-gray-300 px-2 py-1.5 text-right font-medium">
+                            {formatCurrency(
+                              calculateInvoiceTaxes(
+                                invoice.total_price_before || 0,
+                                taxSnapshot,
+                                true,
+                              ).ppnBase,
+                            )}
+                          </td>
+                        </tr>
+                      )}
                       <tr>
                         <td className="border border-gray-300 px-2 py-1.5 text-right">
                           {invoice.ppn_applicable === false
-                            ? "PPN (Not Applied):"
-                            : "PPN (11%):"}
+                            ? taxSnapshot.ppn_exemption_reason
+                              ? "PPN (Exempt):"
+                              : "PPN (Not Applied):"
+                            : `${describePpnRate(taxSnapshot)}:`}
                         </td>
                         <td className="border border-gray-300 px-2 py-1.5 text-right font-medium">
                           + {formatCurrency(invoice.ppn || 0)}
@@ -455,7 +388,9 @@ const InvoicePrint = forwardRef<HTMLDivElement, InvoicePrintProps>(
                       </tr>
                       <tr>
                         <td className="border border-gray-300 px-2 py-1.5 text-right">
-                          PPh 23 (2% - Withholding Tax):
+                          {taxSnapshot.pph_23_applicable
+                            ? `PPh 23 (${formatTaxRate(taxSnapshot.pph_23_rate)} - Withholding Tax):`
+                            : "PPh 23 (Exempt):"}
                         </td>
                         <td className="border border-gray-300 px-2 py-1.5 text-right font-medium">
                           - {formatCurrency(invoice.pph_23 || 0)}
@@ -475,8 +410,23 @@ const InvoicePrint = forwardRef<HTMLDivElement, InvoicePrintProps>(
               </td>
             </tr>
 
+            {/* Cancellation */}
+            {invoice.cancelled_at && (
+              <tr>
+                <td>
+                  <div className="bg-gray-100 border border-gray-300 rounded p-3 mb-4 text-xs section-block">
+                    <p className="font-semibold text-gray-900">CANCELLED</p>
+                    <p className="text-gray-700">
+                      Cancelled by credit note on{" "}
+                      {formatDate(invoice.cancelled_at)}.
+                    </p>
+                  </div>
+                </td>
+              </tr>
+            )}
+
             {/* Payment Status */}
-            {invoice.payment_status && (
+            {invoice.payment_status && !invoice.cancelled_at && (
               <tr>
                 <td>
                   <div className="bg-green-50 border border-green-200 rounded p-3 mb-4 text-xs section-block">
@@ -0,0 +1,650 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "../../lib/supabase";
+import { useAuth } from "../../hooks/useAuth";
+import type { CreditNoteKind, Invoice } from "../../types/invoiceTypes";
+import { ActivityLogService } from "../../services/activityLogService";
+import {
+  reserveCreditNoteNumber,
+  suggestCreditNoteNumber,
+} from "../../utils/creditNoteNumbering";
+import {
+  describeTakenNumber,
+  releaseSequentialNumber,
+  type DocumentNumberReservation,
+} from "../../utils/documentNumbering";
+import {
+  CREDIT_NOTE_KIND_LABELS,
+  calculateCreditNoteTaxes,
+  getCreditableLines,
+  isInvoiceSent,
+} from "../../utils/creditNotes";
+import { describePpnRate, getInvoiceTaxSnapshot } from "../../utils/invoiceTax";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  Loader,
+  Lock,
+  Save,
+} from "lucide-react";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function ManageCreditNote() {
+  const { invoiceId } = useParams<{ invoiceId: string }>();
+  const navigate = useNavigate();
+  const { profile, isReadOnly, canAccess } = useAuth();
+  const canWrite = canAccess("invoices") && !isReadOnly;
+
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [creditNoteDate, setCreditNoteDate] = useState(today());
+  const [creditNoteNumber, setCreditNoteNumber] = useState("");
+  const [kind, setKind] = useState<CreditNoteKind>("PARTIAL");
+  const [reason, setReason] = useState("");
+  // Amount to credit per creditable line key; a missing key means the line
+  // isn't selected.
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (invoiceId) fetchInvoice();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [invoiceId]);
+
+  // Preview only — the real number is reserved on save, from the same date.
+  useEffect(() => {
+    if (!creditNoteDate) return;
+
+    let cancelled = false;
+    suggestCreditNoteNumber(creditNoteDate)
+      .then((number) => {
+        if (!cancelled) setCreditNoteNumber(number);
+      })
+      .catch((err) => {
+        console.error("Error suggesting credit note number:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [creditNoteDate]);
+
+  const fetchInvoice = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from("invoice_details")
+        .select(
+          `
+          *,
+          bastp:bastp_id (
+            id,
+            number,
+            vessel:vessel_id ( id, name, company ),
+            general_services (
+              id,
+              service_type_id,
+              payment_price,
+              service_type:service_type_id ( id, service_name, display_order )
+            )
+          ),
+          invoice_work_details (
+            id,
+            work_details_id,
+            unit_price,
+            payment_price,
+            work_details:work_details_id ( id, description )
+          ),
+          credit_notes (
+            id,
+            created_at,
+            deleted_at,
+            kind,
+            ppn,
+            pph_23,
+            total_price_after,
+            credit_note_lines (
+              id,
+              invoice_work_details_id,
+              general_service_id,
+              amount
+            )
+          )
+        `,
+        )
+        .eq("id", invoiceId)
+        .is("deleted_at", null)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      setInvoice(data);
+    } catch (err) {
+      console.error("Error fetching invoice:", err);
+      setError(err instanceof Error ? err.message : "Failed to load invoice");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const lines = invoice ? getCreditableLines(invoice) : [];
+  const openLines = lines.filter((line) => line.remaining > 0);
+
+  // A cancellation always reverses everything still open, so its lines
+  // aren't editable.
+  const selectedLines =
+    kind === "CANCELLATION"
+      ? openLines.map((line) => ({ line, amount: line.remaining }))
+      : openLines
+          .filter((line) => amounts[line.key] !== undefined)
+          .map((line) => ({ line, amount: Number(amounts[line.key]) || 0 }));
+
+  const subtotal = selectedLines.reduce((sum, item) => sum + item.amount, 0);
+  const taxes = invoice
+    ? calculateCreditNoteTaxes(invoice, subtotal, kind)
+    : null;
+
+  const toggleLine = (key: string, remaining: number) => {
+    setAmounts((prev) => {
+      const next = { ...prev };
+      if (next[key] !== undefined) {
+        delete next[key];
+      } else {
+        next[key] = String(remaining);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invoice || !taxes) return;
+
+    if (!canWrite) {
+      setError("You don't have permission to issue credit notes.");
+      return;
+    }
+
+    if (!profile) {
+      setError("User not authenticated");
+      return;
+    }
+
+    if (!creditNoteDate) {
+      setError("Please select the credit note date");
+      return;
+    }
+
+    if (!reason.trim()) {
+      setError("Please enter the reason for this credit note");
+      return;
+    }
+
+    if (selectedLines.length === 0) {
+      setError("Select at least one invoice line to credit");
+      return;
+    }
+
+    const overCredited = selectedLines.find(
+      (item) => item.amount <= 0 || item.amount > item.line.remaining,
+    );
+    if (overCredited) {
+      setError(
+        `The amount for "${overCredited.line.description}" must be between 1 and ${formatCurrency(overCredited.line.remaining)}.`,
+      );
+      return;
+    }
+
+    if (
+      kind === "CANCELLATION" &&
+      !window.confirm(
+        `This cancels invoice ${invoice.invoice_number || invoice.id} and credits ${formatCurrency(taxes.totalAfter)}. Credit notes can't be edited once issued. Continue?`,
+      )
+    ) {
+      return;
+    }
+
+    let numberReservation: DocumentNumberReservation | null = null;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      numberReservation = await reserveCreditNoteNumber(creditNoteDate);
+      const takenNumberNotice = describeTakenNumber(
+        "Credit note",
+        creditNoteNumber,
+        numberReservation,
+      );
+
+      const { data: creditNote, error: insertError } = await supabase
+        .from("credit_notes")
+        .insert({
+          invoice_details_id: invoice.id,
+          user_id: profile.id,
+          credit_note_number: numberReservation.documentNumber,
+          credit_note_date: creditNoteDate,
+          kind,
+          reason: reason.trim(),
+          total_price_before: subtotal,
+          ppn: taxes.ppn,
+          pph_23: taxes.pph23,
+          total_price_after: taxes.totalAfter,
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+      numberReservation = null;
+
+      const { error: linesError } = await supabase
+        .from("credit_note_lines")
+        .insert(
+          selectedLines.map(({ line, amount }) => ({
+            credit_note_id: creditNote.id,
+            invoice_work_details_id: line.invoice_work_details_id,
+            general_service_id: line.general_service_id,
+            description: line.description,
+            amount,
+          })),
+        );
+
+      if (linesError) {
+        // Void the header so a credit note without lines doesn't go on
+        // reducing the invoice — its number stays used, as a gap.
+        await supabase
+          .from("credit_notes")
+          .update({ deleted_at: new Date().toISOString() })
+          .eq("id", creditNote.id);
+        throw linesError;
+      }
+
+      await ActivityLogService.logActivity({
+        action: "create",
+        tableName: "credit_notes",
+        recordId: creditNote.id,
+        newData: {
+          ...creditNote,
+          lines: selectedLines.map(({ line, amount }) => ({
+            description: line.description,
+            amount,
+          })),
+        },
+        description: `Issued ${CREDIT_NOTE_KIND_LABELS[kind].toLowerCase()} credit note ${creditNote.credit_note_number} for ${formatCurrency(taxes.totalAfter)} against invoice ${invoice.invoice_number || invoice.id}`,
+      });
+
+      if (takenNumberNotice) {
+        alert(takenNumberNotice);
+      }
+
+      setSuccess("✅ Credit note issued successfully!");
+      setTimeout(() => navigate(`/invoices/${invoice.id}`), 1500);
+    } catch (err) {
+      console.error("Error issuing credit note:", err);
+      await releaseSequentialNumber(numberReservation);
+      setError(
+        err instanceof Error ? err.message : "Failed to issue credit note",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8">
+        <div className="flex items-center justify-center h-64">
+          <Loader className="w-12 h-12 text-blue-600 animate-spin" />
+          <span className="ml-3 text-gray-600">Loading invoice...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const backToInvoice = (
+    <button
+      onClick={() =>
+        navigate(invoiceId ? `/invoices/${invoiceId}` : "/invoices")
+      }
+      className="text-blue-600 hover:text-blue-800 mb-4 flex items-center gap-2"
+    >
+      <ArrowLeft className="w-4 h-4" /> Back to Invoice
+    </button>
+  );
+
+  if (!canWrite) {
+    return (
+      <div className="p-8">
+        {backToInvoice}
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 flex items-start gap-3">
+          <Lock className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+          <div>
+            <p className="text-yellow-900 font-medium">
+              You don't have permission to issue credit notes.
+            </p>
+            <p className="text-sm text-yellow-700 mt-1">
+              {isReadOnly
+                ? "Your role has view-only access to invoices."
+                : "Your role doesn't have access to invoices."}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <div className="p-8">
+        {backToInvoice}
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <h3 className="text-red-800 font-medium text-lg">Error</h3>
+          <p className="text-red-600 mt-2">{error || "Invoice not found"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const blockedReason = !isInvoiceSent(invoice)
+    ? "This invoice hasn't been sent to the customer yet — edit it directly instead of issuing a credit note."
+    : invoice.cancelled_at
+      ? "This invoice has already been cancelled."
+      : openLines.length === 0
+        ? "Every line on this invoice has already been fully credited."
+        : null;
+
+  if (blockedReason) {
+    return (
+      <div className="p-8">
+        {backToInvoice}
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 flex items-start gap-3">
+          <Lock className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+          <p className="text-yellow-900 font-medium">{blockedReason}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const taxSnapshot = getInvoiceTaxSnapshot(invoice);
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="mb-6">
+        {backToInvoice}
+        <h1 className="text-3xl font-bold text-gray-900">Issue Credit Note</h1>
+        <p className="text-gray-600 mt-2">
+          Against invoice {invoice.invoice_number || `#${invoice.id}`}
+          {invoice.bastp?.vessel?.name && ` · ${invoice.bastp.vessel.name}`}
+        </p>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-center">
+            <AlertTriangle className="w-5 h-5 text-red-600 mr-2" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4">
+          <div className="flex items-center">
+            <CheckCircle2 className="w-5 h-5 text-green-600 mr-2" />
+            <p className="text-green-700 font-medium">{success}</p>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Credit Note
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Credit Note Number
+              </label>
+              <input
+                type="text"
+                value={creditNoteNumber}
+                readOnly
+                className={`${inputClass} bg-gray-50 text-gray-700`}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Reserved when you save — if someone else takes it first, the
+                next free number is used.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Credit Note Date <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                value={creditNoteDate}
+                onChange={(e) => setCreditNoteDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Type
+              </label>
+              <div className="flex gap-6">
+                {(["PARTIAL", "CANCELLATION"] as CreditNoteKind[]).map(
+                  (option) => (
+                    <label
+                      key={option}
+                      className="flex items-center gap-2 text-sm text-gray-800"
+                    >
+                      <input
+                        type="radio"
+                        name="kind"
+                        checked={kind === option}
+                        onChange={() => setKind(option)}
+                      />
+                      {CREDIT_NOTE_KIND_LABELS[option]}
+                    </label>
+                  ),
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {kind === "CANCELLATION"
+                  ? "Reverses everything still uncredited on the invoice and marks it cancelled."
+                  : "Reverses the amounts you select below; the rest of the invoice stays due."}
+              </p>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reason <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                className={inputClass}
+                placeholder="Why is this invoice being corrected or cancelled?"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Lines to Credit
+            </h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3" />
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Description
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Invoiced
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Already Credited
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Credit Amount
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {lines.map((line) => {
+                  const open = line.remaining > 0;
+                  const selected =
+                    open &&
+                    (kind === "CANCELLATION" ||
+                      amounts[line.key] !== undefined);
+                  return (
+                    <tr
+                      key={line.key}
+                      className={open ? "hover:bg-gray-50" : "bg-gray-50"}
+                    >
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selected}
+                          disabled={!open || kind === "CANCELLATION"}
+                          onChange={() => toggleLine(line.key, line.remaining)}
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">
+                          {line.description}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {line.general_service_id
+                            ? "General service"
+                            : "Work detail"}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900 whitespace-nowrap">
+                        {formatCurrency(line.invoiced)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-500 whitespace-nowrap">
+                        {line.credited > 0
+                          ? formatCurrency(line.credited)
+                          : "-"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {!open ? (
+                          <span className="text-xs text-gray-500">
+                            Fully credited
+                          </span>
+                        ) : kind === "CANCELLATION" ? (
+                          <span className="text-sm font-medium text-gray-900">
+                            {formatCurrency(line.remaining)}
+                          </span>
+                        ) : (
+                          <input
+                            type="number"
+                            min="0"
+                            max={line.remaining}
+                            step="0.01"
+                            value={amounts[line.key] ?? ""}
+                            disabled={!selected}
+                            onChange={(e) =>
+                              setAmounts({
+                                ...amounts,
+                                [line.key]: e.target.value,
+                              })
+                            }
+                            className="w-40 px-2 py-1 border border-gray-300 rounded text-right text-sm disabled:bg-gray-100"
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {taxes && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="space-y-2 text-sm max-w-md ml-auto">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Subtotal Credited</span>
+                <span className="font-medium">{formatCurrency(subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">
+                  {invoice.ppn_applicable === false
+                    ? "PPN (Not Applied)"
+                    : describePpnRate(taxSnapshot)}
+                </span>
+                <span className="font-medium">
+                  + {formatCurrency(taxes.ppn)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">PPh 23</span>
+                <span className="font-medium">
+                  - {formatCurrency(taxes.pph23)}
+                </span>
+              </div>
+              <div className="flex justify-between pt-2 border-t border-gray-200">
+                <span className="font-semibold text-gray-900">
+                  Total Credit (After Tax)
+                </span>
+                <span className="font-bold text-gray-900">
+                  {formatCurrency(taxes.totalAfter)}
+                </span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => navigate(`/invoices/${invoice.id}`)}
+            disabled={saving}
+            className="px-6 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || subtotal <= 0}
+            className="inline-flex items-center gap-2 px-6 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? (
+              <Loader className="w-4 h-4 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4" />
+            )}
+            Issue Credit Note
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
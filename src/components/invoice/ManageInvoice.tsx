@@ -4,8 +4,38 @@ import { supabase } from "../../lib/supabase";
 import { useAuth } from "../../hooks/useAuth";
 import type { BASTPWithDetails } from "../../types/bastp.types";
 import type { Invoice } from "../../types/invoiceTypes";
+import type { Customer } from "../../types/customer.types";
 import { ActivityLogService } from "../../services/activityLogService";
-import { suggestInvoiceNumber } from "../../utils/invoiceNumbering";
+import {
+  reserveInvoiceNumber,
+  suggestInvoiceNumber,
+} from "../../utils/invoiceNumbering";
+import {
+  describeTakenNumber,
+  releaseSequentialNumber,
+  type DocumentNumberReservation,
+} from "../../utils/documentNumbering";
+import {
+  calculateInvoiceTaxes,
+  describePpnRate,
+  formatTaxRate,
+  getInvoiceTaxSnapshot,
+  hasDppNilaiLain,
+  resolveInvoiceTaxSnapshot,
+  type InvoiceTaxSnapshot,
+} from "../../utils/invoiceTax";
+import {
+  buildInvoiceAuditSnapshot,
+  isReceiptOnlyChange,
+  pickInvoiceFields,
+} from "../../utils/invoiceAmendments";
+import { resolveGeneralServicePrices } from "../../utils/generalServicePrices";
+import {
+  buildInvoiceCustomerSnapshot,
+  dueDateFromTerms,
+  fetchCustomers,
+  type InvoiceCustomerSnapshot,
+} from "../../utils/customers";
 import {
   AlertTriangle,
   CheckCircle2,
@@ -78,8 +108,6 @@ export default function ManageInvoice() {
     delivery_date: "",
     collection_date: "",
     receiver_name: "",
-    payment_status: false,
-    payment_date: "",
     remarks: "",
     ppn_applicable: true,
   });
@@ -91,19 +119,79 @@ export default function ManageInvoice() {
   const [generalServicePrices, setGeneralServicePrices] = useState<
     GeneralServicePrice[]
   >([]);
-
-  // Once an invoice is marked paid, pricing shouldn't silently drift away
-  // from the amount actually collected. Keyed off the live checkbox (not the
-  // originally-loaded value) so unchecking "Mark as Paid" first — to
-  // correct a mistake — deliberately unlocks pricing again.
-  const pricingLocked = isEditMode && formData.payment_status;
-  // Submitting should only be blocked when re-saving an invoice that was
-  // ALREADY paid when the page loaded (guards against silently re-pricing a
-  // settled invoice). Gating this on the live checkbox instead — as
-  // pricingLocked does — made the unpaid -> paid transition itself
-  // unsavable, since checking the box disabled Save before it could persist.
-  const wasPaidOnLoad = isEditMode && existingInvoice?.payment_status === true;
-  const blockResubmitAsPaid = wasPaidOnLoad && formData.payment_status;
+  // Price-list price per service type on the BASTP date, shown next to
+  // each service's price input
+  const [listServicePrices, setListServicePrices] = useState<
+    Record<number, number>
+  >({});
+
+  const [taxSnapshot, setTaxSnapshot] = useState<InvoiceTaxSnapshot | null>(
+    null,
+  );
+  const [taxError, setTaxError] = useState<string | null>(null);
+
+  // Billed customer; "" bills the free-text company with no customer record
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerId, setCustomerId] = useState("");
+
+  // Once any payment is recorded against an invoice, pricing shouldn't
+  // silently drift away from the amount being collected. Payments are
+  // managed from the invoice's ledger on InvoiceDetails; removing every
+  // ledger entry there — to correct a mistake — unlocks pricing again.
+  const hasRecordedPayments =
+    isEditMode &&
+    (existingInvoice?.invoice_payments || []).some((p) => !p.deleted_at);
+  const pricingLocked = hasRecordedPayments;
+
+  // Once the invoice has gone out (Delivery Date saved) the database
+  // freezes it — corrections go through a credit note from the invoice
+  // page. Only the customer's receipt details can still be filled in.
+  const isSent = isEditMode && !!existingInvoice?.delivery_date;
+
+  // An issued invoice is read-only here until an amendment is started; the
+  // amendment needs a reason and saves as the next revision. Its delivery
+  // and receipt details can still be recorded without one.
+  const isIssued = isEditMode && !!existingInvoice?.issued_at;
+  const [amending, setAmending] = useState(false);
+  const [amendmentReason, setAmendmentReason] = useState("");
+  const formLocked = isIssued && !amending;
+
+  const selectedCustomer =
+    customers.find((c) => String(c.id) === customerId) || null;
+  // Billing details are copied onto the invoice when it's saved. An issued
+  // invoice keeps the details it was issued with unless the amendment bills
+  // a different customer; drafts pick up the customer's current details.
+  const customerSnapshot: InvoiceCustomerSnapshot =
+    existingInvoice &&
+    customerId === String(existingInvoice.customer_id ?? "") &&
+    (isIssued || !selectedCustomer)
+      ? {
+          customer_id: existingInvoice.customer_id ?? null,
+          customer_legal_name: existingInvoice.customer_legal_name ?? null,
+          customer_npwp: existingInvoice.customer_npwp ?? null,
+          customer_billing_address:
+            existingInvoice.customer_billing_address ?? null,
+          customer_invoice_recipient:
+            existingInvoice.customer_invoice_recipient ?? null,
+        }
+      : buildInvoiceCustomerSnapshot(selectedCustomer);
+
+  const handleCustomerChange = (value: string) => {
+    setCustomerId(value);
+    const customer = customers.find((c) => String(c.id) === value);
+    if (!customer) return;
+    setFormData((prev) => ({
+      ...prev,
+      company: customer.name,
+      due_date:
+        prev.due_date ||
+        dueDateFromTerms(
+          prev.bastp_collection_date || new Date().toISOString().split("T")[0],
+          customer.payment_terms_days,
+        ) ||
+        "",
+    }));
+  };
 
   useEffect(() => {
     if (isEditMode && invoiceId) {
@@ -114,6 +202,13 @@ export default function ManageInvoice() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [bastpId, invoiceId]);
 
+  // Without the customer list the company can still be typed in.
+  useEffect(() => {
+    fetchCustomers()
+      .then(setCustomers)
+      .catch((err) => console.error("Error loading customers:", err));
+  }, []);
+
   // Auto-generate the invoice number from the BASTP Collection Date (falls
   // back to today if that isn't set yet), same convention as the Work Order
   // number — locked/read-only in create mode (see the input below); edit
@@ -139,6 +234,75 @@ export default function ManageInvoice() {
     };
   }, [isCreateMode, formData.bastp_collection_date]);
 
+  // Tax rates/exemptions follow the same date as the invoice number, plus
+  // the customer (company). An existing invoice keeps the snapshot it was
+  // saved with until one of those two changes, so re-saving an old invoice
+  // never silently re-prices it at today's rates. Once payments are recorded
+  // it keeps its snapshot regardless.
+  useEffect(() => {
+    if (loading) return;
+
+    if (
+      isEditMode &&
+      existingInvoice &&
+      (pricingLocked ||
+        (formData.bastp_collection_date ===
+          (existingInvoice.bastp_collection_date || "") &&
+          formData.company === (existingInvoice.company || "")))
+    ) {
+      setTaxSnapshot(getInvoiceTaxSnapshot(existingInvoice));
+      setTaxError(null);
+      return;
+    }
+
+    const taxDate =
+      formData.bastp_collection_date || new Date().toISOString().split("T")[0];
+
+    let cancelled = false;
+    resolveInvoiceTaxSnapshot(taxDate, formData.company)
+      .then((snapshot) => {
+        if (!cancelled) {
+          setTaxSnapshot(snapshot);
+          setTaxError(null);
+        }
+      })
+      .catch((err) => {
+        console.error("Error resolving invoice tax rates:", err);
+        if (!cancelled) {
+          setTaxSnapshot(null);
+          setTaxError(
+            err instanceof Error ? err.message : "Failed to load tax rates",
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    loading,
+    isEditMode,
+    existingInvoice,
+    pricingLocked,
+    formData.bastp_collection_date,
+    formData.company,
+  ]);
+
+  // A missing price list shouldn't block invoicing — the prices can still
+  // be typed in.
+  const loadListServicePrices = async (
+    bastpDate: string,
+    vessel: { company?: string | null; type?: string | null } | null | undefined,
+  ) => {
+    try {
+      const prices = await resolveGeneralServicePrices(bastpDate, vessel);
+      setListServicePrices(prices);
+      return prices;
+    } catch (err) {
+      console.error("Error resolving general service prices:", err);
+      return {};
+    }
+  };
+
   // Fetch existing invoice for edit mode
   const fetchExistingInvoice = async () => {
     if (!invoiceId) return;
@@ -163,7 +327,8 @@ export default function ManageInvoice() {
               id,
               name,
               type,
-              company
+              company,
+              customer_id
             ),
             bastp_work_details (
               id,
@@ -224,6 +389,10 @@ export default function ManageInvoice() {
                 work_scope
               )
             )
+          ),
+          invoice_payments (
+            id,
+            deleted_at
           )
         `,
         )
@@ -250,6 +419,7 @@ export default function ManageInvoice() {
 
       setExistingInvoice(data);
       setBastp(data.bastp);
+      setCustomerId(data.customer_id != null ? String(data.customer_id) : "");
 
       // Populate form data
       setFormData({
@@ -261,8 +431,6 @@ export default function ManageInvoice() {
         delivery_date: data.delivery_date || "",
         collection_date: data.collection_date || "",
         receiver_name: data.receiver_name || "",
-        payment_status: data.payment_status,
-        payment_date: data.payment_date || "",
         remarks: data.remarks || "",
         ppn_applicable: data.ppn_applicable ?? true,
       });
@@ -316,6 +484,10 @@ export default function ManageInvoice() {
         })) || [];
 
       setGeneralServicePrices(servicePrices);
+
+      if (data.bastp?.date) {
+        await loadListServicePrices(data.bastp.date, data.bastp.vessel);
+      }
     } catch (err) {
       console.error("Error fetching invoice:", err);
       setError(err instanceof Error ? err.message : "Failed to load invoice");
@@ -341,7 +513,11 @@ export default function ManageInvoice() {
           id,
           name,
           type,
-          company
+          company,
+          customer_id,
+          customer:customer_id (
+            payment_terms_days
+          )
         ),
         bastp_work_details (
           id,
@@ -373,6 +549,7 @@ export default function ManageInvoice() {
           id,
           service_type_id,
           total_days,
+          unit_price,
           remarks,
           service_type:service_type_id (
             id,
@@ -433,29 +610,49 @@ export default function ManageInvoice() {
           })) || [];
       setWorkDetailPrices(initialPrices);
 
-      // Initialize general service prices with 0
+      // General service prices start from what the BASTP was saved with,
+      // falling back to the price list on the BASTP date
+      const listPrices = await loadListServicePrices(data.date, data.vessel);
       const initialServicePrices: GeneralServicePrice[] =
-        data.general_services?.map((service: any) => ({
-          service_type_id: service.service_type_id,
-          total_days: service.total_days,
-          unit_price: 0,
-          payment_price: 0,
-          remarks: service.remarks || "",
-        })) || [];
+        data.general_services?.map((service: any) => {
+          const unit_price =
+            Number(service.unit_price) ||
+            listPrices[service.service_type_id] ||
+            0;
+          return {
+            service_type_id: service.service_type_id,
+            total_days: service.total_days,
+            unit_price,
+            payment_price: unit_price * service.total_days,
+            remarks: service.remarks || "",
+          };
+        }) || [];
       setGeneralServicePrices(initialServicePrices);
 
       // Pre-fill some fields from BASTP
-      setFormData((prev) => ({
-        ...prev,
-        company: data.vessel?.company || "",
+      setCustomerId(
+        data.vessel?.customer_id != null ? String(data.vessel.customer_id) : "",
+      );
+      setFormData((prev) => {
         // Defaults from the BASTP's approval (READY_FOR_INVOICE) date instead
         // of requiring manual entry — still editable below if it needs
         // correcting. Older BASTPs promoted before this field existed have
         // no recorded date, so it falls back to manual entry as before.
-        bastp_collection_date: data.ready_for_invoice_date
+        const bastp_collection_date = data.ready_for_invoice_date
           ? data.ready_for_invoice_date.split("T")[0]
-          : prev.bastp_collection_date,
-      }));
+          : prev.bastp_collection_date;
+        return {
+          ...prev,
+          company: data.vessel?.company || "",
+          bastp_collection_date,
+          // The customer's payment terms, counted from the same date
+          due_date:
+            dueDateFromTerms(
+              bastp_collection_date || new Date().toISOString().split("T")[0],
+              data.vessel?.customer?.payment_terms_days,
+            ) || prev.due_date,
+        };
+      });
     } catch (err) {
       console.error("Error fetching BASTP:", err);
       setError(err instanceof Error ? err.message : "Failed to load BASTP");
@@ -525,23 +722,22 @@ export default function ManageInvoice() {
     return calculateTotalAmount();
   };
 
-  const calculatePPN = () => {
-    // PPN is optional per invoice (unlike PPh 23, which always applies) —
-    // unchecking "Apply PPN" zeroes it out entirely.
-    if (!formData.ppn_applicable) return 0;
-    // Rounded so the persisted total always reconciles with the displayed
-    // figures — unrounded floats here would let fractional Rupiah drift into
-    // the DB while the UI (minimumFractionDigits: 0) hides it.
-    return Math.round(calculateTotalPriceBefore() * 0.11); // 11% PPN
-  };
+  // PPN can be switched off per invoice by hand, or waived by a customer
+  // exemption — in which case the checkbox can't turn it back on. PPh 23
+  // has no manual switch; only an exemption waives it.
+  const ppnExempt = !!taxSnapshot?.ppn_exemption_reason;
+  const ppnApplied = formData.ppn_applicable && !ppnExempt;
 
-  const calculatePPH23 = () => {
-    return Math.round(calculateTotalPriceBefore() * 0.02); // 2% PPh 23
-  };
+  const taxAmounts = taxSnapshot
+    ? calculateInvoiceTaxes(calculateTotalPriceBefore(), taxSnapshot, ppnApplied)
+    : null;
 
-  const calculateTotalPriceAfter = () => {
-    return calculateTotalPriceBefore() + calculatePPN() - calculatePPH23();
-  };
+  const calculatePPN = () => taxAmounts?.ppn ?? 0;
+
+  const calculatePPH23 = () => taxAmounts?.pph23 ?? 0;
+
+  const calculateTotalPriceAfter = () =>
+    taxAmounts?.totalAfter ?? calculateTotalPriceBefore();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -556,13 +752,6 @@ export default function ManageInvoice() {
       return;
     }
 
-    if (blockResubmitAsPaid) {
-      setError(
-        "This invoice is marked as paid — pricing is locked. Uncheck \"Mark as Paid\" to make changes.",
-      );
-      return;
-    }
-
     // Validate that at least one work detail has a unit price
     const hasWorkPrice = workDetailPrices.some((item) => item.unit_price > 0);
     const hasServicePrice = generalServicePrices.some(
@@ -576,29 +765,36 @@ export default function ManageInvoice() {
       return;
     }
 
+    if (!taxSnapshot) {
+      setError(taxError || "Tax rates are still loading — try again.");
+      return;
+    }
+
     // Calculate totals
     const total_price_before = calculateTotalPriceBefore();
     const ppn = calculatePPN();
     const pph_23 = calculatePPH23();
     const total_price_after = calculateTotalPriceAfter();
 
+    let numberReservation: DocumentNumberReservation | null = null;
+
     try {
       setSaving(true);
       setError(null);
 
       // Two saved invoices sharing a number would be confusing for finance
       // reconciliation — blank numbers stay allowed (existing "Draft
-      // Invoice" convention on the details/print pages).
-      if (formData.invoice_number) {
-        let dupQuery = supabase
+      // Invoice" convention on the details/print pages). Only needed for
+      // hand-edited numbers: in create mode the number is reserved
+      // server-side below, which can't collide.
+      if (isEditMode && invoiceId && formData.invoice_number) {
+        const { data: duplicates, error: dupError } = await supabase
           .from("invoice_details")
           .select("id")
           .eq("invoice_number", formData.invoice_number)
-          .is("deleted_at", null);
-        if (isEditMode && invoiceId) {
-          dupQuery = dupQuery.neq("id", invoiceId);
-        }
-        const { data: duplicates, error: dupError } = await dupQuery.limit(1);
+          .is("deleted_at", null)
+          .neq("id", invoiceId)
+          .limit(1);
         if (dupError) throw dupError;
         if (duplicates && duplicates.length > 0) {
           setError(
@@ -609,32 +805,95 @@ export default function ManageInvoice() {
         }
       }
 
-      if (isEditMode && invoiceId) {
-        // UPDATE EXISTING INVOICE
-        const { error: invoiceError } = await supabase
-          .from("invoice_details")
-          .update({
-            bastp_collection_date: formData.bastp_collection_date || null,
-            company: formData.company || null,
-            invoice_number: formData.invoice_number || null,
-            faktur_number: formData.faktur_number || null,
-            due_date: formData.due_date || null,
-            delivery_date: formData.delivery_date || null,
-            collection_date: formData.collection_date || null,
-            receiver_name: formData.receiver_name || null,
-            payment_status: formData.payment_status,
-            payment_date: formData.payment_date || null,
-            remarks: formData.remarks || null,
-            total_price_before: total_price_before,
-            ppn: ppn,
-            ppn_applicable: formData.ppn_applicable,
-            pph_23: pph_23,
-            total_price_after: total_price_after,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", invoiceId);
+      if (isIssued && invoiceId && existingInvoice) {
+        // AMEND ISSUED INVOICE
+        const invoiceFields = {
+          bastp_collection_date: formData.bastp_collection_date || null,
+          company: formData.company || null,
+          ...customerSnapshot,
+          invoice_number: formData.invoice_number || null,
+          faktur_number: formData.faktur_number || null,
+          due_date: formData.due_date || null,
+          delivery_date: formData.delivery_date || null,
+          collection_date: formData.collection_date || null,
+          receiver_name: formData.receiver_name || null,
+          remarks: formData.remarks || null,
+          total_price_before: total_price_before,
+          ppn: ppn,
+          ppn_applicable: ppnApplied,
+          pph_23: pph_23,
+          total_price_after: total_price_after,
+          ...taxSnapshot,
+        };
+        // Same line rule as a plain edit below.
+        const amendedWorkDetails = workDetailPrices
+          .filter((item) => item.unit_price > 0 || item.is_cancelled)
+          .map((item) => ({
+            work_details_id: item.work_details_id,
+            unit_price: item.unit_price,
+            payment_price: item.payment_price,
+          }));
+        const amendedServices = generalServicePrices.map((service) => ({
+          service_type_id: service.service_type_id,
+          unit_price: service.unit_price,
+          payment_price: service.payment_price,
+        }));
+        const oldSnapshot = buildInvoiceAuditSnapshot(
+          pickInvoiceFields(existingInvoice, Object.keys(invoiceFields)),
+          existingInvoice.invoice_work_details || [],
+          (bastp?.general_services || []).map((service) => ({
+            service_type_id: service.service_type_id,
+            unit_price: service.unit_price || 0,
+            payment_price: service.payment_price || 0,
+          })),
+        );
+        const newSnapshot = buildInvoiceAuditSnapshot(
+          invoiceFields,
+          amendedWorkDetails,
+          amendedServices,
+        );
 
-        if (invoiceError) throw invoiceError;
+        if (isReceiptOnlyChange(oldSnapshot, newSnapshot)) {
+          await saveReceiptDetails();
+          return;
+        }
+
+        if (!amendmentReason.trim()) {
+          setError("Please enter the reason for this amendment");
+          return;
+        }
+
+        const { data: revision, error: amendError } = await supabase.rpc(
+          "amend_invoice",
+          {
+            p_invoice_id: Number(invoiceId),
+            p_reason: amendmentReason.trim(),
+            p_invoice: invoiceFields,
+            p_work_details: amendedWorkDetails,
+            p_general_services: amendedServices,
+          },
+        );
+
+        if (amendError) throw amendError;
+
+        await ActivityLogService.logActivity({
+          action: "update",
+          tableName: "invoice_details",
+          recordId: Number(invoiceId),
+          oldData: oldSnapshot,
+          newData: newSnapshot,
+          description: `Amended invoice ${
+            formData.invoice_number || invoiceId
+          } (revision ${revision}): ${amendmentReason.trim()}`,
+        });
+
+        setSuccess(`✅ Invoice amended — now revision ${revision}.`);
+        setTimeout(() => navigate(`/invoices/${invoiceId}`), 1500);
+      } else if (isEditMode && invoiceId) {
+        // UPDATE EXISTING INVOICE
+        // Lines and general services first, invoice row last: once the
+        // invoice row carries a Delivery Date the database freezes its
+        // lines, so saving that date has to be the final write.
 
         // Delete existing work details
         const { error: deleteError } = await supabase
@@ -685,6 +944,31 @@ export default function ManageInvoice() {
         )?.error;
         if (serviceUpdateError) throw serviceUpdateError;
 
+        const { error: invoiceError } = await supabase
+          .from("invoice_details")
+          .update({
+            bastp_collection_date: formData.bastp_collection_date || null,
+            company: formData.company || null,
+            ...customerSnapshot,
+            invoice_number: formData.invoice_number || null,
+            faktur_number: formData.faktur_number || null,
+            due_date: formData.due_date || null,
+            delivery_date: formData.delivery_date || null,
+            collection_date: formData.collection_date || null,
+            receiver_name: formData.receiver_name || null,
+            remarks: formData.remarks || null,
+            total_price_before: total_price_before,
+            ppn: ppn,
+            ppn_applicable: ppnApplied,
+            pph_23: pph_23,
+            total_price_after: total_price_after,
+            ...taxSnapshot,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", invoiceId);
+
+        if (invoiceError) throw invoiceError;
+
         // Log the activity for update
         await ActivityLogService.logActivity({
           action: "update",
@@ -726,6 +1010,18 @@ export default function ManageInvoice() {
           return;
         }
 
+        // The number on screen is only a preview — reserve the real one now
+        // from the same date it was previewed from.
+        numberReservation = await reserveInvoiceNumber(
+          formData.bastp_collection_date ||
+            new Date().toISOString().split("T")[0],
+        );
+        const takenNumberNotice = describeTakenNumber(
+          "Invoice",
+          formData.invoice_number,
+          numberReservation,
+        );
+
         const { data: invoiceData, error: invoiceError } = await supabase
           .from("invoice_details")
           .insert({
@@ -733,25 +1029,27 @@ export default function ManageInvoice() {
             user_id: profile.id,
             bastp_collection_date: formData.bastp_collection_date || null,
             company: formData.company || null,
-            invoice_number: formData.invoice_number || null,
+            ...customerSnapshot,
+            invoice_number: numberReservation.documentNumber,
             faktur_number: formData.faktur_number || null,
             due_date: formData.due_date || null,
-            delivery_date: formData.delivery_date || null,
+            // Set below, after the lines — see the edit branch above.
+            delivery_date: null,
             collection_date: formData.collection_date || null,
             receiver_name: formData.receiver_name || null,
-            payment_status: formData.payment_status,
-            payment_date: formData.payment_date || null,
             remarks: formData.remarks || null,
             total_price_before: total_price_before,
             ppn: ppn,
-            ppn_applicable: formData.ppn_applicable,
+            ppn_applicable: ppnApplied,
             pph_23: pph_23,
             total_price_after: total_price_after,
+            ...taxSnapshot,
           })
           .select()
           .single();
 
         if (invoiceError) throw invoiceError;
+        numberReservation = null;
 
         // Insert work details
         const workDetailsToInsert = workDetailPrices
@@ -793,6 +1091,15 @@ export default function ManageInvoice() {
         )?.error;
         if (serviceUpdateError) throw serviceUpdateError;
 
+        if (formData.delivery_date) {
+          const { error: deliveryError } = await supabase
+            .from("invoice_details")
+            .update({ delivery_date: formData.delivery_date })
+            .eq("id", invoiceData.id);
+
+          if (deliveryError) throw deliveryError;
+        }
+
         // Log the activity for create
         await ActivityLogService.logActivity({
           action: "create",
@@ -802,10 +1109,15 @@ export default function ManageInvoice() {
           description: `Created invoice ${invoiceData.invoice_number}`,
         });
 
+        if (takenNumberNotice) {
+          alert(takenNumberNotice);
+        }
+
         setSuccess("✅ Invoice created successfully!");
         setTimeout(() => navigate(`/invoices/${invoiceData.id}`), 1500);
       }
     } catch (err) {
+      await releaseSequentialNumber(numberReservation);
       console.error("Error saving invoice:", err);
       setError(err instanceof Error ? err.message : "Failed to save invoice");
     } finally {
@@ -813,6 +1125,55 @@ export default function ManageInvoice() {
     }
   };
 
+  // A plain update: guard_locked_invoice() allows these on an issued
+  // invoice. Once it's sent the delivery date itself is fixed.
+  const saveReceiptDetails = async () => {
+    if (!existingInvoice || !invoiceId) return;
+
+    const receipt = {
+      ...(isSent ? {} : { delivery_date: formData.delivery_date || null }),
+      collection_date: formData.collection_date || null,
+      receiver_name: formData.receiver_name || null,
+      remarks: formData.remarks || null,
+    };
+
+    const { error: updateError } = await supabase
+      .from("invoice_details")
+      .update({ ...receipt, updated_at: new Date().toISOString() })
+      .eq("id", invoiceId);
+
+    if (updateError) throw updateError;
+
+    await ActivityLogService.logActivity({
+      action: "update",
+      tableName: "invoice_details",
+      recordId: Number(invoiceId),
+      oldData: pickInvoiceFields(existingInvoice, Object.keys(receipt)),
+      newData: receipt,
+      description: `Updated receipt details of invoice ${existingInvoice.invoice_number || invoiceId}`,
+    });
+
+    setSuccess("✅ Receipt details updated successfully!");
+    setTimeout(() => navigate(`/invoices/${invoiceId}`), 1500);
+  };
+
+  const handleSaveReceipt = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      await saveReceiptDetails();
+    } catch (err) {
+      console.error("Error saving receipt details:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to save receipt details",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!existingInvoice || !invoiceId) return;
 
@@ -821,9 +1182,9 @@ export default function ManageInvoice() {
       return;
     }
 
-    if (existingInvoice.payment_status) {
+    if (hasRecordedPayments) {
       const confirmedPaid = window.confirm(
-        "⚠️ This invoice is marked as PAID. Deleting it removes the payment record entirely and cannot be undone. Are you absolutely sure?",
+        "⚠️ This invoice has payments recorded against it. Deleting it hides its payment ledger as well and cannot be undone. Are you absolutely sure?",
       );
       if (!confirmedPaid) return;
     }
@@ -998,6 +1359,160 @@ export default function ManageInvoice() {
     );
   }
 
+  // Delivery and receipt details, saved on their own: on a sent invoice
+  // they're all that's left to edit, and on an issued one they don't need
+  // an amendment.
+  const receiptForm = (
+    <form
+      onSubmit={handleSaveReceipt}
+      className="bg-white rounded-lg shadow p-6 space-y-4"
+    >
+      {!isSent && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Delivery Date (to Customer)
+          </label>
+          <input
+            type="date"
+            value={formData.delivery_date}
+            onChange={(e) =>
+              setFormData({ ...formData, delivery_date: e.target.value })
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {formData.delivery_date && (
+            <p className="text-xs text-yellow-700 mt-1">
+              Saving a delivery date marks the invoice as sent — it can't be
+              edited afterwards, only corrected with a credit note.
+            </p>
+          )}
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Collection Date (by Customer)
+        </label>
+        <input
+          type="date"
+          value={formData.collection_date}
+          onChange={(e) =>
+            setFormData({ ...formData, collection_date: e.target.value })
+          }
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Receiver Name (from Customer)
+        </label>
+        <input
+          type="text"
+          value={formData.receiver_name}
+          onChange={(e) =>
+            setFormData({ ...formData, receiver_name: e.target.value })
+          }
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Receiver name"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Remarks / Notes
+        </label>
+        <textarea
+          value={formData.remarks}
+          onChange={(e) =>
+            setFormData({ ...formData, remarks: e.target.value })
+          }
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Additional notes or remarks..."
+        />
+      </div>
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? (
+            <Loader className="w-4 h-4 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4" />
+          )}
+          Save Receipt Details
+        </button>
+      </div>
+    </form>
+  );
+
+  if (isSent && existingInvoice) {
+    return (
+      <div className="p-8 max-w-3xl mx-auto">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate(`/invoices/${invoiceId}`)}
+            className="text-blue-600 hover:text-blue-800 mb-4 flex items-center gap-2"
+          >
+            <ArrowLeft className="w-4 h-4" /> Back to Invoice
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Update Receipt</h1>
+          <p className="text-gray-600 mt-2">
+            {existingInvoice.invoice_number || "Draft Invoice"}
+          </p>
+        </div>
+
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start gap-3">
+          <Lock className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+          <div>
+            <p className="text-yellow-900 font-medium">
+              This invoice was sent to the customer on{" "}
+              {new Date(existingInvoice.delivery_date!).toLocaleDateString(
+                "en-US",
+                { year: "numeric", month: "long", day: "numeric" },
+              )}{" "}
+              and can no longer be edited.
+            </p>
+            <p className="text-sm text-yellow-700 mt-1">
+              To correct or cancel it, issue a credit note from the invoice
+              page.
+            </p>
+            {!existingInvoice.cancelled_at && (
+              <button
+                onClick={() =>
+                  navigate(`/invoices/${invoiceId}/credit-notes/new`)
+                }
+                className="mt-3 inline-flex items-center gap-2 px-3 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors text-sm font-medium"
+              >
+                <FileText className="w-4 h-4" /> Issue Credit Note
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-center">
+              <AlertTriangle className="w-5 h-5 text-red-600 mr-2" />
+              <p className="text-red-700">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4">
+            <div className="flex items-center">
+              <CheckCircle2 className="w-5 h-5 text-green-600 mr-2" />
+              <p className="text-green-700 font-medium">{success}</p>
+            </div>
+          </div>
+        )}
+
+        {receiptForm}
+      </div>
+    );
+  }
+
   return (
     <div className="p-8 max-w-7xl mx-auto">
       {/* Header */}
@@ -1109,597 +1624,754 @@ export default function ManageInvoice() {
         </div>
       </div>
 
-      <form onSubmit={handleSubmit} className="space-y-6">
-        {/* Invoice Details Section */}
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">
-            Invoice Details
-          </h2>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                BASTP Collection Date
-              </label>
-              <input
-                type="date"
-                value={formData.bastp_collection_date}
-                onChange={(e) =>
-                  setFormData({
-                    ...formData,
-                    bastp_collection_date: e.target.value,
-                  })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Company
-              </label>
-              <input
-                type="text"
-                value={formData.company}
-                onChange={(e) =>
-                  setFormData({ ...formData, company: e.target.value })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Company name"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Invoice Number
-              </label>
-              <input
-                type="text"
-                value={formData.invoice_number}
-                onChange={(e) =>
-                  setFormData({ ...formData, invoice_number: e.target.value })
-                }
-                readOnly={isCreateMode}
-                className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                  isCreateMode ? "bg-gray-100 text-gray-600 cursor-not-allowed" : ""
-                }`}
-                placeholder="INV-2024-001"
-              />
-              {isCreateMode && (
-                <p className="text-xs text-gray-500 mt-1">
-                  Auto-generated from the BASTP Collection Date. Need to
-                  change it? Edit the invoice after creating it.
-                </p>
+      {isIssued && existingInvoice && (
+        <div
+          className={`mb-6 border rounded-lg p-4 ${
+            amending
+              ? "bg-orange-50 border-orange-200"
+              : "bg-yellow-50 border-yellow-200"
+          }`}
+        >
+          <div className="flex items-start gap-3">
+            <Lock
+              className={`w-6 h-6 flex-shrink-0 ${
+                amending ? "text-orange-600" : "text-yellow-600"
+              }`}
+            />
+            <div className="flex-1">
+              <p className="font-medium text-gray-900">
+                Issued on{" "}
+                {new Date(existingInvoice.issued_at!).toLocaleDateString(
+                  "en-US",
+                  { year: "numeric", month: "long", day: "numeric" },
+                )}
+                {(existingInvoice.revision || 0) > 0 &&
+                  ` · Revision ${existingInvoice.revision}`}
+              </p>
+              {amending ? (
+                <>
+                  <p className="text-sm text-gray-700 mt-1">
+                    Saving creates revision{" "}
+                    {(existingInvoice.revision || 0) + 1}. The old and new
+                    values are recorded in the activity log together with
+                    your reason.
+                  </p>
+                  <label className="block text-sm font-medium text-gray-700 mt-3 mb-1">
+                    Amendment Reason <span className="text-red-500">*</span>
+                  </label>
+                  <textarea
+                    value={amendmentReason}
+                    onChange={(e) => setAmendmentReason(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="What is being corrected, and why?"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setAmending(false);
+                      setAmendmentReason("");
+                      fetchExistingInvoice();
+                    }}
+                    disabled={saving}
+                    className="mt-2 text-sm text-gray-700 hover:text-gray-900 underline"
+                  >
+                    Discard amendment
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-yellow-700 mt-1">
+                    Issued invoices are read-only. To change this one, start
+                    an amendment — it needs a reason and bumps the revision
+                    printed on the invoice. Delivery and receipt details can
+                    be recorded below without one.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => setAmending(true)}
+                    className="mt-3 inline-flex items-center gap-2 px-3 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors text-sm font-medium"
+                  >
+                    <FileText className="w-4 h-4" /> Amend Invoice
+                  </button>
+                </>
               )}
             </div>
+          </div>
+        </div>
+      )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Faktur Number
-              </label>
-              <input
-                type="text"
-                value={formData.faktur_number}
-                onChange={(e) =>
-                  setFormData({ ...formData, faktur_number: e.target.value })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="FP-001"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Due Date
-              </label>
-              <input
-                type="date"
-                value={formData.due_date}
-                onChange={(e) =>
-                  setFormData({ ...formData, due_date: e.target.value })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Delivery Date (to Customer)
-              </label>
-              <input
-                type="date"
-                value={formData.delivery_date}
-                onChange={(e) =>
-                  setFormData({ ...formData, delivery_date: e.target.value })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Collection Date (by Customer)
-              </label>
-              <input
-                type="date"
-                value={formData.collection_date}
-                onChange={(e) =>
-                  setFormData({ ...formData, collection_date: e.target.value })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              />
-            </div>
+      {formLocked && (
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">
+            Delivery &amp; Receipt
+          </h2>
+          {receiptForm}
+        </div>
+      )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Receiver Name (from Customer)
-              </label>
-              <input
-                type="text"
-                value={formData.receiver_name}
-                onChange={(e) =>
-                  setFormData({ ...formData, receiver_name: e.target.value })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Receiver name"
-              />
-            </div>
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <fieldset disabled={formLocked} className="space-y-6 min-w-0">
+          {/* Invoice Details Section */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Invoice Details
+            </h2>
 
-            <div className="md:col-span-2">
-              <label className="flex items-center gap-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  BASTP Collection Date
+                </label>
                 <input
-                  type="checkbox"
-                  checked={formData.payment_status}
+                  type="date"
+                  value={formData.bastp_collection_date}
                   onChange={(e) =>
                     setFormData({
                       ...formData,
-                      payment_status: e.target.checked,
-                      payment_date:
-                        e.target.checked && !formData.payment_date
-                          ? new Date().toISOString().split("T")[0]
-                          : formData.payment_date,
+                      bastp_collection_date: e.target.value,
                     })
                   }
-                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
-                <span className="text-sm font-medium text-gray-700">
-                  Mark as Paid
-                </span>
-              </label>
-            </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Customer
+                </label>
+                <select
+                  value={customerId}
+                  onChange={(e) => handleCustomerChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">— No customer record —</option>
+                  {customers
+                    .filter((c) => !c.deleted_at || String(c.id) === customerId)
+                    .map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                        {c.deleted_at ? " (removed)" : ""}
+                      </option>
+                    ))}
+                </select>
+                {customerId ? (
+                  <div className="mt-2 rounded-lg bg-gray-50 border border-gray-200 p-3 text-xs text-gray-700 space-y-1">
+                    <p>
+                      <span className="text-gray-500">Legal name:</span>{" "}
+                      {customerSnapshot.customer_legal_name || formData.company}
+                    </p>
+                    <p>
+                      <span className="text-gray-500">NPWP:</span>{" "}
+                      {customerSnapshot.customer_npwp || "-"}
+                    </p>
+                    <p className="whitespace-pre-line">
+                      <span className="text-gray-500">Billing address:</span>{" "}
+                      {customerSnapshot.customer_billing_address || "-"}
+                    </p>
+                    <p>
+                      <span className="text-gray-500">UP:</span>{" "}
+                      {customerSnapshot.customer_invoice_recipient ||
+                        "ACCOUNTING"}
+                    </p>
+                    {selectedCustomer?.payment_terms_days != null && (
+                      <p>
+                        <span className="text-gray-500">Payment terms:</span>{" "}
+                        {selectedCustomer.payment_terms_days} days
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    <input
+                      type="text"
+                      value={formData.company}
+                      onChange={(e) =>
+                        setFormData({ ...formData, company: e.target.value })
+                      }
+                      className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Company name"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Billing details (NPWP, address, UP) come from the
+                      customer record — add the company under Master Data →
+                      Customers to print them.
+                    </p>
+                  </>
+                )}
+              </div>
 
-            {formData.payment_status && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Payment Date
+                  Invoice Number
+                </label>
+                <input
+                  type="text"
+                  value={formData.invoice_number}
+                  onChange={(e) =>
+                    setFormData({ ...formData, invoice_number: e.target.value })
+                  }
+                  readOnly={isCreateMode}
+                  className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    isCreateMode ? "bg-gray-100 text-gray-600 cursor-not-allowed" : ""
+                  }`}
+                  placeholder="INV-2024-001"
+                />
+                {isCreateMode && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Auto-generated from the BASTP Collection Date and
+                    reserved when you save — if someone else takes it first,
+                    the next free number is used. Need to change it? Edit the
+                    invoice after creating it.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Faktur Number
+                </label>
+                <input
+                  type="text"
+                  value={formData.faktur_number}
+                  onChange={(e) =>
+                    setFormData({ ...formData, faktur_number: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="FP-001"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Due Date
                 </label>
                 <input
                   type="date"
-                  value={formData.payment_date}
+                  value={formData.due_date}
                   onChange={(e) =>
-                    setFormData({ ...formData, payment_date: e.target.value })
+                    setFormData({ ...formData, due_date: e.target.value })
                   }
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
-            )}
 
-            <div className="md:col-span-2">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Remarks / Notes
-              </label>
-              <textarea
-                value={formData.remarks}
-                onChange={(e) =>
-                  setFormData({ ...formData, remarks: e.target.value })
-                }
-                rows={3}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Additional notes or remarks..."
-              />
+              {/* Edited in Delivery & Receipt above while locked. */}
+              {!formLocked && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Delivery Date (to Customer)
+                    </label>
+                    <input
+                      type="date"
+                      value={formData.delivery_date}
+                      onChange={(e) =>
+                        setFormData({ ...formData, delivery_date: e.target.value })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    {formData.delivery_date && (
+                      <p className="text-xs text-yellow-700 mt-1">
+                        Saving a delivery date marks the invoice as sent — it can't
+                        be edited afterwards, only corrected with a credit note.
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Collection Date (by Customer)
+                    </label>
+                    <input
+                      type="date"
+                      value={formData.collection_date}
+                      onChange={(e) =>
+                        setFormData({ ...formData, collection_date: e.target.value })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Receiver Name (from Customer)
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.receiver_name}
+                      onChange={(e) =>
+                        setFormData({ ...formData, receiver_name: e.target.value })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Receiver name"
+                    />
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Remarks / Notes
+                    </label>
+                    <textarea
+                      value={formData.remarks}
+                      onChange={(e) =>
+                        setFormData({ ...formData, remarks: e.target.value })
+                      }
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Additional notes or remarks..."
+                    />
+                  </div>
+                </>
+              )}
             </div>
           </div>
-        </div>
 
-        {/* General Services Pricing Section */}
-        {bastp?.general_services &&
-          Array.isArray(bastp.general_services) &&
-          bastp.general_services.length > 0 && (
-            <div className="bg-white rounded-lg shadow">
-              <div className="p-6 border-b border-gray-200">
-                <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
-                  <Wrench className="w-5 h-5" /> General Services Pricing
-                </h2>
-                <p className="text-sm text-gray-600 mt-1">
-                  Enter unit price (per day) for each service. Payment price
-                  will be calculated automatically (Unit Price × Total Days)
-                </p>
-                {pricingLocked && (
-                  <p className="text-sm text-yellow-700 mt-2 flex items-center gap-1">
-                    <Lock className="w-3.5 h-3.5" /> Pricing is locked because
-                    this invoice is marked as paid.
+          {/* General Services Pricing Section */}
+          {bastp?.general_services &&
+            Array.isArray(bastp.general_services) &&
+            bastp.general_services.length > 0 && (
+              <div className="bg-white rounded-lg shadow">
+                <div className="p-6 border-b border-gray-200">
+                  <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                    <Wrench className="w-5 h-5" /> General Services Pricing
+                  </h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Enter unit price (per day) for each service. Payment price
+                    will be calculated automatically (Unit Price × Total Days)
                   </p>
-                )}
+                  {pricingLocked && (
+                    <p className="text-sm text-yellow-700 mt-2 flex items-center gap-1">
+                      <Lock className="w-3.5 h-3.5" /> Pricing is locked because
+                      payments have been recorded against this invoice.
+                    </p>
+                  )}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                          Service Name
+                        </th>
+                        <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
+                          Total Days
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          Unit Price (IDR/day)
+                        </th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                          Payment Price (IDR)
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                          Remarks
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {bastp.general_services
+                        .sort(
+                          (a: any, b: any) =>
+                            (a.service_type?.display_order || 0) -
+                            (b.service_type?.display_order || 0),
+                        )
+                        .map((service: any) => {
+                          const priceItem = generalServicePrices.find(
+                            (p) => p.service_type_id === service.service_type_id,
+                          );
+                          const listPrice =
+                            listServicePrices[service.service_type_id];
+
+                          return (
+                            <tr key={service.id} className="hover:bg-gray-50">
+                              <td className="px-4 py-4">
+                                <div className="text-sm font-medium text-gray-900">
+                                  {service.service_type?.service_name}
+                                </div>
+                              </td>
+                              <td className="px-4 py-4 text-center">
+                                <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800">
+                                  {service.total_days} day
+                                  {service.total_days !== 1 ? "s" : ""}
+                                </span>
+                              </td>
+                              <td className="px-4 py-4">
+                                <input
+                                  type="text"
+                                  inputMode="numeric"
+                                  pattern="[0-9]*"
+                                  value={
+                                    priceItem?.unit_price === 0
+                                      ? ""
+                                      : priceItem?.unit_price.toString()
+                                  }
+                                  onChange={(e) =>
+                                    handleServiceUnitPriceChange(
+                                      service.service_type_id,
+                                      e.target.value,
+                                    )
+                                  }
+                                  onFocus={(e) => {
+                                    e.target.select();
+                                  }}
+                                  onPaste={(e) => {
+                                    e.preventDefault();
+                                    const pasteData =
+                                      e.clipboardData.getData("text");
+                                    const numericValue = pasteData.replace(
+                                      /\D/g,
+                                      "",
+                                    );
+                                    handleServiceUnitPriceChange(
+                                      service.service_type_id,
+                                      numericValue,
+                                    );
+                                  }}
+                                  disabled={pricingLocked}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-right disabled:bg-gray-100 disabled:cursor-not-allowed"
+                                  placeholder="0"
+                                />
+                                {listPrice !== undefined && (
+                                  <div className="text-xs text-gray-500 mt-1 text-right">
+                                    Price list: {formatCurrency(listPrice)}
+                                  </div>
+                                )}
+                              </td>
+                              <td className="px-4 py-4 text-right">
+                                <div className="text-sm font-bold text-green-900">
+                                  {formatCurrency(priceItem?.payment_price || 0)}
+                                </div>
+                                {priceItem && priceItem.unit_price > 0 && (
+                                  <div className="text-xs text-gray-500 mt-1">
+                                    {formatCurrency(priceItem.unit_price)} ×{" "}
+                                    {priceItem.total_days}
+                                  </div>
+                                )}
+                              </td>
+                              <td className="px-4 py-4">
+                                <div className="text-sm text-gray-600">
+                                  {service.remarks || "-"}
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                    </tbody>
+                  </table>
+                </div>
               </div>
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                        Service Name
-                      </th>
-                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
-                        Total Days
-                      </th>
-                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                        Unit Price (IDR/day)
-                      </th>
-                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                        Payment Price (IDR)
-                      </th>
-                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                        Remarks
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {bastp.general_services
-                      .sort(
-                        (a: any, b: any) =>
-                          (a.service_type?.display_order || 0) -
-                          (b.service_type?.display_order || 0),
-                      )
-                      .map((service: any) => {
-                        const priceItem = generalServicePrices.find(
-                          (p) => p.service_type_id === service.service_type_id,
-                        );
-
-                        return (
-                          <tr key={service.id} className="hover:bg-gray-50">
-                            <td className="px-4 py-4">
-                              <div className="text-sm font-medium text-gray-900">
-                                {service.service_type?.service_name}
+            )}
+
+          {/* Work Details Pricing Section */}
+          <div className="bg-white rounded-lg shadow">
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                <DollarSign className="w-5 h-5" /> Work Details Pricing
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Enter unit price for each work detail. Payment price will be
+                calculated automatically (Unit Price × Quantity)
+              </p>
+              {pricingLocked && (
+                <p className="text-sm text-yellow-700 mt-2 flex items-center gap-1">
+                  <Lock className="w-3.5 h-3.5" /> Pricing is locked because
+                  payments have been recorded against this invoice.
+                </p>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Description
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Location
+                    </th>
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
+                      Quantity
+                    </th>
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
+                      UOM
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                      Unit Price (IDR)
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                      Payment Price (IDR)
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {bastp?.bastp_work_details &&
+                  bastp.bastp_work_details.length > 0 ? (
+                    bastp.bastp_work_details.map((item) => {
+                      const priceItem = workDetailPrices.find(
+                        (p) => p.work_details_id === item.work_details_id,
+                      );
+
+                      return (
+                        <tr key={item.id} className="hover:bg-gray-50">
+                          <td className="px-4 py-4">
+                            <div className="text-sm">
+                              <div className="font-medium text-gray-900">
+                                {item.work_details?.description}
                               </div>
-                            </td>
-                            <td className="px-4 py-4 text-center">
-                              <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800">
-                                {service.total_days} day
-                                {service.total_days !== 1 ? "s" : ""}
-                              </span>
-                            </td>
-                            <td className="px-4 py-4">
-                              <input
-                                type="text"
-                                inputMode="numeric"
-                                pattern="[0-9]*"
-                                value={
-                                  priceItem?.unit_price === 0
-                                    ? ""
-                                    : priceItem?.unit_price.toString()
-                                }
-                                onChange={(e) =>
-                                  handleServiceUnitPriceChange(
-                                    service.service_type_id,
-                                    e.target.value,
-                                  )
-                                }
-                                onFocus={(e) => {
-                                  e.target.select();
-                                }}
-                                onPaste={(e) => {
-                                  e.preventDefault();
-                                  const pasteData =
-                                    e.clipboardData.getData("text");
-                                  const numericValue = pasteData.replace(
-                                    /\D/g,
-                                    "",
-                                  );
-                                  handleServiceUnitPriceChange(
-                                    service.service_type_id,
-                                    numericValue,
-                                  );
-                                }}
-                                disabled={pricingLocked}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-right disabled:bg-gray-100 disabled:cursor-not-allowed"
-                                placeholder="0"
-                              />
-                            </td>
-                            <td className="px-4 py-4 text-right">
-                              <div className="text-sm font-bold text-green-900">
-                                {formatCurrency(priceItem?.payment_price || 0)}
+                              <div className="text-xs text-gray-500 mt-1">
+                                {item.work_details?.work_scope?.work_scope || "-"}
                               </div>
-                              {priceItem && priceItem.unit_price > 0 && (
+                              {item.work_details?.work_order && (
                                 <div className="text-xs text-gray-500 mt-1">
-                                  {formatCurrency(priceItem.unit_price)} ×{" "}
-                                  {priceItem.total_days}
+                                  WO:{" "}
+                                  {
+                                    item.work_details.work_order
+                                      .shipyard_wo_number
+                                  }
                                 </div>
                               )}
-                            </td>
-                            <td className="px-4 py-4">
-                              <div className="text-sm text-gray-600">
-                                {service.remarks || "-"}
-                              </div>
-                            </td>
-                          </tr>
-                        );
-                      })}
-                  </tbody>
-                </table>
-              </div>
-            </div>
-          )}
-
-        {/* Work Details Pricing Section */}
-        <div className="bg-white rounded-lg shadow">
-          <div className="p-6 border-b border-gray-200">
-            <h2 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
-              <DollarSign className="w-5 h-5" /> Work Details Pricing
-            </h2>
-            <p className="text-sm text-gray-600 mt-1">
-              Enter unit price for each work detail. Payment price will be
-              calculated automatically (Unit Price × Quantity)
-            </p>
-            {pricingLocked && (
-              <p className="text-sm text-yellow-700 mt-2 flex items-center gap-1">
-                <Lock className="w-3.5 h-3.5" /> Pricing is locked because
-                this invoice is marked as paid.
-              </p>
-            )}
-          </div>
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                    Description
-                  </th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                    Location
-                  </th>
-                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
-                    Quantity
-                  </th>
-                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
-                    UOM
-                  </th>
-                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                    Unit Price (IDR)
-                  </th>
-                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
-                    Payment Price (IDR)
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {bastp?.bastp_work_details &&
-                bastp.bastp_work_details.length > 0 ? (
-                  bastp.bastp_work_details.map((item) => {
-                    const priceItem = workDetailPrices.find(
-                      (p) => p.work_details_id === item.work_details_id,
-                    );
-
-                    return (
-                      <tr key={item.id} className="hover:bg-gray-50">
-                        <td className="px-4 py-4">
-                          <div className="text-sm">
-                            <div className="font-medium text-gray-900">
-                              {item.work_details?.description}
                             </div>
-                            <div className="text-xs text-gray-500 mt-1">
-                              {item.work_details?.work_scope?.work_scope || "-"}
+                          </td>
+                          <td className="px-4 py-4">
+                            <div className="text-sm text-gray-900">
+                              {item.work_details?.location?.location || "-"}
                             </div>
-                            {item.work_details?.work_order && (
-                              <div className="text-xs text-gray-500 mt-1">
-                                WO:{" "}
-                                {
-                                  item.work_details.work_order
-                                    .shipyard_wo_number
-                                }
+                          </td>
+                          <td className="px-4 py-4 text-center">
+                            <div className="text-sm font-medium text-gray-900">
+                              {item.work_details?.quantity}
+                            </div>
+                          </td>
+                          <td className="px-4 py-4 text-center">
+                            <div className="text-sm text-gray-600">
+                              {item.work_details?.uom || "-"}
+                            </div>
+                          </td>
+                          <td className="px-4 py-4">
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              pattern="[0-9]*"
+                              value={
+                                priceItem?.unit_price === 0
+                                  ? ""
+                                  : priceItem?.unit_price.toString()
+                              }
+                              onChange={(e) =>
+                                handleUnitPriceChange(
+                                  item.work_details_id,
+                                  e.target.value,
+                                )
+                              }
+                              onFocus={(e) => {
+                                e.target.select();
+                              }}
+                              onPaste={(e) => {
+                                e.preventDefault();
+                                const pasteData = e.clipboardData.getData("text");
+                                const numericValue = pasteData.replace(/\D/g, "");
+                                handleUnitPriceChange(
+                                  item.work_details_id,
+                                  numericValue,
+                                );
+                              }}
+                              disabled={
+                                pricingLocked || !!item.work_details?.cancelled_at
+                              }
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-right disabled:bg-gray-100 disabled:cursor-not-allowed"
+                              placeholder="0"
+                            />
+                            {item.work_details?.cancelled_at ? (
+                              <div className="text-xs text-gray-500 mt-1 text-right inline-flex items-center gap-1 justify-end w-full">
+                                <Ban className="w-3 h-3" /> Cancelled — billed at
+                                Rp 0
                               </div>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-4 py-4">
-                          <div className="text-sm text-gray-900">
-                            {item.work_details?.location?.location || "-"}
-                          </div>
-                        </td>
-                        <td className="px-4 py-4 text-center">
-                          <div className="text-sm font-medium text-gray-900">
-                            {item.work_details?.quantity}
-                          </div>
-                        </td>
-                        <td className="px-4 py-4 text-center">
-                          <div className="text-sm text-gray-600">
-                            {item.work_details?.uom || "-"}
-                          </div>
-                        </td>
-                        <td className="px-4 py-4">
-                          <input
-                            type="text"
-                            inputMode="numeric"
-                            pattern="[0-9]*"
-                            value={
-                              priceItem?.unit_price === 0
-                                ? ""
-                                : priceItem?.unit_price.toString()
-                            }
-                            onChange={(e) =>
-                              handleUnitPriceChange(
-                                item.work_details_id,
-                                e.target.value,
+                            ) : (
+                              item.work_details?.ppic_price != null && (
+                                <div className="text-xs text-gray-500 mt-1 text-right">
+                                  PPIC price:{" "}
+                                  {formatCurrency(item.work_details.ppic_price)}
+                                </div>
                               )
-                            }
-                            onFocus={(e) => {
-                              e.target.select();
-                            }}
-                            onPaste={(e) => {
-                              e.preventDefault();
-                              const pasteData = e.clipboardData.getData("text");
-                              const numericValue = pasteData.replace(/\D/g, "");
-                              handleUnitPriceChange(
-                                item.work_details_id,
-                                numericValue,
-                              );
-                            }}
-                            disabled={
-                              pricingLocked || !!item.work_details?.cancelled_at
-                            }
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-right disabled:bg-gray-100 disabled:cursor-not-allowed"
-                            placeholder="0"
-                          />
-                          {item.work_details?.cancelled_at ? (
-                            <div className="text-xs text-gray-500 mt-1 text-right inline-flex items-center gap-1 justify-end w-full">
-                              <Ban className="w-3 h-3" /> Cancelled — billed at
-                              Rp 0
+                            )}
+                          </td>
+                          <td className="px-4 py-4 text-right">
+                            <div className="text-sm font-bold text-blue-900">
+                              {formatCurrency(priceItem?.payment_price || 0)}
                             </div>
-                          ) : (
-                            item.work_details?.ppic_price != null && (
-                              <div className="text-xs text-gray-500 mt-1 text-right">
-                                PPIC price:{" "}
-                                {formatCurrency(item.work_details.ppic_price)}
+                            {priceItem && priceItem.unit_price > 0 && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                {formatCurrency(priceItem.unit_price)} ×{" "}
+                                {priceItem.quantity}
                               </div>
-                            )
-                          )}
-                        </td>
-                        <td className="px-4 py-4 text-right">
-                          <div className="text-sm font-bold text-blue-900">
-                            {formatCurrency(priceItem?.payment_price || 0)}
-                          </div>
-                          {priceItem && priceItem.unit_price > 0 && (
-                            <div className="text-xs text-gray-500 mt-1">
-                              {formatCurrency(priceItem.unit_price)} ×{" "}
-                              {priceItem.quantity}
-                            </div>
-                          )}
-                        </td>
-                      </tr>
-                    );
-                  })
-                ) : (
-                  <tr>
-                    <td
-                      colSpan={6}
-                      className="px-4 py-8 text-center text-gray-500"
-                    >
-                      No work details available
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })
+                  ) : (
+                    <tr>
+                      <td
+                        colSpan={6}
+                        className="px-4 py-8 text-center text-gray-500"
+                      >
+                        No work details available
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
           </div>
-        </div>
 
-        {/* Total Summary */}
-        <div className="bg-gradient-to-r from-blue-50 to-green-50 rounded-lg shadow-lg p-6 mt-6">
-          <div className="space-y-4">
-            {/* Subtotals */}
-            <div className="flex justify-between items-center pb-4 border-b border-gray-300">
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900">
-                  Invoice Breakdown
-                </h3>
-                <p className="text-sm text-gray-600 mt-1">
-                  Work Details + General Services
-                </p>
-              </div>
-              <div className="text-right">
-                <div className="text-sm text-gray-600 space-y-1">
-                  <div className="flex justify-between gap-8">
-                    <span className="text-blue-700">Work Details:</span>
-                    <span className="font-medium">
-                      {formatCurrency(
-                        workDetailPrices.reduce(
-                          (sum, item) => sum + item.payment_price,
-                          0,
-                        ),
-                      )}
-                    </span>
-                  </div>
-                  <div className="flex justify-between gap-8">
-                    <span className="text-green-700">General Services:</span>
-                    <span className="font-medium">
-                      {formatCurrency(
-                        generalServicePrices.reduce(
-                          (sum, item) => sum + item.payment_price,
-                          0,
-                        ),
-                      )}
-                    </span>
+          {/* Total Summary */}
+          <div className="bg-gradient-to-r from-blue-50 to-green-50 rounded-lg shadow-lg p-6 mt-6">
+            <div className="space-y-4">
+              {/* Subtotals */}
+              <div className="flex justify-between items-center pb-4 border-b border-gray-300">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    Invoice Breakdown
+                  </h3>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Work Details + General Services
+                  </p>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm text-gray-600 space-y-1">
+                    <div className="flex justify-between gap-8">
+                      <span className="text-blue-700">Work Details:</span>
+                      <span className="font-medium">
+                        {formatCurrency(
+                          workDetailPrices.reduce(
+                            (sum, item) => sum + item.payment_price,
+                            0,
+                          ),
+                        )}
+                      </span>
+                    </div>
+                    <div className="flex justify-between gap-8">
+                      <span className="text-green-700">General Services:</span>
+                      <span className="font-medium">
+                        {formatCurrency(
+                          generalServicePrices.reduce(
+                            (sum, item) => sum + item.payment_price,
+                            0,
+                          ),
+                        )}
+                      </span>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
 
-            {/* Total Before Tax */}
-            <div className="flex justify-between items-center py-2">
-              <div className="text-base font-semibold text-gray-900">
-                Subtotal (Before Tax)
-              </div>
-              <div className="text-2xl font-bold text-blue-900">
-                {formatCurrency(calculateTotalPriceBefore())}
+              {/* Total Before Tax */}
+              <div className="flex justify-between items-center py-2">
+                <div className="text-base font-semibold text-gray-900">
+                  Subtotal (Before Tax)
+                </div>
+                <div className="text-2xl font-bold text-blue-900">
+                  {formatCurrency(calculateTotalPriceBefore())}
+                </div>
               </div>
-            </div>
 
-            {/* Tax Breakdown */}
-            <div className="bg-white/50 rounded-lg p-4 space-y-2">
-              <label className="flex items-center gap-2 pb-1">
-                <input
-                  type="checkbox"
-                  checked={formData.ppn_applicable}
-                  onChange={(e) =>
-                    setFormData({
-                      ...formData,
-                      ppn_applicable: e.target.checked,
-                    })
-                  }
-                  disabled={pricingLocked}
-                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:cursor-not-allowed"
-                />
-                <span className="text-sm font-medium text-gray-700">
-                  Apply PPN (11%)
-                </span>
-              </label>
-              <div className="flex justify-between items-center text-sm">
-                <span className="text-gray-700">
-                  PPN (11% of Subtotal)
-                  {!formData.ppn_applicable && " — Not Applied"}
-                </span>
-                <span className="font-medium text-green-900">
-                  + {formatCurrency(calculatePPN())}
-                </span>
-              </div>
-              <div className="flex justify-between items-center text-sm">
-                <span className="text-gray-700">PPh 23 (2% of Subtotal)</span>
-                <span className="font-medium text-red-900">
-                  - {formatCurrency(calculatePPH23())}
-                </span>
+              {/* Tax Breakdown */}
+              <div className="bg-white/50 rounded-lg p-4 space-y-2">
+                {taxError && (
+                  <div className="flex items-start gap-2 text-sm text-red-700">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    {taxError}
+                  </div>
+                )}
+                <label className="flex items-center gap-2 pb-1">
+                  <input
+                    type="checkbox"
+                    checked={ppnApplied}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        ppn_applicable: e.target.checked,
+                      })
+                    }
+                    disabled={pricingLocked || ppnExempt}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:cursor-not-allowed"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    Apply PPN
+                    {taxSnapshot && ` (${formatTaxRate(taxSnapshot.ppn_rate)})`}
+                  </span>
+                </label>
+                {ppnExempt && (
+                  <p className="text-xs text-amber-700 pb-1">
+                    PPN exemption for this customer:{" "}
+                    {taxSnapshot?.ppn_exemption_reason}
+                  </p>
+                )}
+                {taxSnapshot && hasDppNilaiLain(taxSnapshot) && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-gray-700">
+                      DPP Nilai Lain ({taxSnapshot.ppn_dpp_numerator}/
+                      {taxSnapshot.ppn_dpp_denominator} of Subtotal)
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {formatCurrency(taxAmounts?.ppnBase ?? 0)}
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-gray-700">
+                    {taxSnapshot ? describePpnRate(taxSnapshot) : "PPN"}
+                    {!ppnApplied && (ppnExempt ? " — Exempt" : " — Not Applied")}
+                  </span>
+                  <span className="font-medium text-green-900">
+                    + {formatCurrency(calculatePPN())}
+                  </span>
+                </div>
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-gray-700">
+                    PPh 23
+                    {taxSnapshot &&
+                      ` (${formatTaxRate(taxSnapshot.pph_23_rate)} of Subtotal)`}
+                    {taxSnapshot &&
+                      !taxSnapshot.pph_23_applicable &&
+                      " — Exempt"}
+                  </span>
+                  <span className="font-medium text-red-900">
+                    - {formatCurrency(calculatePPH23())}
+                  </span>
+                </div>
+                {taxSnapshot?.pph_23_exemption_reason && (
+                  <p className="text-xs text-amber-700">
+                    PPh 23 exemption for this customer:{" "}
+                    {taxSnapshot.pph_23_exemption_reason}
+                  </p>
+                )}
               </div>
-            </div>
 
-            {/* Grand Total */}
-            <div className="flex justify-between items-center pt-4 border-t-2 border-gray-400">
-              <div>
-                <h3 className="text-xl font-bold text-gray-900">
-                  Grand Total (After Tax)
-                </h3>
-                <p className="text-xs text-gray-600 mt-1">
-                  Subtotal + PPN - PPh 23
-                </p>
-              </div>
-              <div className="text-right">
-                <div className="text-3xl font-bold text-green-900">
-                  {formatCurrency(calculateTotalPriceAfter())}
+              {/* Grand Total */}
+              <div className="flex justify-between items-center pt-4 border-t-2 border-gray-400">
+                <div>
+                  <h3 className="text-xl font-bold text-gray-900">
+                    Grand Total (After Tax)
+                  </h3>
+                  <p className="text-xs text-gray-600 mt-1">
+                    Subtotal + PPN - PPh 23
+                  </p>
+                </div>
+                <div className="text-right">
+                  <div className="text-3xl font-bold text-green-900">
+                    {formatCurrency(calculateTotalPriceAfter())}
+                  </div>
                 </div>
               </div>
             </div>
           </div>
-        </div>
+
+        </fieldset>
 
         {/* Action Buttons */}
         <div className="flex justify-between items-center mt-6">
-          {isEditMode && (
+          {isEditMode && !isIssued && (
             <button
               type="button"
               onClick={handleDelete}
@@ -1710,7 +2382,9 @@ export default function ManageInvoice() {
             </button>
           )}
 
-          <div className={`flex gap-4 ${!isEditMode ? "ml-auto" : ""}`}>
+          <div
+            className={`flex gap-4 ${!isEditMode || isIssued ? "ml-auto" : ""}`}
+          >
             <button
               type="button"
               onClick={() => navigate("/invoices")}
@@ -1722,26 +2396,27 @@ export default function ManageInvoice() {
             <button
               type="submit"
               disabled={
-                saving ||
-                blockResubmitAsPaid ||
-                calculateTotalPriceBefore() === 0
-              }
-              title={
-                blockResubmitAsPaid
-                  ? 'Uncheck "Mark as Paid" to make changes'
-                  : undefined
+                saving || formLocked || calculateTotalPriceBefore() === 0
               }
               className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
             >
               {saving ? (
                 <>
                   <Loader className="w-4 h-4 animate-spin" />
-                  {isEditMode ? "Updating..." : "Creating..."}
+                  {isIssued
+                    ? "Amending..."
+                    : isEditMode
+                      ? "Updating..."
+                      : "Creating..."}
                 </>
               ) : (
                 <>
                   <Save className="w-4 h-4" />{" "}
-                  {isEditMode ? "Update Invoice" : "Create Invoice"}
+                  {isIssued
+                    ? "Save Amendment"
+                    : isEditMode
+                      ? "Update Invoice"
+                      : "Create Invoice"}
                 </>
               )}
             </button>
@@ -0,0 +1,401 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Loader2, XCircle, X } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { supabase } from "../../lib/supabase";
+import {
+  TAX_TYPE_LABELS,
+  type TaxExemption,
+  type TaxType,
+} from "../../utils/invoiceTax";
+
+interface ExemptionForm {
+  company: string;
+  tax_type: TaxType;
+  reason: string;
+  effective_from: string;
+  effective_to: string;
+}
+
+const EMPTY_FORM: ExemptionForm = {
+  company: "",
+  tax_type: "PPN",
+  reason: "",
+  effective_from: "",
+  effective_to: "",
+};
+
+export default function TaxExemptionsSettings() {
+  const { isReadOnly } = useAuth();
+  const canEdit = !isReadOnly;
+
+  const [rows, setRows] = useState<TaxExemption[]>([]);
+  const [companies, setCompanies] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<ExemptionForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  const loadRows = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [exemptionsResult, vesselsResult] = await Promise.all([
+        supabase
+          .from("tax_exemptions")
+          .select("*")
+          .order("company", { ascending: true })
+          .order("effective_from", { ascending: false }),
+        supabase.from("vessel").select("company").is("deleted_at", null),
+      ]);
+      if (exemptionsResult.error) throw exemptionsResult.error;
+      if (vesselsResult.error) throw vesselsResult.error;
+
+      setRows((exemptionsResult.data as TaxExemption[]) || []);
+      // Invoices take their company from the vessel, so offer those names
+      // to keep exemptions matching what invoices will actually carry.
+      setCompanies(
+        [
+          ...new Set(
+            (vesselsResult.data || [])
+              .map((v) => (v.company as string | null)?.trim())
+              .filter((c): c is string => !!c),
+          ),
+        ].sort(),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load tax exemptions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRows();
+  }, [loadRows]);
+
+  const openAddModal = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (r: TaxExemption) => {
+    setEditingId(r.id);
+    setForm({
+      company: r.company,
+      tax_type: r.tax_type,
+      reason: r.reason,
+      effective_from: r.effective_from,
+      effective_to: r.effective_to || "",
+    });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const company = form.company.trim();
+    const reason = form.reason.trim();
+    if (!company) {
+      setFormError("Company is required");
+      return;
+    }
+    if (!reason) {
+      setFormError("Reason is required — it's shown on every exempted invoice");
+      return;
+    }
+    if (!form.effective_from) {
+      setFormError("Valid From is required");
+      return;
+    }
+    if (form.effective_to && form.effective_to < form.effective_from) {
+      setFormError("Valid To can't be before Valid From");
+      return;
+    }
+
+    const payload = {
+      company,
+      tax_type: form.tax_type,
+      reason,
+      effective_from: form.effective_from,
+      effective_to: form.effective_to || null,
+    };
+
+    setSaving(true);
+    setFormError(null);
+    try {
+      if (editingId) {
+        const { error: updateError } = await supabase
+          .from("tax_exemptions")
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq("id", editingId);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase
+          .from("tax_exemptions")
+          .insert(payload);
+        if (insertError) throw insertError;
+      }
+      setShowModal(false);
+      await loadRows();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save tax exemption");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (r: TaxExemption) => {
+    const willActivate = !!r.deleted_at;
+    const label = `the ${TAX_TYPE_LABELS[r.tax_type]} exemption for ${r.company}`;
+    const msg = willActivate
+      ? `Restore ${label}?`
+      : `Remove ${label}? Invoices already saved keep their tax amounts — this only affects invoices saved from now on.`;
+    if (!window.confirm(msg)) return;
+
+    setTogglingId(r.id);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase
+        .from("tax_exemptions")
+        .update({
+          deleted_at: willActivate ? null : new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", r.id);
+      if (updateError) throw updateError;
+      await loadRows();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update tax exemption");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const visibleRows = showInactive ? rows : rows.filter((r) => !r.deleted_at);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+        <p className="flex-1 text-sm text-gray-600">
+          Matched on the invoice's Company, ignoring case and spacing, for
+          invoices whose BASTP Collection Date falls in the validity window.
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Show removed
+        </label>
+        {canEdit && (
+          <button
+            onClick={openAddModal}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" /> Add Exemption
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Company</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Tax</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Reason</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Valid</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleRows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                    No tax exemptions configured
+                  </td>
+                </tr>
+              ) : (
+                visibleRows.map((r) => (
+                  <tr key={r.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-medium text-gray-900">{r.company}</td>
+                    <td className="px-4 py-3 text-gray-700">{TAX_TYPE_LABELS[r.tax_type]}</td>
+                    <td className="px-4 py-3 text-gray-600">{r.reason}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {r.effective_from} – {r.effective_to || "open-ended"}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          r.deleted_at
+                            ? "bg-gray-200 text-gray-600"
+                            : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {r.deleted_at ? "Removed" : "Active"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {canEdit ? (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openEditModal(r)}
+                            className="px-3 py-1 text-xs font-medium rounded-md border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(r)}
+                            disabled={togglingId === r.id}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                              r.deleted_at
+                                ? "border-green-300 text-green-700 hover:bg-green-50"
+                                : "border-red-300 text-red-700 hover:bg-red-50"
+                            }`}
+                          >
+                            {togglingId === r.id ? "..." : r.deleted_at ? "Restore" : "Remove"}
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg max-w-md w-full shadow-2xl">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingId ? "Edit Tax Exemption" : "Add Tax Exemption"}
+              </h3>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Company *
+                </label>
+                <input
+                  type="text"
+                  list="tax-exemption-companies"
+                  value={form.company}
+                  onChange={(e) => setForm({ ...form, company: e.target.value })}
+                  placeholder="As it appears on the invoice"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+                <datalist id="tax-exemption-companies">
+                  {companies.map((c) => (
+                    <option key={c} value={c} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Exempt From *
+                </label>
+                <select
+                  value={form.tax_type}
+                  onChange={(e) =>
+                    setForm({ ...form, tax_type: e.target.value as TaxType })
+                  }
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="PPN">PPN</option>
+                  <option value="PPH_23">PPh 23</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Reason *
+                </label>
+                <input
+                  type="text"
+                  value={form.reason}
+                  onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                  placeholder="e.g. SKB PPh 23 No. ..."
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Valid From *
+                  </label>
+                  <input
+                    type="date"
+                    value={form.effective_from}
+                    onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Valid To
+                  </label>
+                  <input
+                    type="date"
+                    value={form.effective_to}
+                    onChange={(e) => setForm({ ...form, effective_to: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              {formError && <p className="text-red-600 text-sm">{formError}</p>}
+            </div>
+            <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editingId ? "Save Changes" : "Add Exemption"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,423 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Loader2, XCircle, X } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { supabase } from "../../lib/supabase";
+import {
+  TAX_TYPE_LABELS,
+  formatTaxRate,
+  type TaxRate,
+  type TaxType,
+} from "../../utils/invoiceTax";
+
+interface RateForm {
+  tax_type: TaxType;
+  ratePercent: string;
+  dpp_numerator: string;
+  dpp_denominator: string;
+  effective_from: string;
+  notes: string;
+}
+
+const EMPTY_FORM: RateForm = {
+  tax_type: "PPN",
+  ratePercent: "",
+  dpp_numerator: "1",
+  dpp_denominator: "1",
+  effective_from: "",
+  notes: "",
+};
+
+export default function TaxRatesSettings() {
+  const { isReadOnly } = useAuth();
+  const canEdit = !isReadOnly;
+
+  const [rows, setRows] = useState<TaxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<RateForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  const loadRows = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase
+        .from("tax_rates")
+        .select("*")
+        .order("tax_type", { ascending: true })
+        .order("effective_from", { ascending: false });
+      if (fetchError) throw fetchError;
+      setRows((data as TaxRate[]) || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load tax rates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRows();
+  }, [loadRows]);
+
+  const openAddModal = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (r: TaxRate) => {
+    setEditingId(r.id);
+    setForm({
+      tax_type: r.tax_type,
+      ratePercent: String(parseFloat((Number(r.rate) * 100).toFixed(2))),
+      dpp_numerator: String(r.dpp_numerator),
+      dpp_denominator: String(r.dpp_denominator),
+      effective_from: r.effective_from,
+      notes: r.notes || "",
+    });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const ratePercent = parseFloat(form.ratePercent);
+    const numerator = parseInt(form.dpp_numerator, 10);
+    const denominator = parseInt(form.dpp_denominator, 10);
+
+    if (isNaN(ratePercent) || ratePercent < 0 || ratePercent >= 100) {
+      setFormError("Rate must be a percentage between 0 and 100");
+      return;
+    }
+    if (!(numerator > 0) || !(denominator > 0)) {
+      setFormError("DPP fraction must be two positive whole numbers");
+      return;
+    }
+    if (!form.effective_from) {
+      setFormError("Effective From is required");
+      return;
+    }
+    const duplicate = rows.some(
+      (r) =>
+        r.id !== editingId &&
+        !r.deleted_at &&
+        r.tax_type === form.tax_type &&
+        r.effective_from === form.effective_from,
+    );
+    if (duplicate) {
+      setFormError(
+        `An active ${TAX_TYPE_LABELS[form.tax_type]} rate already starts on this date`,
+      );
+      return;
+    }
+
+    const payload = {
+      tax_type: form.tax_type,
+      rate: Number((ratePercent / 100).toFixed(4)),
+      // PPh 23 is always withheld on the plain subtotal.
+      dpp_numerator: form.tax_type === "PPN" ? numerator : 1,
+      dpp_denominator: form.tax_type === "PPN" ? denominator : 1,
+      effective_from: form.effective_from,
+      notes: form.notes.trim() || null,
+    };
+
+    setSaving(true);
+    setFormError(null);
+    try {
+      if (editingId) {
+        const { error: updateError } = await supabase
+          .from("tax_rates")
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq("id", editingId);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase
+          .from("tax_rates")
+          .insert(payload);
+        if (insertError) throw insertError;
+      }
+      setShowModal(false);
+      await loadRows();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save tax rate");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (r: TaxRate) => {
+    const willActivate = !!r.deleted_at;
+    const label = `${TAX_TYPE_LABELS[r.tax_type]} ${formatTaxRate(r.rate)} from ${r.effective_from}`;
+    const msg = willActivate
+      ? `Restore ${label}? New invoices dated from then on will use it again.`
+      : `Remove ${label}? Saved invoices keep the rate they were computed with — this only affects invoices saved from now on.`;
+    if (!window.confirm(msg)) return;
+
+    setTogglingId(r.id);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase
+        .from("tax_rates")
+        .update({
+          deleted_at: willActivate ? null : new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", r.id);
+      if (updateError) throw updateError;
+      await loadRows();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update tax rate");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const visibleRows = showInactive ? rows : rows.filter((r) => !r.deleted_at);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+        <p className="flex-1 text-sm text-gray-600">
+          Each invoice uses the latest active rate whose Effective From is on
+          or before its BASTP Collection Date.
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Show removed
+        </label>
+        {canEdit && (
+          <button
+            onClick={openAddModal}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" /> Add Rate
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Tax</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Rate</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">DPP</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Effective From</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Notes</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleRows.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                    No tax rates configured
+                  </td>
+                </tr>
+              ) : (
+                visibleRows.map((r) => (
+                  <tr key={r.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-medium text-gray-900">
+                      {TAX_TYPE_LABELS[r.tax_type]}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{formatTaxRate(r.rate)}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {r.dpp_numerator === r.dpp_denominator
+                        ? "Subtotal"
+                        : `Nilai Lain ${r.dpp_numerator}/${r.dpp_denominator}`}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{r.effective_from}</td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {r.notes || <em className="text-gray-400">—</em>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          r.deleted_at
+                            ? "bg-gray-200 text-gray-600"
+                            : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {r.deleted_at ? "Removed" : "Active"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {canEdit ? (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openEditModal(r)}
+                            className="px-3 py-1 text-xs font-medium rounded-md border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(r)}
+                            disabled={togglingId === r.id}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                              r.deleted_at
+                                ? "border-green-300 text-green-700 hover:bg-green-50"
+                                : "border-red-300 text-red-700 hover:bg-red-50"
+                            }`}
+                          >
+                            {togglingId === r.id ? "..." : r.deleted_at ? "Restore" : "Remove"}
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg max-w-md w-full shadow-2xl">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingId ? "Edit Tax Rate" : "Add Tax Rate"}
+              </h3>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Tax *
+                  </label>
+                  <select
+                    value={form.tax_type}
+                    onChange={(e) =>
+                      setForm({ ...form, tax_type: e.target.value as TaxType })
+                    }
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="PPN">PPN</option>
+                    <option value="PPH_23">PPh 23</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Rate (%) *
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={form.ratePercent}
+                    onChange={(e) => setForm({ ...form, ratePercent: e.target.value })}
+                    placeholder="e.g. 12"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              {form.tax_type === "PPN" && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    DPP fraction of the subtotal *
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={form.dpp_numerator}
+                      onChange={(e) => setForm({ ...form, dpp_numerator: e.target.value })}
+                      className="w-20 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-gray-500">/</span>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={form.dpp_denominator}
+                      onChange={(e) => setForm({ ...form, dpp_denominator: e.target.value })}
+                      className="w-20 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    1/1 for the plain subtotal; 11/12 for DPP Nilai Lain.
+                  </p>
+                </div>
+              )}
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Effective From *
+                </label>
+                <input
+                  type="date"
+                  value={form.effective_from}
+                  onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Notes
+                </label>
+                <input
+                  type="text"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  placeholder="e.g. PMK 131/2024"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              {formError && <p className="text-red-600 text-sm">{formError}</p>}
+            </div>
+            <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editingId ? "Save Changes" : "Add Rate"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
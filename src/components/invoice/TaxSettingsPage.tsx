@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Lock, Percent, ShieldOff } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import TaxRatesSettings from "./TaxRatesSettings";
+import TaxExemptionsSettings from "./TaxExemptionsSettings";
+
+type Tab = "rates" | "exemptions";
+
+const TABS: { key: Tab; label: string; icon: typeof Percent }[] = [
+  { key: "rates", label: "Rates", icon: Percent },
+  { key: "exemptions", label: "Customer Exemptions", icon: ShieldOff },
+];
+
+export default function TaxSettingsPage() {
+  const { canAccess, isReadOnly } = useAuth();
+  const [activeTab, setActiveTab] = useState<Tab>("rates");
+
+  const canView = canAccess("taxSettings");
+
+  if (!canView) {
+    return (
+      <div className="p-8">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 flex items-start gap-3">
+          <Lock className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+          <div>
+            <p className="text-yellow-900 font-medium">
+              You don't have permission to view tax settings.
+            </p>
+            <p className="text-sm text-yellow-700 mt-1">
+              This page is restricted to the Master, Finance, and Manager
+              roles.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Tax Settings</h1>
+        <p className="text-gray-600 mt-1">
+          PPN and PPh 23 rates used when invoices are saved. Saved invoices
+          keep the rates they were computed with.
+          {isReadOnly && " You have view-only access."}
+        </p>
+      </div>
+
+      <div className="border-b border-gray-200 mb-6">
+        <nav className="flex gap-6">
+          {TABS.map((tab) => {
+            const Icon = tab.icon;
+            const isActive = activeTab === tab.key;
+            return (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className={`flex items-center gap-2 pb-3 border-b-2 text-sm font-medium transition-colors ${
+                  isActive
+                    ? "border-blue-600 text-blue-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {tab.label}
+              </button>
+            );
+          })}
+        </nav>
+      </div>
+
+      {activeTab === "rates" && <TaxRatesSettings />}
+      {activeTab === "exemptions" && <TaxExemptionsSettings />}
+    </div>
+  );
+}
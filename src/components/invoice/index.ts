@@ -1,3 +1,6 @@
 export { default as InvoiceList } from "./InvoiceList";
 export { default as InvoiceDetails } from "./InvoiceDetails";
 export { default as ManageInvoice } from "./ManageInvoice";
+export { default as TaxSettingsPage } from "./TaxSettingsPage";
+export { default as ARAgingReport } from "./ARAgingReport";
+export { default as ManageCreditNote } from "./ManageCreditNote";
@@ -0,0 +1,125 @@
+/**
+ * A4 layout shared by InvoicePrint and CreditNotePrint: the letterhead
+ * (thead) and footer (tfoot) images repeat on every printed page, and
+ * section blocks avoid splitting across pages.
+ */
+export const INVOICE_PRINT_STYLES = `
+  @media print {
+    html, body {
+      margin: 0;
+      padding: 0;
+    }
+
+    @page {
+      size: A4;
+      margin: 6mm;
+    }
+
+    /* Main wrapper table */
+    .print-table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    /* Header repeats on every page */
+    .print-table thead {
+      display: table-header-group;
+    }
+
+    .print-table thead td {
+      padding: 0 6mm;
+      vertical-align: top;
+    }
+
+    .print-table thead img {
+      width: 100%;
+      height: auto;
+      max-height: 35mm;
+      object-fit: contain;
+      object-position: top center;
+      display: block;
+    }
+
+    /* Footer repeats on every page */
+    .print-table tfoot {
+      display: table-footer-group;
+    }
+
+    .print-table tfoot td {
+      padding: 0 6mm;
+      vertical-align: bottom;
+    }
+
+    .print-table tfoot img {
+      width: 100%;
+      height: auto;
+      max-height: 20mm;
+      object-fit: contain;
+      object-position: bottom center;
+      display: block;
+    }
+
+    /* Body content */
+    .print-table tbody {
+      display: table-row-group;
+    }
+
+    .print-table tbody > tr {
+      page-break-inside: avoid;
+      break-inside: avoid;
+    }
+
+    .print-table tbody td {
+      padding: 2mm 6mm;
+      vertical-align: top;
+    }
+
+    /* Inner tables */
+    .content-table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    .content-table thead {
+      display: table-header-group;
+    }
+
+    .content-table tbody tr {
+      page-break-inside: avoid;
+      break-inside: avoid;
+    }
+
+    .section-block {
+      page-break-inside: avoid;
+      break-inside: avoid;
+    }
+  }
+
+  @media screen {
+    .print-table {
+      width: 100%;
+    }
+
+    .print-table thead td {
+      padding: 0 1.5rem;
+    }
+
+    .print-table thead img {
+      width: 100%;
+      height: auto;
+      max-height: 35mm;
+      margin-bottom: 1rem;
+    }
+
+    .print-table tfoot img {
+      width: 100%;
+      height: auto;
+      max-height: 20mm;
+      margin-top: 1rem;
+    }
+
+    .print-table tbody td {
+      padding: 0.5rem 1.5rem;
+    }
+  }
+`;
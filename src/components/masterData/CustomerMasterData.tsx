@@ -0,0 +1,447 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Search, Loader2, XCircle, X } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { supabase } from "../../lib/supabase";
+import type { Customer } from "../../types/customer.types";
+import Pagination, { PAGE_SIZE } from "./Pagination";
+
+const emptyForm = {
+  name: "",
+  legal_name: "",
+  npwp: "",
+  billing_address: "",
+  payment_terms_days: "",
+  invoice_recipient: "",
+  notes: "",
+};
+
+export default function CustomerMasterData() {
+  const { isReadOnly } = useAuth();
+  const canEdit = !isReadOnly;
+
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [vesselCounts, setVesselCounts] = useState<Record<number, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"active" | "inactive" | "all">("active");
+  const [page, setPage] = useState(1);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  const loadCustomers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [customersRes, vesselsRes] = await Promise.all([
+        supabase.from("customers").select("*").order("name", { ascending: true }),
+        supabase.from("vessel").select("customer_id").is("deleted_at", null),
+      ]);
+      if (customersRes.error) throw customersRes.error;
+      if (vesselsRes.error) throw vesselsRes.error;
+
+      const counts: Record<number, number> = {};
+      for (const v of (vesselsRes.data || []) as { customer_id: number | null }[]) {
+        if (v.customer_id != null) counts[v.customer_id] = (counts[v.customer_id] || 0) + 1;
+      }
+      setCustomers((customersRes.data as Customer[]) || []);
+      setVesselCounts(counts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load customers");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCustomers();
+  }, [loadCustomers]);
+
+  const openAddModal = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (c: Customer) => {
+    setEditingId(c.id);
+    setForm({
+      name: c.name,
+      legal_name: c.legal_name || "",
+      npwp: c.npwp || "",
+      billing_address: c.billing_address || "",
+      payment_terms_days: c.payment_terms_days != null ? String(c.payment_terms_days) : "",
+      invoice_recipient: c.invoice_recipient || "",
+      notes: c.notes || "",
+    });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      setFormError("Name is required");
+      return;
+    }
+    const terms = form.payment_terms_days.trim();
+    const paymentTermsDays = terms ? Number(terms) : null;
+    if (paymentTermsDays != null && (!Number.isInteger(paymentTermsDays) || paymentTermsDays < 0)) {
+      setFormError("Payment terms must be a whole number of days");
+      return;
+    }
+    const duplicate = customers.some(
+      (c) =>
+        c.id !== editingId && !c.deleted_at && c.name.trim().toLowerCase() === name.toLowerCase(),
+    );
+    if (duplicate) {
+      setFormError("An active customer with this name already exists");
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+    try {
+      const payload = {
+        name,
+        legal_name: form.legal_name.trim() || null,
+        npwp: form.npwp.trim() || null,
+        billing_address: form.billing_address.trim() || null,
+        payment_terms_days: paymentTermsDays,
+        invoice_recipient: form.invoice_recipient.trim() || null,
+        notes: form.notes.trim() || null,
+      };
+      if (editingId) {
+        const { error: updateError } = await supabase
+          .from("customers")
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq("id", editingId);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase.from("customers").insert(payload);
+        if (insertError) throw insertError;
+      }
+      setShowModal(false);
+      await loadCustomers();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save customer");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (c: Customer) => {
+    const willActivate = !!c.deleted_at;
+    const msg = willActivate
+      ? `Restore ${c.name}? It'll be selectable again for vessels and invoices.`
+      : `Remove ${c.name} from active master data? Vessels linked to it and invoices already billed to it are unchanged — this only hides it from new-entry pickers.`;
+    if (!window.confirm(msg)) return;
+
+    setTogglingId(c.id);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase
+        .from("customers")
+        .update({
+          deleted_at: willActivate ? null : new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", c.id);
+      if (updateError) throw updateError;
+      await loadCustomers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update customer");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const filtered = customers.filter((c) => {
+    if (statusFilter === "active" && c.deleted_at) return false;
+    if (statusFilter === "inactive" && !c.deleted_at) return false;
+    if (search.trim()) {
+      const q = search.trim().toLowerCase();
+      if (
+        !c.name.toLowerCase().includes(q) &&
+        !(c.legal_name || "").toLowerCase().includes(q) &&
+        !(c.npwp || "").toLowerCase().includes(q)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const paginated = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search name, legal name, or NPWP"
+            className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value as typeof statusFilter);
+            setPage(1);
+          }}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="active">Active only</option>
+          <option value="inactive">Inactive only</option>
+          <option value="all">All</option>
+        </select>
+        {canEdit && (
+          <button
+            onClick={openAddModal}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" /> Add Customer
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Name</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">NPWP</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Terms</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Recipient</th>
+                <th className="px-4 py-3 text-right font-semibold text-gray-700">Vessels</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {paginated.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                    No customers found
+                  </td>
+                </tr>
+              ) : (
+                paginated.map((c) => (
+                  <tr key={c.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{c.name}</div>
+                      {c.legal_name && c.legal_name !== c.name && (
+                        <div className="text-xs text-gray-500">{c.legal_name}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {c.npwp || <em className="text-gray-400">—</em>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {c.payment_terms_days != null ? (
+                        `${c.payment_terms_days} days`
+                      ) : (
+                        <em className="text-gray-400">—</em>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {c.invoice_recipient || <em className="text-gray-400">—</em>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">
+                      {vesselCounts[c.id] || 0}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          c.deleted_at ? "bg-gray-200 text-gray-600" : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {c.deleted_at ? "Inactive" : "Active"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {canEdit ? (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openEditModal(c)}
+                            className="px-3 py-1 text-xs font-medium rounded-md border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(c)}
+                            disabled={togglingId === c.id}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                              c.deleted_at
+                                ? "border-green-300 text-green-700 hover:bg-green-50"
+                                : "border-red-300 text-red-700 hover:bg-red-50"
+                            }`}
+                          >
+                            {togglingId === c.id ? "..." : c.deleted_at ? "Restore" : "Remove"}
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          <div className="px-4 pb-4">
+            <Pagination page={page} totalItems={filtered.length} onPageChange={setPage} />
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingId ? "Edit Customer" : "Add Customer"}
+              </h3>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Name *</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Armada Samudera Global"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    autoFocus
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Legal Name</label>
+                  <input
+                    type="text"
+                    value={form.legal_name}
+                    onChange={(e) => setForm({ ...form, legal_name: e.target.value })}
+                    placeholder="e.g. PT Armada Samudera Global"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">NPWP</label>
+                  <input
+                    type="text"
+                    value={form.npwp}
+                    onChange={(e) => setForm({ ...form, npwp: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Payment Terms (days)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={form.payment_terms_days}
+                    onChange={(e) => setForm({ ...form, payment_terms_days: e.target.value })}
+                    placeholder="e.g. 30"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Billing Address
+                </label>
+                <textarea
+                  value={form.billing_address}
+                  onChange={(e) => setForm({ ...form, billing_address: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Invoice Recipient (UP)
+                </label>
+                <input
+                  type="text"
+                  value={form.invoice_recipient}
+                  onChange={(e) => setForm({ ...form, invoice_recipient: e.target.value })}
+                  placeholder="ACCOUNTING"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+                <input
+                  type="text"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              {editingId && (
+                <p className="text-xs text-gray-500">
+                  Renaming updates the company on linked vessels. Invoices already saved keep the
+                  billing details they were saved with.
+                </p>
+              )}
+              {formError && <p className="text-red-600 text-sm">{formError}</p>}
+            </div>
+            <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editingId ? "Save Changes" : "Add Customer"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Search, Loader2, XCircle, X } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { supabase } from "../../lib/supabase";
+import type { GeneralServiceType, GeneralServiceTypePrice } from "../../types/generalService.types";
+import { pickGeneralServicePrice } from "../../utils/generalServicePrices";
+import GeneralServicePricesModal from "./GeneralServicePricesModal";
+import Pagination, { PAGE_SIZE } from "./Pagination";
+
+const emptyForm = { service_name: "", service_code: "", display_order: "" };
+
+export default function GeneralServiceMasterData() {
+  const { isReadOnly } = useAuth();
+  const canEdit = !isReadOnly;
+
+  const [serviceTypes, setServiceTypes] = useState<GeneralServiceType[]>([]);
+  const [prices, setPrices] = useState<GeneralServiceTypePrice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"active" | "inactive" | "all">("active");
+  const [page, setPage] = useState(1);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+  const [pricesFor, setPricesFor] = useState<GeneralServiceType | null>(null);
+
+  const loadServiceTypes = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [typesRes, pricesRes] = await Promise.all([
+        supabase
+          .from("general_service_types")
+          .select("*")
+          .order("display_order", { ascending: true }),
+        supabase.from("general_service_prices").select("*").is("deleted_at", null),
+      ]);
+      if (typesRes.error) throw typesRes.error;
+      if (pricesRes.error) throw pricesRes.error;
+      setServiceTypes((typesRes.data as GeneralServiceType[]) || []);
+      setPrices((pricesRes.data as GeneralServiceTypePrice[]) || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load general services");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadServiceTypes();
+  }, [loadServiceTypes]);
+
+  const today = new Date().toISOString().split("T")[0];
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+
+  const openAddModal = () => {
+    setEditingId(null);
+    const nextOrder = serviceTypes.reduce((max, st) => Math.max(max, st.display_order || 0), 0) + 1;
+    setForm({ ...emptyForm, display_order: String(nextOrder) });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (st: GeneralServiceType) => {
+    setEditingId(st.id);
+    setForm({
+      service_name: st.service_name,
+      service_code: st.service_code || "",
+      display_order: String(st.display_order ?? ""),
+    });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const serviceName = form.service_name.trim();
+    const serviceCode = form.service_code.trim().toUpperCase();
+    if (!serviceName) {
+      setFormError("Service name is required");
+      return;
+    }
+    if (!serviceCode) {
+      setFormError("Service code is required");
+      return;
+    }
+    const displayOrder = parseInt(form.display_order, 10);
+    if (isNaN(displayOrder)) {
+      setFormError("Display order must be a whole number");
+      return;
+    }
+    const active = serviceTypes.filter((st) => st.id !== editingId && !st.deleted_at);
+    if (active.some((st) => st.service_name.trim().toLowerCase() === serviceName.toLowerCase())) {
+      setFormError("An active service with this name already exists");
+      return;
+    }
+    if (active.some((st) => (st.service_code || "").trim().toUpperCase() === serviceCode)) {
+      setFormError("An active service with this code already exists");
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+    try {
+      const payload = {
+        service_name: serviceName,
+        service_code: serviceCode,
+        display_order: displayOrder,
+      };
+      if (editingId) {
+        const { error: updateError } = await supabase
+          .from("general_service_types")
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq("id", editingId);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase.from("general_service_types").insert(payload);
+        if (insertError) throw insertError;
+      }
+      setShowModal(false);
+      await loadServiceTypes();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save general service");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (st: GeneralServiceType) => {
+    const willActivate = !!st.deleted_at;
+    const msg = willActivate
+      ? `Restore ${st.service_name}? It'll be selectable again when creating BASTPs.`
+      : `Remove ${st.service_name} from active master data? Existing BASTPs and invoices keep it — this only hides it from new BASTPs.`;
+    if (!window.confirm(msg)) return;
+
+    setTogglingId(st.id);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase
+        .from("general_service_types")
+        .update({
+          deleted_at: willActivate ? null : new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", st.id);
+      if (updateError) throw updateError;
+      await loadServiceTypes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update general service");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const filtered = serviceTypes.filter((st) => {
+    if (statusFilter === "active" && st.deleted_at) return false;
+    if (statusFilter === "inactive" && !st.deleted_at) return false;
+    if (search.trim()) {
+      const q = search.trim().toLowerCase();
+      if (
+        !st.service_name.toLowerCase().includes(q) &&
+        !(st.service_code || "").toLowerCase().includes(q)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const paginated = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search service name or code"
+            className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value as typeof statusFilter);
+            setPage(1);
+          }}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="active">Active only</option>
+          <option value="inactive">Inactive only</option>
+          <option value="all">All</option>
+        </select>
+        {canEdit && (
+          <button
+            onClick={openAddModal}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" /> Add Service
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Order</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Service</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Code</th>
+                <th className="px-4 py-3 text-right font-semibold text-gray-700">
+                  Current Default Price / Day
+                </th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {paginated.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                    No general services found
+                  </td>
+                </tr>
+              ) : (
+                paginated.map((st) => {
+                  // Unscoped price in force today; company/type-specific
+                  // prices are listed under Prices.
+                  const defaultPrice = pickGeneralServicePrice(prices, st.id, today, null);
+                  const scopedCount = prices.filter(
+                    (p) => p.service_type_id === st.id && (p.vessel_company || p.vessel_type),
+                  ).length;
+                  return (
+                    <tr key={st.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-gray-700">{st.display_order}</td>
+                      <td className="px-4 py-3 font-medium text-gray-900">{st.service_name}</td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {st.service_code || <em className="text-gray-400">—</em>}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700">
+                        {defaultPrice ? (
+                          formatCurrency(Number(defaultPrice.unit_price))
+                        ) : (
+                          <em className="text-gray-400">Not set</em>
+                        )}
+                        {scopedCount > 0 && (
+                          <div className="text-xs text-gray-500">
+                            + {scopedCount} vessel-specific price{scopedCount !== 1 ? "s" : ""}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            st.deleted_at
+                              ? "bg-gray-200 text-gray-600"
+                              : "bg-green-100 text-green-800"
+                          }`}
+                        >
+                          {st.deleted_at ? "Inactive" : "Active"}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => setPricesFor(st)}
+                            className="px-3 py-1 text-xs font-medium rounded-md border border-purple-300 text-purple-700 hover:bg-purple-50 transition-colors"
+                          >
+                            Prices
+                          </button>
+                          {canEdit && (
+                            <>
+                              <button
+                                onClick={() => openEditModal(st)}
+                                className="px-3 py-1 text-xs font-medium rounded-md border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleToggleActive(st)}
+                                disabled={togglingId === st.id}
+                                className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                                  st.deleted_at
+                                    ? "border-green-300 text-green-700 hover:bg-green-50"
+                                    : "border-red-300 text-red-700 hover:bg-red-50"
+                                }`}
+                              >
+                                {togglingId === st.id
+                                  ? "..."
+                                  : st.deleted_at
+                                    ? "Restore"
+                                    : "Remove"}
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+          <div className="px-4 pb-4">
+            <Pagination page={page} totalItems={filtered.length} onPageChange={setPage} />
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg max-w-md w-full shadow-2xl">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingId ? "Edit General Service" : "Add General Service"}
+              </h3>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Service Name *
+                </label>
+                <input
+                  type="text"
+                  value={form.service_name}
+                  onChange={(e) => setForm({ ...form, service_name: e.target.value })}
+                  placeholder="e.g. Crane"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Code *</label>
+                  <input
+                    type="text"
+                    value={form.service_code}
+                    onChange={(e) => setForm({ ...form, service_code: e.target.value })}
+                    placeholder="e.g. CRANE"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Display Order *
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    value={form.display_order}
+                    onChange={(e) => setForm({ ...form, display_order: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              {formError && <p className="text-red-600 text-sm">{formError}</p>}
+            </div>
+            <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editingId ? "Save Changes" : "Add Service"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pricesFor && (
+        <GeneralServicePricesModal
+          serviceType={pricesFor}
+          onClose={() => setPricesFor(null)}
+          onChanged={loadServiceTypes}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,429 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Loader2, XCircle, X } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { supabase } from "../../lib/supabase";
+import type { GeneralServiceType, GeneralServiceTypePrice } from "../../types/generalService.types";
+import { describePriceScope } from "../../utils/generalServicePrices";
+
+interface PriceForm {
+  unit_price: string;
+  effective_from: string;
+  vessel_company: string;
+  vessel_type: string;
+  notes: string;
+}
+
+const EMPTY_FORM: PriceForm = {
+  unit_price: "",
+  effective_from: "",
+  vessel_company: "",
+  vessel_type: "",
+  notes: "",
+};
+
+const normalize = (value: string | null) => (value || "").trim().toLowerCase();
+
+// Price history for one service type, opened from the General Services tab.
+export default function GeneralServicePricesModal({
+  serviceType,
+  onClose,
+  onChanged,
+}: {
+  serviceType: GeneralServiceType;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const { isReadOnly } = useAuth();
+  const canEdit = !isReadOnly;
+
+  const [rows, setRows] = useState<GeneralServiceTypePrice[]>([]);
+  const [vesselCompanies, setVesselCompanies] = useState<string[]>([]);
+  const [vesselTypes, setVesselTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<PriceForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  const loadRows = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [pricesRes, vesselsRes] = await Promise.all([
+        supabase
+          .from("general_service_prices")
+          .select("*")
+          .eq("service_type_id", serviceType.id)
+          .order("effective_from", { ascending: false }),
+        supabase.from("vessel").select("company, type").is("deleted_at", null),
+      ]);
+      if (pricesRes.error) throw pricesRes.error;
+      if (vesselsRes.error) throw vesselsRes.error;
+      setRows((pricesRes.data as GeneralServiceTypePrice[]) || []);
+
+      const vessels = (vesselsRes.data || []) as { company: string | null; type: string | null }[];
+      const distinct = (values: (string | null)[]) =>
+        [...new Set(values.map((v) => v?.trim()).filter((v): v is string => !!v))].sort((a, b) =>
+          a.localeCompare(b),
+        );
+      setVesselCompanies(distinct(vessels.map((v) => v.company)));
+      setVesselTypes(distinct(vessels.map((v) => v.type)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load prices");
+    } finally {
+      setLoading(false);
+    }
+  }, [serviceType.id]);
+
+  useEffect(() => {
+    loadRows();
+  }, [loadRows]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat("id-ID", {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+    }).format(amount);
+
+  const openAddForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const openEditForm = (r: GeneralServiceTypePrice) => {
+    setEditingId(r.id);
+    setForm({
+      unit_price: String(Number(r.unit_price)),
+      effective_from: r.effective_from,
+      vessel_company: r.vessel_company || "",
+      vessel_type: r.vessel_type || "",
+      notes: r.notes || "",
+    });
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    const unitPrice = Number(form.unit_price);
+    if (!form.unit_price.trim() || !Number.isFinite(unitPrice) || unitPrice < 0) {
+      setFormError("Unit price must be zero or more");
+      return;
+    }
+    if (!form.effective_from) {
+      setFormError("Effective From is required");
+      return;
+    }
+    const vesselCompany = form.vessel_company.trim() || null;
+    const vesselType = form.vessel_type.trim() || null;
+    const duplicate = rows.some(
+      (r) =>
+        r.id !== editingId &&
+        !r.deleted_at &&
+        r.effective_from === form.effective_from &&
+        normalize(r.vessel_company) === normalize(vesselCompany) &&
+        normalize(r.vessel_type) === normalize(vesselType),
+    );
+    if (duplicate) {
+      setFormError("An active price for this scope already starts on this date");
+      return;
+    }
+
+    const payload = {
+      service_type_id: serviceType.id,
+      unit_price: unitPrice,
+      effective_from: form.effective_from,
+      vessel_company: vesselCompany,
+      vessel_type: vesselType,
+      notes: form.notes.trim() || null,
+    };
+
+    setSaving(true);
+    setFormError(null);
+    try {
+      if (editingId) {
+        const { error: updateError } = await supabase
+          .from("general_service_prices")
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq("id", editingId);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase
+          .from("general_service_prices")
+          .insert(payload);
+        if (insertError) throw insertError;
+      }
+      setShowForm(false);
+      await loadRows();
+      onChanged();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save price");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (r: GeneralServiceTypePrice) => {
+    const willActivate = !!r.deleted_at;
+    const label = `${formatCurrency(Number(r.unit_price))}/day for ${describePriceScope(r)} from ${r.effective_from}`;
+    const msg = willActivate
+      ? `Restore ${label}? New BASTPs dated from then on will use it again.`
+      : `Remove ${label}? BASTPs and invoices already priced keep their price — this only affects new ones.`;
+    if (!window.confirm(msg)) return;
+
+    setTogglingId(r.id);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase
+        .from("general_service_prices")
+        .update({
+          deleted_at: willActivate ? null : new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", r.id);
+      if (updateError) throw updateError;
+      await loadRows();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update price");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const visibleRows = showInactive ? rows : rows.filter((r) => !r.deleted_at);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {serviceType.service_name} — Price List
+            </h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              A BASTP uses the most specific price matching its vessel (company and type, then
+              company, then type, then all vessels), effective on or before the BASTP date.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto">
+          <div className="flex items-center justify-end gap-3 mb-3">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={(e) => setShowInactive(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Show removed
+            </label>
+            {canEdit && !showForm && (
+              <button
+                onClick={openAddForm}
+                className="inline-flex items-center gap-2 bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+              >
+                <Plus className="w-4 h-4" /> Add Price
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="mb-3 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+              <XCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {showForm && (
+            <div className="mb-4 border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Unit Price (IDR/day) *
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={form.unit_price}
+                    onChange={(e) => setForm({ ...form, unit_price: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Effective From *
+                  </label>
+                  <input
+                    type="date"
+                    value={form.effective_from}
+                    onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Vessel Company
+                  </label>
+                  <input
+                    type="text"
+                    list="service-price-companies"
+                    value={form.vessel_company}
+                    onChange={(e) => setForm({ ...form, vessel_company: e.target.value })}
+                    placeholder="Any company"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <datalist id="service-price-companies">
+                    {vesselCompanies.map((c) => (
+                      <option key={c} value={c} />
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Vessel Type
+                  </label>
+                  <input
+                    type="text"
+                    list="service-price-types"
+                    value={form.vessel_type}
+                    onChange={(e) => setForm({ ...form, vessel_type: e.target.value })}
+                    placeholder="Any type"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <datalist id="service-price-types">
+                    {vesselTypes.map((t) => (
+                      <option key={t} value={t} />
+                    ))}
+                  </datalist>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+                <input
+                  type="text"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  placeholder="e.g. 2026 tariff"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              {formError && <p className="text-red-600 text-sm">{formError}</p>}
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+                >
+                  {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {editingId ? "Save Changes" : "Add Price"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+            </div>
+          ) : (
+            <div className="border border-gray-200 rounded-lg overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-700">
+                      Effective From
+                    </th>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-700">Applies To</th>
+                    <th className="px-4 py-3 text-right font-semibold text-gray-700">
+                      Price / Day
+                    </th>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-700">Notes</th>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                    {canEdit && (
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Actions</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {visibleRows.length === 0 ? (
+                    <tr>
+                      <td colSpan={canEdit ? 6 : 5} className="px-4 py-8 text-center text-gray-500">
+                        No prices configured — BASTPs start this service at Rp 0
+                      </td>
+                    </tr>
+                  ) : (
+                    visibleRows.map((r) => (
+                      <tr key={r.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-gray-900">{r.effective_from}</td>
+                        <td className="px-4 py-3 text-gray-700">{describePriceScope(r)}</td>
+                        <td className="px-4 py-3 text-right font-medium text-gray-900">
+                          {formatCurrency(Number(r.unit_price))}
+                        </td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {r.notes || <em className="text-gray-400">—</em>}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                              r.deleted_at
+                                ? "bg-gray-200 text-gray-600"
+                                : "bg-green-100 text-green-800"
+                            }`}
+                          >
+                            {r.deleted_at ? "Removed" : "Active"}
+                          </span>
+                        </td>
+                        {canEdit && (
+                          <td className="px-4 py-3">
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => openEditForm(r)}
+                                className="px-3 py-1 text-xs font-medium rounded-md border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleToggleActive(r)}
+                                disabled={togglingId === r.id}
+                                className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                                  r.deleted_at
+                                    ? "border-green-300 text-green-700 hover:bg-green-50"
+                                    : "border-red-300 text-red-700 hover:bg-red-50"
+                                }`}
+                              >
+                                {togglingId === r.id ? "..." : r.deleted_at ? "Restore" : "Remove"}
+                              </button>
+                            </div>
+                          </td>
+                        )}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
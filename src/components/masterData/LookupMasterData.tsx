@@ -10,7 +10,7 @@ interface LookupRow {
   deleted_at: string | null;
 }
 
-// Shared by Location and Work Scope — both are single-text-column lookup
+// Shared by Location, Work Scope and Kapro — all are single-text-column lookup
 // tables (id, <column>, deleted_at) with identical CRUD needs, so one
 // component parameterized by table/column/label covers both instead of
 // duplicating near-identical list+modal code.
@@ -19,11 +19,14 @@ export default function LookupMasterData({
   column,
   label,
   placeholder,
+  usedIn,
 }: {
-  table: "location" | "work_scope";
-  column: "location" | "work_scope";
+  table: "location" | "work_scope" | "kapro";
+  column: "location" | "work_scope" | "kapro_name";
   label: string;
   placeholder: string;
+  // Where the value is picked, for the restore/remove confirmations.
+  usedIn: string;
 }) {
   const { isReadOnly } = useAuth();
   const canEdit = !isReadOnly;
@@ -124,8 +127,8 @@ export default function LookupMasterData({
   const handleToggleActive = async (r: LookupRow) => {
     const willActivate = !!r.deleted_at;
     const msg = willActivate
-      ? `Restore "${r.value}"? It'll be selectable again in Work Details.`
-      : `Remove "${r.value}" from active master data? Existing work details keep it — this only hides it from new-entry pickers.`;
+      ? `Restore "${r.value}"? It'll be selectable again in ${usedIn}.`
+      : `Remove "${r.value}" from active master data? Existing ${usedIn.toLowerCase()} keep it — this only hides it from new-entry pickers.`;
     if (!window.confirm(msg)) return;
 
     setTogglingId(r.id);
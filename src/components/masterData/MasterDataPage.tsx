@@ -1,15 +1,46 @@
 import { useState } from "react";
-import { Lock, Ship, MapPin, Wrench } from "lucide-react";
+import {
+  Lock,
+  Ship,
+  Building2,
+  MapPin,
+  Wrench,
+  HardHat,
+  Package,
+  Weight,
+  Anchor,
+  ClipboardList,
+} from "lucide-react";
 import { useAuth } from "../../hooks/useAuth";
 import VesselMasterData from "./VesselMasterData";
+import CustomerMasterData from "./CustomerMasterData";
 import LookupMasterData from "./LookupMasterData";
+import MaterialListMasterData from "./MaterialListMasterData";
+import MaterialDensityMasterData from "./MaterialDensityMasterData";
+import GeneralServiceMasterData from "./GeneralServiceMasterData";
+import WorkDetailTemplateMasterData from "./WorkDetailTemplateMasterData";
 
-type Tab = "vessels" | "locations" | "workScopes";
+type Tab =
+  | "vessels"
+  | "customers"
+  | "locations"
+  | "workScopes"
+  | "kapro"
+  | "workTemplates"
+  | "materials"
+  | "densities"
+  | "generalServices";
 
 const TABS: { key: Tab; label: string; icon: typeof Ship }[] = [
   { key: "vessels", label: "Vessels", icon: Ship },
+  { key: "customers", label: "Customers", icon: Building2 },
   { key: "locations", label: "Locations", icon: MapPin },
   { key: "workScopes", label: "Work Scopes", icon: Wrench },
+  { key: "kapro", label: "Kapro", icon: HardHat },
+  { key: "workTemplates", label: "Work Templates", icon: ClipboardList },
+  { key: "materials", label: "Materials", icon: Package },
+  { key: "densities", label: "Densities", icon: Weight },
+  { key: "generalServices", label: "General Services", icon: Anchor },
 ];
 
 export default function MasterDataPage() {
@@ -41,14 +72,15 @@ export default function MasterDataPage() {
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Master Data</h1>
         <p className="text-gray-600 mt-1">
-          Manage the vessel, location, and work scope records used throughout
-          the app.
+          Manage the vessel, customer, location, work scope, kapro, work
+          template, material, and general service records used throughout the
+          app.
           {isReadOnly && " You have view-only access."}
         </p>
       </div>
 
       <div className="border-b border-gray-200 mb-6">
-        <nav className="flex gap-6">
+        <nav className="flex flex-wrap gap-x-6">
           {TABS.map((tab) => {
             const Icon = tab.icon;
             const isActive = activeTab === tab.key;
@@ -71,12 +103,14 @@ export default function MasterDataPage() {
       </div>
 
       {activeTab === "vessels" && <VesselMasterData />}
+      {activeTab === "customers" && <CustomerMasterData />}
       {activeTab === "locations" && (
         <LookupMasterData
           table="location"
           column="location"
           label="Location"
           placeholder="e.g. Dermaga 1"
+          usedIn="Work Details"
         />
       )}
       {activeTab === "workScopes" && (
@@ -85,8 +119,22 @@ export default function MasterDataPage() {
           column="work_scope"
           label="Work Scope"
           placeholder="e.g. Sandblasting"
+          usedIn="Work Details"
         />
       )}
+      {activeTab === "kapro" && (
+        <LookupMasterData
+          table="kapro"
+          column="kapro_name"
+          label="Kapro"
+          placeholder="e.g. Budi Santoso"
+          usedIn="Work Orders"
+        />
+      )}
+      {activeTab === "workTemplates" && <WorkDetailTemplateMasterData />}
+      {activeTab === "materials" && <MaterialListMasterData />}
+      {activeTab === "densities" && <MaterialDensityMasterData />}
+      {activeTab === "generalServices" && <GeneralServiceMasterData />}
     </div>
   );
 }
@@ -0,0 +1,359 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Search, Loader2, XCircle, X } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { supabase } from "../../lib/supabase";
+import Pagination, { PAGE_SIZE } from "./Pagination";
+
+interface DensityRow {
+  id: number;
+  name: string;
+  density: number;
+  unit: string;
+  deleted_at: string | null;
+}
+
+// materialCalculations.ts multiplies volumes in m^3 by these values directly,
+// so new rows default to kg/m³.
+const DEFAULT_UNIT = "kg/m³";
+
+const emptyForm = { name: "", density: "", unit: DEFAULT_UNIT };
+
+export default function MaterialDensityMasterData() {
+  const { isReadOnly } = useAuth();
+  const canEdit = !isReadOnly;
+
+  const [densities, setDensities] = useState<DensityRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"active" | "inactive" | "all">("active");
+  const [page, setPage] = useState(1);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  const loadDensities = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase
+        .from("material_densities")
+        .select("id, name, density, unit, deleted_at")
+        .order("name", { ascending: true });
+      if (fetchError) throw fetchError;
+      setDensities((data as DensityRow[]) || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load densities");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDensities();
+  }, [loadDensities]);
+
+  const openAddModal = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (d: DensityRow) => {
+    setEditingId(d.id);
+    setForm({ name: d.name, density: String(d.density), unit: d.unit || "" });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      setFormError("Name is required");
+      return;
+    }
+    const density = Number(form.density);
+    if (!form.density.trim() || !Number.isFinite(density) || density <= 0) {
+      setFormError("Density must be a number greater than zero");
+      return;
+    }
+    const unit = form.unit.trim();
+    if (!unit) {
+      setFormError("Unit is required");
+      return;
+    }
+    const duplicate = densities.some(
+      (d) =>
+        d.id !== editingId && !d.deleted_at && d.name.trim().toLowerCase() === name.toLowerCase(),
+    );
+    if (duplicate) {
+      setFormError("An active density with this name already exists");
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+    try {
+      const payload = { name, density, unit };
+      if (editingId) {
+        const { error: updateError } = await supabase
+          .from("material_densities")
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq("id", editingId);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase.from("material_densities").insert(payload);
+        if (insertError) throw insertError;
+      }
+      setShowModal(false);
+      await loadDensities();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save density");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (d: DensityRow) => {
+    const willActivate = !!d.deleted_at;
+    const msg = willActivate
+      ? `Restore ${d.name}? It'll be selectable again as a material's density.`
+      : `Remove ${d.name} from active master data? Materials and material entries that already use it keep their value — this only hides it from new-entry pickers.`;
+    if (!window.confirm(msg)) return;
+
+    setTogglingId(d.id);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase
+        .from("material_densities")
+        .update({
+          deleted_at: willActivate ? null : new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", d.id);
+      if (updateError) throw updateError;
+      await loadDensities();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update density");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const filtered = densities.filter((d) => {
+    if (statusFilter === "active" && d.deleted_at) return false;
+    if (statusFilter === "inactive" && !d.deleted_at) return false;
+    if (search.trim() && !d.name.toLowerCase().includes(search.trim().toLowerCase())) {
+      return false;
+    }
+    return true;
+  });
+
+  const paginated = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search density name"
+            className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value as typeof statusFilter);
+            setPage(1);
+          }}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="active">Active only</option>
+          <option value="inactive">Inactive only</option>
+          <option value="all">All</option>
+        </select>
+        {canEdit && (
+          <button
+            onClick={openAddModal}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" /> Add Density
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Name</th>
+                <th className="px-4 py-3 text-right font-semibold text-gray-700">Density</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Unit</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {paginated.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                    No densities found
+                  </td>
+                </tr>
+              ) : (
+                paginated.map((d) => (
+                  <tr key={d.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-medium text-gray-900">{d.name}</td>
+                    <td className="px-4 py-3 text-right text-gray-700">
+                      {Number(d.density).toLocaleString("en-US")}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {d.unit || <em className="text-gray-400">—</em>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          d.deleted_at ? "bg-gray-200 text-gray-600" : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {d.deleted_at ? "Inactive" : "Active"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {canEdit ? (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openEditModal(d)}
+                            className="px-3 py-1 text-xs font-medium rounded-md border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(d)}
+                            disabled={togglingId === d.id}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                              d.deleted_at
+                                ? "border-green-300 text-green-700 hover:bg-green-50"
+                                : "border-red-300 text-red-700 hover:bg-red-50"
+                            }`}
+                          >
+                            {togglingId === d.id ? "..." : d.deleted_at ? "Restore" : "Remove"}
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          <div className="px-4 pb-4">
+            <Pagination page={page} totalItems={filtered.length} onPageChange={setPage} />
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg max-w-md w-full shadow-2xl">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingId ? "Edit Density" : "Add Density"}
+              </h3>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Steel"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Density *</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.density}
+                    onChange={(e) => setForm({ ...form, density: e.target.value })}
+                    placeholder="e.g. 7850"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Unit *</label>
+                  <input
+                    type="text"
+                    value={form.unit}
+                    onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              {editingId && (
+                <p className="text-xs text-gray-500">
+                  Material entries already recorded keep the density they were entered with.
+                </p>
+              )}
+              {formError && <p className="text-red-600 text-sm">{formError}</p>}
+            </div>
+            <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editingId ? "Save Changes" : "Add Density"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,502 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Search, Loader2, XCircle, X } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { supabase } from "../../lib/supabase";
+import type { CalcMode, MaterialDensity } from "../../types/materialControl.types";
+import { CALC_MODE_OPTIONS } from "../../utils/materialCalculations";
+import Pagination, { PAGE_SIZE } from "./Pagination";
+
+interface MaterialRow {
+  id: number;
+  material: string;
+  specification: string | null;
+  category: string | null;
+  calc_mode: CalcMode;
+  material_density_id: number | null;
+  material_density: Pick<MaterialDensity, "id" | "name" | "density" | "unit"> | null;
+  deleted_at: string | null;
+}
+
+type DensityOption = Pick<MaterialDensity, "id" | "name" | "density" | "unit" | "deleted_at">;
+
+const emptyForm = {
+  material: "",
+  specification: "",
+  category: "",
+  calc_mode: "DIMENSIONAL" as CalcMode,
+  material_density_id: "",
+};
+
+const calcModeLabel = (mode: CalcMode) =>
+  CALC_MODE_OPTIONS.find((o) => o.value === mode)?.label || mode;
+
+const materialLabel = (m: { material: string; specification: string | null }) =>
+  m.specification ? `${m.material} ${m.specification}` : m.material;
+
+export default function MaterialListMasterData() {
+  const { isReadOnly } = useAuth();
+  const canEdit = !isReadOnly;
+
+  const [materials, setMaterials] = useState<MaterialRow[]>([]);
+  const [densities, setDensities] = useState<DensityOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"active" | "inactive" | "all">("active");
+  const [page, setPage] = useState(1);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<MaterialRow | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  const loadMaterials = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [materialsRes, densitiesRes] = await Promise.all([
+        supabase
+          .from("material_lists")
+          .select(
+            "id, material, specification, category, calc_mode, material_density_id, deleted_at, material_density:material_density_id(id, name, density, unit)",
+          )
+          .order("category", { ascending: true })
+          .order("material", { ascending: true }),
+        supabase
+          .from("material_densities")
+          .select("id, name, density, unit, deleted_at")
+          .order("name", { ascending: true }),
+      ]);
+      if (materialsRes.error) throw materialsRes.error;
+      if (densitiesRes.error) throw densitiesRes.error;
+      setMaterials((materialsRes.data as unknown as MaterialRow[]) || []);
+      setDensities((densitiesRes.data as DensityOption[]) || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load materials");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMaterials();
+  }, [loadMaterials]);
+
+  const categories = [
+    ...new Set(materials.map((m) => m.category?.trim()).filter((c): c is string => !!c)),
+  ].sort((a, b) => a.localeCompare(b));
+
+  const openAddModal = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (m: MaterialRow) => {
+    setEditing(m);
+    setForm({
+      material: m.material,
+      specification: m.specification || "",
+      category: m.category || "",
+      calc_mode: m.calc_mode,
+      material_density_id: m.material_density_id ? String(m.material_density_id) : "",
+    });
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  // material_control snapshots calc_mode per entry, so existing entries
+  // are never recomputed — but say so before the default changes, since
+  // the same material will now open with different fields.
+  const confirmCalcModeChange = async (m: MaterialRow, nextMode: CalcMode) => {
+    const { count, error: countError } = await supabase
+      .from("material_control")
+      .select("id", { count: "exact", head: true })
+      .eq("material_id", m.id)
+      .is("deleted_at", null);
+    if (countError) throw countError;
+    if (!count) return true;
+    return window.confirm(
+      `Change the calculation mode of "${materialLabel(m)}" from ${calcModeLabel(m.calc_mode)} to ${calcModeLabel(nextMode)}?\n\n` +
+        `${count} existing material ${count === 1 ? "entry keeps" : "entries keep"} ${calcModeLabel(m.calc_mode)} and ${count === 1 ? "its" : "their"} recorded totals. Only new entries will use ${calcModeLabel(nextMode)}.`,
+    );
+  };
+
+  const handleSave = async () => {
+    const material = form.material.trim();
+    if (!material) {
+      setFormError("Material name is required");
+      return;
+    }
+    const specification = form.specification.trim();
+    const duplicate = materials.some(
+      (m) =>
+        m.id !== editing?.id &&
+        !m.deleted_at &&
+        m.material.trim().toLowerCase() === material.toLowerCase() &&
+        (m.specification || "").trim().toLowerCase() === specification.toLowerCase(),
+    );
+    if (duplicate) {
+      setFormError("An active material with this name and specification already exists");
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+    try {
+      if (editing && editing.calc_mode !== form.calc_mode) {
+        const confirmed = await confirmCalcModeChange(editing, form.calc_mode);
+        if (!confirmed) return;
+      }
+
+      const payload = {
+        material,
+        specification: specification || null,
+        category: form.category.trim() || null,
+        calc_mode: form.calc_mode,
+        material_density_id: form.material_density_id ? Number(form.material_density_id) : null,
+      };
+      if (editing) {
+        const { error: updateError } = await supabase
+          .from("material_lists")
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq("id", editing.id);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase.from("material_lists").insert(payload);
+        if (insertError) throw insertError;
+      }
+      setShowModal(false);
+      await loadMaterials();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save material");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (m: MaterialRow) => {
+    const willActivate = !!m.deleted_at;
+    const msg = willActivate
+      ? `Restore "${materialLabel(m)}"? It'll be selectable again in Material Control.`
+      : `Remove "${materialLabel(m)}" from active master data? Existing material entries keep it — this only hides it from new-entry pickers.`;
+    if (!window.confirm(msg)) return;
+
+    setTogglingId(m.id);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase
+        .from("material_lists")
+        .update({
+          deleted_at: willActivate ? null : new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", m.id);
+      if (updateError) throw updateError;
+      await loadMaterials();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update material");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const filtered = materials.filter((m) => {
+    if (statusFilter === "active" && m.deleted_at) return false;
+    if (statusFilter === "inactive" && !m.deleted_at) return false;
+    if (categoryFilter && (m.category || "").trim() !== categoryFilter) return false;
+    if (search.trim()) {
+      const q = search.trim().toLowerCase();
+      if (
+        !m.material.toLowerCase().includes(q) &&
+        !(m.specification || "").toLowerCase().includes(q) &&
+        !(m.category || "").toLowerCase().includes(q)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const paginated = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  // Inactive densities stay in the picker only for the material that
+  // already points at one, so editing it doesn't silently clear the link.
+  const densityOptions = densities.filter(
+    (d) => !d.deleted_at || String(d.id) === form.material_density_id,
+  );
+  const selectedMode = CALC_MODE_OPTIONS.find((o) => o.value === form.calc_mode);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search material, specification, or category"
+            className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={categoryFilter}
+          onChange={(e) => {
+            setCategoryFilter(e.target.value);
+            setPage(1);
+          }}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All categories</option>
+          {categories.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value as typeof statusFilter);
+            setPage(1);
+          }}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="active">Active only</option>
+          <option value="inactive">Inactive only</option>
+          <option value="all">All</option>
+        </select>
+        {canEdit && (
+          <button
+            onClick={openAddModal}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" /> Add Material
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Material</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Specification</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Category</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Calc Mode</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Density</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {paginated.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                    No materials found
+                  </td>
+                </tr>
+              ) : (
+                paginated.map((m) => (
+                  <tr key={m.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-medium text-gray-900">{m.material}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {m.specification || <em className="text-gray-400">—</em>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {m.category || <em className="text-gray-400">—</em>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{calcModeLabel(m.calc_mode)}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {m.material_density ? (
+                        `${m.material_density.name} (${m.material_density.density} ${m.material_density.unit})`
+                      ) : (
+                        <em className="text-gray-400">—</em>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          m.deleted_at ? "bg-gray-200 text-gray-600" : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {m.deleted_at ? "Inactive" : "Active"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {canEdit ? (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openEditModal(m)}
+                            className="px-3 py-1 text-xs font-medium rounded-md border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(m)}
+                            disabled={togglingId === m.id}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                              m.deleted_at
+                                ? "border-green-300 text-green-700 hover:bg-green-50"
+                                : "border-red-300 text-red-700 hover:bg-red-50"
+                            }`}
+                          >
+                            {togglingId === m.id ? "..." : m.deleted_at ? "Restore" : "Remove"}
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          <div className="px-4 pb-4">
+            <Pagination page={page} totalItems={filtered.length} onPageChange={setPage} />
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg max-w-md w-full shadow-2xl">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editing ? "Edit Material" : "Add Material"}
+              </h3>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Material *</label>
+                <input
+                  type="text"
+                  value={form.material}
+                  onChange={(e) => setForm({ ...form, material: e.target.value })}
+                  placeholder="e.g. Plate"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Specification
+                  </label>
+                  <input
+                    type="text"
+                    value={form.specification}
+                    onChange={(e) => setForm({ ...form, specification: e.target.value })}
+                    placeholder="e.g. SS400"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Category</label>
+                  <input
+                    type="text"
+                    list="material-category-options"
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <datalist id="material-category-options">
+                    {categories.map((c) => (
+                      <option key={c} value={c} />
+                    ))}
+                  </datalist>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Calculation Mode *
+                </label>
+                <select
+                  value={form.calc_mode}
+                  onChange={(e) => setForm({ ...form, calc_mode: e.target.value as CalcMode })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {CALC_MODE_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+                {selectedMode && (
+                  <p className="text-xs text-gray-500 mt-1">{selectedMode.description}</p>
+                )}
+                {editing && editing.calc_mode !== form.calc_mode && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Existing material entries keep {calcModeLabel(editing.calc_mode)} and their
+                    totals; only new entries use the new mode.
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Default Density
+                </label>
+                <select
+                  value={form.material_density_id}
+                  onChange={(e) => setForm({ ...form, material_density_id: e.target.value })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">None</option>
+                  {densityOptions.map((d) => (
+                    <option key={d.id} value={d.id}>
+                      {d.name} ({d.density} {d.unit}){d.deleted_at ? " — inactive" : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {formError && <p className="text-red-600 text-sm">{formError}</p>}
+            </div>
+            <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editing ? "Save Changes" : "Add Material"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 export const PAGE_SIZE = 10;
 
-// Shared by every Master Data tab (Vessels, Locations, Work Scopes) — all
-// paginate the same client-side-filtered list the same way.
+// Shared by every Master Data tab (Vessels, Customers, Locations, Work
+// Scopes, Kapro, Work Templates, Materials, Densities, General Services) —
+// all paginate the same client-side-filtered list the same way.
 export default function Pagination({
   page,
   totalItems,
@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { Loader2, X, XCircle, GitMerge } from "lucide-react";
+import {
+  countVesselReferences,
+  describeReferences,
+  findDuplicateVesselGroups,
+  mergeVessels,
+  totalReferences,
+  type VesselReferenceCounts,
+} from "../../utils/vesselMerge";
+
+interface DuplicateCandidate {
+  id: number;
+  name: string;
+  type: string | null;
+  company: string | null;
+  fleet_number: number | null;
+}
+
+export default function VesselDuplicatesModal({
+  vessels,
+  onClose,
+  onMerged,
+}: {
+  vessels: DuplicateCandidate[];
+  onClose: () => void;
+  onMerged: () => Promise<void> | void;
+}) {
+  const groups = findDuplicateVesselGroups(vessels);
+  const groupKey = (group: DuplicateCandidate[]) => group.map((v) => v.id).join("-");
+
+  const [references, setReferences] = useState<Record<number, VesselReferenceCounts>>({});
+  const [loadingReferences, setLoadingReferences] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Survivor per group; defaults to the most-used row, then the oldest.
+  const [survivors, setSurvivors] = useState<Record<string, number>>({});
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const candidateIds = groups
+    .flat()
+    .map((v) => v.id)
+    .join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = candidateIds ? candidateIds.split(",").map(Number) : [];
+    setLoadingReferences(true);
+    Promise.all(ids.map(async (id) => [id, await countVesselReferences(id)] as const))
+      .then((entries) => {
+        if (!cancelled) setReferences(Object.fromEntries(entries));
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to count vessel usage");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingReferences(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [candidateIds]);
+
+  const defaultSurvivor = (group: DuplicateCandidate[]) =>
+    [...group].sort(
+      (a, b) =>
+        (references[b.id] ? totalReferences(references[b.id]) : 0) -
+          (references[a.id] ? totalReferences(references[a.id]) : 0) || a.id - b.id,
+    )[0].id;
+
+  const handleMerge = async (group: DuplicateCandidate[]) => {
+    const key = groupKey(group);
+    const survivorId = survivors[key] ?? defaultSurvivor(group);
+    const survivor = group.find((v) => v.id === survivorId)!;
+    const duplicates = group.filter((v) => v.id !== survivorId);
+
+    const msg = `Merge ${duplicates
+      .map((v) => v.name)
+      .join(", ")} into ${survivor.name}?\n\nEverything that uses ${
+      duplicates.length > 1 ? "them" : "it"
+    } moves to ${survivor.name}, and ${
+      duplicates.length > 1 ? "they are" : "it is"
+    } removed from active master data. This can't be undone from the app.`;
+    if (!window.confirm(msg)) return;
+
+    setMergingKey(key);
+    setError(null);
+    setNotice(null);
+    try {
+      const moved: string[] = [];
+      for (const duplicate of duplicates) {
+        const counts = await mergeVessels(duplicate, survivor);
+        moved.push(`${duplicate.name}: ${describeReferences(counts)}`);
+      }
+      setNotice(`Merged into ${survivor.name} — moved ${moved.join("; ")}.`);
+      await onMerged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to merge vessels");
+      await onMerged();
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-3xl w-full shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Possible Duplicate Vessels</h3>
+            <p className="text-xs text-gray-500">
+              Active vessels whose names differ only by spacing, punctuation, doubled letters or a
+              single letter.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={mergingKey !== null}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+            <XCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mx-4 mt-4 bg-green-50 border border-green-200 rounded-lg p-3 text-green-800 text-sm">
+            {notice}
+          </div>
+        )}
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-4">
+          {groups.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No likely duplicates found.</p>
+          ) : (
+            groups.map((group) => {
+              const key = groupKey(group);
+              const survivorId = survivors[key] ?? defaultSurvivor(group);
+              return (
+                <div key={key} className="border border-gray-200 rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-semibold text-gray-700">Keep</th>
+                        <th className="px-3 py-2 text-left font-semibold text-gray-700">Name</th>
+                        <th className="px-3 py-2 text-left font-semibold text-gray-700">
+                          Type / Company
+                        </th>
+                        <th className="px-3 py-2 text-left font-semibold text-gray-700">Used by</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {group.map((v) => (
+                        <tr key={v.id}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="radio"
+                              name={`survivor-${key}`}
+                              checked={survivorId === v.id}
+                              onChange={() => setSurvivors({ ...survivors, [key]: v.id })}
+                              disabled={mergingKey !== null}
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <div className="font-medium text-gray-900">{v.name}</div>
+                            <div className="text-xs text-gray-500">#{v.id}</div>
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {[v.type, v.company].filter(Boolean).join(" · ") || (
+                              <em className="text-gray-400">—</em>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {loadingReferences ? (
+                              <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+                            ) : references[v.id] ? (
+                              describeReferences(references[v.id])
+                            ) : (
+                              "—"
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="p-3 border-t border-gray-200 flex justify-end">
+                    <button
+                      onClick={() => handleMerge(group)}
+                      disabled={mergingKey !== null || loadingReferences}
+                      className="inline-flex items-center gap-2 bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm font-medium"
+                    >
+                      {mergingKey === key ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <GitMerge className="w-4 h-4" />
+                      )}
+                      Merge into {group.find((v) => v.id === survivorId)?.name}
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end">
+          <button
+            onClick={onClose}
+            disabled={mergingKey !== null}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
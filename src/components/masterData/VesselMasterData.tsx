@@ -1,26 +1,33 @@
 import { useState, useEffect, useCallback } from "react";
-import { Plus, Search, Loader2, XCircle, X } from "lucide-react";
+import { Plus, Search, Loader2, XCircle, X, RefreshCw, GitMerge } from "lucide-react";
 import { useAuth } from "../../hooks/useAuth";
 import { supabase } from "../../lib/supabase";
+import type { Customer } from "../../types/customer.types";
 import Pagination, { PAGE_SIZE } from "./Pagination";
+import VesselSyncModal from "./VesselSyncModal";
+import VesselDuplicatesModal from "./VesselDuplicatesModal";
 
 interface VesselRow {
   id: number;
   name: string;
   type: string | null;
   company: string | null;
+  customer_id: number | null;
   fleet: string | null;
   fleet_number: number | null;
   deleted_at: string | null;
 }
 
-const emptyForm = { name: "", type: "", company: "", fleet: "", fleet_number: "" };
+// company is only kept for vessels not yet linked to a customer; once
+// customer_id is set, the database copies the customer's name into it.
+const emptyForm = { name: "", type: "", customer_id: "", company: "", fleet: "", fleet_number: "" };
 
 export default function VesselMasterData() {
   const { isReadOnly } = useAuth();
   const canEdit = !isReadOnly;
 
   const [vessels, setVessels] = useState<VesselRow[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState("");
@@ -33,17 +40,24 @@ export default function VesselMasterData() {
   const [saving, setSaving] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
   const [togglingId, setTogglingId] = useState<number | null>(null);
+  const [showSync, setShowSync] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
 
   const loadVessels = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const { data, error: fetchError } = await supabase
-        .from("vessel")
-        .select("id, name, type, company, fleet, fleet_number, deleted_at")
-        .order("name", { ascending: true });
-      if (fetchError) throw fetchError;
-      setVessels((data as VesselRow[]) || []);
+      const [vesselsRes, customersRes] = await Promise.all([
+        supabase
+          .from("vessel")
+          .select("id, name, type, company, customer_id, fleet, fleet_number, deleted_at")
+          .order("name", { ascending: true }),
+        supabase.from("customers").select("*").order("name", { ascending: true }),
+      ]);
+      if (vesselsRes.error) throw vesselsRes.error;
+      if (customersRes.error) throw customersRes.error;
+      setVessels((vesselsRes.data as VesselRow[]) || []);
+      setCustomers((customersRes.data as Customer[]) || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load vessels");
     } finally {
@@ -67,6 +81,7 @@ export default function VesselMasterData() {
     setForm({
       name: v.name,
       type: v.type || "",
+      customer_id: v.customer_id != null ? String(v.customer_id) : "",
       company: v.company || "",
       fleet: v.fleet || "",
       fleet_number: v.fleet_number != null ? String(v.fleet_number) : "",
@@ -75,6 +90,10 @@ export default function VesselMasterData() {
     setShowModal(true);
   };
 
+  // Free-text company of the vessel being edited, kept while it has no customer.
+  const editingVessel = vessels.find((v) => v.id === editingId);
+  const editingCompany = editingVessel?.customer_id == null ? editingVessel?.company || "" : "";
+
   const handleSave = async () => {
     const name = form.name.trim();
     if (!name) {
@@ -98,6 +117,7 @@ export default function VesselMasterData() {
       const payload = {
         name,
         type: form.type.trim() || null,
+        customer_id: form.customer_id ? Number(form.customer_id) : null,
         company: form.company.trim() || null,
         fleet: form.fleet.trim() || null,
         fleet_number: form.fleet_number.trim() ? Number(form.fleet_number.trim()) : null,
@@ -193,6 +213,22 @@ export default function VesselMasterData() {
           <option value="inactive">Inactive only</option>
           <option value="all">All</option>
         </select>
+        {canEdit && (
+          <button
+            onClick={() => setShowDuplicates(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors text-sm font-medium"
+          >
+            <GitMerge className="w-4 h-4" /> Find Duplicates
+          </button>
+        )}
+        {canEdit && (
+          <button
+            onClick={() => setShowSync(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors text-sm font-medium"
+          >
+            <RefreshCw className="w-4 h-4" /> Sync from Fleet API
+          </button>
+        )}
         {canEdit && (
           <button
             onClick={openAddModal}
@@ -244,6 +280,14 @@ export default function VesselMasterData() {
                     </td>
                     <td className="px-4 py-3 text-gray-700">
                       {v.company || <em className="text-gray-400">—</em>}
+                      {v.company && v.customer_id == null && (
+                        <span
+                          className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                          title="Not linked to a customer record"
+                        >
+                          Unlinked
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-gray-700">
                       {v.fleet || <em className="text-gray-400">—</em>}
@@ -302,6 +346,22 @@ export default function VesselMasterData() {
         </div>
       )}
 
+      {showSync && (
+        <VesselSyncModal
+          vessels={vessels.filter((v) => !v.deleted_at)}
+          onClose={() => setShowSync(false)}
+          onApplied={loadVessels}
+        />
+      )}
+
+      {showDuplicates && (
+        <VesselDuplicatesModal
+          vessels={vessels.filter((v) => !v.deleted_at)}
+          onClose={() => setShowDuplicates(false)}
+          onMerged={loadVessels}
+        />
+      )}
+
       {showModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-lg max-w-md w-full shadow-2xl">
@@ -340,14 +400,36 @@ export default function VesselMasterData() {
               </div>
               <div>
                 <label className="block text-xs font-medium text-gray-600 mb-1">
-                  Company
+                  Customer
                 </label>
-                <input
-                  type="text"
-                  value={form.company}
-                  onChange={(e) => setForm({ ...form, company: e.target.value })}
+                <select
+                  value={form.customer_id}
+                  onChange={(e) => {
+                    const customer = customers.find((c) => String(c.id) === e.target.value);
+                    setForm({
+                      ...form,
+                      customer_id: e.target.value,
+                      company: customer ? customer.name : editingCompany,
+                    });
+                  }}
                   className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+                >
+                  <option value="">— No customer —</option>
+                  {customers
+                    .filter((c) => !c.deleted_at || String(c.id) === form.customer_id)
+                    .map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                        {c.deleted_at ? " (removed)" : ""}
+                      </option>
+                    ))}
+                </select>
+                {!form.customer_id && editingCompany && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Currently "{editingCompany}", not linked to a customer record. Add it under
+                    Customers to link it.
+                  </p>
+                )}
               </div>
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { Loader2, X, RefreshCw, Upload, CheckCircle2, XCircle } from "lucide-react";
+import {
+  describeFieldChange,
+  parseFleetApiResponse,
+  planVesselSync,
+  type SyncableVessel,
+  type VesselSyncKind,
+  type VesselSyncProposal,
+} from "../../utils/vesselSync";
+import { applyVesselSyncProposal } from "../../utils/vesselSyncApply";
+
+// Optional: without it the sync still runs from a saved API response file.
+const FLEET_API_URL: string | undefined = import.meta.env.VITE_FLEET_API_URL;
+
+const KIND_LABELS: Record<VesselSyncKind, { label: string; className: string }> = {
+  create: { label: "New", className: "bg-green-100 text-green-800" },
+  update: { label: "Update", className: "bg-blue-100 text-blue-800" },
+  rename: { label: "Rename", className: "bg-purple-100 text-purple-800" },
+  duplicate: { label: "Duplicate", className: "bg-amber-100 text-amber-800" },
+};
+
+type Decision = "accept" | "reject";
+type Outcome = { ok: true } | { ok: false; message: string };
+
+function describeProposal(p: VesselSyncProposal): { title: string; details: string[] } {
+  switch (p.kind) {
+    case "create":
+      return {
+        title: p.values.name,
+        details: [
+          `Type: ${p.values.type ?? "—"}`,
+          `Company: ${p.values.company ?? "—"}`,
+          `Fleet #: ${p.values.fleet_number ?? "—"}`,
+        ],
+      };
+    case "update":
+      return { title: p.vessel.name, details: p.changes.map(describeFieldChange) };
+    case "rename":
+      return {
+        title: `${p.vessel.name} → ${p.newName}`,
+        details: p.changes.map(describeFieldChange),
+      };
+    case "duplicate":
+      return {
+        title: p.vessel.name,
+        details: [
+          `Looks like a second row for ${p.duplicateOf.name} (API: ${p.api.vessel_name}). Accepting merges it into ${p.duplicateOf.name} and moves everything that uses it.`,
+        ],
+      };
+  }
+}
+
+export default function VesselSyncModal({
+  vessels,
+  onClose,
+  onApplied,
+}: {
+  vessels: SyncableVessel[];
+  onClose: () => void;
+  onApplied: () => void;
+}) {
+  const [loadingSource, setLoadingSource] = useState(false);
+  const [sourceLabel, setSourceLabel] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [proposals, setProposals] = useState<VesselSyncProposal[] | null>(null);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [outcomes, setOutcomes] = useState<Record<string, Outcome>>({});
+  const [applying, setApplying] = useState(false);
+
+  const loadPlan = (json: unknown, label: string) => {
+    const apiVessels = parseFleetApiResponse(json);
+    setProposals(planVesselSync(apiVessels, vessels));
+    setSourceLabel(`${label} · ${apiVessels.length} vessels`);
+    setDecisions({});
+    setOutcomes({});
+  };
+
+  const handleFetch = async () => {
+    if (!FLEET_API_URL) return;
+    setLoadingSource(true);
+    setError(null);
+    try {
+      const response = await fetch(FLEET_API_URL);
+      if (!response.ok) {
+        throw new Error(`Fleet API responded ${response.status} ${response.statusText}`);
+      }
+      loadPlan(await response.json(), "Fleet API");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch the fleet API");
+    } finally {
+      setLoadingSource(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoadingSource(true);
+    setError(null);
+    try {
+      loadPlan(JSON.parse(await file.text()), file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the file");
+    } finally {
+      setLoadingSource(false);
+    }
+  };
+
+  const pending = (proposals || []).filter((p) => !outcomes[p.key]?.ok);
+  const accepted = pending.filter((p) => decisions[p.key] === "accept");
+
+  const setAll = (decision: Decision) =>
+    setDecisions(Object.fromEntries(pending.map((p) => [p.key, decision])));
+
+  // One at a time, in plan order, so each write sees the ones before it (a
+  // rename re-checks that its new name is still free).
+  const handleApply = async () => {
+    if (accepted.length === 0) return;
+    setApplying(true);
+    setError(null);
+    const results: Record<string, Outcome> = {};
+    for (const proposal of accepted) {
+      try {
+        await applyVesselSyncProposal(proposal);
+        results[proposal.key] = { ok: true };
+      } catch (err) {
+        results[proposal.key] = {
+          ok: false,
+          message: err instanceof Error ? err.message : "Failed to apply",
+        };
+      }
+      setOutcomes((prev) => ({ ...prev, ...results }));
+    }
+    setApplying(false);
+    if (Object.values(results).some((r) => r.ok)) onApplied();
+  };
+
+  const counts = (proposals || []).reduce<Partial<Record<VesselSyncKind, number>>>(
+    (acc, p) => ({ ...acc, [p.kind]: (acc[p.kind] || 0) + 1 }),
+    {},
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-3xl w-full shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Sync from Fleet API</h3>
+            <p className="text-xs text-gray-500">
+              Matches by vessel name. Nothing changes until you accept and apply.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={applying}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 flex flex-wrap items-center gap-3">
+          {FLEET_API_URL && (
+            <button
+              onClick={handleFetch}
+              disabled={loadingSource || applying}
+              className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm font-medium"
+            >
+              {loadingSource ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <RefreshCw className="w-4 h-4" />
+              )}
+              Fetch from API
+            </button>
+          )}
+          <label
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors text-sm font-medium cursor-pointer ${
+              loadingSource || applying ? "opacity-50 pointer-events-none" : ""
+            }`}
+          >
+            <Upload className="w-4 h-4" />
+            Load saved response (.json)
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {sourceLabel && <span className="text-xs text-gray-500">{sourceLabel}</span>}
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+            <XCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {proposals === null ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {FLEET_API_URL
+                ? "Fetch the fleet API or load a saved response to see proposed changes."
+                : "Load a saved fleet API response to see proposed changes."}
+            </p>
+          ) : proposals.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              Vessel master data already matches the fleet API.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+                {(Object.keys(KIND_LABELS) as VesselSyncKind[])
+                  .filter((kind) => counts[kind])
+                  .map((kind) => (
+                    <span
+                      key={kind}
+                      className={`inline-flex px-2 py-0.5 rounded-full font-medium ${KIND_LABELS[kind].className}`}
+                    >
+                      {counts[kind]} {KIND_LABELS[kind].label}
+                    </span>
+                  ))}
+                <span className="flex-1" />
+                <button
+                  onClick={() => setAll("accept")}
+                  disabled={applying}
+                  className="text-blue-700 hover:underline"
+                >
+                  Accept all
+                </button>
+                <button
+                  onClick={() => setAll("reject")}
+                  disabled={applying}
+                  className="text-gray-600 hover:underline"
+                >
+                  Reject all
+                </button>
+              </div>
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {proposals.map((p) => {
+                  const { title, details } = describeProposal(p);
+                  const decision = decisions[p.key];
+                  const outcome = outcomes[p.key];
+                  return (
+                    <li key={p.key} className="p-3 flex items-start gap-3">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${KIND_LABELS[p.kind].className}`}
+                      >
+                        {KIND_LABELS[p.kind].label}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900">{title}</p>
+                        {details.map((line) => (
+                          <p key={line} className="text-xs text-gray-600">
+                            {line}
+                          </p>
+                        ))}
+                        {outcome && !outcome.ok && (
+                          <p className="text-xs text-red-600 mt-1">{outcome.message}</p>
+                        )}
+                      </div>
+                      {outcome?.ok ? (
+                        <span className="inline-flex items-center gap-1 text-xs text-green-700 font-medium">
+                          <CheckCircle2 className="w-4 h-4" /> Applied
+                        </span>
+                      ) : (
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <button
+                            onClick={() => setDecisions({ ...decisions, [p.key]: "accept" })}
+                            disabled={applying}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border transition-colors ${
+                              decision === "accept"
+                                ? "bg-green-600 border-green-600 text-white"
+                                : "border-green-300 text-green-700 hover:bg-green-50"
+                            }`}
+                          >
+                            Accept
+                          </button>
+                          <button
+                            onClick={() => setDecisions({ ...decisions, [p.key]: "reject" })}
+                            disabled={applying}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border transition-colors ${
+                              decision === "reject"
+                                ? "bg-gray-600 border-gray-600 text-white"
+                                : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                            }`}
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={applying}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={applying || accepted.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+          >
+            {applying && <Loader2 className="w-4 h-4 animate-spin" />}
+            Apply {accepted.length} accepted
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
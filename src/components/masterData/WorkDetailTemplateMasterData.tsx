@@ -0,0 +1,702 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Search, Loader2, XCircle, X, Trash2 } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { supabase } from "../../lib/supabase";
+import { WORK_TYPE_OPTIONS } from "../../constants/workTypes";
+import { WORK_DETAIL_UOM_OPTIONS } from "../../constants/workDetailUoms";
+import type { MaterialList } from "../../types/materialControl.types";
+import type { WorkDetailTemplate } from "../../types/workDetailTemplate.types";
+import {
+  WORK_DETAIL_TEMPLATE_SELECT,
+  describeTemplateMaterials,
+  sortTemplates,
+} from "../../utils/workDetailTemplates";
+import Pagination, { PAGE_SIZE } from "./Pagination";
+
+type LookupOption = { id: number; name: string; deleted_at: string | null };
+type MaterialOption = Pick<MaterialList, "id" | "material" | "specification" | "deleted_at">;
+
+interface MaterialFormRow {
+  key: string;
+  material_id: string;
+  typical_quantity: string;
+  uom: string;
+}
+
+const emptyForm = {
+  description: "",
+  work_scope_id: "",
+  work_type: "",
+  location_id: "",
+  default_quantity: "1",
+  default_uom: "Ls",
+  notes: "",
+};
+
+const materialLabel = (m: { material: string; specification: string | null }) =>
+  m.specification ? `${m.material} ${m.specification}` : m.material;
+
+export default function WorkDetailTemplateMasterData() {
+  const { isReadOnly } = useAuth();
+  const canEdit = !isReadOnly;
+
+  const [templates, setTemplates] = useState<WorkDetailTemplate[]>([]);
+  const [workScopes, setWorkScopes] = useState<LookupOption[]>([]);
+  const [locations, setLocations] = useState<LookupOption[]>([]);
+  const [materials, setMaterials] = useState<MaterialOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [scopeFilter, setScopeFilter] = useState("");
+  const [workTypeFilter, setWorkTypeFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"active" | "inactive" | "all">("active");
+  const [page, setPage] = useState(1);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<WorkDetailTemplate | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [materialRows, setMaterialRows] = useState<MaterialFormRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [templatesRes, scopesRes, locationsRes, materialsRes] = await Promise.all([
+        supabase.from("work_detail_templates").select(WORK_DETAIL_TEMPLATE_SELECT),
+        supabase
+          .from("work_scope")
+          .select("id, work_scope, deleted_at")
+          .order("work_scope", { ascending: true }),
+        supabase
+          .from("location")
+          .select("id, location, deleted_at")
+          .order("location", { ascending: true }),
+        supabase
+          .from("material_lists")
+          .select("id, material, specification, deleted_at")
+          .order("material", { ascending: true }),
+      ]);
+      if (templatesRes.error) throw templatesRes.error;
+      if (scopesRes.error) throw scopesRes.error;
+      if (locationsRes.error) throw locationsRes.error;
+      if (materialsRes.error) throw materialsRes.error;
+      setTemplates(sortTemplates((templatesRes.data as WorkDetailTemplate[]) || []));
+      setWorkScopes(
+        (scopesRes.data || []).map((s) => ({
+          id: s.id,
+          name: s.work_scope,
+          deleted_at: s.deleted_at,
+        })),
+      );
+      setLocations(
+        (locationsRes.data || []).map((l) => ({
+          id: l.id,
+          name: l.location,
+          deleted_at: l.deleted_at,
+        })),
+      );
+      setMaterials((materialsRes.data as MaterialOption[]) || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load work templates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const openAddModal = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setMaterialRows([]);
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (t: WorkDetailTemplate) => {
+    setEditing(t);
+    setForm({
+      description: t.description,
+      work_scope_id: String(t.work_scope_id),
+      work_type: t.work_type || "",
+      location_id: t.location_id ? String(t.location_id) : "",
+      default_quantity: String(t.default_quantity),
+      default_uom: t.default_uom,
+      notes: t.notes || "",
+    });
+    setMaterialRows(
+      (t.materials || []).map((m) => ({
+        key: crypto.randomUUID(),
+        material_id: String(m.material_id),
+        typical_quantity: m.typical_quantity != null ? String(m.typical_quantity) : "",
+        uom: m.uom || "",
+      })),
+    );
+    setFormError(null);
+    setShowModal(true);
+  };
+
+  const updateMaterialRow = (key: string, patch: Partial<MaterialFormRow>) =>
+    setMaterialRows((rows) => rows.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+
+  const handleSave = async () => {
+    const description = form.description.trim();
+    if (!description) {
+      setFormError("Description is required");
+      return;
+    }
+    if (!form.work_scope_id) {
+      setFormError("Work scope is required");
+      return;
+    }
+    const quantity = parseFloat(form.default_quantity);
+    if (isNaN(quantity) || quantity <= 0) {
+      setFormError("Default quantity must be greater than 0");
+      return;
+    }
+    const duplicate = templates.some(
+      (t) =>
+        t.id !== editing?.id &&
+        !t.deleted_at &&
+        t.description.trim().toLowerCase() === description.toLowerCase(),
+    );
+    if (duplicate) {
+      setFormError("An active template with this description already exists");
+      return;
+    }
+    const chosenMaterials = materialRows.filter((r) => r.material_id);
+    if (new Set(chosenMaterials.map((r) => r.material_id)).size !== chosenMaterials.length) {
+      setFormError("Each material can only be listed once");
+      return;
+    }
+    if (
+      chosenMaterials.some(
+        (r) => r.typical_quantity.trim() && !(parseFloat(r.typical_quantity) > 0),
+      )
+    ) {
+      setFormError("Typical material quantities must be greater than 0");
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+    try {
+      const payload = {
+        description,
+        work_scope_id: Number(form.work_scope_id),
+        work_type: form.work_type || null,
+        location_id: form.location_id ? Number(form.location_id) : null,
+        default_quantity: quantity,
+        default_uom: form.default_uom,
+        notes: form.notes.trim() || null,
+      };
+
+      let templateId: number;
+      if (editing) {
+        const { error: updateError } = await supabase
+          .from("work_detail_templates")
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq("id", editing.id);
+        if (updateError) throw updateError;
+        templateId = editing.id;
+      } else {
+        const { data, error: insertError } = await supabase
+          .from("work_detail_templates")
+          .insert(payload)
+          .select("id")
+          .single();
+        if (insertError) throw insertError;
+        templateId = data.id;
+      }
+
+      // The material list is replaced as a whole rather than diffed.
+      const { error: deleteError } = await supabase
+        .from("work_detail_template_materials")
+        .delete()
+        .eq("template_id", templateId);
+      if (deleteError) throw deleteError;
+      if (chosenMaterials.length > 0) {
+        const { error: materialsError } = await supabase
+          .from("work_detail_template_materials")
+          .insert(
+            chosenMaterials.map((r) => ({
+              template_id: templateId,
+              material_id: Number(r.material_id),
+              typical_quantity: r.typical_quantity.trim() ? parseFloat(r.typical_quantity) : null,
+              uom: r.uom.trim() || null,
+            })),
+          );
+        if (materialsError) throw materialsError;
+      }
+
+      setShowModal(false);
+      await loadTemplates();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save work template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (t: WorkDetailTemplate) => {
+    const willActivate = !!t.deleted_at;
+    const msg = willActivate
+      ? `Restore "${t.description}"? It'll be offered again when adding work details.`
+      : `Remove "${t.description}" from the job library? Work details created from it are not affected.`;
+    if (!window.confirm(msg)) return;
+
+    setTogglingId(t.id);
+    setError(null);
+    try {
+      const { error: updateError } = await supabase
+        .from("work_detail_templates")
+        .update({
+          deleted_at: willActivate ? null : new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", t.id);
+      if (updateError) throw updateError;
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update work template");
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const filtered = templates.filter((t) => {
+    if (statusFilter === "active" && t.deleted_at) return false;
+    if (statusFilter === "inactive" && !t.deleted_at) return false;
+    if (scopeFilter && String(t.work_scope_id) !== scopeFilter) return false;
+    if (workTypeFilter === "any" && t.work_type) return false;
+    if (workTypeFilter && workTypeFilter !== "any" && t.work_type !== workTypeFilter) {
+      return false;
+    }
+    if (search.trim()) {
+      const q = search.trim().toLowerCase();
+      if (
+        !t.description.toLowerCase().includes(q) &&
+        !(t.notes || "").toLowerCase().includes(q) &&
+        !describeTemplateMaterials(t.materials).toLowerCase().includes(q)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const paginated = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  // Inactive lookups stay selectable only for the template already using
+  // them, so editing it doesn't silently change its scope or location.
+  const scopeOptions = workScopes.filter(
+    (s) => !s.deleted_at || String(s.id) === form.work_scope_id,
+  );
+  const locationOptions = locations.filter(
+    (l) => !l.deleted_at || String(l.id) === form.location_id,
+  );
+  const materialOptions = (current: string) =>
+    materials.filter((m) => !m.deleted_at || String(m.id) === current);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search description, notes, or material"
+            className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={scopeFilter}
+          onChange={(e) => {
+            setScopeFilter(e.target.value);
+            setPage(1);
+          }}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All work scopes</option>
+          {workScopes
+            .filter((s) => !s.deleted_at)
+            .map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+        </select>
+        <select
+          value={workTypeFilter}
+          onChange={(e) => {
+            setWorkTypeFilter(e.target.value);
+            setPage(1);
+          }}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All work types</option>
+          <option value="any">Any work type only</option>
+          {WORK_TYPE_OPTIONS.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value as typeof statusFilter);
+            setPage(1);
+          }}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="active">Active only</option>
+          <option value="inactive">Inactive only</option>
+          <option value="all">All</option>
+        </select>
+        {canEdit && (
+          <button
+            onClick={openAddModal}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" /> Add Template
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Description</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Work Scope</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Work Type</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Location</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Default Qty</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">
+                  Typical Materials
+                </th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Status</th>
+                <th className="px-4 py-3 text-left font-semibold text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {paginated.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                    No work templates found
+                  </td>
+                </tr>
+              ) : (
+                paginated.map((t) => (
+                  <tr key={t.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{t.description}</div>
+                      {t.notes && <div className="text-xs text-gray-500">{t.notes}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{t.work_scope?.work_scope || "—"}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {t.work_type || <em className="text-gray-400">Any</em>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {t.location?.location || <em className="text-gray-400">—</em>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                      {t.default_quantity} {t.default_uom}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 max-w-xs">
+                      {describeTemplateMaterials(t.materials) || (
+                        <em className="text-gray-400">—</em>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          t.deleted_at ? "bg-gray-200 text-gray-600" : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {t.deleted_at ? "Inactive" : "Active"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {canEdit ? (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openEditModal(t)}
+                            className="px-3 py-1 text-xs font-medium rounded-md border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(t)}
+                            disabled={togglingId === t.id}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                              t.deleted_at
+                                ? "border-green-300 text-green-700 hover:bg-green-50"
+                                : "border-red-300 text-red-700 hover:bg-red-50"
+                            }`}
+                          >
+                            {togglingId === t.id ? "..." : t.deleted_at ? "Restore" : "Remove"}
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          <div className="px-4 pb-4">
+            <Pagination page={page} totalItems={filtered.length} onPageChange={setPage} />
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg max-w-2xl w-full shadow-2xl max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editing ? "Edit Work Template" : "Add Work Template"}
+              </h3>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-3 overflow-y-auto">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  Description *
+                </label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="e.g. Hull blasting and painting"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Work Scope *
+                  </label>
+                  <select
+                    value={form.work_scope_id}
+                    onChange={(e) => setForm({ ...form, work_scope_id: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select work scope</option>
+                    {scopeOptions.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name}
+                        {s.deleted_at ? " — inactive" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Work Type</label>
+                  <select
+                    value={form.work_type}
+                    onChange={(e) => setForm({ ...form, work_type: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Any work type</option>
+                    {WORK_TYPE_OPTIONS.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Default Location
+                  </label>
+                  <select
+                    value={form.location_id}
+                    onChange={(e) => setForm({ ...form, location_id: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Pick on each work order</option>
+                    {locationOptions.map((l) => (
+                      <option key={l.id} value={l.id}>
+                        {l.name}
+                        {l.deleted_at ? " — inactive" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Default Quantity *
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.default_quantity}
+                    onChange={(e) => setForm({ ...form, default_quantity: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    Default UOM *
+                  </label>
+                  <select
+                    value={form.default_uom}
+                    onChange={(e) => setForm({ ...form, default_uom: e.target.value })}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {WORK_DETAIL_UOM_OPTIONS.map((uom) => (
+                      <option key={uom} value={uom}>
+                        {uom}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-xs font-medium text-gray-600">
+                    Typical Materials
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setMaterialRows((rows) => [
+                        ...rows,
+                        {
+                          key: crypto.randomUUID(),
+                          material_id: "",
+                          typical_quantity: "",
+                          uom: "",
+                        },
+                      ])
+                    }
+                    className="inline-flex items-center gap-1 text-xs text-blue-700 hover:underline"
+                  >
+                    <Plus className="w-3 h-3" /> Add material
+                  </button>
+                </div>
+                {materialRows.length === 0 ? (
+                  <p className="text-xs text-gray-500">
+                    None. Listed materials are shown when picking this template; material usage is
+                    still entered per BASTP.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {materialRows.map((row) => (
+                      <div key={row.key} className="flex items-center gap-2">
+                        <select
+                          value={row.material_id}
+                          onChange={(e) =>
+                            updateMaterialRow(row.key, { material_id: e.target.value })
+                          }
+                          className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Select material</option>
+                          {materialOptions(row.material_id).map((m) => (
+                            <option key={m.id} value={m.id}>
+                              {materialLabel(m)}
+                              {m.deleted_at ? " — inactive" : ""}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={row.typical_quantity}
+                          onChange={(e) =>
+                            updateMaterialRow(row.key, { typical_quantity: e.target.value })
+                          }
+                          placeholder="Qty"
+                          className="w-24 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="text"
+                          value={row.uom}
+                          onChange={(e) => updateMaterialRow(row.key, { uom: e.target.value })}
+                          placeholder="UOM"
+                          className="w-20 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setMaterialRows((rows) => rows.filter((r) => r.key !== row.key))
+                          }
+                          className="text-red-500 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {formError && <p className="text-red-600 text-sm">{formError}</p>}
+            </div>
+            <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editing ? "Save Changes" : "Add Template"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
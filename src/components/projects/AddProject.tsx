@@ -3,9 +3,15 @@ import { useNavigate } from "react-router-dom";
 import { supabase, type Vessel } from "../../lib/supabase";
 import { ActivityLogService } from "../../services/activityLogService";
 import { useAuth } from "../../hooks/useAuth";
-import { ArrowLeft, FolderKanban, Plus } from "lucide-react";
+import { ArrowLeft, Copy, FolderKanban, Loader2, Plus } from "lucide-react";
 import { WORK_TYPE_OPTIONS } from "../../constants/workTypes";
 import { suggestProjectName } from "../../utils/projectNaming";
+import {
+  fetchCloneSource,
+  fetchPreviousProjects,
+  type CloneSource,
+  type PreviousProject,
+} from "../../utils/projectClone";
 
 export default function AddProject() {
   const navigate = useNavigate();
@@ -29,6 +35,15 @@ export default function AddProject() {
   // docking-type changes stop overwriting it once they have.
   const [nameManuallyEdited, setNameManuallyEdited] = useState(false);
 
+  // "Start from previous project": the source is only recorded here. Its
+  // work is copied from ProjectDetails once the new readiness form is
+  // approved and the docking date is known (see CloneProjectWorkModal).
+  const [startFromPrevious, setStartFromPrevious] = useState(false);
+  const [previousProjects, setPreviousProjects] = useState<PreviousProject[]>([]);
+  const [sourceProjectId, setSourceProjectId] = useState("");
+  const [cloneSource, setCloneSource] = useState<CloneSource | null>(null);
+  const [loadingCloneSource, setLoadingCloneSource] = useState(false);
+
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -134,6 +149,47 @@ export default function AddProject() {
     };
   }, [formData.vessel_id, formData.docking_type, nameManuallyEdited, vessels]);
 
+  useEffect(() => {
+    setPreviousProjects([]);
+    setSourceProjectId("");
+    if (!formData.vessel_id) return;
+
+    let cancelled = false;
+    fetchPreviousProjects(parseInt(formData.vessel_id))
+      .then((projects) => {
+        if (cancelled) return;
+        setPreviousProjects(projects.filter((p) => p.work_order_count > 0));
+      })
+      .catch((err) => console.error("Error fetching previous projects:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.vessel_id]);
+
+  useEffect(() => {
+    setCloneSource(null);
+    const source = previousProjects.find((p) => p.id.toString() === sourceProjectId);
+    if (!startFromPrevious || !source) return;
+
+    let cancelled = false;
+    setLoadingCloneSource(true);
+    fetchCloneSource(source)
+      .then((loaded) => {
+        if (!cancelled) setCloneSource(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load the previous project");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingCloneSource(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [startFromPrevious, sourceProjectId, previousProjects]);
+
   const validateForm = () => {
     if (!formData.project_name.trim()) {
       setError("Project name is required");
@@ -147,6 +203,10 @@ export default function AddProject() {
       setError("Jenis Docking is required");
       return false;
     }
+    if (startFromPrevious && !sourceProjectId) {
+      setError("Pick the previous project to start from");
+      return false;
+    }
     if (!currentUser) {
       setError("User information not available. Please refresh and try again.");
       return false;
@@ -216,6 +276,8 @@ export default function AddProject() {
         project_name: formData.project_name.trim(),
         vessel_id: parseInt(formData.vessel_id),
         docking_type: formData.docking_type,
+        cloned_from_project_id:
+          startFromPrevious && sourceProjectId ? parseInt(sourceProjectId) : null,
         user_id: userId,
       };
 
@@ -396,6 +458,69 @@ export default function AddProject() {
               </p>
             </div>
 
+            {previousProjects.length > 0 && (
+              <div className="border border-gray-200 rounded-lg p-4">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={startFromPrevious}
+                    onChange={(e) => setStartFromPrevious(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <Copy className="w-4 h-4 text-gray-500" /> Start from a previous project
+                </label>
+                <p className="text-xs text-gray-500 mt-1 ml-6">
+                  Its work orders and active work details are copied into this
+                  project once the Vessel Readiness Form is approved, re-dated
+                  to the new docking date.
+                </p>
+
+                {startFromPrevious && (
+                  <div className="mt-3 ml-6 space-y-3">
+                    <select
+                      value={sourceProjectId}
+                      onChange={(e) => setSourceProjectId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Select previous project</option>
+                      {previousProjects.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.project_name} ({p.work_order_count} WO)
+                        </option>
+                      ))}
+                    </select>
+
+                    {loadingCloneSource ? (
+                      <div className="flex items-center text-sm text-gray-500">
+                        <Loader2 className="w-4 h-4 animate-spin mr-2" /> Loading...
+                      </div>
+                    ) : (
+                      cloneSource && (
+                        <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+                          {cloneSource.workOrders.map((wo) => (
+                            <li key={wo.id} className="px-3 py-2">
+                              <div className="font-medium text-gray-900">
+                                {wo.shipyard_wo_number}
+                              </div>
+                              <div className="text-xs text-gray-600">
+                                {wo.work_details.length} work detail
+                                {wo.work_details.length !== 1 ? "s" : ""}
+                                {wo.work_details.length > 0 &&
+                                  ` — ${wo.work_details
+                                    .slice(0, 3)
+                                    .map((wd) => wd.description)
+                                    .join(", ")}${wo.work_details.length > 3 ? ", …" : ""}`}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      )
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="flex justify-end gap-4 pt-6 border-t">
               <button
                 type="button"
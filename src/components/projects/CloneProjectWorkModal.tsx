@@ -0,0 +1,340 @@
+import { useState, useEffect } from "react";
+import { AlertTriangle, Copy, Loader2, X, XCircle } from "lucide-react";
+import {
+  cloneProjectWork,
+  fetchCloneSource,
+  fetchPreviousProjects,
+  planProjectClone,
+  type CloneResult,
+  type CloneSource,
+  type PreviousProject,
+} from "../../utils/projectClone";
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString() : "—";
+
+// Preview-then-copy of a previous project's work into this (empty) project.
+// Copying is only enabled once the readiness form is approved, the same gate
+// AddWorkOrder applies to an original work order.
+export default function CloneProjectWorkModal({
+  project,
+  defaultSourceId,
+  onClose,
+  onCloned,
+}: {
+  project: {
+    id: number;
+    project_name: string;
+    vessel_id: number;
+    readiness_status: string | null;
+    docking_date: string | null;
+  };
+  defaultSourceId: number | null;
+  onClose: () => void;
+  onCloned: (result: CloneResult) => void;
+}) {
+  const [previousProjects, setPreviousProjects] = useState<PreviousProject[]>(
+    [],
+  );
+  const [loadingProjects, setLoadingProjects] = useState(true);
+  const [sourceId, setSourceId] = useState<number | null>(defaultSourceId);
+  const [source, setSource] = useState<CloneSource | null>(null);
+  const [loadingSource, setLoadingSource] = useState(false);
+  const [dockingDate, setDockingDate] = useState(project.docking_date || "");
+  const [copying, setCopying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadingProjects(true);
+    fetchPreviousProjects(project.vessel_id, project.id)
+      .then((projects) => {
+        if (cancelled) return;
+        setPreviousProjects(projects);
+        // Default to the project it was started from, else the latest one
+        // with work to copy.
+        setSourceId(
+          (prev) =>
+            prev ?? projects.find((p) => p.work_order_count > 0)?.id ?? null,
+        );
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Failed to load previous projects",
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingProjects(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [project.vessel_id, project.id]);
+
+  const sourceProject = previousProjects.find((p) => p.id === sourceId) || null;
+
+  useEffect(() => {
+    if (!sourceProject) {
+      setSource(null);
+      return;
+    }
+    let cancelled = false;
+    setLoadingSource(true);
+    setError(null);
+    fetchCloneSource(sourceProject)
+      .then((loaded) => {
+        if (!cancelled) setSource(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Failed to load the previous project",
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSource(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceProject]);
+
+  const plan =
+    source && dockingDate ? planProjectClone(source, dockingDate) : null;
+  const detailCount = plan
+    ? plan.workOrders.reduce((sum, wo) => sum + wo.new_work_details.length, 0)
+    : 0;
+  const readinessApproved = project.readiness_status === "APPROVED";
+
+  const handleCopy = async () => {
+    if (!sourceProject || !plan || !readinessApproved) return;
+    setCopying(true);
+    setError(null);
+    try {
+      const result = await cloneProjectWork(
+        sourceProject,
+        project,
+        dockingDate,
+      );
+      onCloned(result);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to copy work orders",
+      );
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Copy className="w-5 h-5" /> Copy Work from Previous Project
+            </h3>
+            <p className="text-xs text-gray-500">
+              Active work orders and non-cancelled work details, re-dated to
+              this docking. Progress, verification and BASTP links are not
+              copied.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={copying}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Previous project
+            </label>
+            <select
+              value={sourceId ?? ""}
+              onChange={(e) =>
+                setSourceId(e.target.value ? Number(e.target.value) : null)
+              }
+              disabled={loadingProjects || copying}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">
+                {loadingProjects ? "Loading..." : "Select a project"}
+              </option>
+              {previousProjects.map((p) => (
+                <option
+                  key={p.id}
+                  value={p.id}
+                  disabled={p.work_order_count === 0}
+                >
+                  {p.project_name} ({p.work_order_count} WO)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              New docking date
+            </label>
+            <input
+              type="date"
+              value={dockingDate}
+              onChange={(e) => setDockingDate(e.target.value)}
+              disabled={copying}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Defaults to the docking date on this project's readiness form.
+            </p>
+          </div>
+        </div>
+
+        {!readinessApproved && (
+          <div className="mx-4 mt-4 bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-center gap-2 text-amber-800 text-sm">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            The copied work orders are original work orders, so the Vessel
+            Readiness Form must be approved before they can be created. You can
+            review the preview now.
+          </div>
+        )}
+        {error && (
+          <div className="mx-4 mt-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+            <XCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {loadingProjects || loadingSource ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" /> Loading...
+            </div>
+          ) : previousProjects.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              This vessel has no previous projects.
+            </p>
+          ) : !source ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              Pick a previous project to preview its work.
+            </p>
+          ) : !plan ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {dockingDate
+                ? "The selected project has no work orders to copy."
+                : "Enter the new docking date to preview the re-dated work."}
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-700 mb-3">
+                {plan.workOrders.length} work order
+                {plan.workOrders.length !== 1 ? "s" : ""} and {detailCount} work
+                detail{detailCount !== 1 ? "s" : ""}, moved {plan.offsetDays}{" "}
+                day{Math.abs(plan.offsetDays) !== 1 ? "s" : ""} (
+                {formatDate(plan.anchorDate)} → {formatDate(dockingDate)}). Each
+                gets a new WO number; customer WO number and date are left
+                blank.
+              </p>
+              <div className="space-y-4">
+                {plan.workOrders.map((wo) => (
+                  <div
+                    key={wo.id}
+                    className="border border-gray-200 rounded-lg"
+                  >
+                    <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium text-gray-900">
+                        {wo.shipyard_wo_number}
+                      </span>
+                      <span className="text-gray-500">
+                        {formatDate(wo.shipyard_wo_date)} →{" "}
+                        {formatDate(wo.new_wo_date)}
+                      </span>
+                      {wo.is_additional_wo && (
+                        <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-700">
+                          Was additional — copied as original
+                        </span>
+                      )}
+                    </div>
+                    {wo.new_work_details.length === 0 ? (
+                      <p className="px-3 py-2 text-xs text-gray-500">
+                        No active work details.
+                      </p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-xs text-gray-500 uppercase">
+                            <th className="px-3 py-2 text-left font-medium">
+                              Description
+                            </th>
+                            <th className="px-3 py-2 text-left font-medium">
+                              Qty
+                            </th>
+                            <th className="px-3 py-2 text-left font-medium">
+                              Planned start
+                            </th>
+                            <th className="px-3 py-2 text-left font-medium">
+                              Target close
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {wo.new_work_details.map((wd) => (
+                            <tr key={wd.id}>
+                              <td className="px-3 py-2 text-gray-900">
+                                {wd.description}
+                              </td>
+                              <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                                {wd.quantity} {wd.uom}
+                              </td>
+                              <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                                {formatDate(wd.new_planned_start_date)}
+                              </td>
+                              <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                                {formatDate(wd.new_target_close_date)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={copying}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={copying || !plan || !readinessApproved}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm flex items-center gap-2"
+          >
+            {copying && <Loader2 className="w-4 h-4 animate-spin" />}
+            Copy{" "}
+            {plan
+              ? `${plan.workOrders.length} Work Order${plan.workOrders.length !== 1 ? "s" : ""}`
+              : "Work"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import {
+  AlertTriangle,
+  ArrowRight,
+  GitBranch,
+  Loader2,
+  Plus,
+  X,
+} from "lucide-react";
+import { formatDateRange } from "../../utils/deadlineUtils";
+import {
+  addDependency,
+  removeDependency,
+  type CriticalPathResult,
+  type DependencyLink,
+} from "../../utils/criticalPath";
+import type { GanttWorkOrder } from "./ProjectGantt";
+
+const formatDate = (date: string | null) =>
+  formatDateRange({ start: date, end: null });
+
+// Dependency links between this project's work details, plus the chain of
+// work that sets the forecast end date.
+export default function ProjectDependencies({
+  workOrders,
+  links,
+  criticalPath,
+  canEdit,
+  onChanged,
+}: {
+  workOrders: GanttWorkOrder[];
+  links: DependencyLink[];
+  criticalPath: CriticalPathResult | null;
+  canEdit: boolean;
+  onChanged: () => Promise<void>;
+}) {
+  const [predecessorId, setPredecessorId] = useState("");
+  const [successorId, setSuccessorId] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const details = new Map(
+    workOrders.flatMap((wo) =>
+      wo.work_details.map(
+        (wd) => [wd.id, { ...wd, wo_number: wo.shipyard_wo_number }] as const,
+      ),
+    ),
+  );
+  const label = (id: number) => {
+    const wd = details.get(id);
+    return wd ? `${wd.description} (${wd.wo_number})` : `Work detail #${id}`;
+  };
+
+  // The earliest late item on the chain — everything after it is only late
+  // because it had to wait.
+  const pushedBy =
+    criticalPath && criticalPath.slipDays > 0
+      ? criticalPath.path.find((f) => f.lateDays > 0) || null
+      : null;
+
+  const handleAdd = async () => {
+    const predecessor = details.get(Number(predecessorId));
+    const successor = details.get(Number(successorId));
+    if (!predecessor || !successor) return;
+    if (predecessor.id === successor.id) {
+      setError("A work detail can't wait for itself.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await addDependency(predecessor, successor);
+      setPredecessorId("");
+      setSuccessorId("");
+      await onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add dependency");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (link: DependencyLink) => {
+    setRemovingId(link.id);
+    setError(null);
+    try {
+      await removeDependency(
+        link,
+        `Removed the link: ${label(link.successor_id)} no longer waits for ${label(
+          link.predecessor_id,
+        )}`,
+      );
+      await onChanged();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to remove dependency",
+      );
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const options = workOrders.map((wo) => (
+    <optgroup key={wo.id} label={wo.shipyard_wo_number}>
+      {wo.work_details
+        .filter((wd) => !wd.cancelled_at)
+        .map((wd) => (
+          <option key={wd.id} value={wd.id}>
+            {wd.description}
+          </option>
+        ))}
+    </optgroup>
+  ));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">Critical path</h3>
+        {!criticalPath ? (
+          <p className="text-sm text-gray-500 mt-1">
+            No planned dates on the original work orders' work details yet.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mt-1">
+              Forecast finish {formatDate(criticalPath.forecastEnd)}
+              {criticalPath.plannedEnd && (
+                <> · planned {formatDate(criticalPath.plannedEnd)}</>
+              )}
+            </p>
+            {pushedBy && (
+              <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-4 flex gap-3">
+                <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-red-800 text-sm">
+                  The project is forecast to finish {criticalPath.slipDays} day
+                  {criticalPath.slipDays !== 1 ? "s" : ""} late, pushed by{" "}
+                  <span className="font-medium">{label(pushedBy.id)}</span>,
+                  which runs {pushedBy.lateDays} day
+                  {pushedBy.lateDays !== 1 ? "s" : ""} past its target close.
+                </p>
+              </div>
+            )}
+            <ol className="mt-3 space-y-2">
+              {criticalPath.path.map((f, index) => (
+                <li key={f.id} className="flex items-center gap-3 text-sm">
+                  <span className="w-6 h-6 flex-shrink-0 rounded-full bg-gray-100 text-gray-600 text-xs flex items-center justify-center">
+                    {index + 1}
+                  </span>
+                  <span
+                    className={`flex-1 ${
+                      f.id === pushedBy?.id
+                        ? "font-medium text-red-700"
+                        : "text-gray-800"
+                    }`}
+                  >
+                    {label(f.id)}
+                  </span>
+                  <span className="text-gray-500">
+                    {formatDateRange({ start: f.start, end: f.finish })}
+                  </span>
+                  {f.lateDays > 0 && (
+                    <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">
+                      +{f.lateDays}d
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+            <p className="text-xs text-gray-500 mt-2">
+              Open work keeps its planned duration, can't start before its
+              predecessors finish, and can't finish before today.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">
+          Dependencies ({links.length})
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">
+          A work detail can't report progress until every work detail it waits
+          for is at 100%.
+        </p>
+
+        {links.length > 0 && (
+          <ul className="mt-3 divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {links.map((link) => (
+              <li
+                key={link.id}
+                className="flex items-center gap-2 px-3 py-2 text-sm"
+              >
+                <span className="text-gray-800">
+                  {label(link.predecessor_id)}
+                </span>
+                <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <span className="flex-1 text-gray-800">
+                  {label(link.successor_id)}
+                </span>
+                {canEdit && (
+                  <button
+                    onClick={() => handleRemove(link)}
+                    disabled={removingId === link.id}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                    title="Remove link"
+                  >
+                    {removingId === link.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <X className="w-4 h-4" />
+                    )}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canEdit && (
+          <div className="mt-3 flex flex-wrap items-end gap-3">
+            <label className="flex-1 min-w-[12rem] text-xs text-gray-600">
+              Finish first
+              <select
+                value={predecessorId}
+                onChange={(e) => setPredecessorId(e.target.value)}
+                className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="">Select work detail...</option>
+                {options}
+              </select>
+            </label>
+            <GitBranch className="w-4 h-4 text-gray-400 mb-3" />
+            <label className="flex-1 min-w-[12rem] text-xs text-gray-600">
+              Then start
+              <select
+                value={successorId}
+                onChange={(e) => setSuccessorId(e.target.value)}
+                className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="">Select work detail...</option>
+                {options}
+              </select>
+            </label>
+            <button
+              onClick={handleAdd}
+              disabled={!predecessorId || !successorId || saving}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 text-sm"
+            >
+              {saving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4" />
+              )}
+              Add Link
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-red-600 text-sm mt-3">{error}</p>}
+      </div>
+    </div>
+  );
+}
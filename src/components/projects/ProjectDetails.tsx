@@ -8,6 +8,13 @@ import {
   exceedsDeadline,
 } from "../../utils/deadlineUtils";
 import { getLatestProgressRecord } from "../../utils/progressPercentage";
+import {
+  fetchDependencies,
+  findCriticalPath,
+  latestProgress,
+  type DependencyLink,
+} from "../../utils/criticalPath";
+import { todayIso } from "../../utils/ganttTimeline";
 import {
   ArrowLeft,
   FolderKanban,
@@ -21,14 +28,27 @@ import {
   AlertTriangle,
   Link2,
   Loader2,
+  Copy,
+  ChartGantt,
+  ChevronDown,
+  ChevronUp,
+  GitBranch,
 } from "lucide-react";
+import CloneProjectWorkModal from "./CloneProjectWorkModal";
+import ProjectGantt from "./ProjectGantt";
+import ProjectDependencies from "./ProjectDependencies";
 
 interface ProjectDetail {
   id: number;
   project_name: string;
   docking_type: string | null;
+  cloned_from_project_id: number | null;
   vessel: { id: number; name: string; type: string; company: string } | null;
-  readiness_form: { id: number; status: string } | null;
+  readiness_form: {
+    id: number;
+    status: string;
+    docking_date: string | null;
+  } | null;
 }
 
 interface UnassignedWorkOrder {
@@ -45,8 +65,12 @@ interface WorkOrderRow {
   shipyard_wo_date: string;
   is_additional_wo: boolean | null;
   work_details: {
+    id: number;
+    description: string;
     planned_start_date: string | null;
     target_close_date: string | null;
+    actual_start_date: string | null;
+    actual_close_date: string | null;
     cancelled_at?: string | null;
     work_progress: {
       progress_percentage: number;
@@ -84,14 +108,22 @@ function overallProgress(wo: WorkOrderRow): number {
   return Math.round(totals.reduce((sum, p) => sum + p, 0) / totals.length);
 }
 
+const scheduleItems = (wos: WorkOrderRow[]) =>
+  wos.flatMap((wo) =>
+    wo.work_details
+      .filter((wd) => !wd.cancelled_at)
+      .map((wd) => ({ ...wd, progress: latestProgress(wd.work_progress) })),
+  );
+
 export default function ProjectDetails() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
   const location = useLocation();
-  const { isOperationsReadOnly } = useAuth();
+  const { isOperationsReadOnly, isShippingCreateOnly } = useAuth();
 
   const [project, setProject] = useState<ProjectDetail | null>(null);
   const [workOrders, setWorkOrders] = useState<WorkOrderRow[]>([]);
+  const [dependencies, setDependencies] = useState<DependencyLink[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
@@ -107,6 +139,10 @@ export default function ProjectDetails() {
   const [removingWOId, setRemovingWOId] = useState<number | null>(null);
   const [removeError, setRemoveError] = useState<string | null>(null);
 
+  const [showCloneModal, setShowCloneModal] = useState(false);
+  const [showGantt, setShowGantt] = useState(false);
+  const [showDependencies, setShowDependencies] = useState(false);
+
   const fetchProject = useCallback(async () => {
     if (!projectId) return;
     try {
@@ -120,8 +156,9 @@ export default function ProjectDetails() {
           id,
           project_name,
           docking_type,
+          cloned_from_project_id,
           vessel:vessel_id ( id, name, type, company ),
-          readiness_form:readiness_form_id ( id, status )
+          readiness_form:readiness_form_id ( id, status, docking_date )
         `,
         )
         .eq("id", projectId)
@@ -140,8 +177,12 @@ export default function ProjectDetails() {
           shipyard_wo_date,
           is_additional_wo,
           work_details (
+            id,
+            description,
             planned_start_date,
             target_close_date,
+            actual_start_date,
+            actual_close_date,
             cancelled_at,
             work_progress ( progress_percentage, report_date, created_at )
           )
@@ -152,7 +193,14 @@ export default function ProjectDetails() {
         .order("shipyard_wo_date", { ascending: true });
 
       if (woError) throw woError;
-      setWorkOrders((woData as any) || []);
+      const rows = (woData as unknown as WorkOrderRow[]) || [];
+      setWorkOrders(rows);
+
+      setDependencies(
+        await fetchDependencies(
+          rows.flatMap((wo) => wo.work_details.map((wd) => wd.id)),
+        ),
+      );
     } catch (err) {
       console.error("Error fetching project:", err);
       setError(err instanceof Error ? err.message : "Failed to load project");
@@ -315,6 +363,13 @@ export default function ProjectDetails() {
     const woRange = computeDateRange(wo.work_details);
     return exceedsDeadline(woRange, projectRange);
   });
+  const criticalPath = findCriticalPath(
+    scheduleItems(originalWorkOrders),
+    scheduleItems(workOrders),
+    dependencies,
+    projectRange.end?.slice(0, 10) || null,
+    todayIso(),
+  );
 
   const statusKey = project.readiness_form?.status || null;
   const badge = statusKey ? STATUS_BADGE[statusKey] : null;
@@ -345,6 +400,14 @@ export default function ProjectDetails() {
         </div>
         {!isOperationsReadOnly && (
           <div className="flex gap-3">
+            {workOrders.length === 0 && (
+              <button
+                onClick={() => setShowCloneModal(true)}
+                className="bg-white border border-gray-300 text-gray-700 px-4 py-3 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+              >
+                <Copy className="w-4 h-4" /> Copy from Previous Project
+              </button>
+            )}
             <button
               onClick={openAssignModal}
               className="bg-white border border-gray-300 text-gray-700 px-4 py-3 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
@@ -415,6 +478,73 @@ export default function ProjectDetails() {
         )}
       </div>
 
+      {/* Schedule — planned vs actual per work detail */}
+      {workOrders.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <button
+            onClick={() => setShowGantt((prev) => !prev)}
+            className="w-full flex items-center justify-between"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <ChartGantt className="w-5 h-5 text-blue-600" /> Schedule
+            </h2>
+            {showGantt ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+          {showGantt && (
+            <div className="mt-4">
+              <ProjectGantt
+                projectName={project.project_name}
+                workOrders={workOrders}
+                projectRange={projectRange}
+                criticalIds={
+                  new Set(criticalPath?.path.map((f) => f.id) || [])
+                }
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Dependencies between work details and the critical path */}
+      {workOrders.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <button
+            onClick={() => setShowDependencies((prev) => !prev)}
+            className="w-full flex items-center justify-between"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <GitBranch className="w-5 h-5 text-blue-600" /> Dependencies &amp;
+              Critical Path
+              {criticalPath && criticalPath.slipDays > 0 && (
+                <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">
+                  {criticalPath.slipDays}d late
+                </span>
+              )}
+            </h2>
+            {showDependencies ? (
+              <ChevronUp className="w-5 h-5 text-gray-500" />
+            ) : (
+              <ChevronDown className="w-5 h-5 text-gray-500" />
+            )}
+          </button>
+          {showDependencies && (
+            <div className="mt-4">
+              <ProjectDependencies
+                workOrders={workOrders}
+                links={dependencies}
+                criticalPath={criticalPath}
+                canEdit={!isOperationsReadOnly && !isShippingCreateOnly}
+                onChanged={fetchProject}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Readiness Form section */}
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex items-center justify-between">
@@ -546,10 +676,35 @@ export default function ProjectDetails() {
         ) : (
           <div className="text-center py-12">
             <p className="text-gray-500">No work orders in this project yet</p>
+            {project.cloned_from_project_id && !isOperationsReadOnly && (
+              <p className="text-sm text-gray-500 mt-1">
+                Started from a previous project — use Copy from Previous
+                Project once the readiness form is approved.
+              </p>
+            )}
           </div>
         )}
       </div>
 
+      {showCloneModal && project.vessel && (
+        <CloneProjectWorkModal
+          project={{
+            id: project.id,
+            project_name: project.project_name,
+            vessel_id: project.vessel.id,
+            readiness_status: project.readiness_form?.status || null,
+            docking_date: project.readiness_form?.docking_date || null,
+          }}
+          defaultSourceId={project.cloned_from_project_id}
+          onClose={() => setShowCloneModal(false)}
+          onCloned={async () => {
+            setShowCloneModal(false);
+            await fetchProject();
+            setShowSuccessMessage(true);
+          }}
+        />
+      )}
+
       {showAssignModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-lg max-w-2xl w-full max-h-[85vh] flex flex-col shadow-2xl">
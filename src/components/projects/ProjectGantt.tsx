@@ -0,0 +1,338 @@
+import { useRef } from "react";
+import { useReactToPrint } from "react-to-print";
+import { AlertTriangle, Printer } from "lucide-react";
+import {
+  computeDateRange,
+  exceedsDeadline,
+  formatDateRange,
+  type DateRange,
+} from "../../utils/deadlineUtils";
+import {
+  actualEnd,
+  computeGanttBounds,
+  ganttOffset,
+  ganttSpan,
+  monthTicks,
+  todayIso,
+  type GanttSpan,
+} from "../../utils/ganttTimeline";
+import { getLatestProgressRecord } from "../../utils/progressPercentage";
+
+export interface GanttWorkOrder {
+  id: number;
+  shipyard_wo_number: string;
+  is_additional_wo: boolean | null;
+  work_details: {
+    id: number;
+    description: string;
+    planned_start_date: string | null;
+    target_close_date: string | null;
+    actual_start_date?: string | null;
+    actual_close_date?: string | null;
+    cancelled_at?: string | null;
+    work_progress: {
+      progress_percentage: number;
+      report_date: string;
+      created_at: string;
+    }[];
+  }[];
+}
+
+const barStyle = (span: GanttSpan) => ({
+  left: `${span.left}%`,
+  width: `${span.width}%`,
+});
+
+// Planned vs actual schedule of every active work detail, grouped by work
+// order. The planned bar is shaded up to the latest reported progress; the
+// actual bar runs to today while the work is still open.
+export default function ProjectGantt({
+  projectName,
+  workOrders,
+  projectRange,
+  criticalIds,
+}: {
+  projectName: string;
+  workOrders: GanttWorkOrder[];
+  projectRange: DateRange;
+  // Work details on the critical path (see utils/criticalPath).
+  criticalIds?: Set<number>;
+}) {
+  const printRef = useRef<HTMLDivElement>(null);
+  const handlePrint = useReactToPrint({
+    contentRef: printRef,
+    documentTitle: `Schedule-${projectName}`,
+    pageStyle: `
+      @page {
+        size: A4 landscape;
+        margin: 10mm;
+      }
+      @media print {
+        body {
+          -webkit-print-color-adjust: exact;
+          print-color-adjust: exact;
+        }
+        .no-print {
+          display: none !important;
+        }
+        .gantt-row {
+          break-inside: avoid;
+        }
+      }
+    `,
+  });
+
+  const today = todayIso();
+  const groups = workOrders.map((wo) => ({
+    wo,
+    details: wo.work_details.filter((wd) => !wd.cancelled_at),
+  }));
+  const bounds = computeGanttBounds(
+    groups.flatMap((g) => g.details),
+    today,
+  );
+
+  if (!bounds) {
+    return (
+      <p className="text-sm text-gray-500 py-6 text-center">
+        No planned or actual dates on this project's work details yet.
+      </p>
+    );
+  }
+
+  const ticks = monthTicks(bounds);
+  const todayLeft =
+    today >= bounds.start && today <= bounds.end
+      ? ganttOffset(bounds, today)
+      : null;
+  const deadlineSpan = projectRange.end
+    ? ganttSpan(bounds, projectRange.end, projectRange.end)
+    : null;
+  // The line sits at the end of the deadline day.
+  const deadlineLeft = deadlineSpan
+    ? deadlineSpan.left + deadlineSpan.width
+    : null;
+
+  const markers = (
+    <>
+      {ticks.map((t) => (
+        <div
+          key={t.date}
+          className="absolute inset-y-0 border-l border-gray-200"
+          style={{ left: `${t.left}%` }}
+        />
+      ))}
+      {deadlineLeft !== null && (
+        <div
+          className="absolute inset-y-0 border-l-2 border-dashed border-red-400"
+          style={{ left: `${deadlineLeft}%` }}
+        />
+      )}
+      {todayLeft !== null && (
+        <div
+          className="absolute inset-y-0 border-l-2 border-gray-500"
+          style={{ left: `${todayLeft}%` }}
+        />
+      )}
+    </>
+  );
+
+  return (
+    <div>
+      <div className="flex justify-end mb-3 no-print">
+        <button
+          onClick={() => handlePrint()}
+          className="inline-flex items-center gap-2 bg-white border border-gray-300 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-50 transition-colors text-sm"
+        >
+          <Printer className="w-4 h-4" /> Print / PDF
+        </button>
+      </div>
+
+      <div ref={printRef} className="text-xs">
+        <div className="hidden print:block mb-3">
+          <h2 className="text-base font-semibold text-gray-900">
+            {projectName} — Schedule
+          </h2>
+          <p className="text-gray-600">
+            Project deadline: {formatDateRange(projectRange)} · Printed{" "}
+            {new Date().toLocaleDateString()}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-3 text-gray-600">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-6 h-3 rounded-sm bg-blue-100 border border-blue-300" />
+            Planned
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-6 h-3 rounded-sm bg-blue-500" />
+            Progress
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-6 h-1.5 rounded-sm bg-green-600" />
+            Actual
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-6 h-1.5 rounded-sm bg-green-300" />
+            Actual (still open)
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-3 border-l-2 border-dashed border-red-400" />
+            Project deadline
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-3 border-l-2 border-gray-500" />
+            Today
+          </span>
+          {criticalIds && criticalIds.size > 0 && (
+            <span className="flex items-center gap-1">
+              <span className="font-medium text-red-700">Red text</span>
+              Critical path
+            </span>
+          )}
+        </div>
+
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="flex bg-gray-50 border-b border-gray-200">
+            <div className="w-64 flex-shrink-0 px-3 py-2 font-semibold text-gray-700">
+              Work order / work detail
+            </div>
+            <div className="relative flex-1 h-8">
+              {ticks.map((t) => (
+                <span
+                  key={t.date}
+                  className="absolute top-2 pl-1 text-gray-500 whitespace-nowrap"
+                  style={{ left: `${t.left}%` }}
+                >
+                  {t.label}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {groups.map(({ wo, details }) => {
+            // Same range the work order table uses for its deadline flag.
+            const woRange = computeDateRange(wo.work_details);
+            const beyondDeadline =
+              !!wo.is_additional_wo && exceedsDeadline(woRange, projectRange);
+            const woSpan = ganttSpan(bounds, woRange.start, woRange.end);
+
+            return (
+              <div
+                key={wo.id}
+                className="border-b border-gray-200 last:border-b-0"
+              >
+                <div
+                  className={`gantt-row flex ${
+                    beyondDeadline ? "bg-amber-50" : "bg-white"
+                  }`}
+                >
+                  <div className="w-64 flex-shrink-0 px-3 py-2">
+                    <div className="font-semibold text-gray-900 flex items-center gap-1">
+                      {wo.shipyard_wo_number}
+                      {wo.is_additional_wo && (
+                        <span className="inline-flex px-1.5 py-0.5 rounded text-[10px] font-medium bg-purple-100 text-purple-700">
+                          Additional
+                        </span>
+                      )}
+                    </div>
+                    {beyondDeadline && (
+                      <div className="flex items-center gap-1 text-amber-700">
+                        <AlertTriangle className="w-3 h-3" /> Beyond project
+                        deadline
+                      </div>
+                    )}
+                  </div>
+                  <div className="relative flex-1">
+                    {markers}
+                    {woSpan && (
+                      <div
+                        className={`absolute top-1/2 -translate-y-1/2 h-1.5 rounded-full ${
+                          beyondDeadline ? "bg-amber-500" : "bg-gray-400"
+                        }`}
+                        style={barStyle(woSpan)}
+                      />
+                    )}
+                  </div>
+                </div>
+
+                {details.map((wd) => {
+                  const progress =
+                    getLatestProgressRecord(wd.work_progress || [])
+                      ?.progress_percentage || 0;
+                  const planned = ganttSpan(
+                    bounds,
+                    wd.planned_start_date,
+                    wd.target_close_date,
+                  );
+                  const actual = ganttSpan(
+                    bounds,
+                    wd.actual_start_date,
+                    actualEnd(wd, today),
+                  );
+                  return (
+                    <div
+                      key={wd.id}
+                      className="gantt-row flex border-t border-gray-100"
+                    >
+                      <div className="w-64 flex-shrink-0 pl-6 pr-3 py-1.5">
+                        <div
+                          className={`truncate ${
+                            criticalIds?.has(wd.id)
+                              ? "font-medium text-red-700"
+                              : "text-gray-800"
+                          }`}
+                          title={wd.description}
+                        >
+                          {wd.description}
+                        </div>
+                        <div className="text-gray-500">{progress}%</div>
+                      </div>
+                      <div className="relative flex-1 h-10">
+                        {markers}
+                        {planned && (
+                          <div
+                            className="absolute top-2 h-3 rounded-sm bg-blue-100 border border-blue-300 overflow-hidden"
+                            style={barStyle(planned)}
+                            title={`Planned ${formatDateRange({
+                              start: wd.planned_start_date,
+                              end: wd.target_close_date,
+                            })} · ${progress}%`}
+                          >
+                            <div
+                              className="h-full bg-blue-500"
+                              style={{ width: `${Math.min(progress, 100)}%` }}
+                            />
+                          </div>
+                        )}
+                        {actual && (
+                          <div
+                            className={`absolute top-6 h-1.5 rounded-sm ${
+                              wd.actual_close_date
+                                ? "bg-green-600"
+                                : "bg-green-300"
+                            }`}
+                            style={barStyle(actual)}
+                            title={`Actual ${formatDateRange({
+                              start: wd.actual_start_date ?? null,
+                              end: wd.actual_close_date ?? null,
+                            })}${wd.actual_close_date ? "" : " (still open)"}`}
+                          />
+                        )}
+                        {!planned && !actual && (
+                          <span className="absolute top-2 left-2 text-gray-400 italic">
+                            Not scheduled
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,10 @@ import { supabase, type WorkOrder, type Vessel } from "../../lib/supabase";
 import { useAuth } from "../../hooks/useAuth";
 import { ActivityLogService } from "../../services/activityLogService";
 import SearchableSelect from "../common/SearchableSelect";
+import WorkDetailTemplatePicker from "./WorkDetailTemplatePicker";
+import { WORK_DETAIL_UOM_OPTIONS } from "../../constants/workDetailUoms";
+import type { WorkDetailTemplate } from "../../types/workDetailTemplate.types";
+import { fetchWorkDetailTemplates } from "../../utils/workDetailTemplates";
 import {
   Ship,
   HardHat,
@@ -13,6 +17,7 @@ import {
   CheckCircle2,
   ArrowLeft,
   Wrench,
+  ClipboardList,
 } from "lucide-react";
 
 interface WorkOrderWithVessel extends WorkOrder {
@@ -133,6 +138,10 @@ export default function AddWorkDetails() {
   const [_loadingLocations, setLoadingLocations] = useState(false);
   const [_loadingWorkScopes, setLoadingWorkScopes] = useState(false);
 
+  // Standard job library (Master Data → Work Templates)
+  const [templates, setTemplates] = useState<WorkDetailTemplate[]>([]);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+
   // Search dropdown state — a single search across vessel name + WO number,
   // instead of a vessel-first cascade (vessel is carried on the WO itself).
   const [workOrderSearchTerm, setWorkOrderSearchTerm] = useState("");
@@ -197,6 +206,17 @@ export default function AddWorkDetails() {
     }
   };
 
+  const fetchTemplates = async () => {
+    try {
+      setTemplates(await fetchWorkDetailTemplates());
+    } catch (err) {
+      console.error("Error fetching work templates:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load work templates",
+      );
+    }
+  };
+
   // Fetches every work order up front (joined with its vessel + kapro) so
   // the picker below can search across vessel name / WO number directly,
   // instead of forcing a vessel-first cascade.
@@ -240,6 +260,7 @@ export default function AddWorkDetails() {
     fetchAllWorkOrders();
     fetchLocations();
     fetchWorkScopes();
+    fetchTemplates();
 
     if (workOrderId) {
       const initializeFromWorkOrder = async () => {
@@ -312,6 +333,41 @@ export default function AddWorkDetails() {
     ]);
   };
 
+  // One row per picked template. A template's location or work scope that
+  // has since been removed is left blank for the user to pick, and an
+  // untouched blank first row is replaced rather than kept above them.
+  const handleAddFromTemplates = (selected: WorkDetailTemplate[]) => {
+    const rows: WorkDetailFormData[] = selected.map((template) => ({
+      id: crypto.randomUUID(),
+      description: template.description,
+      location_id: locations.some((l) => l.id === template.location_id)
+        ? template.location_id!
+        : 0,
+      work_scope_id: workScopes.some((w) => w.id === template.work_scope_id)
+        ? template.work_scope_id
+        : 0,
+      quantity: String(template.default_quantity),
+      uom: template.default_uom,
+      ppic_price: "",
+      is_additional_wo_details: false,
+      planned_start_date: "",
+      target_close_date: "",
+      period_close_target: "",
+    }));
+    setWorkDetailsList((prev) => {
+      const [first] = prev;
+      const untouched =
+        prev.length === 1 &&
+        !first.description.trim() &&
+        !first.location_id &&
+        !first.work_scope_id &&
+        !first.quantity &&
+        !first.uom;
+      return untouched ? rows : [...prev, ...rows];
+    });
+    setShowTemplatePicker(false);
+  };
+
   // Remove work detail row
   const handleRemoveWorkDetail = (id: string) => {
     setWorkDetailsList((prev) => {
@@ -709,13 +765,22 @@ export default function AddWorkDetails() {
                 <h3 className="text-lg font-semibold text-gray-900">
                   Work Details Items ({workDetailsList.length})
                 </h3>
-                <button
-                  type="button"
-                  onClick={handleAddWorkDetail}
-                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
-                >
-                  <Plus className="w-4 h-4" /> Add Row
-                </button>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setShowTemplatePicker(true)}
+                    className="border border-blue-600 text-blue-700 px-4 py-2 rounded-lg hover:bg-blue-50 transition-colors flex items-center gap-2"
+                  >
+                    <ClipboardList className="w-4 h-4" /> From Job Library
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleAddWorkDetail}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+                  >
+                    <Plus className="w-4 h-4" /> Add Row
+                  </button>
+                </div>
               </div>
 
               {workDetailsList.map((item, index) => (
@@ -830,10 +895,11 @@ export default function AddWorkDetails() {
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
                       >
                         <option value="">Select UOM</option>
-                        <option value="Ls">Ls</option>
-                        <option value="Unit">Unit</option>
-                        <option value="Pcs">Pcs</option>
-                        <option value="Lbr">Lbr</option>
+                        {WORK_DETAIL_UOM_OPTIONS.map((uom) => (
+                          <option key={uom} value={uom}>
+                            {uom}
+                          </option>
+                        ))}
                       </select>
                     </div>
 
@@ -1007,6 +1073,15 @@ export default function AddWorkDetails() {
           )}
         </form>
       </div>
+
+      {showTemplatePicker && (
+        <WorkDetailTemplatePicker
+          templates={templates}
+          workType={selectedWorkOrder?.work_type}
+          onClose={() => setShowTemplatePicker(false)}
+          onAdd={handleAddFromTemplates}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { ClipboardList, Search, X } from "lucide-react";
+import type { WorkDetailTemplate } from "../../types/workDetailTemplate.types";
+import {
+  describeTemplateMaterials,
+  templateMatchesWorkType,
+} from "../../utils/workDetailTemplates";
+
+// Multi-select over the standard job library. Templates are grouped by work
+// scope; when the work order has a work type, only templates for that type
+// (or for any type) are listed unless the user widens the filter.
+export default function WorkDetailTemplatePicker({
+  templates,
+  workType,
+  onClose,
+  onAdd,
+}: {
+  templates: WorkDetailTemplate[];
+  workType: string | null | undefined;
+  onClose: () => void;
+  onAdd: (selected: WorkDetailTemplate[]) => void;
+}) {
+  const [search, setSearch] = useState("");
+  const [matchWorkType, setMatchWorkType] = useState(!!workType);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  const visible = templates.filter((t) => {
+    if (matchWorkType && !templateMatchesWorkType(t, workType)) return false;
+    if (search.trim()) {
+      const q = search.trim().toLowerCase();
+      return (
+        t.description.toLowerCase().includes(q) ||
+        (t.work_scope?.work_scope || "").toLowerCase().includes(q)
+      );
+    }
+    return true;
+  });
+
+  const groups = visible.reduce<Map<string, WorkDetailTemplate[]>>((acc, t) => {
+    const scope = t.work_scope?.work_scope || "Other";
+    acc.set(scope, [...(acc.get(scope) || []), t]);
+    return acc;
+  }, new Map());
+
+  const toggle = (ids: number[], checked: boolean) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+
+  const handleAdd = () => {
+    // Keep library order regardless of click order.
+    onAdd(templates.filter((t) => selectedIds.has(t.id)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div
+        className="fixed inset-0 bg-black/30 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      ></div>
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[85vh] flex flex-col">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center gap-2">
+              <ClipboardList className="w-5 h-5 text-blue-600" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                Add from Job Library
+              </h3>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="px-6 py-3 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search job or work scope..."
+                className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                autoFocus
+              />
+            </div>
+            {workType && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={matchWorkType}
+                  onChange={(e) => setMatchWorkType(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                Only {workType}
+              </label>
+            )}
+          </div>
+
+          <div className="px-6 py-4 overflow-y-auto flex-1 space-y-4">
+            {groups.size === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">
+                {templates.length === 0
+                  ? "The job library is empty. MASTER and PPIC can add templates under Master Data → Work Templates."
+                  : "No templates match."}
+              </p>
+            ) : (
+              [...groups.entries()].map(([scope, items]) => {
+                const ids = items.map((t) => t.id);
+                const allSelected = ids.every((id) => selectedIds.has(id));
+                return (
+                  <div key={scope}>
+                    <label className="flex items-center gap-2 text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={(e) => toggle(ids, e.target.checked)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      {scope}
+                    </label>
+                    <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                      {items.map((t) => {
+                        const materials = describeTemplateMaterials(
+                          t.materials,
+                        );
+                        return (
+                          <li key={t.id}>
+                            <label className="flex items-start gap-3 px-3 py-2 cursor-pointer hover:bg-blue-50">
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.has(t.id)}
+                                onChange={(e) =>
+                                  toggle([t.id], e.target.checked)
+                                }
+                                className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                              />
+                              <div className="flex-1 min-w-0">
+                                <div className="text-sm font-medium text-gray-900">
+                                  {t.description}
+                                </div>
+                                <div className="text-xs text-gray-600">
+                                  {t.default_quantity} {t.default_uom}
+                                  {t.location?.location &&
+                                    ` • ${t.location.location}`}
+                                  {t.work_type && ` • ${t.work_type}`}
+                                </div>
+                                {materials && (
+                                  <div className="text-xs text-gray-500">
+                                    Typical materials: {materials}
+                                  </div>
+                                )}
+                              </div>
+                            </label>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-5 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={selectedIds.size === 0}
+              className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add {selectedIds.size} Work Detail
+              {selectedIds.size !== 1 ? "s" : ""}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,7 +15,15 @@ import {
 import { WORK_TYPE_OPTIONS } from "../../constants/workTypes";
 import { WORK_LOCATION_OPTIONS } from "../../constants/workLocations";
 import { suggestProjectName } from "../../utils/projectNaming";
-import { suggestWorkOrderNumber } from "../../utils/workOrderNumbering";
+import {
+  reserveWorkOrderNumber,
+  suggestWorkOrderNumber,
+} from "../../utils/workOrderNumbering";
+import {
+  describeTakenNumber,
+  releaseSequentialNumber,
+  type DocumentNumberReservation,
+} from "../../utils/documentNumbering";
 
 interface ProjectOption {
   id: number;
@@ -614,6 +622,7 @@ export default function AddWorkOrder() {
     setError(null);
 
     let approvedRequestIdToConsume: number | null = null;
+    let numberReservation: DocumentNumberReservation | null = null;
 
     try {
       const userId = await resolveUserId();
@@ -714,10 +723,21 @@ export default function AddWorkOrder() {
         }
       }
 
+      // The number on screen is only a preview — reserve the real one now,
+      // atomically, so two people saving at once can't both get it.
+      numberReservation = await reserveWorkOrderNumber(
+        formData.shipyard_wo_date,
+      );
+      const takenNumberNotice = describeTakenNumber(
+        "Work order",
+        formData.shipyard_wo_number.trim(),
+        numberReservation,
+      );
+
       const submitData = {
         vessel_id: selectedProject.vessel_id,
         project_id: selectedProject.id,
-        shipyard_wo_number: formData.shipyard_wo_number.trim(),
+        shipyard_wo_number: numberReservation.documentNumber,
         shipyard_wo_date: formData.shipyard_wo_date,
         customer_wo_number: formData.customer_wo_number.trim() || null,
         customer_wo_date: formData.customer_wo_date || null,
@@ -744,6 +764,8 @@ export default function AddWorkOrder() {
       if (!data) {
         throw new Error("No data returned from work order creation");
       }
+      // Saved — the server has marked the reservation used.
+      numberReservation = null;
 
       // Log the activity
       await ActivityLogService.logActivity({
@@ -768,10 +790,15 @@ export default function AddWorkOrder() {
         }
       }
 
+      if (takenNumberNotice) {
+        alert(takenNumberNotice);
+      }
+
       navigate(`/projects/${selectedProject.id}`, {
         state: { message: "Work order created successfully!" },
       });
     } catch (err) {
+      await releaseSequentialNumber(numberReservation);
       console.error("Error creating work order:", err);
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
@@ -1206,8 +1233,10 @@ export default function AddWorkOrder() {
                   required
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Auto-generated from the Shipyard WO Date below. Need to
-                  change it? Edit the work order after creating it.
+                  Auto-generated from the Shipyard WO Date below and
+                  reserved when you save — if someone else takes it first,
+                  the next free number is used. Need to change it? Edit the
+                  work order after creating it.
                 </p>
               </div>
 
@@ -45,6 +45,7 @@ import {
   Printer,
   Download,
   Loader,
+  Table2,
 } from "lucide-react";
 
 interface VesselData {
@@ -266,11 +267,7 @@ export default function VesselWorkOrders() {
     try {
       setPrintLoading(wo.id);
       setPrintError(null);
-      const number = await ensureWorkOrderPrintNumber(
-        wo.id,
-        wo.shipyard_wo_date,
-        wo.wo_print_number,
-      );
+      const number = await ensureWorkOrderPrintNumber(wo.id);
       const woWithNumber = { ...wo, wo_print_number: number };
       setWorkOrders((prev) =>
         prev.map((w) => (w.id === wo.id ? woWithNumber : w)),
@@ -1334,17 +1331,38 @@ export default function VesselWorkOrders() {
                                   <Wrench className="w-4 h-4" /> Work Details
                                   for {wo.shipyard_wo_number}
                                 </h4>
-                                {!isOperationsReadOnly && (
-                                  <button
-                                    onClick={() =>
-                                      navigate(`/work-details/add/${wo.id}`)
-                                    }
-                                    className="bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-1.5 text-sm font-medium"
-                                  >
-                                    <Plus className="w-3.5 h-3.5" /> Add Work
-                                    Detail
-                                  </button>
-                                )}
+                                <div className="flex items-center gap-2">
+                                  {canWriteProgress &&
+                                    wo.work_details.length > 0 && (
+                                      <button
+                                        onClick={() =>
+                                          navigate(
+                                            `/bulk-work-progress/${wo.id}`,
+                                            {
+                                              state: {
+                                                returnTo: `/vessel/${vesselId}/work-orders`,
+                                              },
+                                            },
+                                          )
+                                        }
+                                        className="border border-green-600 text-green-700 px-3 py-1.5 rounded-lg hover:bg-green-50 transition-colors flex items-center gap-1.5 text-sm font-medium"
+                                      >
+                                        <Table2 className="w-3.5 h-3.5" /> Bulk
+                                        Progress
+                                      </button>
+                                    )}
+                                  {!isOperationsReadOnly && (
+                                    <button
+                                      onClick={() =>
+                                        navigate(`/work-details/add/${wo.id}`)
+                                      }
+                                      className="bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-1.5 text-sm font-medium"
+                                    >
+                                      <Plus className="w-3.5 h-3.5" /> Add Work
+                                      Detail
+                                    </button>
+                                  )}
+                                </div>
                               </div>
 
                               {wo.work_details.length > 0 && (
@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Lock,
+  Loader2,
+  XCircle,
+  AlertTriangle,
+  Printer,
+} from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import {
+  fetchWorkOrderPrintRegister,
+  type PrintRegisterEntry,
+  type PrintRegisterStatus,
+} from "../../utils/workOrderPrintNumbering";
+
+const STATUS_STYLES: Record<PrintRegisterStatus, string> = {
+  ISSUED: "bg-green-100 text-green-800",
+  REPRINTED: "bg-blue-100 text-blue-800",
+  SKIPPED: "bg-red-100 text-red-800",
+};
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString("id-ID", {
+        day: "2-digit",
+        month: "short",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "—";
+
+export default function WorkOrderPrintRegister() {
+  const navigate = useNavigate();
+  const { canAccess } = useAuth();
+  const canView = canAccess("printRegister");
+
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [statusFilter, setStatusFilter] = useState<PrintRegisterStatus | "">(
+    "",
+  );
+  const [entries, setEntries] = useState<PrintRegisterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!canView) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchWorkOrderPrintRegister(year)
+      .then((data) => {
+        if (!cancelled) setEntries(data);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load register",
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [canView, year]);
+
+  if (!canView) {
+    return (
+      <div className="p-8">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 flex items-start gap-3">
+          <Lock className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+          <div>
+            <p className="text-yellow-900 font-medium">
+              You don't have permission to view the print register.
+            </p>
+            <p className="text-sm text-yellow-700 mt-1">
+              This page is restricted to the Master, PPIC, and Manager roles.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const counts = entries.reduce(
+    (acc, e) => ({ ...acc, [e.status]: acc[e.status] + 1 }),
+    { ISSUED: 0, REPRINTED: 0, SKIPPED: 0 } as Record<
+      PrintRegisterStatus,
+      number
+    >,
+  );
+  const filteredEntries = statusFilter
+    ? entries.filter((e) => e.status === statusFilter)
+    : entries;
+  const yearOptions = Array.from({ length: 5 }, (_, i) => currentYear - i);
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Printer className="w-6 h-6" /> Work Order Print Register
+        </h1>
+        <p className="text-gray-600 mt-1">
+          Every Perintah Kerja print number issued per year, for reconciling
+          against the paper register.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-red-700 text-sm">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-center">
+          <select
+            value={year}
+            onChange={(e) => setYear(parseInt(e.target.value, 10))}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {yearOptions.map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) =>
+              setStatusFilter(e.target.value as PrintRegisterStatus | "")
+            }
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All statuses</option>
+            <option value="ISSUED">Issued</option>
+            <option value="REPRINTED">Reprinted</option>
+            <option value="SKIPPED">Skipped</option>
+          </select>
+          {(["ISSUED", "REPRINTED", "SKIPPED"] as PrintRegisterStatus[]).map(
+            (status) => (
+              <div key={status} className="text-sm text-gray-600">
+                <span
+                  className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium mr-2 ${STATUS_STYLES[status]}`}
+                >
+                  {status}
+                </span>
+                {counts[status]}
+              </div>
+            ),
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">
+                    No.
+                  </th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">
+                    Status
+                  </th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">
+                    Shipyard WO Number
+                  </th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">
+                    Vessel
+                  </th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">
+                    First Printed
+                  </th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">
+                    Last Printed
+                  </th>
+                  <th className="px-4 py-3 text-right font-semibold text-gray-700">
+                    Prints
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredEntries.length === 0 ? (
+                  <tr>
+                    <td
+                      colSpan={7}
+                      className="px-4 py-8 text-center text-gray-500"
+                    >
+                      No print numbers for {year}
+                    </td>
+                  </tr>
+                ) : (
+                  filteredEntries.map((entry) => (
+                    <tr key={entry.print_number} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 font-mono text-gray-900">
+                        {String(entry.print_number).padStart(3, "0")}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}
+                        >
+                          {entry.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {entry.work_order_id && entry.vessel_id ? (
+                          <button
+                            onClick={() =>
+                              navigate(
+                                `/vessel/${entry.vessel_id}/work-orders`,
+                                {
+                                  state: {
+                                    highlightWorkOrderId: entry.work_order_id,
+                                  },
+                                },
+                              )
+                            }
+                            className="text-blue-600 hover:text-blue-800 hover:underline"
+                          >
+                            {entry.shipyard_wo_number || "—"}
+                          </button>
+                        ) : (
+                          <em className="text-gray-400">—</em>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {entry.vessel_name || (
+                          <em className="text-gray-400">—</em>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {formatDateTime(entry.first_printed_at)}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {formatDateTime(entry.last_printed_at)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700">
+                        {entry.print_count}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 flex items-start gap-2 text-xs text-gray-500">
+        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+        Skipped numbers aren't carried by any active work order — either they
+        were never printed, or the work order they were printed for has since
+        been deleted. Numbers are never reused for a different work order.
+      </div>
+    </div>
+  );
+}
@@ -3,3 +3,4 @@ export { default as AddWorkOrder } from "./AddWorkOrder";
 export { default as WorkOrderDashboard } from "./WorkOrderDashboard";
 export { default as VesselWorkOrders } from "./VesselWorkOrders";
 export { default as EditWorkOrder } from "./EditWorkOrder";
+export { default as WorkOrderPrintRegister } from "./WorkOrderPrintRegister";
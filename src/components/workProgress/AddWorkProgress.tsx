@@ -1,7 +1,14 @@
 import { useState, useEffect, useRef } from "react";
 import { useNavigate, useParams, useLocation } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
-import { uploadProgressEvidence } from "../../utils/progressEvidenceHandler";
+import type { PendingEvidencePhoto } from "../../utils/progressEvidenceHandler";
+import { EvidencePhotoPicker } from "./EvidenceGallery";
+import RegressionReasonField from "./RegressionReasonField";
+import {
+  attachEvidenceOrQueue,
+  isNetworkError,
+  queueProgressReport,
+} from "../../utils/offlineProgressQueue";
 import { ActivityLogService } from "../../services/activityLogService";
 import {
   sanitizeProgressPercentageInput,
@@ -9,8 +16,11 @@ import {
   isValidProgressPercentage,
   formatProgressPercentage,
   getLatestProgressRecord,
+  getPreviousProgressRecord,
+  type RegressionReason,
 } from "../../utils/progressPercentage";
 import { isOpenForRework } from "../../utils/workVerificationStatus";
+import { fetchBlockingPredecessors } from "../../utils/criticalPath";
 import { useAuth } from "../../hooks/useAuth";
 import {
   FileText,
@@ -20,7 +30,6 @@ import {
   Calendar,
   FileEdit,
   Image,
-  Paperclip,
   CheckCircle2,
   AlertCircle,
   X,
@@ -133,6 +142,11 @@ export default function AddWorkProgress({
   const [currentMaxProgress, setCurrentMaxProgress] = useState<number | null>(
     null,
   );
+  // The selected work detail's reports, to find the one a new report
+  // follows (by report_date) and tell whether it regresses.
+  const [progressHistory, setProgressHistory] = useState<
+    { progress_percentage: number; report_date: string; created_at: string }[]
+  >([]);
 
   // Whether the selected work detail was sent back for rework and hasn't
   // been resubmitted yet — lifts the "already at 100%" lock specifically
@@ -141,11 +155,18 @@ export default function AddWorkProgress({
   const [isReworkReopen, setIsReworkReopen] = useState(false);
   const [reworkNotes, setReworkNotes] = useState<string | null>(null);
 
+  // Work details this one waits for that aren't at 100% yet — progress
+  // above 0% is refused until they are (see work_detail_dependencies).
+  const [blockingPredecessors, setBlockingPredecessors] = useState<
+    { id: number; description: string; progress: number }[]
+  >([]);
+
   const [formData, setFormData] = useState({
     progress_percentage: "",
     report_date: new Date().toISOString().split("T")[0],
     notes: "",
-    evidence_file: null as File | null,
+    evidence_photos: [] as PendingEvidencePhoto[],
+    regression_reason: "" as RegressionReason | "",
   });
 
   const [loadingWorkOrders, setLoadingWorkOrders] = useState(false);
@@ -191,8 +212,10 @@ export default function AddWorkProgress({
   useEffect(() => {
     if (!selectedWorkDetailsId) {
       setCurrentMaxProgress(null);
+      setProgressHistory([]);
       setIsReworkReopen(false);
       setReworkNotes(null);
+      setBlockingPredecessors([]);
       return;
     }
 
@@ -200,7 +223,7 @@ export default function AddWorkProgress({
 
     const fetchGuardState = async () => {
       try {
-        const [progressResult, verificationResult] = await Promise.all([
+        const [progressResult, verificationResult, blockers] = await Promise.all([
           supabase
             .from("work_progress")
             .select("progress_percentage, report_date, created_at")
@@ -212,6 +235,7 @@ export default function AddWorkProgress({
             .is("deleted_at", null)
             .order("created_at", { ascending: false })
             .limit(1),
+          fetchBlockingPredecessors(selectedWorkDetailsId),
         ]);
 
         if (progressResult.error) throw progressResult.error;
@@ -235,6 +259,8 @@ export default function AddWorkProgress({
           undefined,
         );
         setCurrentMaxProgress(currentProgress);
+        setProgressHistory(progressRows);
+        setBlockingPredecessors(blockers);
 
         const latestVerification = verificationResult.data?.[0];
         const openForRework = isOpenForRework(
@@ -242,6 +268,11 @@ export default function AddWorkProgress({
           latestProgressCreatedAt,
         );
         setIsReworkReopen(openForRework);
+        // A resubmission below the old value is rework by definition.
+        setFormData((prev) => ({
+          ...prev,
+          regression_reason: openForRework ? "REWORK" : "",
+        }));
         setReworkNotes(
           openForRework ? latestVerification?.verification_notes ?? null : null,
         );
@@ -264,8 +295,10 @@ export default function AddWorkProgress({
         console.error("Error fetching current progress/review state:", err);
         if (!cancelled) {
           setCurrentMaxProgress(0);
+          setProgressHistory([]);
           setIsReworkReopen(false);
           setReworkNotes(null);
+          setBlockingPredecessors([]);
         }
       }
     };
@@ -544,15 +577,56 @@ export default function AddWorkProgress({
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { files } = e.target;
-    if (files && files[0]) {
-      setFormData((prev) => ({ ...prev, evidence_file: files[0] }));
+  const handleProgressFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    e.target.select();
+  };
+
+  // Navigate to appropriate page. A vessel's work-orders page (or any
+  // other non-table origin) takes priority via returnTo, so saving
+  // progress from there lands back on that same page instead of the
+  // generic progress list.
+  const leaveForm = () => {
+    const returnTo = location.state?.returnTo;
+    if (returnTo) {
+      navigate(returnTo);
+    } else if (effectiveWorkDetailsId) {
+      navigate(`/work-details/${effectiveWorkDetailsId}/progress`);
+    } else {
+      navigate("/work-progress");
     }
   };
 
-  const handleProgressFocus = (e: React.FocusEvent<HTMLInputElement>) => {
-    e.target.select();
+  const queuedReportLabel = () => {
+    const detail = workDetailsList.find((wd) => wd.id === selectedWorkDetailsId);
+    const workOrder = workOrders.find((wo) => wo.id === selectedWorkOrderId);
+    return [workOrder?.shipyard_wo_number, detail?.description]
+      .filter(Boolean)
+      .join(" · ") || `Work details #${selectedWorkDetailsId}`;
+  };
+
+  // No connection (the dock often has none): the report and its photos are
+  // kept on this device and sent from the offline queue once it's back.
+  const queueForLater = async (progressValue: number) => {
+    if (!profile) {
+      throw new Error(
+        "No connection, and your profile isn't loaded yet — the report can't be saved offline.",
+      );
+    }
+    await queueProgressReport({
+      userProfileId: profile.id,
+      workDetailsId: selectedWorkDetailsId,
+      label: queuedReportLabel(),
+      progressPercentage: progressValue,
+      reportDate: formData.report_date,
+      notes: formData.notes.trim() || null,
+      regressionReason: isRegression ? formData.regression_reason || null : null,
+      photos: formData.evidence_photos,
+      photoStartOrder: 0,
+    });
+    alert(
+      "You're offline. The progress report has been saved on this device and will be sent automatically when the connection returns.",
+    );
+    leaveForm();
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -579,37 +653,32 @@ export default function AddWorkProgress({
         );
         return;
       }
-      // A rework resubmission can honestly regress below the old 100% — the
-      // "no regression" floor only applies once it's back in normal tracking
-      // (i.e. after this first post-rejection report).
-      if (!isReworkReopen && progressValue < currentMaxProgress) {
-        setError(
-          `Progress can't be lower than the current recorded progress (${formatProgressPercentage(currentMaxProgress)}%). Edit an existing report instead if it needs correcting.`,
-        );
-        return;
-      }
+    }
+
+    if (previousReport && isRegression && !formData.regression_reason) {
+      setError(
+        `Progress is lower than the previous report (${formatProgressPercentage(previousReport.progress_percentage)}%). Choose why before saving.`,
+      );
+      return;
+    }
+
+    if (progressValue > 0 && blockingPredecessors.length > 0) {
+      setError(
+        `Progress can't be reported yet — waiting for: ${blockingPredecessors
+          .map((p) => p.description)
+          .join(", ")}`,
+      );
+      return;
     }
 
     setSubmitting(true);
     setError(null);
 
+    let reportSaved = false;
     try {
-      let evidenceUrl = "";
-      let storagePath = "";
-
-      if (formData.evidence_file) {
-        const uploadResult = await uploadProgressEvidence({
-          file: formData.evidence_file,
-          workDetailsId: selectedWorkDetailsId,
-          reportDate: formData.report_date,
-        });
-
-        if (!uploadResult.success) {
-          throw new Error(uploadResult.error || "Failed to upload evidence");
-        }
-
-        evidenceUrl = uploadResult.publicUrl || "";
-        storagePath = uploadResult.storagePath || "";
+      if (!navigator.onLine) {
+        await queueForLater(progressValue);
+        return;
       }
 
       // Get current authenticated user
@@ -653,9 +722,8 @@ export default function AddWorkProgress({
           progress_percentage: progressValue,
           report_date: formData.report_date,
           notes: formData.notes.trim() || null,
-          evidence_url: evidenceUrl || null,
-          storage_path: storagePath || null,
           user_id: userProfile.id,
+          regression_reason: isRegression ? formData.regression_reason : null,
         })
         .select()
         .single();
@@ -666,6 +734,7 @@ export default function AddWorkProgress({
           `Failed to create progress report: ${insertError.message}`,
         );
       }
+      reportSaved = true;
 
       // Log the activity
       await ActivityLogService.logActivity({
@@ -676,20 +745,49 @@ export default function AddWorkProgress({
         description: `Created work progress report (${progressValue}%) for work details ID ${selectedWorkDetailsId}`,
       });
 
-      // Navigate to appropriate page. A vessel's work-orders page (or any
-      // other non-table origin) takes priority via returnTo, so saving
-      // progress from there lands back on that same page instead of the
-      // generic progress list.
-      const returnTo = location.state?.returnTo;
-      if (returnTo) {
-        navigate(returnTo);
-      } else if (effectiveWorkDetailsId) {
-        navigate(`/work-details/${effectiveWorkDetailsId}/progress`);
-      } else {
-        navigate("/work-progress");
+      // Photos go up after the report exists so each can hang off it. The
+      // report itself is saved by now, so a failed photo doesn't undo it —
+      // it can be added again from Edit Progress. Photos that couldn't go up
+      // for lack of connection wait in the offline queue instead.
+      if (formData.evidence_photos.length > 0) {
+        try {
+          const queuedPhotos = await attachEvidenceOrQueue({
+            workProgressId: insertedProgress.id,
+            userProfileId: userProfile.id,
+            workDetailsId: selectedWorkDetailsId,
+            label: queuedReportLabel(),
+            progressPercentage: progressValue,
+            reportDate: formData.report_date,
+            photos: formData.evidence_photos,
+          });
+          if (queuedPhotos > 0) {
+            alert(
+              `The progress report was saved, but the connection dropped before ${queuedPhotos} photo${
+                queuedPhotos !== 1 ? "s" : ""
+              } could be uploaded. They're saved on this device and will be sent when the connection returns.`,
+            );
+          }
+        } catch (photoErr) {
+          console.error("Error attaching evidence photos:", photoErr);
+          alert(
+            `The progress report was saved, but not every photo could be attached:\n${
+              photoErr instanceof Error ? photoErr.message : photoErr
+            }\n\nAdd the missing photos from Edit Progress.`,
+          );
+        }
       }
+
+      leaveForm();
     } catch (err) {
       console.error("Error creating work progress:", err);
+      if (!reportSaved && isNetworkError(err)) {
+        try {
+          await queueForLater(progressValue);
+          return;
+        } catch (queueErr) {
+          console.error("Error queueing work progress offline:", queueErr);
+        }
+      }
       setError(
         err instanceof Error ? err.message : "Failed to create progress report",
       );
@@ -710,16 +808,22 @@ export default function AddWorkProgress({
     currentMaxProgress !== null &&
     currentMaxProgress >= 100 &&
     !isReworkReopen;
-  const isBelowCurrentProgress =
-    currentMaxProgress !== null &&
-    !isReworkReopen &&
-    progressValue < currentMaxProgress;
+  const previousReport = getPreviousProgressRecord(progressHistory, {
+    report_date: formData.report_date,
+  });
+  const isRegression =
+    formData.progress_percentage !== "" &&
+    previousReport !== undefined &&
+    progressValue < previousReport.progress_percentage;
+  const isWaitingOnPredecessors =
+    progressValue > 0 && blockingPredecessors.length > 0;
   const isFormValid =
     selectedWorkDetailsId > 0 &&
     formData.report_date &&
     isValidProgressPercentage(formData.progress_percentage) &&
     !isAlreadyComplete &&
-    !isBelowCurrentProgress;
+    !(isRegression && !formData.regression_reason) &&
+    !isWaitingOnPredecessors;
 
   const formatWorkOrderDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -1130,6 +1234,24 @@ export default function AddWorkProgress({
                     </div>
                   )
                 )}
+
+                {blockingPredecessors.length > 0 && (
+                  <div className="mt-3 bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    <div>
+                      This work can't report progress until these are
+                      complete:
+                      <ul className="mt-1 list-disc pl-4">
+                        {blockingPredecessors.map((p) => (
+                          <li key={p.id}>
+                            {p.description} —{" "}
+                            {formatProgressPercentage(p.progress)}%
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -1175,13 +1297,7 @@ export default function AddWorkProgress({
                           <AlertCircle className="w-3 h-3" /> Must be between
                           0-100
                         </span>
-                      ) : isBelowCurrentProgress ? (
-                        <span className="text-xs text-red-600 flex items-center gap-1">
-                          <AlertCircle className="w-3 h-3" /> Can't be lower
-                          than the current progress (
-                          {formatProgressPercentage(currentMaxProgress ?? 0)}%)
-                        </span>
-                      ) : (
+                      ) : isRegression ? null : (
                         <span className="text-xs text-green-600 flex items-center gap-1">
                           <CheckCircle2 className="w-3 h-3" /> Valid percentage
                         </span>
@@ -1206,6 +1322,16 @@ export default function AddWorkProgress({
                 </div>
               </div>
 
+              {isRegression && previousReport && (
+                <RegressionReasonField
+                  previousProgress={previousReport.progress_percentage}
+                  value={formData.regression_reason}
+                  onChange={(regression_reason) =>
+                    setFormData((prev) => ({ ...prev, regression_reason }))
+                  }
+                />
+              )}
+
               {/* Progress Bar Preview */}
               <div className="mt-6">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1252,37 +1378,13 @@ export default function AddWorkProgress({
                 <Image className="w-5 h-5" /> Progress Evidence (Optional)
               </h3>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Evidence Photo
-                </label>
-                <input
-                  type="file"
-                  name="evidence_file"
-                  onChange={handleFileChange}
-                  accept="image/*"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Upload an image to document the current progress (optional,
-                  max 10MB, formats: JPEG, PNG, GIF, WebP)
-                </p>
-              </div>
-
-              {formData.evidence_file && (
-                <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
-                  <div className="flex items-center gap-2">
-                    <Paperclip className="w-4 h-4 text-blue-600" />
-                    <span className="text-sm text-blue-800 font-medium">
-                      {formData.evidence_file.name}
-                    </span>
-                    <span className="text-xs text-blue-600">
-                      ({(formData.evidence_file.size / 1024 / 1024).toFixed(2)}{" "}
-                      MB)
-                    </span>
-                  </div>
-                </div>
-              )}
+              <EvidencePhotoPicker
+                photos={formData.evidence_photos}
+                onChange={(photos) =>
+                  setFormData((prev) => ({ ...prev, evidence_photos: photos }))
+                }
+                onError={setError}
+              />
             </div>
 
             {/* Action Buttons */}
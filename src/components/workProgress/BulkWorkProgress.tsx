@@ -0,0 +1,720 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "../../lib/supabase";
+import { ActivityLogService } from "../../services/activityLogService";
+import { useAuth } from "../../hooks/useAuth";
+import {
+  formatProgressPercentage,
+  getLatestProgressRecord,
+  getPreviousProgressRecord,
+  isValidProgressPercentage,
+  parseProgressPercentage,
+  sanitizeProgressPercentageInput,
+  REGRESSION_REASONS,
+  type RegressionReason,
+} from "../../utils/progressPercentage";
+import { isOpenForRework } from "../../utils/workVerificationStatus";
+import { fetchBlockingPredecessorsFor } from "../../utils/criticalPath";
+import {
+  isNetworkError,
+  queueProgressReport,
+} from "../../utils/offlineProgressQueue";
+import {
+  AlertCircle,
+  BarChart3,
+  Calendar,
+  CheckCircle2,
+  Ship,
+  Undo2,
+} from "lucide-react";
+
+interface WorkOrderOption {
+  id: number;
+  shipyard_wo_number: string;
+  vessel?: { id: number; name: string };
+}
+
+interface BulkWorkDetail {
+  id: number;
+  description: string;
+  location?: string;
+  pic: string;
+  current_progress: number;
+  isOpenForRework: boolean;
+  blockers: { id: number; description: string; progress: number }[];
+  history: {
+    progress_percentage: number;
+    report_date: string;
+    created_at: string;
+  }[];
+}
+
+interface RowEntry {
+  progress: string;
+  reportDate: string;
+  notes: string;
+  // Why the new value is below the previous report; required in that case.
+  reason: RegressionReason | "";
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// The previous report's percentage when this row would come in below it,
+// otherwise null.
+function regressesFrom(detail: BulkWorkDetail, entry: RowEntry): number | null {
+  const previous = getPreviousProgressRecord(detail.history, {
+    report_date: entry.reportDate,
+  });
+  return previous &&
+    parseProgressPercentage(entry.progress) < previous.progress_percentage
+    ? previous.progress_percentage
+    : null;
+}
+
+// What stops a filled-in row from being saved, or null when it's fine.
+// Untouched rows (no new percentage) are simply left out of the batch.
+function rowProblem(detail: BulkWorkDetail, entry: RowEntry): string | null {
+  if (!isValidProgressPercentage(entry.progress)) {
+    return "Enter a percentage between 0 and 100";
+  }
+  if (!entry.reportDate) return "Pick a report date";
+
+  const value = parseProgressPercentage(entry.progress);
+  if (value > 0 && detail.blockers.length > 0) {
+    return `Waiting for: ${detail.blockers.map((b) => b.description).join(", ")}`;
+  }
+  const previous = regressesFrom(detail, entry);
+  if (previous !== null && !entry.reason) {
+    return `Below the previous report (${formatProgressPercentage(previous)}%) — choose a reason`;
+  }
+  return null;
+}
+
+export default function BulkWorkProgress() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const params = useParams<{ workOrderId?: string }>();
+  const workOrderId = params.workOrderId ? parseInt(params.workOrderId) : 0;
+  const { profile } = useAuth();
+  const canWriteProgress =
+    profile?.role === "MASTER" || profile?.role === "PRODUCTION";
+
+  useEffect(() => {
+    if (profile && !canWriteProgress) {
+      alert("You don't have permission to add progress reports.");
+      navigate("/work-progress");
+    }
+  }, [profile, canWriteProgress, navigate]);
+
+  const [workOrders, setWorkOrders] = useState<WorkOrderOption[]>([]);
+  const [workOrderSearch, setWorkOrderSearch] = useState("");
+  const [details, setDetails] = useState<BulkWorkDetail[]>([]);
+  const [entries, setEntries] = useState<Record<number, RowEntry>>({});
+  const [defaultReportDate, setDefaultReportDate] = useState(today());
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const progressInputs = useRef<(HTMLInputElement | null)[]>([]);
+
+  useEffect(() => {
+    const fetchWorkOrders = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("work_order")
+          .select("id, shipyard_wo_number, vessel:vessel_id ( id, name )")
+          .is("deleted_at", null)
+          .order("shipyard_wo_number", { ascending: true });
+
+        if (error) throw error;
+        setWorkOrders((data as unknown as WorkOrderOption[]) || []);
+      } catch (err) {
+        console.error("Error fetching work orders:", err);
+        setError("Failed to load work orders");
+      }
+    };
+    fetchWorkOrders();
+  }, []);
+
+  useEffect(() => {
+    if (!workOrderId) {
+      setDetails([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchWorkDetails = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const { data, error } = await supabase
+          .from("work_details")
+          .select(
+            `
+            id,
+            description,
+            pic,
+            cancelled_at,
+            location:location_id ( location ),
+            work_progress ( progress_percentage, report_date, created_at ),
+            work_verification ( status, created_at, deleted_at )
+          `,
+          )
+          .eq("work_order_id", workOrderId)
+          .is("deleted_at", null)
+          .order("description", { ascending: true });
+
+        if (error) throw error;
+
+        const rows = (
+          (data || []) as unknown as {
+            id: number;
+            description: string;
+            pic: string;
+            cancelled_at: string | null;
+            location: { location: string } | { location: string }[] | null;
+            work_progress: {
+              progress_percentage: number;
+              report_date: string;
+              created_at: string;
+            }[];
+            work_verification: {
+              status: "APPROVED" | "REJECTED";
+              created_at: string;
+              deleted_at: string | null;
+            }[];
+          }[]
+        ).filter((item) => !item.cancelled_at);
+
+        const blockers = await fetchBlockingPredecessorsFor(
+          rows.map((item) => item.id),
+        );
+        if (cancelled) return;
+
+        const active = rows
+          .map((item): BulkWorkDetail => {
+            const progressRecords = item.work_progress || [];
+            const latestProgressCreatedAt = progressRecords.reduce(
+              (latest: string | undefined, p) =>
+                !latest ||
+                new Date(p.created_at).getTime() > new Date(latest).getTime()
+                  ? p.created_at
+                  : latest,
+              undefined,
+            );
+            const latestVerification = (item.work_verification || [])
+              .filter((v) => !v.deleted_at)
+              .sort(
+                (a, b) =>
+                  new Date(b.created_at).getTime() -
+                  new Date(a.created_at).getTime(),
+              )[0];
+            const location = Array.isArray(item.location)
+              ? item.location[0]
+              : item.location;
+
+            return {
+              id: item.id,
+              description: item.description,
+              location: location?.location,
+              pic: item.pic,
+              current_progress:
+                getLatestProgressRecord(progressRecords)?.progress_percentage ??
+                0,
+              isOpenForRework: isOpenForRework(
+                latestVerification,
+                latestProgressCreatedAt,
+              ),
+              blockers: blockers.get(item.id) || [],
+              history: progressRecords,
+            };
+          })
+          // Finished work has nothing left to report, unless it was sent
+          // back for rework.
+          .filter((d) => d.current_progress < 100 || d.isOpenForRework);
+
+        setDetails(active);
+        setEntries({});
+      } catch (err) {
+        console.error("Error fetching work details:", err);
+        if (!cancelled) setError("Failed to load work details");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchWorkDetails();
+    return () => {
+      cancelled = true;
+    };
+  }, [workOrderId]);
+
+  const selectedWorkOrder = workOrders.find((wo) => wo.id === workOrderId);
+
+  const filteredWorkOrders = useMemo(() => {
+    const search = workOrderSearch.toLowerCase();
+    return workOrders.filter(
+      (wo) =>
+        wo.shipyard_wo_number?.toLowerCase().includes(search) ||
+        wo.vessel?.name?.toLowerCase().includes(search),
+    );
+  }, [workOrders, workOrderSearch]);
+
+  const entryFor = (id: number): RowEntry =>
+    entries[id] || {
+      progress: "",
+      reportDate: defaultReportDate,
+      notes: "",
+      // A resubmission below the old value is rework by definition.
+      reason: details.find((d) => d.id === id)?.isOpenForRework ? "REWORK" : "",
+    };
+
+  const updateEntry = (id: number, patch: Partial<RowEntry>) =>
+    setEntries((prev) => ({ ...prev, [id]: { ...entryFor(id), ...patch } }));
+
+  const handleProgressChange = (id: number, value: string) => {
+    const sanitized = sanitizeProgressPercentageInput(value);
+    if (sanitized !== null) updateEntry(id, { progress: sanitized });
+  };
+
+  // Enter / arrow keys move between the percentage cells like a sheet.
+  const handleProgressKeyDown = (
+    e: React.KeyboardEvent<HTMLInputElement>,
+    index: number,
+  ) => {
+    const step =
+      e.key === "Enter" || e.key === "ArrowDown"
+        ? 1
+        : e.key === "ArrowUp"
+          ? -1
+          : 0;
+    if (!step) return;
+    e.preventDefault();
+    progressInputs.current[index + step]?.focus();
+  };
+
+  const applyReportDateToAll = () =>
+    setEntries((prev) =>
+      Object.fromEntries(
+        details.map((d) => [
+          d.id,
+          { ...(prev[d.id] || entryFor(d.id)), reportDate: defaultReportDate },
+        ]),
+      ),
+    );
+
+  const filledRows = details.filter((d) => entryFor(d.id).progress !== "");
+  const problems = new Map(
+    filledRows
+      .map((d) => [d.id, rowProblem(d, entryFor(d.id))] as const)
+      .filter((pair): pair is readonly [number, string] => pair[1] !== null),
+  );
+
+  const regressionReasonFor = (detail: BulkWorkDetail, entry: RowEntry) =>
+    regressesFrom(detail, entry) !== null ? entry.reason || null : null;
+
+  const leavePage = () =>
+    navigate(location.state?.returnTo || "/work-progress");
+
+  // Offline: every row goes into the offline queue, in grid order.
+  const queueRows = async () => {
+    if (!profile) {
+      throw new Error(
+        "No connection, and your profile isn't loaded yet — the reports can't be saved offline.",
+      );
+    }
+    for (const detail of filledRows) {
+      const entry = entryFor(detail.id);
+      await queueProgressReport({
+        userProfileId: profile.id,
+        workDetailsId: detail.id,
+        label: [selectedWorkOrder?.shipyard_wo_number, detail.description]
+          .filter(Boolean)
+          .join(" · "),
+        progressPercentage: parseProgressPercentage(entry.progress),
+        reportDate: entry.reportDate,
+        notes: entry.notes.trim() || null,
+        regressionReason: regressionReasonFor(detail, entry),
+        photos: [],
+        photoStartOrder: 0,
+      });
+    }
+    alert(
+      `You're offline. ${filledRows.length} progress report${
+        filledRows.length !== 1 ? "s have" : " has"
+      } been saved on this device and will be sent automatically when the connection returns.`,
+    );
+    leavePage();
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (filledRows.length === 0) {
+      setError("Enter a new percentage on at least one row");
+      return;
+    }
+    if (problems.size > 0) {
+      setError(
+        `${problems.size} row${problems.size !== 1 ? "s need" : " needs"} attention before saving`,
+      );
+      return;
+    }
+    if (!profile) {
+      setError("Your user profile isn't loaded yet. Please try again.");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      if (!navigator.onLine) {
+        await queueRows();
+        return;
+      }
+
+      // One insert for every row: either the whole sheet is saved or none
+      // of it is.
+      const { data: inserted, error: insertError } = await supabase
+        .from("work_progress")
+        .insert(
+          filledRows.map((detail) => {
+            const entry = entryFor(detail.id);
+            return {
+              work_details_id: detail.id,
+              progress_percentage: parseProgressPercentage(entry.progress),
+              report_date: entry.reportDate,
+              notes: entry.notes.trim() || null,
+              user_id: profile.id,
+              regression_reason: regressionReasonFor(detail, entry),
+            };
+          }),
+        )
+        .select();
+
+      if (insertError) {
+        throw new Error(
+          `Failed to save progress reports: ${insertError.message}`,
+        );
+      }
+
+      for (const report of inserted || []) {
+        await ActivityLogService.logActivity({
+          action: "create",
+          tableName: "work_progress",
+          recordId: report.id,
+          newData: report,
+          description: `Created work progress report (${report.progress_percentage}%) for work details ID ${report.work_details_id} via bulk entry for ${selectedWorkOrder?.shipyard_wo_number ?? `work order ${workOrderId}`}`,
+        });
+      }
+
+      leavePage();
+    } catch (err) {
+      console.error("Error saving bulk work progress:", err);
+      if (isNetworkError(err)) {
+        try {
+          await queueRows();
+          return;
+        } catch (queueErr) {
+          console.error("Error queueing work progress offline:", queueErr);
+        }
+      }
+      setError(
+        err instanceof Error ? err.message : "Failed to save progress reports",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">
+          Bulk Progress Entry
+        </h1>
+        <p className="text-gray-600">
+          Enter today's progress for every active work detail of a work order
+          and save them together
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+          <h3 className="text-red-800 font-medium">Error</h3>
+          <p className="text-red-600 mt-1">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+              <Ship className="w-4 h-4" /> Work Order
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={workOrderSearch}
+                onChange={(e) => setWorkOrderSearch(e.target.value)}
+                placeholder="Search WO number or vessel..."
+                className="w-1/3 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={workOrderId || ""}
+                onChange={(e) =>
+                  navigate(`/bulk-work-progress/${e.target.value}`, {
+                    replace: true,
+                    state: location.state,
+                  })
+                }
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="" disabled>
+                  Select a work order
+                </option>
+                {selectedWorkOrder &&
+                  !filteredWorkOrders.includes(selectedWorkOrder) && (
+                    <option value={selectedWorkOrder.id}>
+                      {selectedWorkOrder.shipyard_wo_number}
+                    </option>
+                  )}
+                {filteredWorkOrders.map((wo) => (
+                  <option key={wo.id} value={wo.id}>
+                    {wo.shipyard_wo_number}
+                    {wo.vessel?.name ? ` — ${wo.vessel.name}` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+              <Calendar className="w-4 h-4" /> Report Date
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={defaultReportDate}
+                onChange={(e) => setDefaultReportDate(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="button"
+                onClick={applyReportDateToAll}
+                disabled={details.length === 0}
+                className="px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Apply to all
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {workOrderId > 0 && (
+        <form onSubmit={handleSave}>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : details.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <CheckCircle2 className="w-10 h-10 mx-auto mb-2 text-green-500" />
+                No active work details on this work order.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Work Detail
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Current
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-40">
+                        New %
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Report Date
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/3">
+                        Notes
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {details.map((detail, index) => {
+                      const entry = entryFor(detail.id);
+                      const problem = problems.get(detail.id);
+                      const isRegression =
+                        entry.progress !== "" &&
+                        regressesFrom(detail, entry) !== null;
+
+                      return (
+                        <tr
+                          key={detail.id}
+                          className={
+                            problem
+                              ? "bg-red-50"
+                              : entry.progress !== ""
+                                ? "bg-green-50"
+                                : ""
+                          }
+                        >
+                          <td className="px-4 py-3 align-top">
+                            <div className="font-medium text-gray-900">
+                              {detail.description}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {[detail.location, detail.pic]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </div>
+                            {detail.isOpenForRework && (
+                              <span className="inline-flex items-center gap-1 mt-1 text-xs text-orange-700">
+                                <Undo2 className="w-3 h-3" /> Sent back for
+                                rework
+                              </span>
+                            )}
+                            {detail.blockers.length > 0 && (
+                              <div className="mt-1 text-xs text-amber-700 flex items-start gap-1">
+                                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                Waiting for{" "}
+                                {detail.blockers
+                                  .map(
+                                    (b) =>
+                                      `${b.description} (${formatProgressPercentage(b.progress)}%)`,
+                                  )
+                                  .join(", ")}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 align-top text-right text-gray-700 whitespace-nowrap">
+                            {formatProgressPercentage(detail.current_progress)}%
+                          </td>
+                          <td className="px-4 py-3 align-top">
+                            <div className="relative">
+                              <input
+                                ref={(el) => {
+                                  progressInputs.current[index] = el;
+                                }}
+                                type="text"
+                                inputMode="decimal"
+                                value={entry.progress}
+                                onChange={(e) =>
+                                  handleProgressChange(
+                                    detail.id,
+                                    e.target.value,
+                                  )
+                                }
+                                onKeyDown={(e) =>
+                                  handleProgressKeyDown(e, index)
+                                }
+                                onFocus={(e) => e.target.select()}
+                                placeholder="—"
+                                className="w-full pl-3 pr-7 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              />
+                              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">
+                                %
+                              </span>
+                            </div>
+                            {isRegression && (
+                              <select
+                                value={entry.reason}
+                                onChange={(e) =>
+                                  updateEntry(detail.id, {
+                                    reason: e.target.value as
+                                      RegressionReason | "",
+                                  })
+                                }
+                                className="mt-1 w-full px-2 py-1.5 border border-amber-300 bg-amber-50 rounded-lg text-xs focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                              >
+                                <option value="">
+                                  Reason for lower value...
+                                </option>
+                                {REGRESSION_REASONS.map((r) => (
+                                  <option key={r.value} value={r.value}>
+                                    {r.label}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            {problem && (
+                              <p className="mt-1 text-xs text-red-700">
+                                {problem}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 align-top">
+                            <input
+                              type="date"
+                              value={entry.reportDate}
+                              onChange={(e) =>
+                                updateEntry(detail.id, {
+                                  reportDate: e.target.value,
+                                })
+                              }
+                              className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                          </td>
+                          <td className="px-4 py-3 align-top">
+                            <input
+                              type="text"
+                              value={entry.notes}
+                              onChange={(e) =>
+                                updateEntry(detail.id, {
+                                  notes: e.target.value,
+                                })
+                              }
+                              placeholder="Optional"
+                              className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-between items-center mt-6">
+            <button
+              type="button"
+              onClick={() => navigate(-1)}
+              className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+
+            <button
+              type="submit"
+              disabled={filledRows.length === 0 || problems.size > 0 || saving}
+              className="px-8 py-2 bg-gradient-to-r from-green-600 to-green-700 text-white rounded-lg hover:from-green-700 hover:to-green-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center gap-2"
+            >
+              {saving ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <BarChart3 className="w-4 h-4" /> Save {filledRows.length}{" "}
+                  Report{filledRows.length !== 1 ? "s" : ""}
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,24 @@
 import { useState, useEffect, useCallback } from "react";
 import { useNavigate, useParams, useLocation } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
-import { uploadProgressEvidence } from "../../utils/progressEvidenceHandler";
+import {
+  attachProgressEvidencePhotos,
+  removeProgressEvidencePhoto,
+  updateProgressEvidenceCaption,
+  type PendingEvidencePhoto,
+} from "../../utils/progressEvidenceHandler";
 import { useAuth } from "../../hooks/useAuth";
+import { useProgressEvidence } from "../../hooks/useProgressEvidence";
+import { EvidencePhotoPicker } from "./EvidenceGallery";
+import RegressionReasonField from "./RegressionReasonField";
 import { ActivityLogService } from "../../services/activityLogService";
 import {
   sanitizeProgressPercentageInput,
   parseProgressPercentage,
   isValidProgressPercentage,
   formatProgressPercentage,
+  getPreviousProgressRecord,
+  type RegressionReason,
 } from "../../utils/progressPercentage";
 import {
   ArrowLeft,
@@ -20,8 +30,8 @@ import {
   Calendar,
   FileEdit,
   Image,
-  Paperclip,
-  X,
+  Undo2,
+  Trash2,
   CheckCircle2,
   AlertCircle,
 } from "lucide-react";
@@ -30,6 +40,8 @@ interface WorkProgressData {
   id: number;
   progress_percentage: number;
   report_date: string;
+  created_at: string;
+  regression_reason: RegressionReason | null;
   notes?: string;
   evidence_url?: string;
   storage_path?: string;
@@ -77,9 +89,27 @@ export default function EditWorkProgress() {
     progress_percentage: "",
     report_date: "",
     notes: "",
-    evidence_file: null as File | null,
-    keep_existing_evidence: true,
+    evidence_photos: [] as PendingEvidencePhoto[],
+    // Existing photos: ids marked for removal and edited captions, applied
+    // on save.
+    removed_photo_ids: [] as number[],
+    caption_edits: {} as Record<number, string>,
+    regression_reason: "" as RegressionReason | "",
   });
+  // The work detail's other reports, to find the one this report follows
+  // and tell whether the edited value regresses.
+  const [otherReports, setOtherReports] = useState<
+    {
+      id: number;
+      progress_percentage: number;
+      report_date: string;
+      created_at: string;
+    }[]
+  >([]);
+  const { photosByReport } = useProgressEvidence(
+    progressId ? [Number(progressId)] : [],
+  );
+  const existingPhotos = photosByReport.get(Number(progressId)) || [];
 
   const fetchProgressData = useCallback(async () => {
     if (!progressId) {
@@ -97,6 +127,8 @@ export default function EditWorkProgress() {
         id,
         progress_percentage,
         report_date,
+        created_at,
+        regression_reason,
         notes,
         evidence_url,
         storage_path,
@@ -159,6 +191,8 @@ export default function EditWorkProgress() {
         id: data.id,
         progress_percentage: data.progress_percentage,
         report_date: data.report_date,
+        created_at: data.created_at,
+        regression_reason: data.regression_reason,
         notes: data.notes,
         evidence_url: data.evidence_url,
         storage_path: data.storage_path,
@@ -174,6 +208,16 @@ export default function EditWorkProgress() {
         },
       };
 
+      const { data: others, error: othersError } = await supabase
+        .from("work_progress")
+        .select("id, progress_percentage, report_date, created_at")
+        .eq("work_details_id", data.work_details_id)
+        .is("deleted_at", null)
+        .neq("id", data.id);
+
+      if (othersError) throw othersError;
+
+      setOtherReports(others || []);
       setProgressData(transformedData);
       setFormData({
         progress_percentage: formatProgressPercentage(
@@ -181,8 +225,10 @@ export default function EditWorkProgress() {
         ),
         report_date: transformedData.report_date,
         notes: transformedData.notes || "",
-        evidence_file: null,
-        keep_existing_evidence: true,
+        evidence_photos: [],
+        removed_photo_ids: [],
+        caption_edits: {},
+        regression_reason: transformedData.regression_reason ?? "",
       });
     } catch (err) {
       console.error("Error fetching progress data:", err);
@@ -221,29 +267,12 @@ export default function EditWorkProgress() {
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { files } = e.target;
-    if (files && files[0]) {
-      setFormData((prev) => ({
-        ...prev,
-        evidence_file: files[0],
-        keep_existing_evidence: false,
-      }));
-    }
-  };
-
-  const handleRemoveNewEvidence = () => {
+  const toggleRemovePhoto = (photoId: number) => {
     setFormData((prev) => ({
       ...prev,
-      evidence_file: null,
-      keep_existing_evidence: true,
-    }));
-  };
-
-  const handleRemoveExistingEvidence = () => {
-    setFormData((prev) => ({
-      ...prev,
-      keep_existing_evidence: false,
+      removed_photo_ids: prev.removed_photo_ids.includes(photoId)
+        ? prev.removed_photo_ids.filter((id) => id !== photoId)
+        : [...prev.removed_photo_ids, photoId],
     }));
   };
 
@@ -270,6 +299,18 @@ export default function EditWorkProgress() {
     }
   };
 
+  const progressValue = parseProgressPercentage(formData.progress_percentage);
+  const previousReport = progressData
+    ? getPreviousProgressRecord(otherReports, {
+        report_date: formData.report_date,
+        created_at: progressData.created_at,
+      })
+    : undefined;
+  const isRegression =
+    formData.progress_percentage !== "" &&
+    previousReport !== undefined &&
+    progressValue < previousReport.progress_percentage;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -284,58 +325,26 @@ export default function EditWorkProgress() {
       formData.progress_percentage,
     );
 
+    if (previousReport && isRegression && !formData.regression_reason) {
+      setError(
+        `Progress is lower than the previous report (${formatProgressPercentage(previousReport.progress_percentage)}%). Choose why before saving.`,
+      );
+      return;
+    }
+
     setSubmitting(true);
     setError(null);
 
     try {
-      let evidenceUrl = progressData.evidence_url || "";
-      let storagePath = progressData.storage_path || "";
-
-      if (formData.evidence_file) {
-        const uploadResult = await uploadProgressEvidence({
-          file: formData.evidence_file,
-          workDetailsId: progressData.work_details_id,
-          reportDate: formData.report_date,
-        });
-
-        if (!uploadResult.success) {
-          throw new Error(uploadResult.error || "Failed to upload evidence");
-        }
-
-        evidenceUrl = uploadResult.publicUrl || "";
-        storagePath = uploadResult.storagePath || "";
-
-        if (progressData.storage_path) {
-          try {
-            await supabase.storage
-              .from("work-progress-evidence")
-              .remove([progressData.storage_path]);
-          } catch (deleteErr) {
-            console.error("Error deleting old evidence:", deleteErr);
-          }
-        }
-      } else if (!formData.keep_existing_evidence) {
-        if (progressData.storage_path) {
-          try {
-            await supabase.storage
-              .from("work-progress-evidence")
-              .remove([progressData.storage_path]);
-          } catch (deleteErr) {
-            console.error("Error deleting evidence:", deleteErr);
-          }
-        }
-        evidenceUrl = "";
-        storagePath = "";
-      }
-
       const { data: updatedData, error: updateError } = await supabase
         .from("work_progress")
         .update({
           progress_percentage: progressValue,
           report_date: formData.report_date,
           notes: formData.notes.trim() || null,
-          evidence_url: evidenceUrl || null,
-          storage_path: storagePath || null,
+          regression_reason: isRegression
+            ? formData.regression_reason || null
+            : null,
         })
         .eq("id", progressData.id)
         .select()
@@ -360,6 +369,33 @@ export default function EditWorkProgress() {
         });
       }
 
+      // The report's cover photo (work_progress.storage_path) follows these
+      // changes by trigger.
+      for (const photo of existingPhotos) {
+        if (formData.removed_photo_ids.includes(photo.id)) {
+          await removeProgressEvidencePhoto(photo);
+        } else if (
+          photo.id in formData.caption_edits &&
+          formData.caption_edits[photo.id].trim() !== (photo.caption || "")
+        ) {
+          await updateProgressEvidenceCaption(
+            photo.id,
+            formData.caption_edits[photo.id],
+          );
+        }
+      }
+
+      if (formData.evidence_photos.length > 0) {
+        await attachProgressEvidencePhotos({
+          workProgressId: progressData.id,
+          workDetailsId: progressData.work_details_id,
+          reportDate: formData.report_date,
+          photos: formData.evidence_photos,
+          startOrder:
+            Math.max(-1, ...existingPhotos.map((p) => p.sort_order)) + 1,
+        });
+      }
+
       goBackToWorkProgress();
     } catch (err) {
       console.error("Error updating work progress:", err);
@@ -399,10 +435,10 @@ export default function EditWorkProgress() {
     );
   }
 
-  const progressValue = parseProgressPercentage(formData.progress_percentage);
-
   const isFormValid =
-    formData.report_date && isValidProgressPercentage(formData.progress_percentage);
+    formData.report_date &&
+    isValidProgressPercentage(formData.progress_percentage) &&
+    !(isRegression && !formData.regression_reason);
 
   return (
     <div className="p-8">
@@ -551,6 +587,16 @@ export default function EditWorkProgress() {
                 </div>
               </div>
 
+              {isRegression && previousReport && (
+                <RegressionReasonField
+                  previousProgress={previousReport.progress_percentage}
+                  value={formData.regression_reason}
+                  onChange={(regression_reason) =>
+                    setFormData((prev) => ({ ...prev, regression_reason }))
+                  }
+                />
+              )}
+
               {/* Progress Bar Preview */}
               <div className="mt-6">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -593,70 +639,79 @@ export default function EditWorkProgress() {
                 <Image className="w-5 h-5" /> Progress Evidence
               </h3>
 
-              {/* Existing Evidence */}
-              {progressData.storage_path && formData.keep_existing_evidence && (
-                <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Paperclip className="w-4 h-4 text-blue-600" />
-                      <span className="text-sm text-blue-800 font-medium">
-                        Current Evidence Attached
-                      </span>
-                    </div>
-                    <button
-                      type="button"
-                      onClick={handleRemoveExistingEvidence}
-                      className="text-red-600 hover:text-red-800 text-sm flex items-center gap-1"
-                    >
-                      <X className="w-4 h-4" /> Remove
-                    </button>
-                  </div>
+              {existingPhotos.length > 0 && (
+                <div className="mb-4 space-y-2">
+                  {existingPhotos.map((photo) => {
+                    const removed = formData.removed_photo_ids.includes(
+                      photo.id,
+                    );
+                    return (
+                      <div
+                        key={photo.id}
+                        className={`flex items-center gap-3 p-2 border rounded-lg ${
+                          removed
+                            ? "bg-red-50 border-red-200 opacity-60"
+                            : "bg-gray-50 border-gray-200"
+                        }`}
+                      >
+                        <img
+                          src={photo.url}
+                          alt={photo.caption || "Progress evidence"}
+                          className="w-14 h-14 object-cover rounded-md border border-gray-200 flex-shrink-0"
+                        />
+                        <input
+                          type="text"
+                          value={
+                            formData.caption_edits[photo.id] ??
+                            photo.caption ??
+                            ""
+                          }
+                          onChange={(e) =>
+                            setFormData((prev) => ({
+                              ...prev,
+                              caption_edits: {
+                                ...prev.caption_edits,
+                                [photo.id]: e.target.value,
+                              },
+                            }))
+                          }
+                          disabled={removed}
+                          placeholder="Caption (optional)"
+                          maxLength={200}
+                          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => toggleRemovePhoto(photo.id)}
+                          className={`text-sm flex items-center gap-1 ${
+                            removed
+                              ? "text-gray-600 hover:text-gray-800"
+                              : "text-red-600 hover:text-red-800"
+                          }`}
+                        >
+                          {removed ? (
+                            <>
+                              <Undo2 className="w-4 h-4" /> Keep
+                            </>
+                          ) : (
+                            <>
+                              <Trash2 className="w-4 h-4" /> Remove
+                            </>
+                          )}
+                        </button>
+                      </div>
+                    );
+                  })}
                 </div>
               )}
 
-              {/* New Evidence Upload */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  {progressData.storage_path && formData.keep_existing_evidence
-                    ? "Replace Evidence Photo"
-                    : "Evidence Photo"}
-                </label>
-                <input
-                  type="file"
-                  name="evidence_file"
-                  onChange={handleFileChange}
-                  accept="image/*"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Upload an image to document the progress (max 10MB)
-                </p>
-              </div>
-
-              {formData.evidence_file && (
-                <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Paperclip className="w-4 h-4 text-green-600" />
-                      <span className="text-sm text-green-800 font-medium">
-                        {formData.evidence_file.name}
-                      </span>
-                      <span className="text-xs text-green-600">
-                        (
-                        {(formData.evidence_file.size / 1024 / 1024).toFixed(2)}{" "}
-                        MB)
-                      </span>
-                    </div>
-                    <button
-                      type="button"
-                      onClick={handleRemoveNewEvidence}
-                      className="text-red-600 hover:text-red-800 text-sm flex items-center gap-1"
-                    >
-                      <X className="w-4 h-4" /> Remove
-                    </button>
-                  </div>
-                </div>
-              )}
+              <EvidencePhotoPicker
+                photos={formData.evidence_photos}
+                onChange={(photos) =>
+                  setFormData((prev) => ({ ...prev, evidence_photos: photos }))
+                }
+                onError={setError}
+              />
             </div>
 
             {/* Action Buttons */}
@@ -0,0 +1,383 @@
+import { useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Columns2,
+  Loader2,
+  MapPin,
+  Trash2,
+  X,
+} from "lucide-react";
+import {
+  prepareEvidencePhoto,
+  validateProgressEvidenceFile,
+  type PendingEvidencePhoto,
+} from "../../utils/progressEvidenceHandler";
+import type { GalleryPhoto } from "../../hooks/useProgressEvidence";
+
+const formatTakenAt = (capturedAt: string) =>
+  new Date(capturedAt).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatMegabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(2);
+
+export function EvidenceThumbnails({
+  photos,
+  onOpen,
+  max = 4,
+}: {
+  photos: GalleryPhoto[];
+  onOpen: (photo: GalleryPhoto) => void;
+  max?: number;
+}) {
+  const shown = photos.slice(0, max);
+  const hidden = photos.length - shown.length;
+
+  return (
+    <div className="flex items-center gap-1.5">
+      {shown.map((photo, index) => (
+        <button
+          key={photo.id}
+          type="button"
+          onClick={() => onOpen(photo)}
+          title={photo.warning || photo.caption || "View photo"}
+          className={`relative w-12 h-12 rounded-md overflow-hidden border flex-shrink-0 hover:ring-2 hover:ring-blue-400 ${
+            photo.warning
+              ? "border-amber-500 ring-2 ring-amber-400"
+              : "border-gray-200"
+          }`}
+        >
+          <img
+            src={photo.url}
+            alt={photo.caption || "Progress evidence"}
+            className="w-full h-full object-cover"
+            loading="lazy"
+          />
+          {index === shown.length - 1 && hidden > 0 && (
+            <span className="absolute inset-0 bg-black/50 text-white text-xs font-semibold flex items-center justify-center">
+              +{hidden}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function PhotoPane({ photo }: { photo: GalleryPhoto }) {
+  return (
+    <div className="flex-1 min-w-0 flex flex-col items-center justify-center">
+      <img
+        src={photo.url}
+        alt={photo.caption || "Progress evidence"}
+        className="max-h-[70vh] max-w-full object-contain rounded"
+      />
+      <div className="mt-3 text-center">
+        <p className="text-white text-sm font-medium">{photo.label}</p>
+        {photo.caption && (
+          <p className="text-gray-300 text-sm mt-0.5">{photo.caption}</p>
+        )}
+        {(photo.capturedAt || photo.position) && (
+          <p className="text-gray-400 text-xs mt-1 flex items-center justify-center gap-3">
+            {photo.capturedAt && (
+              <span className="flex items-center gap-1">
+                <Clock className="w-3 h-3" /> Taken{" "}
+                {formatTakenAt(photo.capturedAt)}
+              </span>
+            )}
+            {photo.position && (
+              <a
+                href={`https://www.google.com/maps?q=${photo.position.latitude},${photo.position.longitude}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 hover:text-white underline"
+              >
+                <MapPin className="w-3 h-3" />
+                {photo.position.latitude.toFixed(5)},{" "}
+                {photo.position.longitude.toFixed(5)}
+              </a>
+            )}
+          </p>
+        )}
+        {photo.warning && (
+          <p className="text-amber-300 text-xs mt-1 flex items-center justify-center gap-1">
+            <AlertTriangle className="w-3 h-3" /> {photo.warning}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Full-screen viewer over every photo passed in — typically all reports of
+// one work detail, so before/after shots can be flicked through in order.
+// Compare pins the current photo on the left while browsing on the right.
+export function EvidenceLightbox({
+  photos,
+  startId,
+  onClose,
+}: {
+  photos: GalleryPhoto[];
+  startId: number;
+  onClose: () => void;
+}) {
+  const [index, setIndex] = useState(() =>
+    Math.max(
+      photos.findIndex((p) => p.id === startId),
+      0,
+    ),
+  );
+  const [pinned, setPinned] = useState<GalleryPhoto | null>(null);
+
+  const count = photos.length;
+  const current = photos[index];
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowLeft") setIndex((i) => (i - 1 + count) % count);
+      if (e.key === "ArrowRight") setIndex((i) => (i + 1) % count);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [count, onClose]);
+
+  if (!current) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/90 z-50 flex flex-col p-4">
+      <div className="flex items-center justify-between text-white mb-3">
+        <span className="text-sm text-gray-300">
+          {index + 1} / {count}
+        </span>
+        <div className="flex items-center gap-2">
+          {count > 1 && (
+            <button
+              type="button"
+              onClick={() => setPinned(pinned ? null : current)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm transition-colors ${
+                pinned
+                  ? "bg-blue-600 hover:bg-blue-700"
+                  : "bg-white/10 hover:bg-white/20"
+              }`}
+            >
+              <Columns2 className="w-4 h-4" />
+              {pinned ? "Stop comparing" : "Compare"}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-md hover:bg-white/10"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center gap-4">
+        {count > 1 && (
+          <button
+            type="button"
+            onClick={() => setIndex((i) => (i - 1 + count) % count)}
+            className="p-2 rounded-full text-white bg-white/10 hover:bg-white/20 flex-shrink-0"
+            title="Previous"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+        )}
+        {pinned && <PhotoPane photo={pinned} />}
+        <PhotoPane photo={current} />
+        {count > 1 && (
+          <button
+            type="button"
+            onClick={() => setIndex((i) => (i + 1) % count)}
+            className="p-2 rounded-full text-white bg-white/10 hover:bg-white/20 flex-shrink-0"
+            title="Next"
+          >
+            <ChevronRight className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+
+      {count > 1 && (
+        <div className="mt-4 flex gap-2 overflow-x-auto pb-1">
+          {photos.map((photo, i) => (
+            <button
+              key={photo.id}
+              type="button"
+              onClick={() => setIndex(i)}
+              title={`${photo.label}${photo.caption ? ` — ${photo.caption}` : ""}`}
+              className={`w-16 h-16 flex-shrink-0 rounded overflow-hidden border-2 ${
+                i === index
+                  ? "border-blue-500"
+                  : photo.id === pinned?.id
+                    ? "border-amber-400"
+                    : "border-transparent opacity-70 hover:opacity-100"
+              }`}
+            >
+              <img
+                src={photo.url}
+                alt={photo.caption || "Progress evidence"}
+                className="w-full h-full object-cover"
+                loading="lazy"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PendingPhotoRow({
+  photo,
+  onCaptionChange,
+  onRemove,
+}: {
+  photo: PendingEvidencePhoto;
+  onCaptionChange: (caption: string) => void;
+  onRemove: () => void;
+}) {
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(photo.file);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo.file]);
+
+  return (
+    <div className="flex items-center gap-3 p-2 bg-blue-50 border border-blue-200 rounded-lg">
+      {preview && (
+        <img
+          src={preview}
+          alt={photo.file.name}
+          className="w-14 h-14 object-cover rounded-md border border-blue-200 flex-shrink-0"
+        />
+      )}
+      <div className="flex-1 min-w-0">
+        <input
+          type="text"
+          value={photo.caption}
+          onChange={(e) => onCaptionChange(e.target.value)}
+          placeholder="Caption, e.g. Before blasting (optional)"
+          maxLength={200}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <p className="text-xs text-blue-700 mt-1 truncate">
+          {photo.file.name} ({formatMegabytes(photo.file.size)} MB
+          {photo.originalSize > photo.file.size &&
+            `, resized from ${formatMegabytes(photo.originalSize)} MB`}
+          )
+        </p>
+        <p className="text-xs text-gray-500 mt-0.5 flex items-center gap-3">
+          <span className="flex items-center gap-1">
+            <Clock className="w-3 h-3" />
+            {photo.metadata.capturedAt
+              ? `Taken ${formatTakenAt(photo.metadata.capturedAt)}`
+              : "No capture time"}
+          </span>
+          {photo.metadata.latitude !== null && (
+            <span className="flex items-center gap-1">
+              <MapPin className="w-3 h-3" /> GPS
+            </span>
+          )}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-1.5 text-red-600 hover:bg-red-50 rounded-md"
+        title="Remove photo"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+// File input for several evidence photos at once, each with its own
+// caption. Files that fail validation are reported through onError and
+// skipped.
+export function EvidencePhotoPicker({
+  photos,
+  onChange,
+  onError,
+}: {
+  photos: PendingEvidencePhoto[];
+  onChange: (photos: PendingEvidencePhoto[]) => void;
+  onError: (message: string | null) => void;
+}) {
+  const [processing, setProcessing] = useState(false);
+
+  // Photos are resized before validation, so a large phone photo that
+  // shrinks under the size limit is accepted.
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setProcessing(true);
+    const rejected: string[] = [];
+    const accepted: PendingEvidencePhoto[] = [];
+    for (const file of files) {
+      const prepared = await prepareEvidencePhoto(file);
+      const validation = validateProgressEvidenceFile(prepared.file);
+      if (validation.isValid) accepted.push(prepared);
+      else rejected.push(`${file.name}: ${validation.error}`);
+    }
+    setProcessing(false);
+
+    onError(rejected.length ? rejected.join("\n") : null);
+    if (accepted.length) onChange([...photos, ...accepted]);
+  };
+
+  return (
+    <div>
+      <input
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFiles}
+        disabled={processing}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+      />
+      <p className="text-xs text-gray-500 mt-1">
+        Add as many photos as the job needs — before, during and after. Photos
+        are resized before upload (max 10MB each after resizing, formats: JPEG,
+        PNG, GIF, WebP)
+      </p>
+      {processing && (
+        <p className="text-xs text-blue-700 mt-2 flex items-center gap-1">
+          <Loader2 className="w-3 h-3 animate-spin" /> Resizing photos...
+        </p>
+      )}
+
+      {photos.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {photos.map((photo, index) => (
+            <PendingPhotoRow
+              key={`${photo.file.name}-${photo.file.lastModified}-${index}`}
+              photo={photo}
+              onCaptionChange={(caption) =>
+                onChange(
+                  photos.map((p, i) => (i === index ? { ...p, caption } : p)),
+                )
+              }
+              onRemove={() => onChange(photos.filter((_, i) => i !== index))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  AlertTriangle,
+  CloudOff,
+  Image,
+  RefreshCw,
+  Trash2,
+  UploadCloud,
+} from "lucide-react";
+import { useOfflineProgressQueue } from "../../hooks/useOfflineProgressQueue";
+import {
+  formatProgressPercentage,
+  REGRESSION_REASONS,
+  type RegressionReason,
+} from "../../utils/progressPercentage";
+import type { QueuedProgressReport } from "../../utils/offlineProgressQueue";
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/**
+ * Navbar badge: offline, or reports waiting on this device. Hidden when
+ * there's nothing to say. Mounting it also keeps the queue replaying on
+ * reconnect from any page.
+ */
+export function OfflineQueueIndicator() {
+  const navigate = useNavigate();
+  const { entries, online, syncing } = useOfflineProgressQueue();
+
+  if (online && entries.length === 0) return null;
+
+  const needsAttention = entries.some((e) => e.status !== "pending");
+
+  return (
+    <button
+      onClick={() => navigate("/work-progress")}
+      title={
+        online
+          ? `${entries.length} progress report${entries.length !== 1 ? "s" : ""} waiting to be sent`
+          : "Offline — progress reports are saved on this device"
+      }
+      className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+        needsAttention
+          ? "bg-amber-50 text-amber-700 hover:bg-amber-100"
+          : online
+            ? "bg-blue-50 text-blue-700 hover:bg-blue-100"
+            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+      }`}
+    >
+      {online ? (
+        <UploadCloud className={`w-4 h-4 ${syncing ? "animate-pulse" : ""}`} />
+      ) : (
+        <CloudOff className="w-4 h-4" />
+      )}
+      <span className="hidden sm:inline">{online ? "Queued" : "Offline"}</span>
+      {entries.length > 0 && <span>{entries.length}</span>}
+    </button>
+  );
+}
+
+function QueuedReportRow({
+  entry,
+  online,
+  onSendAnyway,
+  onRetry,
+  onDiscard,
+}: {
+  entry: QueuedProgressReport;
+  online: boolean;
+  onSendAnyway: (regressionReason?: RegressionReason) => void;
+  onRetry: () => void;
+  onDiscard: () => void;
+}) {
+  const photosOnly = entry.workProgressId !== undefined;
+  const [regressionReason, setRegressionReason] = useState<
+    RegressionReason | ""
+  >("");
+  const needsReason = !!entry.conflict?.needsRegressionReason;
+
+  return (
+    <li className="py-3 flex flex-col sm:flex-row sm:items-start gap-3">
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-gray-900 truncate">
+            {entry.label}
+          </span>
+          {entry.status === "conflict" && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+              Conflict
+            </span>
+          )}
+          {entry.status === "failed" && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+              Failed
+            </span>
+          )}
+        </div>
+        <div className="text-sm text-gray-600 mt-0.5">
+          {photosOnly
+            ? `Photos for the ${formatProgressPercentage(entry.progressPercentage)}% report of ${formatDate(entry.reportDate)}`
+            : `${formatProgressPercentage(entry.progressPercentage)}% on ${formatDate(entry.reportDate)}`}
+          {entry.photos.length > 0 && (
+            <span className="inline-flex items-center gap-1 ml-2 text-gray-500">
+              <Image className="w-3.5 h-3.5" />
+              {entry.photos.length}
+            </span>
+          )}
+          <span className="ml-2 text-gray-400">
+            · filed {formatDateTime(entry.queuedAt)}
+          </span>
+        </div>
+        {entry.conflict && (
+          <p className="text-sm text-amber-700 mt-1">{entry.conflict.reason}</p>
+        )}
+        {entry.error && (
+          <p className="text-sm text-red-700 mt-1">{entry.error}</p>
+        )}
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        {entry.status === "conflict" && needsReason && (
+          <select
+            value={regressionReason}
+            onChange={(e) =>
+              setRegressionReason(e.target.value as RegressionReason | "")
+            }
+            className="px-2 py-1.5 text-sm border border-amber-300 rounded-lg bg-white"
+          >
+            <option value="">Reason for lower value...</option>
+            {REGRESSION_REASONS.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        )}
+        {entry.status === "conflict" && (
+          <button
+            onClick={() => onSendAnyway(regressionReason || undefined)}
+            disabled={!online || (needsReason && !regressionReason)}
+            className="px-3 py-1.5 text-sm rounded-lg bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+          >
+            Send anyway
+          </button>
+        )}
+        {entry.status === "failed" && (
+          <button
+            onClick={onRetry}
+            disabled={!online}
+            className="px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Retry
+          </button>
+        )}
+        <button
+          onClick={onDiscard}
+          title="Discard"
+          className="p-1.5 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Reports filed on this device that haven't reached the server yet, with
+ * the conflicts and failures that need a decision. Renders nothing once
+ * the queue is empty and the device is online.
+ */
+export function OfflineProgressQueuePanel({
+  onSynced,
+}: {
+  // Called after a replay sent at least one report, to refresh the list.
+  onSynced?: () => void;
+}) {
+  const {
+    entries,
+    online,
+    syncing,
+    lastResult,
+    replay,
+    sendAnyway,
+    retry,
+    discard,
+  } = useOfflineProgressQueue();
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (lastResult && lastResult.sent > 0) onSynced?.();
+  }, [lastResult, onSynced]);
+
+  if (online && entries.length === 0) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setActionError(null);
+    try {
+      await action();
+      onSynced?.();
+    } catch (err) {
+      console.error("Error handling queued progress report:", err);
+      setActionError(
+        err instanceof Error ? err.message : "Failed to send the report",
+      );
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-6 border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          {online ? (
+            <UploadCloud className="w-5 h-5 text-blue-600" />
+          ) : (
+            <CloudOff className="w-5 h-5 text-gray-500" />
+          )}
+          <div>
+            <h3 className="font-semibold text-gray-900">
+              {online ? "Waiting to be sent" : "You're offline"}
+            </h3>
+            <p className="text-xs text-gray-500">
+              {online
+                ? "Reports filed without a connection are sent in the order they were filed."
+                : "New progress reports and photos are saved on this device and sent when the connection returns."}
+            </p>
+          </div>
+        </div>
+        {entries.length > 0 && (
+          <button
+            onClick={() => replay()}
+            disabled={!online || syncing}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${syncing ? "animate-spin" : ""}`} />
+            {syncing ? "Sending..." : "Send now"}
+          </button>
+        )}
+      </div>
+
+      {actionError && (
+        <div className="mx-4 mt-3 flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {actionError}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <ul className="px-4 divide-y divide-gray-100">
+          {entries.map((entry) => (
+            <QueuedReportRow
+              key={entry.localId}
+              entry={entry}
+              online={online}
+              onSendAnyway={(regressionReason) =>
+                run(() => sendAnyway(entry, regressionReason))
+              }
+              onRetry={() => run(() => retry(entry))}
+              onDiscard={() => {
+                if (
+                  confirm(
+                    entry.workProgressId !== undefined
+                      ? "Discard these photos? The report itself was already sent."
+                      : "Discard this progress report? It hasn't been sent and will be lost.",
+                  )
+                ) {
+                  run(() => discard(entry.localId));
+                }
+              }}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { TrendingDown } from "lucide-react";
+import {
+  formatProgressPercentage,
+  REGRESSION_REASONS,
+  type RegressionReason,
+} from "../../utils/progressPercentage";
+
+/**
+ * Shown when a report comes in below the previous one: the reason has to
+ * be picked before the form can be saved.
+ */
+export default function RegressionReasonField({
+  previousProgress,
+  value,
+  onChange,
+}: {
+  previousProgress: number;
+  value: RegressionReason | "";
+  onChange: (reason: RegressionReason | "") => void;
+}) {
+  return (
+    <div className="mt-3 bg-amber-50 border border-amber-200 rounded-lg p-3">
+      <p className="text-xs text-amber-800 flex items-center gap-1.5">
+        <TrendingDown className="w-4 h-4 flex-shrink-0" />
+        Lower than the previous report (
+        {formatProgressPercentage(previousProgress)}%). Why did progress go
+        down? *
+      </p>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {REGRESSION_REASONS.map((reason) => (
+          <button
+            key={reason.value}
+            type="button"
+            onClick={() => onChange(value === reason.value ? "" : reason.value)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+              value === reason.value
+                ? "bg-amber-600 border-amber-600 text-white"
+                : "bg-white border-amber-300 text-amber-800 hover:bg-amber-100"
+            }`}
+          >
+            {reason.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
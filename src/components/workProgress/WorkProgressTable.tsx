@@ -2,7 +2,13 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { useNavigate, useParams, useLocation } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
-import { openProgressEvidence } from "../../utils/progressEvidenceHandler";
+import {
+  galleryPhotosFor,
+  useProgressEvidence,
+  type GalleryPhoto,
+} from "../../hooks/useProgressEvidence";
+import { EvidenceLightbox, EvidenceThumbnails } from "./EvidenceGallery";
+import { OfflineProgressQueuePanel } from "./OfflineProgressQueue";
 import type { WorkProgressWithDetails } from "../../types/progressTypes";
 import { useAuth } from "../../hooks/useAuth";
 import {
@@ -33,6 +39,7 @@ import {
   Pin,
   FolderKanban,
   Undo2,
+  Table2,
 } from "lucide-react";
 
 // ==================== INTERFACES ====================
@@ -97,6 +104,15 @@ export default function WorkProgressTable({
     [],
   );
   const [totalCount, setTotalCount] = useState(0);
+  const { photosByReport } = useProgressEvidence(
+    workProgress.map((item) => item.id),
+  );
+  // Photos shown in the lightbox: every photo on this page for the work
+  // detail whose thumbnail was clicked, across all its reports.
+  const [lightbox, setLightbox] = useState<{
+    photos: GalleryPhoto[];
+    startId: number;
+  } | null>(null);
   const [maxProgressByWorkDetail, setMaxProgressByWorkDetail] = useState<
     Record<number, number>
   >({});
@@ -1038,18 +1054,14 @@ export default function WorkProgressTable({
     return <Circle className="w-5 h-5 text-red-600" />;
   };
 
-  const handleEvidenceClick = async (storagePath?: string) => {
-    if (!storagePath) {
-      alert("No evidence file path available");
-      return;
-    }
-
-    try {
-      await openProgressEvidence(storagePath);
-    } catch (error) {
-      console.error("Error opening evidence:", error);
-      alert("Could not open evidence file. Please try again later.");
-    }
+  const openEvidence = (workDetailsId: number, photo: GalleryPhoto) => {
+    setLightbox({
+      photos: galleryPhotosFor(
+        workProgress.filter((p) => p.work_details_id === workDetailsId),
+        photosByReport,
+      ),
+      startId: photo.id,
+    });
   };
 
   // ==================== EFFECTS ====================
@@ -1912,8 +1924,10 @@ export default function WorkProgressTable({
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
                       <EvidenceCell
-                        storagePath={item.storage_path}
-                        onClick={handleEvidenceClick}
+                        photos={galleryPhotosFor([item], photosByReport)}
+                        onOpen={(photo) =>
+                          openEvidence(item.work_details_id, photo)
+                        }
                       />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-500">
@@ -1965,23 +1979,47 @@ export default function WorkProgressTable({
               </p>
             </div>
             {canWriteProgress && (
-              <button
-                onClick={() =>
-                  navigate("/add-work-progress", {
-                    state: { returnTo: location.state?.returnTo },
-                  })
-                }
-                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
-              >
-                <Plus className="w-4 h-4" /> Add Progress Report
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() =>
+                    navigate("/bulk-work-progress", {
+                      state: { returnTo: location.state?.returnTo },
+                    })
+                  }
+                  className="border border-green-600 text-green-700 px-4 py-2 rounded-lg hover:bg-green-50 flex items-center gap-2"
+                >
+                  <Table2 className="w-4 h-4" /> Bulk Entry
+                </button>
+                <button
+                  onClick={() =>
+                    navigate("/add-work-progress", {
+                      state: { returnTo: location.state?.returnTo },
+                    })
+                  }
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 flex items-center gap-2"
+                >
+                  <Plus className="w-4 h-4" /> Add Progress Report
+                </button>
+              </div>
             )}
           </div>
         </div>
       )}
 
+      {!embedded && canWriteProgress && (
+        <OfflineProgressQueuePanel onSynced={fetchWorkProgress} />
+      )}
+
       {renderFilterSection()}
       {renderContent()}
+
+      {lightbox && (
+        <EvidenceLightbox
+          photos={lightbox.photos}
+          startId={lightbox.startId}
+          onClose={() => setLightbox(null)}
+        />
+      )}
     </div>
   );
 }
@@ -2191,22 +2229,20 @@ function ReportedByCell({ profiles }: { profiles?: { name: string } }) {
 }
 
 function EvidenceCell({
-  storagePath,
-  onClick,
+  photos,
+  onOpen,
 }: {
-  storagePath?: string;
-  onClick: (storagePath?: string) => void;
+  photos: GalleryPhoto[];
+  onOpen: (photo: GalleryPhoto) => void;
 }) {
-  if (!storagePath) {
+  if (photos.length === 0) {
     return <span className="text-gray-400">No evidence</span>;
   }
 
   return (
-    <button
-      onClick={() => onClick(storagePath)}
-      className="text-blue-600 hover:text-blue-800 flex items-center gap-1 hover:underline"
-    >
-      <Camera className="w-4 h-4" /> View Evidence
-    </button>
+    <div className="flex items-center gap-2">
+      <Camera className="w-4 h-4 text-gray-400" />
+      <EvidenceThumbnails photos={photos} onOpen={onOpen} max={3} />
+    </div>
   );
 }
@@ -2,6 +2,7 @@ export { default as WorkProgressTable } from "./WorkProgressTable";
 export { default as WorkProgressPage } from "./WorkProgress";
 export { default as AddWorkProgress } from "./AddWorkProgress";
 export { default as EditWorkProgress } from "./EditWorkProgress";
+export { default as BulkWorkProgress } from "./BulkWorkProgress";
 
 // Default export for main page
 export { default } from "./WorkProgress";
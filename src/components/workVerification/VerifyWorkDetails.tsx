@@ -14,7 +14,19 @@ import {
   isOpenForRework,
   type VerificationRecord,
 } from "../../utils/workVerificationStatus";
-import { getLatestProgressRecord } from "../../utils/progressPercentage";
+import {
+  findProgressRegressions,
+  getLatestProgressRecord,
+  regressionReasonLabel,
+} from "../../utils/progressPercentage";
+import {
+  galleryPhotosFor,
+  useProgressEvidence,
+} from "../../hooks/useProgressEvidence";
+import {
+  EvidenceLightbox,
+  EvidenceThumbnails,
+} from "../workProgress/EvidenceGallery";
 import {
   ArrowLeft,
   Wrench,
@@ -33,6 +45,7 @@ import {
   Undo2,
   Lock,
   Ban,
+  TrendingDown,
 } from "lucide-react";
 
 interface WorkDetailsWithProgress extends WorkDetails {
@@ -59,6 +72,7 @@ interface WorkProgressItem {
   created_at: string;
   evidence_url?: string | null;
   storage_path?: string | null;
+  regression_reason?: string | null;
   profiles?: {
     id: number;
     name: string;
@@ -89,6 +103,19 @@ export default function VerifyWorkDetails() {
     progress: false,
     history: false,
   });
+  const { photosByReport } = useProgressEvidence(
+    (workDetails?.work_progress || []).map((p) => p.id),
+  );
+  // All of this work detail's photos, oldest report first, so the lightbox
+  // can compare before and after across reports.
+  const galleryPhotos = galleryPhotosFor(
+    workDetails?.work_progress || [],
+    photosByReport,
+  );
+  const [lightboxPhotoId, setLightboxPhotoId] = useState<number | null>(null);
+  const mismatchedPhotos = galleryPhotos.filter((photo) => photo.warning);
+  // Reports lower than the one before them, with that report's value.
+  const regressions = findProgressRegressions(workDetails?.work_progress || []);
 
   const fetchWorkDetails = useCallback(async () => {
     try {
@@ -129,6 +156,7 @@ export default function VerifyWorkDetails() {
       created_at,
       evidence_url,
       storage_path,
+      regression_reason,
       profiles (
         id,
         name,
@@ -656,6 +684,26 @@ export default function VerifyWorkDetails() {
                     <span className="bg-gradient-to-r from-blue-100 to-cyan-100 text-blue-700 px-2 py-1 rounded-full text-xs font-semibold border border-blue-200">
                       {workDetails.work_progress?.length || 0}
                     </span>
+                    {mismatchedPhotos.length > 0 && (
+                      <span
+                        className="flex items-center gap-1 bg-amber-100 text-amber-800 px-2 py-1 rounded-full text-xs font-semibold border border-amber-200"
+                        title="Photos whose capture date is far from their report's date"
+                      >
+                        <AlertTriangle className="w-3 h-3" />
+                        {mismatchedPhotos.length} photo
+                        {mismatchedPhotos.length !== 1 ? "s" : ""} off-date
+                      </span>
+                    )}
+                    {regressions.size > 0 && (
+                      <span
+                        className="flex items-center gap-1 bg-amber-100 text-amber-800 px-2 py-1 rounded-full text-xs font-semibold border border-amber-200"
+                        title="Reports lower than the report before them"
+                      >
+                        <TrendingDown className="w-3 h-3" />
+                        {regressions.size} regression
+                        {regressions.size !== 1 ? "s" : ""}
+                      </span>
+                    )}
                   </h3>
                   <div className="flex items-center justify-center w-6 h-6">
                     <ChevronDown
@@ -723,24 +771,45 @@ export default function VerifyWorkDetails() {
                                 )}
                               </div>
                             </div>
-                            {progress.evidence_url && (
-                              <a
-                                href={progress.evidence_url}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="mt-2 flex items-center gap-2 text-xs text-blue-600 hover:text-blue-800"
-                              >
-                                <img
-                                  src={progress.evidence_url}
-                                  alt="Progress evidence"
-                                  className="w-16 h-16 object-cover rounded-md border border-slate-200"
+                            {regressions.has(progress.id) && (
+                              <p className="mt-2 flex items-center gap-1 text-xs text-amber-700">
+                                <TrendingDown className="w-3.5 h-3.5" />
+                                Down from {regressions.get(progress.id)}% —{" "}
+                                {regressionReasonLabel(
+                                  progress.regression_reason,
+                                ) ?? "no reason recorded"}
+                              </p>
+                            )}
+                            {photosByReport.has(progress.id) && (
+                              <div className="mt-2 flex items-center gap-2">
+                                <EvidenceThumbnails
+                                  photos={galleryPhotosFor(
+                                    [progress],
+                                    photosByReport,
+                                  )}
+                                  onOpen={(photo) =>
+                                    setLightboxPhotoId(photo.id)
+                                  }
+                                  max={6}
                                 />
-                                <span className="flex items-center gap-1">
-                                  <ImageIcon className="w-3.5 h-3.5" /> View
-                                  full photo
+                                <span className="flex items-center gap-1 text-xs text-slate-500">
+                                  <ImageIcon className="w-3.5 h-3.5" />
+                                  {photosByReport.get(progress.id)!.length}
                                 </span>
-                              </a>
+                              </div>
                             )}
+                            {galleryPhotosFor([progress], photosByReport)
+                              .filter((photo) => photo.warning)
+                              .map((photo) => (
+                                <p
+                                  key={photo.id}
+                                  className="mt-1 flex items-center gap-1 text-xs text-amber-700"
+                                >
+                                  <AlertTriangle className="w-3.5 h-3.5" />
+                                  {photo.caption ? `"${photo.caption}": ` : ""}
+                                  {photo.warning}
+                                </p>
+                              ))}
                           </div>
                         ))}
                     </div>
@@ -932,6 +1001,14 @@ export default function VerifyWorkDetails() {
           </div>
         </div>
       </div>
+
+      {lightboxPhotoId !== null && (
+        <EvidenceLightbox
+          photos={galleryPhotos}
+          startId={lightboxPhotoId}
+          onClose={() => setLightboxPhotoId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,498 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "../../hooks/useAuth";
+import {
+  AlertTriangle,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+} from "lucide-react";
+import { daysBetween, shiftDate } from "../../utils/deadlineUtils";
+import {
+  ganttOffset,
+  ganttSpan,
+  monthTicks,
+  todayIso,
+  type GanttBounds,
+} from "../../utils/ganttTimeline";
+import {
+  buildYardBookings,
+  fetchYardData,
+  findYardConflicts,
+  moveBooking,
+  NO_LOCATION,
+  shiftProjectSchedule,
+  yardLanes,
+  type YardBooking,
+  type YardBookingState,
+  type YardDocking,
+  type YardWorkOrder,
+} from "../../utils/yardOccupancy";
+
+const MONTHS_SHOWN = 3;
+
+const STATE_STYLES: Record<
+  YardBookingState,
+  { label: string; className: string }
+> = {
+  planned: {
+    label: "Planned",
+    className: "bg-blue-100 border-blue-400 text-blue-900",
+  },
+  docked: {
+    label: "In dock",
+    className: "bg-amber-100 border-amber-500 text-amber-900",
+  },
+  completed: {
+    label: "Left dock",
+    className: "bg-gray-100 border-gray-400 text-gray-700",
+  },
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const firstOfMonth = (date: string) => `${date.slice(0, 7)}-01`;
+
+const addMonths = (monthStart: string, months: number) => {
+  const [y, m] = monthStart.split("-").map(Number);
+  const index = y * 12 + (m - 1) + months;
+  const mm = String((index % 12) + 1).padStart(2, "0");
+  return `${Math.floor(index / 12)}-${mm}-01`;
+};
+
+// Greedy packing: each booking goes on the first row of its lane where it
+// doesn't overlap the previous bar, so clashing bookings stack visibly.
+function packRows(bookings: YardBooking[]): YardBooking[][] {
+  const rows: YardBooking[][] = [];
+  for (const b of bookings) {
+    const row = rows.find((r) => r[r.length - 1].end < b.start);
+    if (row) row.push(b);
+    else rows.push([b]);
+  }
+  return rows;
+}
+
+interface DragState {
+  key: string;
+  originX: number;
+  dayWidth: number;
+  days: number;
+}
+
+export default function YardCalendar() {
+  const navigate = useNavigate();
+  const { canAccess, hasRole, isReadOnly } = useAuth();
+  // Moving a docking rewrites planned dates; the yard plan is PPIC's.
+  const canReschedule = hasRole(["MASTER", "PPIC"]) && !isReadOnly;
+
+  const [workOrders, setWorkOrders] = useState<YardWorkOrder[]>([]);
+  const [dockings, setDockings] = useState<YardDocking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [windowStart, setWindowStart] = useState(firstOfMonth(todayIso()));
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchYardData();
+      setWorkOrders(data.workOrders);
+      setDockings(data.dockings);
+    } catch (err) {
+      console.error("Error fetching yard calendar:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load the yard calendar",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!canAccess("yardCalendar")) {
+      navigate("/");
+    }
+  }, [canAccess, navigate]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const today = todayIso();
+  const bookings = buildYardBookings(workOrders, dockings, today);
+  const conflicts = findYardConflicts(bookings);
+  const lanes = yardLanes(bookings);
+
+  const windowEnd = shiftDate(addMonths(windowStart, MONTHS_SHOWN), -1);
+  const bounds: GanttBounds = {
+    start: windowStart,
+    end: windowEnd,
+    days: daysBetween(windowStart, windowEnd) + 1,
+  };
+  const ticks = monthTicks(bounds);
+  const todayLeft =
+    today >= bounds.start && today <= bounds.end
+      ? ganttOffset(bounds, today)
+      : null;
+
+  // Clash pairs listed once each, only where one side is visible.
+  const conflictPairs = bookings
+    .flatMap((a) =>
+      (conflicts.get(a.key) || [])
+        .filter((b) => a.key < b.key)
+        .map((b) => [a, b] as const),
+    )
+    .filter(
+      ([a, b]) =>
+        (a.start <= bounds.end && a.end >= bounds.start) ||
+        (b.start <= bounds.end && b.end >= bounds.start),
+    );
+
+  const isDraggable = (b: YardBooking) =>
+    canReschedule && !saving && b.state === "planned" && b.projectId !== null;
+
+  const handlePointerDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    booking: YardBooking,
+  ) => {
+    if (!isDraggable(booking) || !trackRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({
+      key: booking.key,
+      originX: e.clientX,
+      dayWidth: trackRef.current.getBoundingClientRect().width / bounds.days,
+      days: 0,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const days = Math.round((e.clientX - drag.originX) / drag.dayWidth);
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  const handlePointerUp = async (booking: YardBooking) => {
+    if (!drag || drag.key !== booking.key) return;
+    const { days } = drag;
+    setDrag(null);
+    if (days === 0) return;
+
+    const moved = moveBooking(booking, days);
+    const clashes = bookings.filter(
+      (b) =>
+        b.key !== booking.key &&
+        b.location === booking.location &&
+        b.location !== NO_LOCATION &&
+        b.vesselId !== booking.vesselId &&
+        b.start <= moved.end &&
+        moved.start <= b.end,
+    );
+    const msg = `Move the docking of ${booking.vesselName} (${
+      booking.projectName
+    }) ${days > 0 ? "later" : "earlier"} by ${Math.abs(days)} day${
+      Math.abs(days) !== 1 ? "s" : ""
+    }?\n\n${formatDate(booking.plannedStart)} – ${formatDate(
+      booking.plannedEnd,
+    )}  →  ${formatDate(moved.plannedStart)} – ${formatDate(
+      moved.plannedEnd,
+    )}\n\nThe readiness form docking date and the planned start / target close of every work detail in the project move with it.${
+      clashes.length
+        ? `\n\nWarning: this overlaps ${clashes
+            .map((c) => c.vesselName)
+            .join(", ")} at ${booking.location}.`
+        : ""
+    }`;
+    if (!window.confirm(msg)) return;
+
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await shiftProjectSchedule(booking, days);
+      setNotice(
+        `Moved ${booking.projectName} — ${result.work_details} work detail${
+          result.work_details !== 1 ? "s" : ""
+        } re-dated.`,
+      );
+      await fetchData();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to move the docking",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && workOrders.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading yard calendar...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <CalendarDays className="w-7 h-7 text-blue-600" /> Yard Calendar
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Which vessel occupies which dock, from project and work order dates
+            and the BASTP docking dates.
+            {canReschedule &&
+              " Drag a planned docking to move it to other dates."}
+          </p>
+        </div>
+        <button
+          onClick={fetchData}
+          disabled={loading || saving}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />{" "}
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+      {notice && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-green-700">{notice}</p>
+        </div>
+      )}
+
+      {conflictPairs.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex gap-3">
+          <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0" />
+          <div>
+            <p className="text-amber-800 text-sm font-medium">
+              {conflictPairs.length} overlapping booking
+              {conflictPairs.length !== 1 ? "s" : ""} at the same dock
+            </p>
+            <ul className="text-amber-700 text-sm mt-1 space-y-0.5">
+              {conflictPairs.map(([a, b]) => (
+                <li key={`${a.key}|${b.key}`}>
+                  {a.location}: {a.vesselName} ({formatDate(a.start)} –{" "}
+                  {formatDate(a.end)}) and {b.vesselName} ({formatDate(b.start)}{" "}
+                  – {formatDate(b.end)})
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setWindowStart(addMonths(windowStart, -1))}
+              className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setWindowStart(firstOfMonth(today))}
+              className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => setWindowStart(addMonths(windowStart, 1))}
+              className="p-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+            <span className="text-sm font-medium text-gray-700 ml-2">
+              {formatDate(bounds.start)} – {formatDate(bounds.end)}
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+            {(Object.keys(STATE_STYLES) as YardBookingState[]).map((state) => (
+              <span key={state} className="flex items-center gap-1">
+                <span
+                  className={`inline-block w-5 h-3 rounded-sm border ${STATE_STYLES[state].className}`}
+                />
+                {STATE_STYLES[state].label}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-5 h-3 rounded-sm border-2 border-red-500" />
+              Overlap
+            </span>
+          </div>
+        </div>
+
+        <div className="border border-gray-200 rounded-lg overflow-hidden text-xs">
+          <div className="flex bg-gray-50 border-b border-gray-200">
+            <div className="w-40 flex-shrink-0 px-3 py-2 font-semibold text-gray-700">
+              Location
+            </div>
+            <div ref={trackRef} className="relative flex-1 h-8">
+              {ticks.map((t) => (
+                <span
+                  key={t.date}
+                  className="absolute top-2 pl-1 text-gray-500 whitespace-nowrap border-l border-gray-300"
+                  style={{ left: `${t.left}%` }}
+                >
+                  {t.label}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {lanes.map((lane) => {
+            const visible = bookings.filter(
+              (b) =>
+                b.location === lane &&
+                b.start <= bounds.end &&
+                b.end >= bounds.start,
+            );
+            const rows = packRows(visible);
+
+            return (
+              <div
+                key={lane}
+                className="flex border-b border-gray-200 last:border-b-0"
+              >
+                <div className="w-40 flex-shrink-0 px-3 py-2 font-medium text-gray-900 bg-gray-50 border-r border-gray-200">
+                  {lane}
+                  {lane === NO_LOCATION && (
+                    <div className="font-normal text-gray-500">
+                      Work orders without a work location
+                    </div>
+                  )}
+                </div>
+                <div className="relative flex-1 py-1">
+                  {ticks.map((t) => (
+                    <div
+                      key={t.date}
+                      className="absolute inset-y-0 border-l border-gray-200"
+                      style={{ left: `${t.left}%` }}
+                    />
+                  ))}
+                  {todayLeft !== null && (
+                    <div
+                      className="absolute inset-y-0 border-l-2 border-gray-500"
+                      style={{ left: `${todayLeft}%` }}
+                    />
+                  )}
+                  {rows.length === 0 && (
+                    <div className="h-9 flex items-center pl-2 text-gray-400 italic">
+                      Free
+                    </div>
+                  )}
+                  {rows.map((row, i) => (
+                    <div key={i} className="relative h-9">
+                      {row.map((booking) => {
+                        const shown =
+                          drag?.key === booking.key
+                            ? moveBooking(booking, drag.days)
+                            : booking;
+                        const span = ganttSpan(
+                          bounds,
+                          shown.start < bounds.start
+                            ? bounds.start
+                            : shown.start,
+                          shown.end > bounds.end ? bounds.end : shown.end,
+                        );
+                        if (!span) return null;
+                        const clashes = conflicts.get(booking.key);
+                        const draggable = isDraggable(booking);
+
+                        return (
+                          <div
+                            key={booking.key}
+                            onPointerDown={(e) => handlePointerDown(e, booking)}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={() => handlePointerUp(booking)}
+                            onPointerCancel={() => setDrag(null)}
+                            onDoubleClick={() =>
+                              booking.projectId &&
+                              navigate(`/projects/${booking.projectId}`)
+                            }
+                            className={`absolute top-1 h-7 rounded border px-1.5 flex items-center overflow-hidden whitespace-nowrap select-none ${
+                              STATE_STYLES[booking.state].className
+                            } ${clashes ? "ring-2 ring-red-500" : ""} ${
+                              draggable
+                                ? "cursor-grab active:cursor-grabbing"
+                                : ""
+                            } ${drag?.key === booking.key ? "opacity-80 shadow-lg z-10" : ""}`}
+                            style={{
+                              left: `${span.left}%`,
+                              width: `${span.width}%`,
+                              touchAction: draggable ? "none" : undefined,
+                            }}
+                            title={[
+                              `${booking.vesselName}${
+                                booking.projectName
+                                  ? ` — ${booking.projectName}`
+                                  : " (no project)"
+                              }`,
+                              `${STATE_STYLES[booking.state].label}: ${formatDate(
+                                shown.start,
+                              )} – ${formatDate(shown.end)}`,
+                              `Planned: ${formatDate(
+                                shown.plannedStart,
+                              )} – ${formatDate(shown.plannedEnd)}`,
+                              `WO: ${booking.workOrderNumbers.join(", ")}`,
+                              booking.bastpNumbers.length
+                                ? `BASTP: ${booking.bastpNumbers.join(", ")}`
+                                : null,
+                              clashes
+                                ? `Overlaps: ${clashes
+                                    .map((c) => c.vesselName)
+                                    .join(", ")}`
+                                : null,
+                            ]
+                              .filter(Boolean)
+                              .join("\n")}
+                          >
+                            {clashes && (
+                              <AlertTriangle className="w-3 h-3 text-red-600 mr-1 flex-shrink-0" />
+                            )}
+                            <span className="font-medium">
+                              {booking.vesselName}
+                            </span>
+                            {drag?.key === booking.key && drag.days !== 0 && (
+                              <span className="ml-1">
+                                ({drag.days > 0 ? "+" : ""}
+                                {drag.days}d)
+                              </span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Hover a booking for details; double-click it to open the project.
+          Bookings already in dock follow their BASTP docking dates and can't be
+          moved.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { default as YardCalendar } from "./YardCalendar";
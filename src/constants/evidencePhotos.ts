@@ -0,0 +1,22 @@
+// Evidence photos are resized and re-encoded in the browser before upload.
+// Both limits can be overridden per deployment through the env.
+const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Longest edge in pixels after resizing.
+export const EVIDENCE_MAX_DIMENSION = envNumber(
+  import.meta.env.VITE_EVIDENCE_MAX_DIMENSION,
+  1920,
+);
+
+// JPEG quality, 0–1.
+export const EVIDENCE_JPEG_QUALITY = Math.min(
+  envNumber(import.meta.env.VITE_EVIDENCE_JPEG_QUALITY, 0.8),
+  1,
+);
+
+// A photo taken more than this many days from its report's report_date is
+// flagged during verification.
+export const EVIDENCE_CAPTURE_TOLERANCE_DAYS = 2;
@@ -0,0 +1 @@
+export const WORK_DETAIL_UOM_OPTIONS = ["Ls", "Unit", "Pcs", "Lbr"];
@@ -127,6 +127,11 @@ const FEATURE_ACCESS = {
   ],
   vessels: ["MASTER", "PPIC", "PRODUCTION", "OP_HEAD", "ADMIN", "MANAGER"],
   invoices: ["MASTER", "FINANCE", "MANAGER"],
+  // Same audience as invoices; MANAGER is view-only (see isReadOnly), and
+  // the tax_rates/tax_exemptions RLS only lets MASTER/FINANCE write.
+  taxSettings: ["MASTER", "FINANCE", "MANAGER"],
+  // Read-only report over the invoice payment ledger — same audience.
+  arAging: ["MASTER", "FINANCE", "MANAGER"],
   // MANAGER gets the same view access as MASTER everywhere (see isReadOnly),
   // including here — UserManagementPage.tsx gates the actual write controls
   // (role change, deactivate/reactivate) behind isReadOnly separately, so
@@ -138,6 +143,10 @@ const FEATURE_ACCESS = {
   // writes (add/edit/soft-delete) are MASTER/PPIC only, matching the RLS
   // policies on vessel/location/work_scope.
   masterData: ["MASTER", "PPIC", "MANAGER"],
+  // The Perintah Kerja print register is reconciled against the paper
+  // register by PPIC; MASTER/MANAGER get the same view. Enforced again in
+  // work_order_print_register().
+  printRegister: ["MASTER", "PPIC", "MANAGER"],
   reports: [
     "MASTER",
     "PPIC",
@@ -151,6 +160,17 @@ const FEATURE_ACCESS = {
   activityLogs: ["MASTER", "MANAGER"],
   additionalWoApprovals: ["MASTER", "OP_HEAD", "MANAGER"],
   readinessQueue: ["MASTER", "HSSE", "MANAGER"],
+  // Dock occupancy across every project — everyone on the operations side
+  // can look; only MASTER/PPIC can drag a docking (shift_project_schedule()).
+  yardCalendar: [
+    "MASTER",
+    "PPIC",
+    "PRODUCTION",
+    "OP_HEAD",
+    "ADMIN",
+    "MANAGER",
+    "HSSE",
+  ],
 };
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
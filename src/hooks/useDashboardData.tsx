@@ -7,7 +7,20 @@ import {
   type ReactNode,
 } from "react";
 import { supabase } from "../lib/supabase";
+import { useAuth } from "./useAuth";
 import { getLatestProgressRecord } from "../utils/progressPercentage";
+import {
+  summarizeInvoicePayments,
+  type InvoicePaymentStatus,
+  type InvoicePaymentSummary,
+  type PaymentLedgerFields,
+} from "../utils/invoicePayments";
+import {
+  buildInvoiceAlerts,
+  buildUninvoicedBastpAlerts,
+  type RawAlertBastp,
+  type RawAlertInvoice,
+} from "../utils/invoiceAlerts";
 
 export type BastpStatus = "DRAFT" | "VERIFIED" | "READY_FOR_INVOICE" | "INVOICED";
 export type WorkTypeCategory = "DOCKING" | "REPAIR";
@@ -34,7 +47,14 @@ interface RawBastpLink {
 interface RawInvoiceLink {
   id: number;
   payment_price: number | null;
-  invoice_details: { payment_status: boolean } | null;
+  invoice_details: {
+    id: number;
+    total_price_after: number | null;
+    pph_23: number | null;
+    credited_total_after: number | null;
+    credited_pph_23: number | null;
+    invoice_payments: PaymentLedgerFields[];
+  } | null;
 }
 
 interface RawWorkDetail {
@@ -69,7 +89,7 @@ interface ComputedWorkDetail {
   isOnTimeOrEarly: boolean;
   latestActivity?: string;
   bastpStatus: BastpStatus | null;
-  isPaid: boolean | null;
+  paymentStatus: InvoicePaymentStatus | null;
 }
 
 export interface DashboardStats {
@@ -107,11 +127,14 @@ export interface DashboardStats {
   workDetailsBastpVerified: number;
   workDetailsBastpReadyForInvoice: number;
 
-  // 4. Invoiced, split by payment
+  // 4. Invoiced, split by the invoice's payment-ledger status. Values are
+  // per invoice (gross of PPN): settled so far vs still outstanding.
   workDetailsInvoicedPaid: number;
+  workDetailsInvoicedPartiallyPaid: number;
   workDetailsInvoicedUnpaid: number;
-  workDetailsInvoicedPaidValue: number;
-  workDetailsInvoicedUnpaidValue: number;
+  invoicedValueSettled: number;
+  invoicedValueOutstanding: number;
+  invoicedInvoiceCount: number;
 
   // 8. Original vs additional work orders
   workOrdersOriginal: number;
@@ -139,18 +162,35 @@ export interface VesselSummary {
   lastActivity?: string;
 }
 
+export type DashboardAlertType =
+  | "overdue"
+  | "ready_for_invoice"
+  | "invoice_due_soon"
+  | "invoice_overdue"
+  | "bastp_awaiting_invoice";
+
 export interface DashboardAlert {
   key: string;
   vesselName?: string;
   vesselCompany?: string;
-  woLabel: string;
+  woLabel?: string;
   // The specific work item this alert is about — without this, every
   // overdue alert on the same WO renders as an identical-looking card.
   workDetailDescription: string | null;
-  type: "overdue" | "ready_for_invoice";
+  // Invoice/BASTP alerts aren't about a work item; this names the document
+  // instead (see utils/invoiceAlerts.ts).
+  subject?: string;
+  type: DashboardAlertType;
   message: string;
-  priority: "high" | "medium";
+  priority: "high" | "medium" | "low";
   targetCloseDate?: string | null;
+  dueDate?: string | null;
+  link?: string;
+}
+
+interface AlertDismissal {
+  alert_key: string;
+  snoozed_until: string | null;
 }
 
 const emptyStats: DashboardStats = {
@@ -178,9 +218,11 @@ const emptyStats: DashboardStats = {
   workDetailsBastpVerified: 0,
   workDetailsBastpReadyForInvoice: 0,
   workDetailsInvoicedPaid: 0,
+  workDetailsInvoicedPartiallyPaid: 0,
   workDetailsInvoicedUnpaid: 0,
-  workDetailsInvoicedPaidValue: 0,
-  workDetailsInvoicedUnpaidValue: 0,
+  invoicedValueSettled: 0,
+  invoicedValueOutstanding: 0,
+  invoicedInvoiceCount: 0,
   workOrdersOriginal: 0,
   workOrdersAdditional: 0,
   totalWorkDetails: 0,
@@ -201,8 +243,15 @@ interface VesselWorkOrderAccumulator {
 // classifications (overdue, ready-for-invoice, etc.) only run once — behind
 // DashboardDataProvider — instead of once per consumer.
 function useDashboardDataQuery() {
+  const { canAccess, profile } = useAuth();
+  // Invoice alerts follow the invoices screen's audience.
+  const canSeeInvoiceAlerts = canAccess("invoices");
+
   const [stats, setStats] = useState<DashboardStats>(emptyStats);
-  const [alerts, setAlerts] = useState<DashboardAlert[]>([]);
+  const [allAlerts, setAllAlerts] = useState<DashboardAlert[]>([]);
+  const [dismissals, setDismissals] = useState<Map<string, string | null>>(
+    new Map(),
+  );
   const [vesselSummaries, setVesselSummaries] = useState<VesselSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -232,7 +281,18 @@ function useDashboardDataQuery() {
             actual_close_date,
             work_progress ( progress_percentage, report_date, created_at ),
             bastp_work_details ( id, deleted_at, bastp:bastp_id ( status ) ),
-            invoice_work_details ( id, payment_price, invoice_details:invoice_details_id ( payment_status ) )
+            invoice_work_details (
+              id,
+              payment_price,
+              invoice_details:invoice_details_id (
+                id,
+                total_price_after,
+                pph_23,
+                credited_total_after,
+                credited_pph_23,
+                invoice_payments ( entry_type, payment_date, amount, deleted_at )
+              )
+            )
           )
         `,
         )
@@ -257,6 +317,9 @@ function useDashboardDataQuery() {
       // WOs predating the Projects module have project_id = null and are
       // excluded from project-based tracking below.
       const projectAccumulators = new Map<number, VesselWorkOrderAccumulator[]>();
+      // Several work details share one invoice, so invoice values are summed
+      // once per invoice after the loop.
+      const invoicedSummaries = new Map<number, InvoicePaymentSummary>();
 
       rawOrders.forEach((wo) => {
         if (!wo.vessel) return;
@@ -330,15 +393,22 @@ function useDashboardDataQuery() {
             const invoiceLink = (d.invoice_work_details || []).find(
               (i) => i.invoice_details,
             );
-            const isPaid = invoiceLink?.invoice_details?.payment_status ?? null;
+            const invoice = invoiceLink?.invoice_details ?? null;
+            const paymentSummary = invoice
+              ? (invoicedSummaries.get(invoice.id) ??
+                summarizeInvoicePayments(invoice, invoice.invoice_payments))
+              : null;
+            const paymentStatus = paymentSummary?.status ?? null;
             if (bastpStatus === "INVOICED") {
-              const invoicedValue = invoiceLink?.payment_price ?? 0;
-              if (isPaid) {
+              if (invoice && paymentSummary) {
+                invoicedSummaries.set(invoice.id, paymentSummary);
+              }
+              if (paymentStatus === "PAID") {
                 newStats.workDetailsInvoicedPaid++;
-                newStats.workDetailsInvoicedPaidValue += invoicedValue;
+              } else if (paymentStatus === "PARTIALLY_PAID") {
+                newStats.workDetailsInvoicedPartiallyPaid++;
               } else {
                 newStats.workDetailsInvoicedUnpaid++;
-                newStats.workDetailsInvoicedUnpaidValue += invoicedValue;
               }
             }
 
@@ -383,7 +453,7 @@ function useDashboardDataQuery() {
               isOnTimeOrEarly,
               latestActivity: latest?.report_date,
               bastpStatus,
-              isPaid,
+              paymentStatus,
             };
           },
         );
@@ -530,11 +600,6 @@ function useDashboardDataQuery() {
         };
       });
 
-      newAlerts.sort((a, b) => {
-        const priorityOrder = { high: 2, medium: 1 };
-        return priorityOrder[b.priority] - priorityOrder[a.priority];
-      });
-
       newVesselSummaries.sort((a, b) => {
         if (a.lastActivity && !b.lastActivity) return -1;
         if (!a.lastActivity && b.lastActivity) return 1;
@@ -547,23 +612,166 @@ function useDashboardDataQuery() {
         return a.name.localeCompare(b.name);
       });
 
+      invoicedSummaries.forEach((summary) => {
+        newStats.invoicedInvoiceCount++;
+        newStats.invoicedValueSettled += summary.amountDue - summary.outstanding;
+        newStats.invoicedValueOutstanding += summary.outstanding;
+      });
+
+      if (canSeeInvoiceAlerts) {
+        const [invoicesResult, bastpsResult] = await Promise.all([
+          supabase
+            .from("invoice_details")
+            .select(
+              `
+              id,
+              invoice_number,
+              due_date,
+              total_price_after,
+              pph_23,
+              credited_total_after,
+              credited_pph_23,
+              bastp:bastp_id ( id, number, vessel:vessel_id ( name, company ) ),
+              invoice_payments ( entry_type, payment_date, amount, deleted_at )
+            `,
+            )
+            .is("deleted_at", null)
+            .not("due_date", "is", null),
+          supabase
+            .from("bastp")
+            .select(
+              `
+              id,
+              number,
+              updated_at,
+              ready_for_invoice_date,
+              vessel:vessel_id ( name, company ),
+              invoice_details ( id, deleted_at )
+            `,
+            )
+            .eq("status", "READY_FOR_INVOICE")
+            .is("deleted_at", null),
+        ]);
+        if (invoicesResult.error) throw invoicesResult.error;
+        if (bastpsResult.error) throw bastpsResult.error;
+
+        newAlerts.push(
+          ...buildInvoiceAlerts(
+            (invoicesResult.data || []) as unknown as RawAlertInvoice[],
+            now,
+          ),
+          ...buildUninvoicedBastpAlerts(
+            (bastpsResult.data || []) as unknown as RawAlertBastp[],
+            now,
+          ),
+        );
+      }
+
+      newAlerts.sort((a, b) => {
+        const priorityOrder = { high: 2, medium: 1, low: 0 };
+        return priorityOrder[b.priority] - priorityOrder[a.priority];
+      });
+
+      // RLS only returns the caller's own rows.
+      const { data: dismissalRows, error: dismissalsError } = await supabase
+        .from("alert_dismissals")
+        .select("alert_key, snoozed_until");
+      if (dismissalsError) throw dismissalsError;
+
       setStats(newStats);
-      setAlerts(newAlerts);
+      setAllAlerts(newAlerts);
+      setDismissals(
+        new Map(
+          ((dismissalRows || []) as AlertDismissal[]).map((d) => [
+            d.alert_key,
+            d.snoozed_until,
+          ]),
+        ),
+      );
       setVesselSummaries(newVesselSummaries);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [canSeeInvoiceAlerts]);
 
   useEffect(() => {
     fetchDashboardData();
   }, [fetchDashboardData]);
 
+  // A snooze that has run out hides nothing; a dismissal (no snoozed_until)
+  // hides the alert for as long as its key stays the same.
+  const isHidden = (key: string) => {
+    if (!dismissals.has(key)) return false;
+    const snoozedUntil = dismissals.get(key);
+    return !snoozedUntil || new Date(snoozedUntil) > new Date();
+  };
+  const alerts = allAlerts.filter((a) => !isHidden(a.key));
+  const hiddenAlerts = allAlerts.filter((a) => isHidden(a.key));
+
+  // snoozedUntil null = dismiss. Applied optimistically so the card
+  // disappears immediately; reverted if the write fails.
+  const hideAlert = useCallback(
+    async (key: string, snoozedUntil: Date | null) => {
+      if (!profile) return;
+      const previous = dismissals;
+      setDismissals((prev) =>
+        new Map(prev).set(key, snoozedUntil?.toISOString() ?? null),
+      );
+
+      const { error: upsertError } = await supabase
+        .from("alert_dismissals")
+        .upsert(
+          {
+            profile_id: profile.id,
+            alert_key: key,
+            snoozed_until: snoozedUntil?.toISOString() ?? null,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "profile_id,alert_key" },
+        );
+      if (upsertError) {
+        console.error("Error saving alert dismissal:", upsertError);
+        setDismissals(previous);
+        alert("Failed to update alert. Please try again.");
+      }
+    },
+    [profile, dismissals],
+  );
+
+  const restoreAlert = useCallback(
+    async (key: string) => {
+      if (!profile) return;
+      const previous = dismissals;
+      setDismissals((prev) => {
+        const next = new Map(prev);
+        next.delete(key);
+        return next;
+      });
+
+      const { error: deleteError } = await supabase
+        .from("alert_dismissals")
+        .delete()
+        .eq("profile_id", profile.id)
+        .eq("alert_key", key);
+      if (deleteError) {
+        console.error("Error restoring alert:", deleteError);
+        setDismissals(previous);
+        alert("Failed to restore alert. Please try again.");
+      }
+    },
+    [profile, dismissals],
+  );
+
   return {
     stats,
     alerts,
+    hiddenAlerts,
+    dismissAlert: (key: string) => hideAlert(key, null),
+    snoozeAlert: (key: string, days: number) =>
+      hideAlert(key, new Date(Date.now() + days * 24 * 60 * 60 * 1000)),
+    restoreAlert,
     vesselSummaries,
     loading,
     error,
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "./useAuth";
+import {
+  listQueuedReports,
+  removeQueuedReport,
+  replayProgressQueue,
+  retryQueuedReport,
+  sendQueuedReportAnyway,
+  subscribeToProgressQueue,
+  type QueuedProgressReport,
+  type ReplayResult,
+} from "../utils/offlineProgressQueue";
+import type { RegressionReason } from "../utils/progressPercentage";
+
+// The signed-in profile's offline progress queue, kept current across every
+// component using it. Reconnecting (or mounting while online) replays it;
+// concurrent replays from several components are shared, not repeated.
+export const useOfflineProgressQueue = () => {
+  const { profile } = useAuth();
+  const profileId = profile?.id;
+
+  const [entries, setEntries] = useState<QueuedProgressReport[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [lastResult, setLastResult] = useState<ReplayResult | null>(null);
+
+  const load = useCallback(async () => {
+    if (!profileId) {
+      setEntries([]);
+      return;
+    }
+    try {
+      setEntries(await listQueuedReports(profileId));
+    } catch (err) {
+      console.error("Error reading offline progress queue:", err);
+    }
+  }, [profileId]);
+
+  const replay = useCallback(async () => {
+    if (!profileId || !navigator.onLine) return;
+    try {
+      setSyncing(true);
+      setLastResult(await replayProgressQueue(profileId));
+    } catch (err) {
+      console.error("Error replaying offline progress queue:", err);
+    } finally {
+      setSyncing(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    load();
+    return subscribeToProgressQueue(load);
+  }, [load]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      replay();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    replay();
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [replay]);
+
+  const sendAnyway = useCallback(
+    async (
+      entry: QueuedProgressReport,
+      regressionReason?: RegressionReason,
+    ) => {
+      await sendQueuedReportAnyway(entry, regressionReason);
+      // Later reports of the same work detail were held behind this one.
+      await replay();
+    },
+    [replay],
+  );
+
+  const retry = useCallback(
+    async (entry: QueuedProgressReport) => {
+      await retryQueuedReport(entry);
+      await replay();
+    },
+    [replay],
+  );
+
+  return {
+    entries,
+    online,
+    syncing,
+    lastResult,
+    replay,
+    sendAnyway,
+    retry,
+    discard: removeQueuedReport,
+  };
+};
@@ -337,7 +337,7 @@ export const useProgress = () => {
       // Fetch work details stats for the unified interface
       const { data: workDetailsStats, error: workDetailsError } = await supabase
         .from("work_progress")
-        .select("work_details_id, progress_percentage, evidence_url")
+        .select("work_details_id, progress_percentage, storage_path")
         .is("deleted_at", null);
 
       let total_work_details = 0;
@@ -354,7 +354,7 @@ export const useProgress = () => {
 
         workDetailsStats.forEach((item) => {
           const existing = workDetailsMap.get(item.work_details_id);
-          const hasEvidence = !!item.evidence_url;
+          const hasEvidence = !!item.storage_path;
 
           if (!existing || existing.maxProgress < item.progress_percentage) {
             workDetailsMap.set(item.work_details_id, {
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from "react";
+import { captureDateMismatchDays } from "../utils/evidenceMetadata";
+import {
+  fetchProgressEvidencePhotos,
+  getProgressEvidenceSignedUrls,
+  type ProgressEvidencePhoto,
+} from "../utils/progressEvidenceHandler";
+
+export interface SignedEvidencePhoto extends ProgressEvidencePhoto {
+  url: string;
+}
+
+export interface GalleryPhoto {
+  id: number;
+  url: string;
+  caption: string | null;
+  // Which report the photo belongs to, e.g. "12 Aug 2026 · 40%".
+  label: string;
+  capturedAt?: string | null;
+  position?: { latitude: number; longitude: number } | null;
+  // Set when the photo was taken well away from its report's date.
+  warning?: string | null;
+}
+
+// Flattens the photos of these reports, oldest report first, so the
+// lightbox steps through the job from before to after.
+export const galleryPhotosFor = (
+  reports: {
+    id: number;
+    report_date: string;
+    created_at: string;
+    progress_percentage: number;
+  }[],
+  photosByReport: Map<number, SignedEvidencePhoto[]>,
+): GalleryPhoto[] =>
+  [...reports]
+    .sort(
+      (a, b) =>
+        a.report_date.localeCompare(b.report_date) ||
+        a.created_at.localeCompare(b.created_at),
+    )
+    .flatMap((report) =>
+      (photosByReport.get(report.id) || []).map((photo) => {
+        const mismatch = captureDateMismatchDays(
+          photo.captured_at,
+          report.report_date,
+        );
+        return {
+          id: photo.id,
+          url: photo.url,
+          caption: photo.caption,
+          label: `${new Date(report.report_date).toLocaleDateString("en-US", {
+            year: "numeric",
+            month: "short",
+            day: "numeric",
+          })} · ${report.progress_percentage}%`,
+          capturedAt: photo.captured_at,
+          position:
+            photo.latitude !== null && photo.longitude !== null
+              ? { latitude: photo.latitude, longitude: photo.longitude }
+              : null,
+          warning:
+            mismatch === null
+              ? null
+              : `Taken ${Math.abs(mismatch)} day${
+                  Math.abs(mismatch) !== 1 ? "s" : ""
+                } ${mismatch < 0 ? "before" : "after"} the report date`,
+        };
+      }),
+    );
+
+// Evidence photos of a set of progress reports, with signed URLs, keyed by
+// work_progress_id. Photos whose file can't be signed are left out.
+export const useProgressEvidence = (workProgressIds: number[]) => {
+  const [photosByReport, setPhotosByReport] = useState<
+    Map<number, SignedEvidencePhoto[]>
+  >(new Map());
+  const [loading, setLoading] = useState(false);
+
+  // Callers usually build the id list inline; the joined key keeps the
+  // effect from re-running on every render.
+  const key = workProgressIds.join(",");
+
+  const load = useCallback(async () => {
+    const ids = key ? key.split(",").map(Number) : [];
+    if (ids.length === 0) {
+      setPhotosByReport(new Map());
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const photos = await fetchProgressEvidencePhotos(ids);
+      const urls = await getProgressEvidenceSignedUrls(
+        [...photos.values()].flat().map((p) => p.storage_path),
+      );
+
+      const signed = new Map<number, SignedEvidencePhoto[]>();
+      for (const [reportId, reportPhotos] of photos) {
+        const withUrls = reportPhotos
+          .filter((p) => urls.has(p.storage_path))
+          .map((p) => ({ ...p, url: urls.get(p.storage_path)! }));
+        if (withUrls.length) signed.set(reportId, withUrls);
+      }
+      setPhotosByReport(signed);
+    } catch (err) {
+      console.error("Error loading progress evidence:", err);
+      setPhotosByReport(new Map());
+    } finally {
+      setLoading(false);
+    }
+  }, [key]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { photosByReport, loading, reload: load };
+};
@@ -0,0 +1,13 @@
+export interface Customer {
+  id: number;
+  name: string;
+  legal_name: string | null;
+  npwp: string | null;
+  billing_address: string | null;
+  payment_terms_days: number | null;
+  invoice_recipient: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
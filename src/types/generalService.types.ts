@@ -5,6 +5,20 @@ export interface GeneralServiceType {
   display_order: number;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null;
+}
+
+// Effective-dated per-day price for a service type — see
+// src/utils/generalServicePrices.ts for how one is picked for a BASTP.
+export interface GeneralServiceTypePrice {
+  id: number;
+  service_type_id: number;
+  unit_price: number;
+  effective_from: string;
+  vessel_company: string | null;
+  vessel_type: string | null;
+  notes: string | null;
+  deleted_at: string | null;
 }
 
 export interface GeneralService {
@@ -1,4 +1,5 @@
 import type { GeneralService } from "./generalService.types";
+import type { InvoicePayment } from "../utils/invoicePayments";
 
 export interface InvoiceWorkDetails {
   id: number;
@@ -43,6 +44,12 @@ export interface Invoice {
   user_id: number;
   bastp_collection_date?: string | null;
   company?: string | null;
+  // Billing details copied from the customer on save — see utils/customers.ts.
+  customer_id?: number | null;
+  customer_legal_name?: string | null;
+  customer_npwp?: string | null;
+  customer_billing_address?: string | null;
+  customer_invoice_recipient?: string | null;
   invoice_number?: string | null;
   faktur_number?: string | null;
   due_date?: string | null;
@@ -57,6 +64,25 @@ export interface Invoice {
   ppn_applicable?: boolean;
   pph_23?: number;
   total_price_after?: number;
+  // Tax snapshot the amounts above were computed with — see utils/invoiceTax.ts.
+  ppn_rate?: number;
+  ppn_dpp_numerator?: number;
+  ppn_dpp_denominator?: number;
+  ppn_exemption_reason?: string | null;
+  pph_23_rate?: number;
+  pph_23_applicable?: boolean;
+  pph_23_exemption_reason?: string | null;
+  // Issue / amendment state — see 20260807150000_invoice_issue_and_amendments.sql.
+  issued_at?: string | null;
+  issued_by?: number | null;
+  revision?: number;
+  amendment_reason?: string | null;
+  amended_at?: string | null;
+  amended_by?: number | null;
+  // Derived from credit_notes — see utils/creditNotes.ts.
+  credited_total_after?: number;
+  credited_pph_23?: number;
+  cancelled_at?: string | null;
   bastp?: {
     id: number;
     number: string;
@@ -69,6 +95,7 @@ export interface Invoice {
       name: string;
       type: string;
       company: string;
+      customer_id?: number | null;
     };
     general_services?: GeneralService[];
   };
@@ -78,6 +105,36 @@ export interface Invoice {
     email: string;
   };
   invoice_work_details?: InvoiceWorkDetails[];
+  invoice_payments?: InvoicePayment[];
+  credit_notes?: CreditNote[];
+}
+
+export type CreditNoteKind = "PARTIAL" | "CANCELLATION";
+
+export interface CreditNoteLine {
+  id: number;
+  credit_note_id: number;
+  invoice_work_details_id: number | null;
+  general_service_id: number | null;
+  description: string | null;
+  amount: number;
+}
+
+export interface CreditNote {
+  id: number;
+  created_at: string;
+  deleted_at: string | null;
+  invoice_details_id: number;
+  user_id: number | null;
+  credit_note_number: string;
+  credit_note_date: string;
+  kind: CreditNoteKind;
+  reason: string;
+  total_price_before: number;
+  ppn: number;
+  pph_23: number;
+  total_price_after: number;
+  credit_note_lines?: CreditNoteLine[];
 }
 
 export interface InvoiceFormData {
@@ -90,7 +147,5 @@ export interface InvoiceFormData {
   delivery_date?: string;
   collection_date?: string;
   receiver_name?: string;
-  payment_status: boolean;
-  payment_date?: string;
   remarks?: string;
 }
@@ -42,6 +42,7 @@ export interface Vessel {
   name: string;
   type: string;
   company: string;
+  customer_id?: number | null;
 }
 
 export interface WorkOrder {
@@ -6,6 +6,7 @@ export interface Project {
   project_name: string;
   vessel_id: number;
   readiness_form_id: number | null;
+  cloned_from_project_id?: number | null;
   user_id: number;
 }
 
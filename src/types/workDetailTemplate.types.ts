@@ -0,0 +1,29 @@
+import type { MaterialList } from "./materialControl.types";
+
+// Material a standard job typically uses (reference only)
+export interface WorkDetailTemplateMaterial {
+  id: number;
+  template_id: number;
+  material_id: number;
+  typical_quantity: number | null;
+  uom: string | null;
+  material?: Pick<MaterialList, "id" | "material" | "specification"> | null;
+}
+
+// Standard job that can be added to a work order as a new work detail
+export interface WorkDetailTemplate {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  description: string;
+  work_scope_id: number;
+  work_type: string | null;
+  location_id: number | null;
+  default_quantity: number;
+  default_uom: string;
+  notes: string | null;
+  work_scope?: { id: number; work_scope: string } | null;
+  location?: { id: number; location: string } | null;
+  materials?: WorkDetailTemplateMaterial[];
+}
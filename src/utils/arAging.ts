@@ -0,0 +1,339 @@
+import ExcelJS from "exceljs";
+import {
+  summarizeInvoicePayments,
+  type PaymentLedgerFields,
+} from "./invoicePayments";
+
+/**
+ * Accounts-receivable aging. Every invoice with an outstanding ledger
+ * balance (see invoicePayments.ts) is bucketed by how many days past its
+ * due date it is on the report date. Invoices without a due_date are
+ * treated as due on their BASTP collection date (falling back to the day
+ * they were created), so they still age instead of sitting in "Not Yet Due"
+ * forever.
+ */
+
+export type AgingBucket =
+  "NOT_DUE" | "DAYS_0_30" | "DAYS_31_60" | "DAYS_61_90" | "DAYS_90_PLUS";
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  "NOT_DUE",
+  "DAYS_0_30",
+  "DAYS_31_60",
+  "DAYS_61_90",
+  "DAYS_90_PLUS",
+];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  NOT_DUE: "Not Yet Due",
+  DAYS_0_30: "0–30 Days",
+  DAYS_31_60: "31–60 Days",
+  DAYS_61_90: "61–90 Days",
+  DAYS_90_PLUS: "90+ Days",
+};
+
+export type AgingGroupBy = "company" | "vessel";
+
+/** The invoice_details columns (and embeds) the report selects. */
+export interface AgingInvoiceSource {
+  id: number;
+  created_at: string;
+  invoice_number: string | null;
+  company: string | null;
+  due_date: string | null;
+  bastp_collection_date: string | null;
+  total_price_after: number | null;
+  pph_23: number | null;
+  bastp: {
+    id: number;
+    number: string;
+    vessel: { id: number; name: string; company: string } | null;
+  } | null;
+  invoice_payments: PaymentLedgerFields[];
+  credit_notes: {
+    credit_note_date: string;
+    total_price_after: number;
+    pph_23: number;
+    deleted_at?: string | null;
+  }[];
+}
+
+export interface AgingInvoiceRow {
+  id: number;
+  invoiceNumber: string | null;
+  bastpNumber: string | null;
+  company: string;
+  vesselId: number | null;
+  vesselName: string;
+  dueDate: string;
+  /** True when dueDate is a fallback because the invoice has no due_date. */
+  dueDateAssumed: boolean;
+  /** Negative while the invoice is not yet due. */
+  daysOverdue: number;
+  bucket: AgingBucket;
+  amountDue: number;
+  outstanding: number;
+}
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export interface AgingGroup {
+  key: string;
+  company: string;
+  /** Only set when grouped by vessel. */
+  vesselName: string | null;
+  totals: AgingTotals;
+  invoices: AgingInvoiceRow[];
+}
+
+const NO_COMPANY = "(No company)";
+const NO_VESSEL = "(No vessel)";
+
+// Whole calendar days between two YYYY-MM-DD dates, immune to DST/timezone
+// shifts because both sides are taken as UTC midnight.
+const toDayNumber = (isoDate: string) => {
+  const [y, m, d] = isoDate.slice(0, 10).split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / 86_400_000;
+};
+
+export function getAgingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue < 0) return "NOT_DUE";
+  if (daysOverdue <= 30) return "DAYS_0_30";
+  if (daysOverdue <= 60) return "DAYS_31_60";
+  if (daysOverdue <= 90) return "DAYS_61_90";
+  return "DAYS_90_PLUS";
+}
+
+export function emptyAgingTotals(): AgingTotals {
+  return {
+    NOT_DUE: 0,
+    DAYS_0_30: 0,
+    DAYS_31_60: 0,
+    DAYS_61_90: 0,
+    DAYS_90_PLUS: 0,
+    total: 0,
+  };
+}
+
+export function sumAgingRows(rows: AgingInvoiceRow[]): AgingTotals {
+  const totals = emptyAgingTotals();
+  rows.forEach((row) => {
+    totals[row.bucket] += row.outstanding;
+    totals.total += row.outstanding;
+  });
+  return totals;
+}
+
+/**
+ * Open invoices only (outstanding > 0), oldest due date first. The balance
+ * is the one on asOf: invoices created later, and ledger entries and credit
+ * notes dated later, are left out, so a backdated report shows what was
+ * owed on that day.
+ */
+export function buildAgingRows(
+  invoices: AgingInvoiceSource[],
+  asOf: string,
+): AgingInvoiceRow[] {
+  const asOfDay = toDayNumber(asOf);
+
+  return invoices
+    .filter((invoice) => toDayNumber(invoice.created_at) <= asOfDay)
+    .map((invoice) => {
+      // The invoice's credited_* totals include notes issued after asOf.
+      const creditNotes = invoice.credit_notes.filter(
+        (note) =>
+          !note.deleted_at && toDayNumber(note.credit_note_date) <= asOfDay,
+      );
+      const summary = summarizeInvoicePayments(
+        {
+          total_price_after: invoice.total_price_after,
+          pph_23: invoice.pph_23,
+          credited_total_after: creditNotes.reduce(
+            (sum, note) => sum + Number(note.total_price_after),
+            0,
+          ),
+          credited_pph_23: creditNotes.reduce(
+            (sum, note) => sum + Number(note.pph_23),
+            0,
+          ),
+        },
+        invoice.invoice_payments.filter(
+          (p) => toDayNumber(p.payment_date) <= asOfDay,
+        ),
+      );
+      const dueDate =
+        invoice.due_date ||
+        invoice.bastp_collection_date ||
+        invoice.created_at.slice(0, 10);
+      const daysOverdue = asOfDay - toDayNumber(dueDate);
+      const vessel = invoice.bastp?.vessel ?? null;
+
+      return {
+        id: invoice.id,
+        invoiceNumber: invoice.invoice_number,
+        bastpNumber: invoice.bastp?.number ?? null,
+        company: vessel?.company || invoice.company || NO_COMPANY,
+        vesselId: vessel?.id ?? null,
+        vesselName: vessel?.name || NO_VESSEL,
+        dueDate,
+        dueDateAssumed: !invoice.due_date,
+        daysOverdue,
+        bucket: getAgingBucket(daysOverdue),
+        amountDue: summary.amountDue,
+        outstanding: summary.outstanding,
+      };
+    })
+    .filter((row) => row.outstanding > 0)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+/** Largest total first — the customers to chase come out on top. */
+export function groupAgingRows(
+  rows: AgingInvoiceRow[],
+  groupBy: AgingGroupBy,
+): AgingGroup[] {
+  const groups = new Map<string, AgingGroup>();
+
+  rows.forEach((row) => {
+    const key =
+      groupBy === "company"
+        ? row.company
+        : `${row.company}::${row.vesselId ?? row.vesselName}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        company: row.company,
+        vesselName: groupBy === "vessel" ? row.vesselName : null,
+        totals: emptyAgingTotals(),
+        invoices: [],
+      };
+      groups.set(key, group);
+    }
+    group.invoices.push(row);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => ({ ...group, totals: sumAgingRows(group.invoices) }))
+    .sort((a, b) => b.totals.total - a.totals.total);
+}
+
+// ─── XLSX export ──────────────────────────────────────────────────────────────
+
+const MONEY_FORMAT = "#,##0";
+
+function addAgingSheet(
+  wb: ExcelJS.Workbook,
+  sheetName: string,
+  headers: { label: string; width: number; money?: boolean }[],
+  rows: (string | number | null)[][],
+  totalsRow?: (string | number | null)[],
+): ExcelJS.Worksheet {
+  const ws = wb.addWorksheet(sheetName, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  headers.forEach((h, i) => {
+    const cell = ws.getCell(1, i + 1);
+    cell.value = h.label;
+    cell.font = { bold: true };
+    ws.getColumn(i + 1).width = h.width;
+    if (h.money) ws.getColumn(i + 1).numFmt = MONEY_FORMAT;
+  });
+  rows.forEach((row) => ws.addRow(row));
+  if (totalsRow) ws.addRow(totalsRow).font = { bold: true };
+  return ws;
+}
+
+const bucketHeaders = AGING_BUCKETS.map((bucket) => ({
+  label: AGING_BUCKET_LABELS[bucket],
+  width: 16,
+  money: true,
+}));
+
+const bucketValues = (totals: AgingTotals) => [
+  ...AGING_BUCKETS.map((bucket) => totals[bucket]),
+  totals.total,
+];
+
+export async function generateArAgingXLSX(
+  rows: AgingInvoiceRow[],
+  asOf: string,
+): Promise<Uint8Array> {
+  const wb = new ExcelJS.Workbook();
+  const grandTotals = sumAgingRows(rows);
+
+  addAgingSheet(
+    wb,
+    "By Company",
+    [
+      { label: "Company", width: 36 },
+      ...bucketHeaders,
+      { label: "Total Outstanding", width: 20, money: true },
+    ],
+    groupAgingRows(rows, "company").map((g) => [
+      g.company,
+      ...bucketValues(g.totals),
+    ]),
+    ["Total", ...bucketValues(grandTotals)],
+  );
+
+  addAgingSheet(
+    wb,
+    "By Vessel",
+    [
+      { label: "Company", width: 36 },
+      { label: "Vessel", width: 28 },
+      ...bucketHeaders,
+      { label: "Total Outstanding", width: 20, money: true },
+    ],
+    groupAgingRows(rows, "vessel").map((g) => [
+      g.company,
+      g.vesselName,
+      ...bucketValues(g.totals),
+    ]),
+    ["Total", null, ...bucketValues(grandTotals)],
+  );
+
+  addAgingSheet(
+    wb,
+    "Invoices",
+    [
+      { label: "Company", width: 36 },
+      { label: "Vessel", width: 28 },
+      { label: "Invoice Number", width: 24 },
+      { label: "BASTP Number", width: 24 },
+      { label: "Due Date", width: 14 },
+      { label: "Days Overdue", width: 14 },
+      { label: "Aging Bucket", width: 14 },
+      { label: "Amount Due", width: 20, money: true },
+      { label: "Outstanding", width: 20, money: true },
+    ],
+    rows.map((row) => [
+      row.company,
+      row.vesselName,
+      row.invoiceNumber || `#${row.id}`,
+      row.bastpNumber,
+      row.dueDateAssumed ? `${row.dueDate} (assumed)` : row.dueDate,
+      Math.max(0, row.daysOverdue),
+      AGING_BUCKET_LABELS[row.bucket],
+      row.amountDue,
+      row.outstanding,
+    ]),
+    [
+      "Total",
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      rows.reduce((sum, row) => sum + row.amountDue, 0),
+      grandTotals.total,
+    ],
+  );
+
+  wb.title = `AR Aging as of ${asOf}`;
+
+  const buf = await wb.xlsx.writeBuffer();
+  return new Uint8Array(buf as ArrayBuffer);
+}
@@ -1,4 +1,8 @@
-import { suggestSequentialNumber } from "./documentNumbering";
+import {
+  reserveSequentialNumber,
+  suggestSequentialNumber,
+  type DocumentNumberReservation,
+} from "./documentNumbering";
 
 /**
  * [####]/HR-PPIC/[Roman month]/[YYYY]
@@ -6,5 +10,11 @@ import { suggestSequentialNumber } from "./documentNumbering";
  * sequence number already used for that year, computed from the BASTP Date.
  */
 export async function suggestBastpNumber(bastpDate: string): Promise<string> {
-  return suggestSequentialNumber("bastp", "number", bastpDate, "HR-PPIC");
+  return suggestSequentialNumber("BASTP", bastpDate);
+}
+
+export async function reserveBastpNumber(
+  bastpDate: string,
+): Promise<DocumentNumberReservation> {
+  return reserveSequentialNumber("BASTP", bastpDate);
 }
@@ -0,0 +1,22 @@
+import {
+  reserveSequentialNumber,
+  suggestSequentialNumber,
+  type DocumentNumberReservation,
+} from "./documentNumbering";
+
+/**
+ * [####]/CN-GAL-SMD/[Roman month]/[YYYY]
+ * Its own series, separate from invoice numbers, counted from the credit
+ * note date.
+ */
+export async function suggestCreditNoteNumber(
+  creditNoteDate: string,
+): Promise<string> {
+  return suggestSequentialNumber("CREDIT_NOTE", creditNoteDate);
+}
+
+export async function reserveCreditNoteNumber(
+  creditNoteDate: string,
+): Promise<DocumentNumberReservation> {
+  return reserveSequentialNumber("CREDIT_NOTE", creditNoteDate);
+}
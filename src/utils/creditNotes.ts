@@ -0,0 +1,128 @@
+import type {
+  CreditNote,
+  CreditNoteKind,
+  Invoice,
+} from "../types/invoiceTypes";
+import {
+  calculateInvoiceTaxes,
+  getInvoiceTaxSnapshot,
+  type InvoiceTaxAmounts,
+} from "./invoiceTax";
+
+/**
+ * Credit notes (credit_notes / credit_note_lines — see
+ * 20260807140000_invoice_credit_notes.sql). Once an invoice has been sent
+ * (delivery_date set) it can't be edited; a credit note reverses some or
+ * all of its lines instead.
+ */
+
+export const CREDIT_NOTE_KIND_LABELS: Record<CreditNoteKind, string> = {
+  PARTIAL: "Partial Credit",
+  CANCELLATION: "Cancellation",
+};
+
+export function isInvoiceSent(invoice: {
+  delivery_date?: string | null;
+}): boolean {
+  return !!invoice.delivery_date;
+}
+
+/** An invoice line and how much of it is still open to be credited. */
+export interface CreditableLine {
+  key: string;
+  invoice_work_details_id: number | null;
+  general_service_id: number | null;
+  description: string;
+  invoiced: number;
+  credited: number;
+  remaining: number;
+}
+
+export const activeCreditNotes = (invoice: Pick<Invoice, "credit_notes">) =>
+  (invoice.credit_notes || []).filter((cn) => !cn.deleted_at);
+
+/**
+ * Priced lines of an invoice — general services first, then work details,
+ * the same order as the printout — with what earlier credit notes already
+ * reversed from each. General services are deduplicated per service type
+ * like ManageInvoice does, since that is what was billed.
+ */
+export function getCreditableLines(invoice: Invoice): CreditableLine[] {
+  const credited = new Map<string, number>();
+  activeCreditNotes(invoice).forEach((cn) =>
+    (cn.credit_note_lines || []).forEach((line) => {
+      const key = line.invoice_work_details_id
+        ? `iwd-${line.invoice_work_details_id}`
+        : `gs-${line.general_service_id}`;
+      credited.set(key, (credited.get(key) || 0) + Number(line.amount));
+    }),
+  );
+
+  const seenServiceTypes = new Set<number>();
+  const services = [...(invoice.bastp?.general_services || [])]
+    .sort(
+      (a, b) =>
+        (a.service_type?.display_order || 0) -
+        (b.service_type?.display_order || 0),
+    )
+    .filter((gs) => {
+      if (seenServiceTypes.has(gs.service_type_id)) return false;
+      seenServiceTypes.add(gs.service_type_id);
+      return (gs.payment_price || 0) > 0;
+    })
+    .map((gs) => ({
+      key: `gs-${gs.id}`,
+      invoice_work_details_id: null,
+      general_service_id: gs.id,
+      description: gs.service_type?.service_name || "General service",
+      invoiced: Number(gs.payment_price || 0),
+    }));
+
+  const workDetails = (invoice.invoice_work_details || [])
+    .filter((item) => (item.payment_price || 0) > 0)
+    .map((item) => ({
+      key: `iwd-${item.id}`,
+      invoice_work_details_id: item.id,
+      general_service_id: null,
+      description: item.work_details?.description || `Line #${item.id}`,
+      invoiced: Number(item.payment_price || 0),
+    }));
+
+  return [...services, ...workDetails].map((line) => {
+    const lineCredited = credited.get(line.key) || 0;
+    return {
+      ...line,
+      credited: lineCredited,
+      remaining: Math.max(0, line.invoiced - lineCredited),
+    };
+  });
+}
+
+/**
+ * Taxes for a credit note, from the credited invoice's own tax snapshot.
+ * A cancellation takes whatever PPN / PPh 23 is still uncredited rather
+ * than recomputing it, so rounding can't leave a stray Rupiah open on the
+ * invoice.
+ */
+export function calculateCreditNoteTaxes(
+  invoice: Invoice,
+  subtotal: number,
+  kind: CreditNoteKind,
+): InvoiceTaxAmounts {
+  const taxes = calculateInvoiceTaxes(
+    subtotal,
+    getInvoiceTaxSnapshot(invoice),
+    invoice.ppn_applicable !== false,
+  );
+  if (kind !== "CANCELLATION") return taxes;
+
+  const prior = activeCreditNotes(invoice);
+  const sum = (pick: (cn: CreditNote) => number) =>
+    prior.reduce((total, cn) => total + Number(pick(cn)), 0);
+  const ppn = Math.max(0, Number(invoice.ppn || 0) - sum((cn) => cn.ppn));
+  const pph23 = Math.max(
+    0,
+    Number(invoice.pph_23 || 0) - sum((cn) => cn.pph_23),
+  );
+  return { ...taxes, ppn, pph23, totalAfter: subtotal + ppn - pph23 };
+}
@@ -0,0 +1,295 @@
+import { supabase } from "../lib/supabase";
+import { ActivityLogService } from "../services/activityLogService";
+import { daysBetween, shiftDate } from "./deadlineUtils";
+import { getLatestProgressRecord } from "./progressPercentage";
+
+// Work detail dependencies (finish-to-start, see
+// 20260807230000_work_detail_dependencies.sql) and the forecast they imply.
+
+export interface DependencyLink {
+  id: number;
+  predecessor_id: number;
+  successor_id: number;
+}
+
+export interface ScheduleItem {
+  id: number;
+  description: string;
+  planned_start_date: string | null;
+  target_close_date: string | null;
+  actual_start_date?: string | null;
+  actual_close_date?: string | null;
+  progress: number;
+}
+
+export interface Forecast {
+  id: number;
+  start: string;
+  finish: string;
+  // Days the forecast finish runs past target_close_date (0 when on time).
+  lateDays: number;
+  // The predecessor whose finish holds this item's start back, if any.
+  drivenBy: number | null;
+}
+
+export interface CriticalPathResult {
+  plannedEnd: string | null;
+  forecastEnd: string;
+  // Positive when the forecast end is later than the planned end.
+  slipDays: number;
+  // From the item that starts the chain to the one that finishes last.
+  path: Forecast[];
+}
+
+/**
+ * Forecast start/finish per work detail. Done work keeps its actual (else
+ * target) dates; work that hasn't started waits for its latest predecessor
+ * and keeps its planned duration; unfinished work can't finish before
+ * today. Items with no dates at all get no forecast.
+ */
+export function forecastSchedule(
+  items: ScheduleItem[],
+  links: DependencyLink[],
+  today: string,
+): Map<number, Forecast> {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const predecessors = new Map<number, number[]>();
+  for (const link of links) {
+    if (!byId.has(link.predecessor_id) || !byId.has(link.successor_id)) {
+      continue;
+    }
+    predecessors.set(link.successor_id, [
+      ...(predecessors.get(link.successor_id) || []),
+      link.predecessor_id,
+    ]);
+  }
+
+  const result = new Map<number, Forecast>();
+  const visiting = new Set<number>();
+
+  const visit = (id: number): Forecast | null => {
+    if (result.has(id)) return result.get(id)!;
+    // The database rejects cycles; this only guards against stale data.
+    if (visiting.has(id)) return null;
+    visiting.add(id);
+
+    const item = byId.get(id)!;
+    const planned = item.planned_start_date?.slice(0, 10) || null;
+    const target = item.target_close_date?.slice(0, 10) || null;
+    const actualStart = item.actual_start_date?.slice(0, 10) || null;
+    const actualClose = item.actual_close_date?.slice(0, 10) || null;
+    const duration =
+      planned && target ? Math.max(daysBetween(planned, target), 0) : 0;
+
+    let forecast: Forecast | null = null;
+    if (item.progress >= 100 || actualClose) {
+      const finish = actualClose || target || actualStart || planned;
+      if (finish) {
+        forecast = {
+          id,
+          start: actualStart || planned || finish,
+          finish,
+          lateDays: target ? Math.max(daysBetween(target, finish), 0) : 0,
+          drivenBy: null,
+        };
+      }
+    } else {
+      let start = actualStart || planned;
+      let drivenBy: number | null = null;
+      if (!actualStart) {
+        for (const predecessorId of predecessors.get(id) || []) {
+          const predecessor = visit(predecessorId);
+          if (!predecessor) continue;
+          const earliest = shiftDate(predecessor.finish, 1);
+          if (!start || earliest > start) {
+            start = earliest;
+            drivenBy = predecessorId;
+          }
+        }
+      }
+      if (start) {
+        let finish = shiftDate(start, duration);
+        if (finish < today) finish = today;
+        forecast = {
+          id,
+          start,
+          finish,
+          lateDays: target ? Math.max(daysBetween(target, finish), 0) : 0,
+          drivenBy,
+        };
+      }
+    }
+
+    visiting.delete(id);
+    if (forecast) result.set(id, forecast);
+    return forecast;
+  };
+
+  items.forEach((item) => visit(item.id));
+  return result;
+}
+
+/**
+ * The chain that sets the project's forecast end. `items` are the work
+ * details that define the project deadline (original work orders, as in
+ * ProjectDetails); predecessors elsewhere in the project still count.
+ */
+export function findCriticalPath(
+  items: ScheduleItem[],
+  allItems: ScheduleItem[],
+  links: DependencyLink[],
+  plannedEnd: string | null,
+  today: string,
+): CriticalPathResult | null {
+  const forecasts = forecastSchedule(allItems, links, today);
+  const ids = new Set(items.map((item) => item.id));
+  const last = [...forecasts.values()]
+    .filter((f) => ids.has(f.id))
+    .sort(
+      (a, b) => b.finish.localeCompare(a.finish) || b.lateDays - a.lateDays,
+    )[0];
+  if (!last) return null;
+
+  const path: Forecast[] = [last];
+  let current = last;
+  while (current.drivenBy !== null) {
+    const previous = forecasts.get(current.drivenBy);
+    if (!previous || path.includes(previous)) break;
+    path.unshift(previous);
+    current = previous;
+  }
+
+  return {
+    plannedEnd,
+    forecastEnd: last.finish,
+    slipDays: plannedEnd ? daysBetween(plannedEnd, last.finish) : 0,
+    path,
+  };
+}
+
+export const latestProgress = (
+  records: {
+    progress_percentage: number;
+    report_date: string;
+    created_at: string;
+  }[],
+) => getLatestProgressRecord(records || [])?.progress_percentage || 0;
+
+/** Links whose successor is one of these work details. */
+export async function fetchDependencies(
+  workDetailIds: number[],
+): Promise<DependencyLink[]> {
+  if (workDetailIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("work_detail_dependencies")
+    .select("id, predecessor_id, successor_id")
+    .in("successor_id", workDetailIds);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function addDependency(
+  predecessor: { id: number; description: string },
+  successor: { id: number; description: string },
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("work_detail_dependencies")
+    .insert({ predecessor_id: predecessor.id, successor_id: successor.id })
+    .select()
+    .single();
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("These work details are already linked.");
+    }
+    throw error;
+  }
+
+  await ActivityLogService.logActivity({
+    action: "create",
+    tableName: "work_detail_dependencies",
+    recordId: data.id,
+    newData: data,
+    description: `Linked "${successor.description}" to wait for "${predecessor.description}"`,
+  });
+}
+
+export async function removeDependency(
+  link: DependencyLink,
+  description: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("work_detail_dependencies")
+    .delete()
+    .eq("id", link.id);
+  if (error) throw error;
+
+  await ActivityLogService.logActivity({
+    action: "delete",
+    tableName: "work_detail_dependencies",
+    recordId: link.id,
+    oldData: link,
+    description,
+  });
+}
+
+/**
+ * Predecessors of a work detail that aren't at 100% yet — while there are
+ * any, progress can't be reported on it (enforced again by
+ * trg_work_progress_predecessors).
+ */
+export async function fetchBlockingPredecessors(
+  workDetailsId: number,
+): Promise<{ id: number; description: string; progress: number }[]> {
+  return (
+    (await fetchBlockingPredecessorsFor([workDetailsId])).get(workDetailsId) ??
+    []
+  );
+}
+
+// Same as fetchBlockingPredecessors for many work details in one request,
+// keyed by successor id; unblocked ones are absent.
+export async function fetchBlockingPredecessorsFor(
+  workDetailIds: number[],
+): Promise<
+  Map<number, { id: number; description: string; progress: number }[]>
+> {
+  const blockers = new Map<
+    number,
+    { id: number; description: string; progress: number }[]
+  >();
+  if (workDetailIds.length === 0) return blockers;
+
+  const { data, error } = await supabase
+    .from("work_detail_dependencies")
+    .select(
+      `
+      successor_id,
+      predecessor:predecessor_id (
+        id,
+        description,
+        deleted_at,
+        cancelled_at,
+        work_progress ( progress_percentage, report_date, created_at, deleted_at )
+      )
+    `,
+    )
+    .in("successor_id", workDetailIds);
+  if (error) throw error;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  for (const row of (data as any[]) || []) {
+    const p = row.predecessor;
+    if (!p || p.deleted_at || p.cancelled_at) continue;
+    const progress = latestProgress(
+      (p.work_progress || []).filter(
+        (wp: { deleted_at: string | null }) => !wp.deleted_at,
+      ),
+    );
+    if (progress >= 100) continue;
+    blockers.set(row.successor_id, [
+      ...(blockers.get(row.successor_id) || []),
+      { id: p.id, description: p.description, progress },
+    ]);
+  }
+  return blockers;
+}
@@ -0,0 +1,55 @@
+import { supabase } from "../lib/supabase";
+import type { Customer } from "../types/customer.types";
+
+/**
+ * Customer billing details (see 20260807180000_customers.sql). An invoice
+ * copies them into its customer_* columns when saved, so the print page
+ * reads the invoice, not the current customer row.
+ */
+
+/** The invoice_details columns copied from the billed customer. */
+export interface InvoiceCustomerSnapshot {
+  customer_id: number | null;
+  customer_legal_name: string | null;
+  customer_npwp: string | null;
+  customer_billing_address: string | null;
+  customer_invoice_recipient: string | null;
+}
+
+export function buildInvoiceCustomerSnapshot(
+  customer: Customer | null | undefined,
+): InvoiceCustomerSnapshot {
+  return {
+    customer_id: customer?.id ?? null,
+    customer_legal_name: customer?.legal_name || null,
+    customer_npwp: customer?.npwp || null,
+    customer_billing_address: customer?.billing_address || null,
+    customer_invoice_recipient: customer?.invoice_recipient || null,
+  };
+}
+
+/**
+ * Due date (yyyy-mm-dd) from the customer's payment terms, counted from the
+ * invoice date. Null when either is missing.
+ */
+export function dueDateFromTerms(
+  invoiceDate: string | null | undefined,
+  paymentTermsDays: number | null | undefined,
+): string | null {
+  if (!invoiceDate || paymentTermsDays == null) return null;
+  const date = new Date(`${invoiceDate}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return null;
+  date.setUTCDate(date.getUTCDate() + paymentTermsDays);
+  return date.toISOString().slice(0, 10);
+}
+
+/** All customers, active and removed, ordered by name. */
+export async function fetchCustomers(): Promise<Customer[]> {
+  const { data, error } = await supabase
+    .from("customers")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as Customer[];
+}
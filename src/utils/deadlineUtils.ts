@@ -8,6 +8,21 @@ interface WorkDetailDates {
   target_close_date?: string | null;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtc = (date: string) => {
+  const [y, m, d] = date.slice(0, 10).split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+// Whole days from one ISO date to another (negative when `to` is earlier).
+// Works in UTC so a DST change in between can't cost or add a day.
+export const daysBetween = (from: string, to: string) =>
+  Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+
+export const shiftDate = (date: string, days: number) =>
+  new Date(toUtc(date) + days * DAY_MS).toISOString().slice(0, 10);
+
 // Earliest planned_start_date and latest target_close_date across a set of
 // work details. ISO date strings (YYYY-MM-DD) sort correctly as plain strings.
 export function computeDateRange(workDetails: WorkDetailDates[]): DateRange {
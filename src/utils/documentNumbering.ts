@@ -1,55 +1,97 @@
 import { supabase } from "../lib/supabase";
 
-export const ROMAN_MONTHS = [
-  "I",
-  "II",
-  "III",
-  "IV",
-  "V",
-  "VI",
-  "VII",
-  "VIII",
-  "IX",
-  "X",
-  "XI",
-  "XII",
-];
+/**
+ * Every auto-generated document number in this app follows the same
+ * "NNNN/<suffix>/<roman month>/<year>" shape; the suffix per type lives
+ * server-side in document_number_series (see
+ * 20260806100000_server_side_document_numbering.sql).
+ */
+export type DocumentNumberType =
+  | "WORK_ORDER"
+  | "BASTP"
+  | "INVOICE"
+  | "CREDIT_NOTE";
+
+export interface DocumentNumberReservation {
+  reservationId: number;
+  documentNumber: string;
+}
 
 /**
- * Shared engine behind every auto-generated document number in this app
- * (Work Order, BASTP, Invoice) — all follow the same
- * "NNNN/<suffix>/<roman month>/<year>" shape. NNNN is one past the highest
- * sequence number already used for that calendar year (derived from
- * `date`), scoped to soft-deleted-aware rows in `table`.
+ * Preview of the next number for this document type, for the locked number
+ * field on the Add/Create forms. Read-only — two users can be shown the same
+ * preview; the number actually saved comes from reserveSequentialNumber().
+ * NNNN resets per calendar year of `date`, not today's date, so a backdated
+ * document lands in the right year's sequence.
  */
 export async function suggestSequentialNumber(
-  table: string,
-  column: string,
+  docType: DocumentNumberType,
   date: string,
-  suffix: string,
 ): Promise<string> {
-  const [yearStr, monthStr] = date.split("-");
-  const year = parseInt(yearStr, 10);
-  const roman = ROMAN_MONTHS[parseInt(monthStr, 10) - 1];
+  const { data, error } = await supabase.rpc("peek_document_number", {
+    p_doc_type: docType,
+    p_date: date,
+  });
 
-  const { data, error } = await supabase
-    .from(table)
-    .select(column)
-    .is("deleted_at", null)
-    .like(column, `%/${year}`);
+  if (error) throw error;
+  return data as string;
+}
+
+/**
+ * Atomically takes the next number for this document type. Call it right
+ * before inserting the document, and hand the reservation back through
+ * releaseSequentialNumber() if that insert fails — the server marks it used
+ * on its own once a row carrying the number is saved.
+ */
+export async function reserveSequentialNumber(
+  docType: DocumentNumberType,
+  date: string,
+): Promise<DocumentNumberReservation> {
+  const { data, error } = await supabase.rpc("reserve_document_number", {
+    p_doc_type: docType,
+    p_date: date,
+  });
 
   if (error) throw error;
 
-  // `column` is a runtime string, so supabase-js can't infer the row shape
-  // here — this helper is only ever called with a real text column.
-  const rows = (data || []) as unknown as Record<string, unknown>[];
+  const row = (data as { reservation_id: number; document_number: string }[])[0];
+  return {
+    reservationId: row.reservation_id,
+    documentNumber: row.document_number,
+  };
+}
+
+/**
+ * Logs a reserved-but-never-saved number as a gap. Best effort: a failure
+ * here must not mask the error that caused the release in the first place,
+ * and the server sweeps abandoned reservations into the gap log anyway.
+ */
+export async function releaseSequentialNumber(
+  reservation: DocumentNumberReservation | null,
+): Promise<void> {
+  if (!reservation) return;
 
-  const maxSeq = rows.reduce((max: number, row: Record<string, unknown>) => {
-    const value = row[column];
-    const match = typeof value === "string" ? value.match(/^(\d+)\//) : null;
-    const n = match ? parseInt(match[1], 10) : NaN;
-    return !Number.isNaN(n) && n > max ? n : max;
-  }, 0);
+  const { error } = await supabase.rpc("release_document_number", {
+    p_reservation_id: reservation.reservationId,
+  });
 
-  return `${String(maxSeq + 1).padStart(4, "0")}/${suffix}/${roman}/${year}`;
+  if (error) {
+    console.error("Error releasing document number:", error);
+  }
+}
+
+/**
+ * Message for the Add/Create forms when the number they were showing was
+ * taken by someone else between the preview and the save, or null if the
+ * document got the number that was on screen.
+ */
+export function describeTakenNumber(
+  documentLabel: string,
+  suggestedNumber: string,
+  reservation: DocumentNumberReservation,
+): string | null {
+  if (!suggestedNumber || suggestedNumber === reservation.documentNumber) {
+    return null;
+  }
+  return `${documentLabel} number ${suggestedNumber} was taken by another user before you saved. This ${documentLabel.toLowerCase()} was saved as ${reservation.documentNumber} instead.`;
 }
@@ -0,0 +1,221 @@
+import { EVIDENCE_CAPTURE_TOLERANCE_DAYS } from "../constants/evidencePhotos";
+import { daysBetween } from "./deadlineUtils";
+
+export interface EvidenceMetadata {
+  // Camera wall-clock time, "YYYY-MM-DDTHH:MM:SS" — EXIF doesn't reliably
+  // carry a time zone.
+  capturedAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const EMPTY: EvidenceMetadata = {
+  capturedAt: null,
+  latitude: null,
+  longitude: null,
+};
+
+// EXIF sits in the APP1 segment near the start of a JPEG; this is plenty.
+const EXIF_SCAN_BYTES = 256 * 1024;
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  // Offset (from the TIFF header) of the value, or of the entry's inline
+  // value field when it fits in four bytes.
+  valueOffset: number;
+}
+
+function readIfd(
+  view: DataView,
+  tiff: number,
+  offset: number,
+  little: boolean,
+): Map<number, IfdEntry> {
+  const entries = new Map<number, IfdEntry>();
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size =
+      valueCount *
+      (type === TYPE_RATIONAL
+        ? 8
+        : type === TYPE_LONG
+          ? 4
+          : type === TYPE_SHORT
+            ? 2
+            : 1);
+    entries.set(view.getUint16(entry, little), {
+      type,
+      count: valueCount,
+      valueOffset:
+        size > 4 ? view.getUint32(entry + 8, little) : entry + 8 - tiff,
+    });
+  }
+  return entries;
+}
+
+function readAscii(
+  view: DataView,
+  tiff: number,
+  entry?: IfdEntry,
+): string | null {
+  if (!entry || entry.type !== TYPE_ASCII) return null;
+  let text = "";
+  for (let i = 0; i < entry.count; i++) {
+    const at = tiff + entry.valueOffset + i;
+    if (at >= view.byteLength) break;
+    const code = view.getUint8(at);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim() || null;
+}
+
+function readDegrees(
+  view: DataView,
+  tiff: number,
+  little: boolean,
+  entry?: IfdEntry,
+): number | null {
+  if (!entry || entry.type !== TYPE_RATIONAL || entry.count < 3) return null;
+  const parts: number[] = [];
+  for (let i = 0; i < 3; i++) {
+    const at = tiff + entry.valueOffset + i * 8;
+    if (at + 8 > view.byteLength) return null;
+    const denominator = view.getUint32(at + 4, little);
+    parts.push(denominator ? view.getUint32(at, little) / denominator : 0);
+  }
+  return parts[0] + parts[1] / 60 + parts[2] / 3600;
+}
+
+// "2026:08:12 14:03:55" -> "2026-08-12T14:03:55"
+function parseExifDate(value: string | null): string | null {
+  const match = value?.match(
+    /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/,
+  );
+  if (!match || match[1] === "0000") return null;
+  const [, y, m, d, hh, mm, ss] = match;
+  return `${y}-${m}-${d}T${hh}:${mm}:${ss}`;
+}
+
+function parseTiff(view: DataView, tiff: number): EvidenceMetadata {
+  const byteOrder = view.getUint16(tiff);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return EMPTY;
+  const little = byteOrder === 0x4949;
+  if (view.getUint16(tiff + 2, little) !== 42) return EMPTY;
+
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+
+  let capturedAt: string | null = null;
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  if (exifPointer) {
+    const exif = readIfd(
+      view,
+      tiff,
+      view.getUint32(tiff + exifPointer.valueOffset, little),
+      little,
+    );
+    capturedAt = parseExifDate(
+      readAscii(view, tiff, exif.get(TAG_DATE_TIME_ORIGINAL)),
+    );
+  }
+  // IFD0 DateTime is the last-modified time, but it's better than nothing
+  // for cameras that don't write DateTimeOriginal.
+  capturedAt ??= parseExifDate(readAscii(view, tiff, ifd0.get(TAG_DATE_TIME)));
+
+  let latitude: number | null = null;
+  let longitude: number | null = null;
+  const gpsPointer = ifd0.get(TAG_GPS_IFD);
+  if (gpsPointer) {
+    const gps = readIfd(
+      view,
+      tiff,
+      view.getUint32(tiff + gpsPointer.valueOffset, little),
+      little,
+    );
+    const lat = readDegrees(view, tiff, little, gps.get(TAG_GPS_LATITUDE));
+    const lon = readDegrees(view, tiff, little, gps.get(TAG_GPS_LONGITUDE));
+    // 0,0 is what some phones write when they had no fix.
+    if (lat !== null && lon !== null && (lat !== 0 || lon !== 0)) {
+      latitude =
+        readAscii(view, tiff, gps.get(TAG_GPS_LATITUDE_REF)) === "S"
+          ? -lat
+          : lat;
+      longitude =
+        readAscii(view, tiff, gps.get(TAG_GPS_LONGITUDE_REF)) === "W"
+          ? -lon
+          : lon;
+    }
+  }
+
+  return { capturedAt, latitude, longitude };
+}
+
+/**
+ * Capture time and GPS position from a JPEG's EXIF block. Anything that
+ * isn't a JPEG, has no EXIF, or is malformed yields nulls rather than an
+ * error — metadata is a nice-to-have on evidence, never a reason to block
+ * the upload.
+ */
+export async function readEvidenceMetadata(
+  file: File,
+): Promise<EvidenceMetadata> {
+  try {
+    const view = new DataView(
+      await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer(),
+    );
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return EMPTY;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00) break;
+      const length = view.getUint16(offset + 2);
+      // APP1 carrying "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        return parseTiff(view, offset + 10);
+      }
+      // Start of scan: image data follows, no more metadata segments.
+      if (marker === 0xffda) break;
+      offset += 2 + length;
+    }
+  } catch (err) {
+    console.error("Could not read photo metadata:", err);
+  }
+  return EMPTY;
+}
+
+/**
+ * Whole days between when a photo was taken and its report's report_date,
+ * when that's more than the tolerance — null when it's within tolerance or
+ * the capture time is unknown.
+ */
+export function captureDateMismatchDays(
+  capturedAt: string | null | undefined,
+  reportDate: string,
+): number | null {
+  if (!capturedAt) return null;
+  const days = daysBetween(reportDate, capturedAt.slice(0, 10));
+  return Math.abs(days) > EVIDENCE_CAPTURE_TOLERANCE_DAYS ? days : null;
+}
@@ -206,6 +206,19 @@ export const downloadFile = (
   URL.revokeObjectURL(url);
 };
 
+// Download a generated workbook (ExcelJS writeBuffer output)
+export const downloadXLSX = (buffer: Uint8Array, filename: string) => {
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
 // Function to remove financial data from invoice info
 const sanitizeInvoiceData = (
   invoiceInfo: Partial<ExportRow>,
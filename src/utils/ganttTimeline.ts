@@ -0,0 +1,124 @@
+import { daysBetween, shiftDate } from "./deadlineUtils";
+
+// Layout math for the project Gantt chart. Dates are ISO (YYYY-MM-DD) and a
+// bar covers its end day, so a job planned 1–3 March is three days wide.
+
+export interface ScheduledDates {
+  planned_start_date?: string | null;
+  target_close_date?: string | null;
+  actual_start_date?: string | null;
+  actual_close_date?: string | null;
+}
+
+export interface GanttBounds {
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface GanttSpan {
+  left: number;
+  width: number;
+}
+
+const MONTH_LABELS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+export function todayIso(): string {
+  const now = new Date();
+  const mm = String(now.getMonth() + 1).padStart(2, "0");
+  const dd = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${mm}-${dd}`;
+}
+
+// Work that started but hasn't closed runs up to today.
+export function actualEnd(
+  wd: ScheduledDates,
+  today: string = todayIso(),
+): string | null {
+  if (!wd.actual_start_date) return null;
+  return wd.actual_close_date || today;
+}
+
+// Every planned and actual date, padded by a few days each side so bars
+// don't touch the chart edges. Null when nothing is scheduled yet.
+export function computeGanttBounds(
+  items: ScheduledDates[],
+  today: string = todayIso(),
+): GanttBounds | null {
+  const dates = items
+    .flatMap((wd) => [
+      wd.planned_start_date,
+      wd.target_close_date,
+      wd.actual_start_date,
+      actualEnd(wd, today),
+    ])
+    .filter((d): d is string => !!d)
+    .map((d) => d.slice(0, 10))
+    .sort();
+  if (!dates.length) return null;
+
+  const start = shiftDate(dates[0], -3);
+  const end = shiftDate(dates[dates.length - 1], 3);
+  return { start, end, days: daysBetween(start, end) + 1 };
+}
+
+export function ganttOffset(bounds: GanttBounds, date: string): number {
+  return (daysBetween(bounds.start, date) / bounds.days) * 100;
+}
+
+// Left/width in percent of the chart. A missing start or end collapses the
+// bar to the one known day; both missing means nothing to draw.
+export function ganttSpan(
+  bounds: GanttBounds,
+  start: string | null | undefined,
+  end: string | null | undefined,
+): GanttSpan | null {
+  const from = start || end;
+  const to = end || start;
+  if (!from || !to) return null;
+  const [a, b] = from <= to ? [from, to] : [to, from];
+  return {
+    left: ganttOffset(bounds, a),
+    width: ((daysBetween(a, b) + 1) / bounds.days) * 100,
+  };
+}
+
+// First-of-month gridlines inside the bounds, labelled "Mar 2026".
+export function monthTicks(
+  bounds: GanttBounds,
+): { date: string; label: string; left: number }[] {
+  const [year, month, day] = bounds.start.split("-").map(Number);
+  const ticks = [];
+  let y = year;
+  // 0-based month of the first tick: this month if the chart starts on the
+  // 1st, otherwise the next one.
+  let m = day === 1 ? month - 1 : month;
+  for (;;) {
+    if (m === 12) {
+      m = 0;
+      y += 1;
+    }
+    const date = `${y}-${String(m + 1).padStart(2, "0")}-01`;
+    if (date > bounds.end) break;
+    ticks.push({
+      date,
+      label: `${MONTH_LABELS[m]} ${y}`,
+      left: ganttOffset(bounds, date),
+    });
+    m += 1;
+  }
+  return ticks;
+}
@@ -0,0 +1,84 @@
+import { supabase } from "../lib/supabase";
+import type { GeneralServiceTypePrice } from "../types/generalService.types";
+
+/**
+ * General service price list (see 20260807170000_general_service_price_list.sql).
+ * A price applies to a BASTP when it is effective on or before the BASTP
+ * date and its vessel company / vessel type scope (if any) matches the
+ * BASTP's vessel. Among those, the most specific scope wins, then the
+ * latest effective_from. The resolved price is copied onto
+ * general_services.unit_price, so nothing here re-prices saved rows.
+ */
+
+export interface PricedVessel {
+  company?: string | null;
+  type?: string | null;
+}
+
+const normalize = (value: string | null | undefined) =>
+  (value || "").trim().replace(/\s+/g, " ").toLowerCase();
+
+// Company outranks type, so a customer-specific price beats a
+// vessel-type price.
+const scopeRank = (price: GeneralServiceTypePrice) =>
+  (price.vessel_company ? 2 : 0) + (price.vessel_type ? 1 : 0);
+
+export function describePriceScope(price: {
+  vessel_company: string | null;
+  vessel_type: string | null;
+}): string {
+  const parts = [price.vessel_company, price.vessel_type].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "All vessels";
+}
+
+/** The price that applies to one service type, or null if none does. */
+export function pickGeneralServicePrice(
+  prices: GeneralServiceTypePrice[],
+  serviceTypeId: number,
+  date: string,
+  vessel: PricedVessel | null | undefined,
+): GeneralServiceTypePrice | null {
+  const company = normalize(vessel?.company);
+  const type = normalize(vessel?.type);
+
+  const candidates = prices.filter(
+    (p) =>
+      !p.deleted_at &&
+      p.service_type_id === serviceTypeId &&
+      p.effective_from <= date &&
+      (!p.vessel_company || normalize(p.vessel_company) === company) &&
+      (!p.vessel_type || normalize(p.vessel_type) === type),
+  );
+
+  candidates.sort(
+    (a, b) =>
+      scopeRank(b) - scopeRank(a) ||
+      b.effective_from.localeCompare(a.effective_from),
+  );
+  return candidates[0] ?? null;
+}
+
+/**
+ * Per-day unit price for every service type that has one on this date for
+ * this vessel, keyed by service_type_id.
+ */
+export async function resolveGeneralServicePrices(
+  date: string,
+  vessel: PricedVessel | null | undefined,
+): Promise<Record<number, number>> {
+  const { data, error } = await supabase
+    .from("general_service_prices")
+    .select("*")
+    .is("deleted_at", null)
+    .lte("effective_from", date);
+
+  if (error) throw error;
+
+  const prices = (data || []) as GeneralServiceTypePrice[];
+  const resolved: Record<number, number> = {};
+  for (const serviceTypeId of new Set(prices.map((p) => p.service_type_id))) {
+    const price = pickGeneralServicePrice(prices, serviceTypeId, date, vessel);
+    if (price) resolved[serviceTypeId] = Number(price.unit_price);
+  }
+  return resolved;
+}
@@ -0,0 +1,59 @@
+export interface CompressOptions {
+  maxDimension: number;
+  quality: number;
+}
+
+const toJpegName = (name: string) => `${name.replace(/\.[^.]+$/, "")}.jpg`;
+
+/**
+ * Scales an image down so its longest edge fits maxDimension and re-encodes
+ * it as JPEG. The original is returned unchanged when the browser can't
+ * decode it, when it's a GIF (which may be animated), or when re-encoding
+ * wouldn't make it smaller. Canvas drops EXIF, so read metadata from the
+ * original first (see evidenceMetadata.ts).
+ */
+export async function compressImage(
+  file: File,
+  { maxDimension, quality }: CompressOptions,
+): Promise<File> {
+  if (file.type === "image/gif") return file;
+
+  let bitmap: ImageBitmap;
+  try {
+    // Applies the EXIF orientation, so portrait phone shots stay upright.
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    return file;
+  }
+
+  const scale = Math.min(
+    1,
+    maxDimension / Math.max(bitmap.width, bitmap.height),
+  );
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    return file;
+  }
+  // JPEG has no transparency; PNG cut-outs would otherwise turn black.
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", quality),
+  );
+  if (!blob || blob.size >= file.size) return file;
+
+  return new File([blob], toJpegName(file.name), {
+    type: "image/jpeg",
+    lastModified: file.lastModified,
+  });
+}
@@ -2,6 +2,11 @@ import { supabase } from "../lib/supabase";
 import * as XLSX from "xlsx";
 import ExcelJS from "exceljs";
 import { WORK_TYPE_OPTIONS } from "../constants/workTypes";
+import {
+  getPreviousProgressRecord,
+  parseRegressionReason,
+  type RegressionReason,
+} from "./progressPercentage";
 
 // ─── Sample real work orders (for Work Details / Progress template samples) ──
 //
@@ -143,12 +148,26 @@ interface MasterData {
   locationNames: string[];
   workScopesByNorm: Map<string, number>;
   workScopeNames: string[];
+  // description_lower -> job library template
+  templatesByNorm: Map<string, ImportJobTemplate>;
+  templateNames: string[];
   // "vesselId:wo_number_lower" -> id
   workOrdersByKey: Map<string, number>;
   // "workOrderId:description_lower" -> id
   workDetailsByKey: Map<string, number>;
 }
 
+// What a job_template fills in on a Work Details row (see
+// 20260807200000_work_detail_templates.sql).
+interface ImportJobTemplate {
+  id: number;
+  description: string;
+  location: string;
+  work_scope: string;
+  quantity: string;
+  uom: string;
+}
+
 let masterDataCache: MasterData | null = null;
 let masterDataPromise: Promise<MasterData> | null = null;
 
@@ -157,8 +176,15 @@ async function getMasterData(): Promise<MasterData> {
   if (masterDataPromise) return masterDataPromise;
 
   masterDataPromise = (async () => {
-    const [vesselsRes, kaprosRes, locationsRes, workScopesRes, workOrdersRes, workDetailsRes] =
-      await Promise.all([
+    const [
+      vesselsRes,
+      kaprosRes,
+      locationsRes,
+      workScopesRes,
+      workOrdersRes,
+      workDetailsRes,
+      templatesRes,
+    ] = await Promise.all([
         supabase.from("vessel").select("id, name").is("deleted_at", null),
         supabase.from("kapro").select("id, kapro_name").is("deleted_at", null),
         supabase.from("location").select("id, location").is("deleted_at", null),
@@ -171,6 +197,12 @@ async function getMasterData(): Promise<MasterData> {
           .from("work_details")
           .select("id, work_order_id, description")
           .is("deleted_at", null),
+        supabase
+          .from("work_detail_templates")
+          .select(
+            "id, description, default_quantity, default_uom, location:location_id(location), work_scope:work_scope_id(work_scope)",
+          )
+          .is("deleted_at", null),
       ]);
 
     const vesselsByNorm = new Map<string, number>();
@@ -209,6 +241,24 @@ async function getMasterData(): Promise<MasterData> {
       workScopeNames.push(name.trim());
     }
 
+    const templatesByNorm = new Map<string, ImportJobTemplate>();
+    const templateNames: string[] = [];
+    for (const t of templatesRes.data ?? []) {
+      const description = (t.description as string) ?? "";
+      if (!description.trim()) continue;
+      templatesByNorm.set(description.toLowerCase().trim(), {
+        id: t.id as number,
+        description: description.trim(),
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        location: ((t.location as any)?.location as string) ?? "",
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        work_scope: ((t.work_scope as any)?.work_scope as string) ?? "",
+        quantity: String(t.default_quantity ?? ""),
+        uom: (t.default_uom as string) ?? "",
+      });
+      templateNames.push(description.trim());
+    }
+
     const workOrdersByKey = new Map<string, number>();
     for (const wo of workOrdersRes.data ?? []) {
       const key = `${wo.vessel_id}:${((wo.shipyard_wo_number as string) ?? "").toLowerCase().trim()}`;
@@ -232,6 +282,8 @@ async function getMasterData(): Promise<MasterData> {
       locationNames: sortNames(locationNames),
       workScopesByNorm,
       workScopeNames: sortNames(workScopeNames),
+      templatesByNorm,
+      templateNames: sortNames(templateNames),
       workOrdersByKey,
       workDetailsByKey,
     };
@@ -269,6 +321,7 @@ export const WORK_DETAILS_TEMPLATE_HEADERS = [
   "progress_percentage",
   "progress_report_date",
   "progress_notes",
+  "job_template",
 ];
 
 // Friendly display labels shown as the first row in XLSX (row 1 = labels, row 2+ = data)
@@ -287,6 +340,7 @@ const HEADER_LABELS: Record<string, string> = {
   progress_percentage: "Progress Percentage (optional)",
   progress_report_date: "Progress Report Date (optional, YYYY-MM-DD)",
   progress_notes: "Progress Notes (optional)",
+  job_template: "Job Template (optional)",
 };
 
 export const WORK_DETAILS_TEMPLATE_SAMPLE: string[][] = [
@@ -305,6 +359,7 @@ export const WORK_DETAILS_TEMPLATE_SAMPLE: string[][] = [
     "25",
     "2024-06-05",
     "Started per site report",
+    "",
   ],
   [
     "KM. Mawar Laut",
@@ -321,6 +376,7 @@ export const WORK_DETAILS_TEMPLATE_SAMPLE: string[][] = [
     "",
     "",
     "",
+    "",
   ],
   [
     "KM. Mawar Laut",
@@ -337,6 +393,7 @@ export const WORK_DETAILS_TEMPLATE_SAMPLE: string[][] = [
     "",
     "",
     "",
+    "",
   ],
   [
     "KM. Mawar Laut",
@@ -353,6 +410,7 @@ export const WORK_DETAILS_TEMPLATE_SAMPLE: string[][] = [
     "",
     "",
     "",
+    "",
   ],
   [
     "KM. Sinar Bahari",
@@ -369,6 +427,7 @@ export const WORK_DETAILS_TEMPLATE_SAMPLE: string[][] = [
     "",
     "",
     "",
+    "",
   ],
   [
     "KM. Sinar Bahari",
@@ -385,6 +444,7 @@ export const WORK_DETAILS_TEMPLATE_SAMPLE: string[][] = [
     "",
     "",
     "",
+    "",
   ],
 ];
 
@@ -429,6 +489,14 @@ export async function generateTemplateXLSX(): Promise<Uint8Array> {
       "2024-07-05", "2024-07-25", "Jul 2024",
       "", "", "",
     ],
+    // Blank description / work scope / quantity / UOM come from the job template.
+    ...(md.templateNames[0]
+      ? [[
+          v1, wo1, "", loc[0] ?? "Main Deck", "", "", "", "no",
+          "2024-06-01", "2024-07-15", "Jul 2024",
+          "", "", "", md.templateNames[0],
+        ]]
+      : []),
   ];
 
   const wb = new ExcelJS.Workbook();
@@ -437,7 +505,7 @@ export async function generateTemplateXLSX(): Promise<Uint8Array> {
     wb,
     "Work Details",
     headers,
-    [22, 18, 42, 18, 18, 10, 8, 22, 28, 28, 22, 20, 28, 30],
+    [22, 18, 42, 18, 18, 10, 8, 22, 28, 28, 22, 20, 28, 30, 34],
     sampleRows,
   );
 
@@ -445,6 +513,7 @@ export async function generateTemplateXLSX(): Promise<Uint8Array> {
   applyListValidation(ws, "D", 2, 300, refFormula("Ref - Locations", md.locationNames.length));
   applyListValidation(ws, "E", 2, 300, refFormula("Ref - Work Scopes", md.workScopeNames.length));
   applyListValidation(ws, "H", 2, 300, YES_NO_FORMULA);
+  applyListValidation(ws, "O", 2, 300, refFormula("Ref - Job Templates", md.templateNames.length));
 
   buildInstructionsSheet(wb, "IMPORT TEMPLATE — WORK DETAILS", [
     ["INSTRUCTIONS"],
@@ -459,6 +528,7 @@ export async function generateTemplateXLSX(): Promise<Uint8Array> {
     ["9. progress_percentage / progress_report_date are OPTIONAL and only set the INITIAL progress for this new work item — leave both blank if not needed."],
     ["10. If you fill in progress_percentage, progress_report_date is also required (and vice versa)."],
     ["11. To UPDATE progress later (on this or any other work item), use the separate Work Progress tab — this column only applies once, when the work item is first created."],
+    ["12. job_template is OPTIONAL: pick a standard job from the dropdown and leave description, location, work_scope, quantity and uom blank to take them from the template. Anything you fill in yourself is kept."],
     [""],
     ["COLUMN REFERENCE"],
     ["vessel_name", "Name of the vessel — must match exactly"],
@@ -475,11 +545,13 @@ export async function generateTemplateXLSX(): Promise<Uint8Array> {
     ["progress_percentage", "Optional — 0 to 100, sets this new item's starting progress"],
     ["progress_report_date", "Optional — YYYY-MM-DD, required together with progress_percentage"],
     ["progress_notes", "Optional free text for the initial progress entry"],
+    ["job_template", "Optional — standard job (Master Data → Work Templates) that fills in the blank columns above"],
   ]);
 
   addExcelRefSheet(wb, "Ref - Vessels", "Vessel Name", md.vesselNames);
   addExcelRefSheet(wb, "Ref - Locations", "Location", md.locationNames);
   addExcelRefSheet(wb, "Ref - Work Scopes", "Work Scope", md.workScopeNames);
+  addExcelRefSheet(wb, "Ref - Job Templates", "Job Template", md.templateNames);
 
   const buf = await wb.xlsx.writeBuffer();
   return new Uint8Array(buf as ArrayBuffer);
@@ -595,19 +667,26 @@ export async function generateCombinedTemplateXLSX(): Promise<Uint8Array> {
       loc[2] ?? loc[0] ?? "Forecastle Deck", scope[2] ?? scope[0] ?? "Deck Outfitting", 1, "Set", "yes",
       "2024-07-05", "2024-07-25", "Jul 2024", "", "", "",
     ],
+    ...(md.templateNames[0]
+      ? [[
+          v1, "SY-2024-001", "", loc[0] ?? "Main Deck", "", "", "", "no",
+          "2024-06-01", "2024-07-15", "Jul 2024", "", "", "", md.templateNames[0],
+        ]]
+      : []),
   ];
   const wdHeaders = WORK_DETAILS_TEMPLATE_HEADERS.map((h) => HEADER_LABELS[h] ?? h);
   const wdWs = addDataSheet(
     wb,
     "Work Details",
     wdHeaders,
-    [22, 18, 42, 18, 18, 10, 8, 22, 28, 28, 22, 20, 28, 30],
+    [22, 18, 42, 18, 18, 10, 8, 22, 28, 28, 22, 20, 28, 30, 34],
     wdSampleRows,
   );
   applyListValidation(wdWs, "A", 2, 300, refFormula("Ref - Vessels", md.vesselNames.length));
   applyListValidation(wdWs, "D", 2, 300, refFormula("Ref - Locations", md.locationNames.length));
   applyListValidation(wdWs, "E", 2, 300, refFormula("Ref - Work Scopes", md.workScopeNames.length));
   applyListValidation(wdWs, "H", 2, 300, YES_NO_FORMULA);
+  applyListValidation(wdWs, "O", 2, 300, refFormula("Ref - Job Templates", md.templateNames.length));
 
   // ── Sheet 3: Instructions ──
   buildInstructionsSheet(wb, "IMPORT TEMPLATE — WORK ORDERS & WORK DETAILS", [
@@ -618,6 +697,7 @@ export async function generateCombinedTemplateXLSX(): Promise<Uint8Array> {
     ["4. work_order_number in 'Work Details' must match a shipyard_wo_number in 'Work Orders' sheet OR an existing WO in the system."],
     ["5. Dates: YYYY-MM-DD format (e.g. 2024-06-15)."],
     ["6. is_additional_wo / is_additional_wo_details: pick 'yes' or 'no' from the dropdown."],
+    ["7. job_template (Work Details, optional): pick a standard job to fill in a blank description, location, work_scope, quantity and uom."],
     [""],
     ["WORK ORDER COLUMNS"],
     ["vessel_name *", "Must match an existing vessel"],
@@ -645,6 +725,7 @@ export async function generateCombinedTemplateXLSX(): Promise<Uint8Array> {
     ["progress_percentage", "Optional — 0 to 100, sets a new item's starting progress"],
     ["progress_report_date", "Optional — YYYY-MM-DD, required together with progress_percentage"],
     ["progress_notes", "Optional free text for the initial progress entry"],
+    ["job_template", "Optional — standard job that fills in a blank description, location, work_scope, quantity and uom"],
   ]);
 
   addExcelRefSheet(wb, "Ref - Vessels", "Vessel Name", md.vesselNames);
@@ -652,6 +733,7 @@ export async function generateCombinedTemplateXLSX(): Promise<Uint8Array> {
   addExcelRefSheet(wb, "Ref - Locations", "Location", md.locationNames);
   addExcelRefSheet(wb, "Ref - Work Scopes", "Work Scope", md.workScopeNames);
   addExcelRefSheet(wb, "Ref - Work Types", "Work Type", WORK_TYPE_OPTIONS);
+  addExcelRefSheet(wb, "Ref - Job Templates", "Job Template", md.templateNames);
 
   const buf = await wb.xlsx.writeBuffer();
   return new Uint8Array(buf as ArrayBuffer);
@@ -684,10 +766,12 @@ export interface ParsedImportRow {
   progress_percentage: string;
   progress_report_date: string;
   progress_notes: string;
+  job_template: string;
 }
 
 export interface ValidatedImportRow extends ParsedImportRow {
   errors: string[];
+  template_id?: number;
   vessel_id?: number;
   work_order_id?: number;
   location_id?: number;
@@ -757,6 +841,7 @@ export function parseCSV(csvText: string): ParsedImportRow[] {
       progress_percentage: rowObj["progress_percentage"] ?? "",
       progress_report_date: rowObj["progress_report_date"] ?? "",
       progress_notes: rowObj["progress_notes"] ?? "",
+      job_template: rowObj["job_template"] ?? "",
     });
   }
 
@@ -819,6 +904,7 @@ export function parseXLSX(buffer: ArrayBuffer): ParsedImportRow[] {
       progress_percentage: rowObj["progress_percentage"] ?? "",
       progress_report_date: rowObj["progress_report_date"] ?? "",
       progress_notes: rowObj["progress_notes"] ?? "",
+      job_template: rowObj["job_template"] ?? "",
     });
   }
 
@@ -832,6 +918,7 @@ interface LookupMaps {
   workOrders: Map<string, number>; // "vessel_id:wo_number_lower" -> id
   locations: Map<string, number>; // name_lower -> id
   workScopes: Map<string, number>; // name_lower -> id
+  templates: Map<string, ImportJobTemplate>; // description_lower -> template
 }
 
 async function buildLookupMaps(): Promise<LookupMaps> {
@@ -841,6 +928,7 @@ async function buildLookupMaps(): Promise<LookupMaps> {
     workOrders: md.workOrdersByKey,
     locations: md.locationsByNorm,
     workScopes: md.workScopesByNorm,
+    templates: md.templatesByNorm,
   };
 }
 
@@ -849,12 +937,36 @@ export async function validateRows(
 ): Promise<ValidatedImportRow[]> {
   const maps = await buildLookupMaps();
 
-  return rows.map((row) => {
+  return rows.map((parsed) => {
     const errors: string[] = [];
     let vessel_id: number | undefined;
     let work_order_id: number | undefined;
     let location_id: number | undefined;
     let work_scope_id: number | undefined;
+    let template_id: number | undefined;
+
+    // A job_template fills in whichever of description / location / work
+    // scope / quantity / UOM the row leaves blank; anything typed in the row
+    // wins over the template.
+    let row = parsed;
+    if (parsed.job_template.trim()) {
+      const template = maps.templates.get(
+        parsed.job_template.toLowerCase().trim(),
+      );
+      if (!template) {
+        errors.push(`Job template not found: "${parsed.job_template}"`);
+      } else {
+        template_id = template.id;
+        row = {
+          ...parsed,
+          description: parsed.description.trim() || template.description,
+          location: parsed.location.trim() || template.location,
+          work_scope: parsed.work_scope.trim() || template.work_scope,
+          quantity: parsed.quantity.trim() || template.quantity,
+          uom: parsed.uom.trim() || template.uom,
+        };
+      }
+    }
 
     // Required text fields
     if (!row.description.trim()) errors.push("Description is required");
@@ -955,6 +1067,7 @@ export async function validateRows(
       work_order_id,
       location_id,
       work_scope_id,
+      template_id,
       hasInitialProgress,
     };
   });
@@ -1344,6 +1457,7 @@ export function parseCombinedXLSX(buffer: ArrayBuffer): {
       progress_percentage: obj["progress_percentage"] ?? "",
       progress_report_date: obj["progress_report_date"] ?? "",
       progress_notes: obj["progress_notes"] ?? "",
+      job_template: obj["job_template"] ?? "",
     }),
   );
 
@@ -1368,6 +1482,7 @@ export const WORK_PROGRESS_TEMPLATE_HEADERS = [
   "progress_percentage",
   "report_date",
   "notes",
+  "regression_reason",
 ];
 
 const WP_HEADER_LABELS: Record<string, string> = {
@@ -1377,6 +1492,7 @@ const WP_HEADER_LABELS: Record<string, string> = {
   progress_percentage: "Progress Percentage (%) *",
   report_date: "Report Date * (YYYY-MM-DD)",
   notes: "Notes",
+  regression_reason: "Regression Reason",
 };
 
 export async function generateProgressTemplateXLSX(): Promise<Uint8Array> {
@@ -1390,13 +1506,13 @@ export async function generateProgressTemplateXLSX(): Promise<Uint8Array> {
   // never form a complete real triple that could silently overwrite a real
   // item's progress if left unedited.
   const sampleRows: (string | number)[][] = [
-    [v1, wo1, "Example — replace with a real work item's exact description", 75, "2024-06-20", "Progress per weekly site report"],
-    [v1, wo1, "Example — another real work item's exact description", 40, "2024-06-20", ""],
+    [v1, wo1, "Example — replace with a real work item's exact description", 75, "2024-06-20", "Progress per weekly site report", ""],
+    [v1, wo1, "Example — another real work item's exact description", 40, "2024-06-20", "", "recount"],
   ];
 
   const wb = new ExcelJS.Workbook();
   const headers = WORK_PROGRESS_TEMPLATE_HEADERS.map((h) => WP_HEADER_LABELS[h] ?? h);
-  const ws = addDataSheet(wb, "Work Progress", headers, [22, 18, 42, 12, 24, 32], sampleRows);
+  const ws = addDataSheet(wb, "Work Progress", headers, [22, 18, 42, 12, 24, 32, 20], sampleRows);
   applyListValidation(ws, "A", 2, 300, refFormula("Ref - Vessels", md.vesselNames.length));
 
   buildInstructionsSheet(wb, "IMPORT TEMPLATE — WORK PROGRESS", [
@@ -1413,6 +1529,7 @@ export async function generateProgressTemplateXLSX(): Promise<Uint8Array> {
     ["progress_percentage *", "0–100"],
     ["report_date *", "YYYY-MM-DD"],
     ["notes", "Optional free text"],
+    ["regression_reason", "Required only when progress is LOWER than the work item's previous report: rework, recount or data_entry_error"],
   ]);
 
   // Work order numbers and work-detail descriptions are existing-data
@@ -1435,6 +1552,7 @@ const WP_CSV_TEMPLATE_SAMPLE: string[][] = [
     "75",
     "2024-06-20",
     "Progress per weekly site report",
+    "",
   ],
   [
     "KM. Mawar Laut",
@@ -1443,6 +1561,7 @@ const WP_CSV_TEMPLATE_SAMPLE: string[][] = [
     "40",
     "2024-06-20",
     "",
+    "recount",
   ],
 ];
 
@@ -1462,6 +1581,7 @@ export interface ParsedProgressRow {
   progress_percentage: string;
   report_date: string;
   notes: string;
+  regression_reason: string;
 }
 
 export type ProgressRowAction = "insert" | "update" | "skip_older";
@@ -1473,6 +1593,9 @@ export interface ValidatedProgressRow extends ParsedProgressRow {
   existing_progress_id?: number;
   existing_progress_percentage?: number;
   existing_report_date?: string;
+  // Set when the row is lower than the work item's previous report.
+  regressed_from?: number;
+  parsed_regression_reason?: RegressionReason | null;
 }
 
 /**
@@ -1515,6 +1638,7 @@ export function parseProgressCSV(csvText: string): ParsedProgressRow[] {
       progress_percentage: obj["progress_percentage"] ?? "",
       report_date: obj["report_date"] ?? "",
       notes: obj["notes"] ?? "",
+      regression_reason: obj["regression_reason"] ?? "",
     });
   }
   return rows;
@@ -1549,6 +1673,7 @@ export function parseProgressXLSX(buffer: ArrayBuffer): ParsedProgressRow[] {
       progress_percentage: obj["progress_percentage"] ?? "",
       report_date: obj["report_date"] ?? "",
       notes: obj["notes"] ?? "",
+      regression_reason: obj["regression_reason"] ?? "",
     });
   }
   return rows;
@@ -1562,27 +1687,37 @@ export async function validateProgressRows(
   const workOrders = md.workOrdersByKey;
   const workDetails = md.workDetailsByKey;
 
-  // The single is_imported row per work_details_id, if one already exists.
-  // Always queried fresh (never cached) — this is exactly what "keep only
-  // the latest" depends on being accurate.
-  const existingImported = new Map<
-    number,
-    { id: number; progress_percentage: number; report_date: string }
-  >();
+  // The single is_imported row per work_details_id, if one already exists,
+  // plus every report per work item (manual ones included) to catch rows
+  // that regress. Always queried fresh (never cached) — this is exactly
+  // what "keep only the latest" depends on being accurate.
+  type ExistingProgress = {
+    id: number;
+    progress_percentage: number;
+    report_date: string;
+    created_at: string;
+  };
+  const existingImported = new Map<number, ExistingProgress>();
+  const history = new Map<number, ExistingProgress[]>();
   const wdIds = [...workDetails.values()];
   if (wdIds.length > 0) {
     const { data } = await supabase
       .from("work_progress")
-      .select("id, work_details_id, progress_percentage, report_date")
-      .eq("is_imported", true)
+      .select(
+        "id, work_details_id, progress_percentage, report_date, created_at, is_imported",
+      )
       .is("deleted_at", null)
       .in("work_details_id", wdIds);
     for (const row of data ?? []) {
-      existingImported.set(row.work_details_id as number, {
+      const wdId = row.work_details_id as number;
+      const record: ExistingProgress = {
         id: row.id as number,
         progress_percentage: row.progress_percentage as number,
         report_date: row.report_date as string,
-      });
+        created_at: row.created_at as string,
+      };
+      if (row.is_imported) existingImported.set(wdId, record);
+      history.set(wdId, [...(history.get(wdId) ?? []), record]);
     }
   }
 
@@ -1636,6 +1771,15 @@ export async function validateProgressRows(
       errors.push("Report date must be YYYY-MM-DD format");
     }
 
+    const regressionReason = row.regression_reason.trim()
+      ? parseRegressionReason(row.regression_reason)
+      : null;
+    if (row.regression_reason.trim() && !regressionReason) {
+      errors.push(
+        `Unknown regression reason "${row.regression_reason}" — use rework, recount or data_entry_error`,
+      );
+    }
+
     let action: ProgressRowAction | undefined;
     let existing_progress_id: number | undefined;
     let existing_progress_percentage: number | undefined;
@@ -1660,6 +1804,34 @@ export async function validateProgressRows(
       }
     }
 
+    // Same rule as trg_work_progress_regression: lower than the report it
+    // follows needs a reason. An updated imported row is judged without its
+    // own old value.
+    let regressed_from: number | undefined;
+    if (
+      errors.length === 0 &&
+      work_details_id !== undefined &&
+      (action === "insert" || action === "update")
+    ) {
+      const existing = existingImported.get(work_details_id);
+      const previous = getPreviousProgressRecord(
+        history.get(work_details_id) ?? [],
+        {
+          id: action === "update" ? existing?.id : undefined,
+          report_date: row.report_date,
+          created_at: action === "update" ? existing?.created_at : undefined,
+        },
+      );
+      if (previous && pct < previous.progress_percentage) {
+        regressed_from = previous.progress_percentage;
+        if (!regressionReason) {
+          errors.push(
+            `Progress drops from ${previous.progress_percentage}% (report of ${previous.report_date}) to ${pct}% — fill regression_reason (rework, recount or data_entry_error)`,
+          );
+        }
+      }
+    }
+
     return {
       ...row,
       errors,
@@ -1668,6 +1840,9 @@ export async function validateProgressRows(
       existing_progress_id,
       existing_progress_percentage,
       existing_report_date,
+      regressed_from,
+      parsed_regression_reason:
+        regressed_from !== undefined ? regressionReason : null,
     };
   });
 }
@@ -1693,6 +1868,7 @@ export async function importWorkProgress(
       notes: row.notes.trim() || null,
       user_id: userId,
       is_imported: true,
+      regression_reason: row.parsed_regression_reason ?? null,
     }));
     const { error } = await supabase.from("work_progress").insert(insertData);
     if (error) {
@@ -1716,6 +1892,7 @@ export async function importWorkProgress(
           report_date: row.report_date,
           notes: row.notes.trim() || null,
           user_id: userId,
+          regression_reason: row.parsed_regression_reason ?? null,
         })
         .eq("id", row.existing_progress_id!)
         .then(({ error }) => ({ row, error })),
@@ -0,0 +1,151 @@
+import type { DashboardAlert } from "../hooks/useDashboardData";
+import {
+  summarizeInvoicePayments,
+  type PaymentLedgerFields,
+} from "./invoicePayments";
+
+/** Invoices due within this many days raise a "due soon" alert. */
+export const INVOICE_DUE_SOON_DAYS = 7;
+/** BASTPs sitting in READY_FOR_INVOICE longer than this raise an alert. */
+export const BASTP_UNINVOICED_ALERT_DAYS = 7;
+
+export interface RawAlertInvoice {
+  id: number;
+  invoice_number: string | null;
+  due_date: string | null;
+  total_price_after: number | null;
+  pph_23: number | null;
+  credited_total_after: number | null;
+  credited_pph_23: number | null;
+  bastp: {
+    id: number;
+    number: string;
+    vessel: { name: string; company: string } | null;
+  } | null;
+  invoice_payments: PaymentLedgerFields[];
+}
+
+export interface RawAlertBastp {
+  id: number;
+  number: string;
+  updated_at: string;
+  ready_for_invoice_date: string | null;
+  vessel: { name: string; company: string } | null;
+  invoice_details: { id: number; deleted_at: string | null }[];
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Calendar-day difference (b - a) between two dates, ignoring time of day.
+// Bare YYYY-MM-DD columns are taken as that calendar day rather than UTC
+// midnight, which would land on the previous day west of UTC.
+const daysBetween = (a: string | Date, b: string | Date) => {
+  const startOfDay = (d: string | Date) => {
+    if (typeof d === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d)) {
+      const [y, m, day] = d.split("-").map(Number);
+      return Date.UTC(y, m - 1, day);
+    }
+    const date = new Date(d);
+    return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  };
+  return Math.round((startOfDay(b) - startOfDay(a)) / DAY_MS);
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("id-ID", {
+    style: "currency",
+    currency: "IDR",
+    minimumFractionDigits: 0,
+  }).format(amount);
+
+/**
+ * Past-due and due-soon alerts for invoices that still have an outstanding
+ * ledger balance. Keys include the due date so moving it re-raises an alert
+ * someone had dismissed.
+ */
+export function buildInvoiceAlerts(
+  invoices: RawAlertInvoice[],
+  now: Date,
+): DashboardAlert[] {
+  const alerts: DashboardAlert[] = [];
+
+  invoices.forEach((invoice) => {
+    if (!invoice.due_date) return;
+    const { outstanding } = summarizeInvoicePayments(
+      invoice,
+      invoice.invoice_payments,
+    );
+    if (outstanding <= 0) return;
+
+    const daysUntilDue = daysBetween(now, invoice.due_date);
+    if (daysUntilDue > INVOICE_DUE_SOON_DAYS) return;
+
+    const base = {
+      vesselName: invoice.bastp?.vessel?.name,
+      vesselCompany: invoice.bastp?.vessel?.company,
+      workDetailDescription: null,
+      subject: `Invoice ${invoice.invoice_number || `#${invoice.id}`}${
+        invoice.bastp ? ` (BASTP ${invoice.bastp.number})` : ""
+      }`,
+      dueDate: invoice.due_date,
+      link: `/invoices/${invoice.id}`,
+    };
+
+    if (daysUntilDue < 0) {
+      alerts.push({
+        ...base,
+        key: `invoice-overdue-${invoice.id}-${invoice.due_date}`,
+        type: "invoice_overdue",
+        message: `${-daysUntilDue} days past due · ${formatCurrency(outstanding)} outstanding`,
+        priority: "high",
+      });
+    } else {
+      alerts.push({
+        ...base,
+        key: `invoice-due-soon-${invoice.id}-${invoice.due_date}`,
+        type: "invoice_due_soon",
+        message: `${
+          daysUntilDue === 0
+            ? "Due today"
+            : `Due in ${daysUntilDue} day${daysUntilDue === 1 ? "" : "s"}`
+        } · ${formatCurrency(outstanding)} outstanding`,
+        priority: daysUntilDue <= 3 ? "medium" : "low",
+      });
+    }
+  });
+
+  return alerts;
+}
+
+/**
+ * BASTPs that have been READY_FOR_INVOICE for more than
+ * BASTP_UNINVOICED_ALERT_DAYS without an invoice being created.
+ */
+export function buildUninvoicedBastpAlerts(
+  bastps: RawAlertBastp[],
+  now: Date,
+): DashboardAlert[] {
+  const alerts: DashboardAlert[] = [];
+
+  bastps.forEach((bastp) => {
+    if ((bastp.invoice_details || []).some((inv) => !inv.deleted_at)) return;
+
+    const readySince = bastp.ready_for_invoice_date || bastp.updated_at;
+    const daysWaiting = daysBetween(readySince, now);
+    if (daysWaiting <= BASTP_UNINVOICED_ALERT_DAYS) return;
+
+    alerts.push({
+      key: `bastp-awaiting-invoice-${bastp.id}`,
+      vesselName: bastp.vessel?.name,
+      vesselCompany: bastp.vessel?.company,
+      workDetailDescription: null,
+      subject: `BASTP ${bastp.number}`,
+      type: "bastp_awaiting_invoice",
+      message: `Ready for invoice for ${daysWaiting} days with no invoice`,
+      priority: daysWaiting > 30 ? "high" : "medium",
+      link: `/bastp/${bastp.id}`,
+    });
+  });
+
+  return alerts;
+}
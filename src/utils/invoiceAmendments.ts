@@ -0,0 +1,79 @@
+/**
+ * Amendments to issued invoices (amend_invoice() — see
+ * 20260807150000_invoice_issue_and_amendments.sql). The RPC does the
+ * rewrite; the app records what changed in activity_logs, using the
+ * snapshots built here for the old and new values so the log's `changes`
+ * diff covers line prices as well as the invoice's own columns.
+ */
+
+export interface AmendedWorkDetailPrice {
+  work_details_id: number;
+  unit_price: number;
+  payment_price: number;
+}
+
+export interface AmendedGeneralServicePrice {
+  service_type_id: number;
+  unit_price: number;
+  payment_price: number;
+}
+
+export function buildInvoiceAuditSnapshot(
+  fields: Record<string, unknown>,
+  workDetails: AmendedWorkDetailPrice[],
+  generalServices: AmendedGeneralServicePrice[],
+): Record<string, unknown> {
+  return {
+    ...fields,
+    work_detail_prices: Object.fromEntries(
+      workDetails.map((line) => [
+        line.work_details_id,
+        { unit_price: line.unit_price, payment_price: line.payment_price },
+      ]),
+    ),
+    general_service_prices: Object.fromEntries(
+      generalServices.map((service) => [
+        service.service_type_id,
+        {
+          unit_price: service.unit_price,
+          payment_price: service.payment_price,
+        },
+      ]),
+    ),
+  };
+}
+
+/** The values of `keys` on the saved invoice, nulls for missing ones. */
+export function pickInvoiceFields(
+  invoice: object,
+  keys: string[],
+): Record<string, unknown> {
+  const source = invoice as Record<string, unknown>;
+  return Object.fromEntries(keys.map((key) => [key, source[key] ?? null]));
+}
+
+/**
+ * Columns guard_locked_invoice() leaves writable on an issued invoice.
+ * Changing only these is recording the invoice's delivery and receipt, not
+ * amending it — no reason, no new revision.
+ */
+export const INVOICE_RECEIPT_FIELDS = [
+  "delivery_date",
+  "collection_date",
+  "receiver_name",
+  "remarks",
+];
+
+/** Whether two audit snapshots differ in nothing but receipt fields. */
+export function isReceiptOnlyChange(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): boolean {
+  const rest = (snapshot: Record<string, unknown>) =>
+    JSON.stringify(
+      Object.entries(snapshot)
+        .filter(([key]) => !INVOICE_RECEIPT_FIELDS.includes(key))
+        .sort(([a], [b]) => a.localeCompare(b)),
+    );
+  return rest(before) === rest(after);
+}
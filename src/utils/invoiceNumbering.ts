@@ -1,4 +1,8 @@
-import { suggestSequentialNumber } from "./documentNumbering";
+import {
+  reserveSequentialNumber,
+  suggestSequentialNumber,
+  type DocumentNumberReservation,
+} from "./documentNumbering";
 
 /**
  * [####]/GAL-SMD/[Roman month]/[YYYY]
@@ -9,10 +13,11 @@ import { suggestSequentialNumber } from "./documentNumbering";
 export async function suggestInvoiceNumber(
   invoiceDate: string,
 ): Promise<string> {
-  return suggestSequentialNumber(
-    "invoice_details",
-    "invoice_number",
-    invoiceDate,
-    "GAL-SMD",
-  );
+  return suggestSequentialNumber("INVOICE", invoiceDate);
+}
+
+export async function reserveInvoiceNumber(
+  invoiceDate: string,
+): Promise<DocumentNumberReservation> {
+  return reserveSequentialNumber("INVOICE", invoiceDate);
 }
@@ -0,0 +1,130 @@
+/**
+ * Invoice payment ledger (invoice_payments — see
+ * 20260807120000_invoice_payment_ledger.sql). An invoice's payment state
+ * is always derived from its non-deleted ledger rows, never from the
+ * cached invoice_details.payment_status flag, so partial payments and the
+ * separately-settled PPh 23 are visible.
+ */
+
+export type PaymentEntryType = "PAYMENT" | "WITHHOLDING";
+
+export type PaymentMethod =
+  "BANK_TRANSFER" | "CASH" | "GIRO" | "CHEQUE" | "OTHER";
+
+export type InvoicePaymentStatus = "UNPAID" | "PARTIALLY_PAID" | "PAID";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  BANK_TRANSFER: "Bank Transfer",
+  CASH: "Cash",
+  GIRO: "Giro",
+  CHEQUE: "Cheque",
+  OTHER: "Other",
+};
+
+export const PAYMENT_STATUS_LABELS: Record<InvoicePaymentStatus, string> = {
+  UNPAID: "Unpaid",
+  PARTIALLY_PAID: "Partially Paid",
+  PAID: "Paid",
+};
+
+export interface InvoicePayment {
+  id: number;
+  created_at: string;
+  deleted_at: string | null;
+  invoice_details_id: number;
+  entry_type: PaymentEntryType;
+  payment_date: string;
+  amount: number;
+  method: PaymentMethod | null;
+  reference: string | null;
+  withholding_certificate_number: string | null;
+  notes: string | null;
+  recorded_by: number | null;
+}
+
+/** Minimal shape the summary needs — callers can select just these columns. */
+export interface PaymentLedgerFields {
+  entry_type: PaymentEntryType;
+  payment_date: string;
+  amount: number;
+  deleted_at?: string | null;
+}
+
+export interface InvoicePaymentSummary {
+  status: InvoicePaymentStatus;
+  /** total_price_after + pph_23, i.e. subtotal + PPN, less credit notes. */
+  amountDue: number;
+  /** Gross amount reversed by credit notes. */
+  credited: number;
+  /** Money received (PAYMENT rows). */
+  paid: number;
+  /** PPh 23 evidenced by withholding certificates (WITHHOLDING rows). */
+  withheld: number;
+  outstanding: number;
+  /** Of the outstanding balance, how much is PPh 23 still awaiting its certificate. */
+  withholdingOutstanding: number;
+  lastPaymentDate: string | null;
+}
+
+/**
+ * Mirrors sync_invoice_payment_status(): cash covers total_price_after,
+ * withholding certificates cover pph_23, and the invoice is PAID once the
+ * two together reach the gross amount due. Credit notes reduce both sides;
+ * a fully credited (cancelled) invoice counts as PAID with nothing due.
+ */
+export function summarizeInvoicePayments(
+  invoice: {
+    total_price_after?: number | null;
+    pph_23?: number | null;
+    credited_total_after?: number | null;
+    credited_pph_23?: number | null;
+  },
+  payments: PaymentLedgerFields[] | null | undefined,
+): InvoicePaymentSummary {
+  const active = (payments || []).filter((p) => !p.deleted_at);
+  const paid = active
+    .filter((p) => p.entry_type === "PAYMENT")
+    .reduce((sum, p) => sum + Number(p.amount), 0);
+  const withheld = active
+    .filter((p) => p.entry_type === "WITHHOLDING")
+    .reduce((sum, p) => sum + Number(p.amount), 0);
+
+  const creditedPph23 = Number(invoice.credited_pph_23 || 0);
+  const credited = Number(invoice.credited_total_after || 0) + creditedPph23;
+  const pph23 = Math.max(0, Number(invoice.pph_23 || 0) - creditedPph23);
+  const amountDue = Math.max(
+    0,
+    Number(invoice.total_price_after || 0) +
+      Number(invoice.pph_23 || 0) -
+      credited,
+  );
+  const settled = paid + withheld;
+  const outstanding = Math.max(0, amountDue - settled);
+
+  const status: InvoicePaymentStatus =
+    (amountDue > 0 || credited > 0) && settled >= amountDue
+      ? "PAID"
+      : settled > 0
+        ? "PARTIALLY_PAID"
+        : "UNPAID";
+
+  const lastPaymentDate = active.reduce<string | null>(
+    (latest, p) =>
+      !latest || p.payment_date > latest ? p.payment_date : latest,
+    null,
+  );
+
+  return {
+    status,
+    amountDue,
+    credited,
+    paid,
+    withheld,
+    outstanding,
+    withholdingOutstanding: Math.min(
+      outstanding,
+      Math.max(0, pph23 - withheld),
+    ),
+    lastPaymentDate,
+  };
+}
@@ -0,0 +1,183 @@
+import { supabase } from "../lib/supabase";
+
+/**
+ * Invoice tax rules: effective-dated rates from tax_rates and per-customer
+ * waivers from tax_exemptions (see 20260807110000_invoice_tax_engine.sql).
+ * Each saved invoice keeps a snapshot of what it was computed with
+ * (ppn_rate, ppn_dpp_*, pph_23_rate, *_exemption_reason), so the detail and
+ * print pages read those columns rather than re-resolving.
+ */
+
+export type TaxType = "PPN" | "PPH_23";
+
+export const TAX_TYPE_LABELS: Record<TaxType, string> = {
+  PPN: "PPN",
+  PPH_23: "PPh 23",
+};
+
+export interface TaxRate {
+  id: number;
+  tax_type: TaxType;
+  rate: number;
+  dpp_numerator: number;
+  dpp_denominator: number;
+  effective_from: string;
+  notes: string | null;
+  deleted_at: string | null;
+}
+
+export interface TaxExemption {
+  id: number;
+  company: string;
+  tax_type: TaxType;
+  reason: string;
+  effective_from: string;
+  effective_to: string | null;
+  deleted_at: string | null;
+}
+
+/** The invoice_details columns an invoice's taxes are computed from. */
+export interface InvoiceTaxSnapshot {
+  ppn_rate: number;
+  ppn_dpp_numerator: number;
+  ppn_dpp_denominator: number;
+  ppn_exemption_reason: string | null;
+  pph_23_rate: number;
+  pph_23_applicable: boolean;
+  pph_23_exemption_reason: string | null;
+}
+
+export interface InvoiceTaxAmounts {
+  ppnBase: number;
+  ppn: number;
+  pph23: number;
+  totalAfter: number;
+}
+
+const normalizeCompany = (company: string) =>
+  company.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Rates and exemptions in force for an invoice with this tax date and
+ * customer. Throws if no rate is configured for the date, rather than
+ * silently computing the invoice at zero.
+ */
+export async function resolveInvoiceTaxSnapshot(
+  taxDate: string,
+  company: string,
+): Promise<InvoiceTaxSnapshot> {
+  const [ratesResult, exemptionsResult] = await Promise.all([
+    supabase
+      .from("tax_rates")
+      .select("*")
+      .is("deleted_at", null)
+      .lte("effective_from", taxDate)
+      .order("effective_from", { ascending: false }),
+    company.trim()
+      ? supabase
+          .from("tax_exemptions")
+          .select("*")
+          .is("deleted_at", null)
+          .lte("effective_from", taxDate)
+          .or(`effective_to.is.null,effective_to.gte.${taxDate}`)
+      : Promise.resolve({ data: [] as TaxExemption[], error: null }),
+  ]);
+
+  if (ratesResult.error) throw ratesResult.error;
+  if (exemptionsResult.error) throw exemptionsResult.error;
+
+  const rates = (ratesResult.data || []) as TaxRate[];
+  const ppnRate = rates.find((r) => r.tax_type === "PPN");
+  const pph23Rate = rates.find((r) => r.tax_type === "PPH_23");
+  if (!ppnRate || !pph23Rate) {
+    throw new Error(
+      `No ${!ppnRate ? "PPN" : "PPh 23"} rate is configured for ${taxDate}. Add one under Tax Settings.`,
+    );
+  }
+
+  const customer = normalizeCompany(company);
+  const exemptions = ((exemptionsResult.data || []) as TaxExemption[]).filter(
+    (e) => normalizeCompany(e.company) === customer,
+  );
+  const ppnExemption = exemptions.find((e) => e.tax_type === "PPN");
+  const pph23Exemption = exemptions.find((e) => e.tax_type === "PPH_23");
+
+  return {
+    ppn_rate: Number(ppnRate.rate),
+    ppn_dpp_numerator: ppnRate.dpp_numerator,
+    ppn_dpp_denominator: ppnRate.dpp_denominator,
+    ppn_exemption_reason: ppnExemption?.reason ?? null,
+    pph_23_rate: Number(pph23Rate.rate),
+    pph_23_applicable: !pph23Exemption,
+    pph_23_exemption_reason: pph23Exemption?.reason ?? null,
+  };
+}
+
+/**
+ * PPN is charged on the DPP (subtotal × the DPP fraction); PPh 23 is
+ * withheld on the plain subtotal. Both are rounded to whole Rupiah so the
+ * persisted total always reconciles with the displayed figures.
+ */
+export function calculateInvoiceTaxes(
+  subtotal: number,
+  snapshot: InvoiceTaxSnapshot,
+  ppnApplicable: boolean,
+): InvoiceTaxAmounts {
+  const ppnBase = Math.round(
+    (subtotal * snapshot.ppn_dpp_numerator) / snapshot.ppn_dpp_denominator,
+  );
+  const ppn = ppnApplicable ? Math.round(ppnBase * snapshot.ppn_rate) : 0;
+  const pph23 = snapshot.pph_23_applicable
+    ? Math.round(subtotal * snapshot.pph_23_rate)
+    : 0;
+  return { ppnBase, ppn, pph23, totalAfter: subtotal + ppn - pph23 };
+}
+
+/** 0.11 -> "11%", 0.015 -> "1.5%". */
+export function formatTaxRate(rate: number): string {
+  return `${parseFloat((Number(rate) * 100).toFixed(2))}%`;
+}
+
+export function hasDppNilaiLain(snapshot: {
+  ppn_dpp_numerator: number;
+  ppn_dpp_denominator: number;
+}): boolean {
+  return snapshot.ppn_dpp_numerator !== snapshot.ppn_dpp_denominator;
+}
+
+/** e.g. "PPN (12% × DPP 11/12)" or "PPN (11%)". */
+export function describePpnRate(snapshot: {
+  ppn_rate: number;
+  ppn_dpp_numerator: number;
+  ppn_dpp_denominator: number;
+}): string {
+  const rate = formatTaxRate(snapshot.ppn_rate);
+  return hasDppNilaiLain(snapshot)
+    ? `PPN (${rate} × DPP ${snapshot.ppn_dpp_numerator}/${snapshot.ppn_dpp_denominator})`
+    : `PPN (${rate})`;
+}
+
+/**
+ * The tax snapshot stored on a saved invoice. The fallbacks only matter
+ * for rows read before 20260807110000 backfilled them — the 11% / 2% every
+ * invoice used until then.
+ */
+export function getInvoiceTaxSnapshot(invoice: {
+  ppn_rate?: number | null;
+  ppn_dpp_numerator?: number | null;
+  ppn_dpp_denominator?: number | null;
+  ppn_exemption_reason?: string | null;
+  pph_23_rate?: number | null;
+  pph_23_applicable?: boolean | null;
+  pph_23_exemption_reason?: string | null;
+}): InvoiceTaxSnapshot {
+  return {
+    ppn_rate: Number(invoice.ppn_rate ?? 0.11),
+    ppn_dpp_numerator: invoice.ppn_dpp_numerator ?? 1,
+    ppn_dpp_denominator: invoice.ppn_dpp_denominator ?? 1,
+    ppn_exemption_reason: invoice.ppn_exemption_reason ?? null,
+    pph_23_rate: Number(invoice.pph_23_rate ?? 0.02),
+    pph_23_applicable: invoice.pph_23_applicable ?? true,
+    pph_23_exemption_reason: invoice.pph_23_exemption_reason ?? null,
+  };
+}
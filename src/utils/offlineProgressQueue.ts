@@ -0,0 +1,474 @@
+import { supabase } from "../lib/supabase";
+import { ActivityLogService } from "../services/activityLogService";
+import {
+  attachProgressEvidencePhotos,
+  type PendingEvidencePhoto,
+} from "./progressEvidenceHandler";
+import {
+  formatProgressPercentage,
+  getLatestProgressRecord,
+  getPreviousProgressRecord,
+  type RegressionReason,
+} from "./progressPercentage";
+
+// Progress reports filed while the yard floor has no connection are kept in
+// IndexedDB (File blobs included) and replayed in the order they were
+// filed once it's back. The queue belongs to the browser, not the account:
+// each entry remembers who filed it and only replays while that profile is
+// signed in.
+
+const DB_NAME = "progress-offline-queue";
+const DB_VERSION = 1;
+const STORE = "reports";
+
+export type QueuedReportStatus = "pending" | "conflict" | "failed";
+
+export interface QueuedProgressReport {
+  localId: number;
+  queuedAt: string;
+  userProfileId: number;
+  workDetailsId: number;
+  // "WO-123 · Hull blasting", for listing the entry without a lookup.
+  label: string;
+  // Set when the report itself already reached the server and only its
+  // photos are still waiting; the fields below are then informational.
+  workProgressId?: number;
+  progressPercentage: number;
+  reportDate: string;
+  notes: string | null;
+  // Set when the report is knowingly lower than the one before it (see
+  // work_progress.regression_reason).
+  regressionReason: RegressionReason | null;
+  photos: PendingEvidencePhoto[];
+  // sort_order of the first photo, for photos-only entries.
+  photoStartOrder: number;
+  // Reports of the same work detail sent from this queue ahead of this one.
+  // They're newer than queuedAt on the server but aren't a conflict.
+  sentBeforeIds: number[];
+  status: QueuedReportStatus;
+  error?: string;
+  conflict?: {
+    reason: string;
+    latestProgress: number;
+    latestReportDate: string;
+    // It now regresses; sending it anyway needs a regression reason.
+    needsRegressionReason?: boolean;
+  };
+}
+
+export type NewQueuedProgressReport = Omit<
+  QueuedProgressReport,
+  "localId" | "queuedAt" | "status" | "error" | "conflict" | "sentBeforeIds"
+>;
+
+export interface ReplayResult {
+  sent: number;
+  conflicts: number;
+  failed: number;
+  // True when replay stopped early because the connection dropped again.
+  interrupted: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, {
+        keyPath: "localId",
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((err) => {
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const listeners = new Set<() => void>();
+
+/** Calls back whenever the queue changes, in this tab. */
+export function subscribeToProgressQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export async function listQueuedReports(
+  userProfileId: number,
+): Promise<QueuedProgressReport[]> {
+  const all = await withStore<QueuedProgressReport[]>("readonly", (store) =>
+    store.getAll(),
+  );
+  return all
+    .filter((entry) => entry.userProfileId === userProfileId)
+    .sort((a, b) => a.localId - b.localId);
+}
+
+async function getQueuedReport(
+  localId: number,
+): Promise<QueuedProgressReport | undefined> {
+  return withStore<QueuedProgressReport | undefined>("readonly", (store) =>
+    store.get(localId),
+  );
+}
+
+export async function queueProgressReport(
+  report: NewQueuedProgressReport,
+): Promise<void> {
+  await withStore("readwrite", (store) =>
+    store.add({
+      ...report,
+      queuedAt: new Date().toISOString(),
+      status: "pending",
+      sentBeforeIds: [],
+    }),
+  );
+  notify();
+}
+
+async function saveQueuedReport(entry: QueuedProgressReport): Promise<void> {
+  await withStore("readwrite", (store) => store.put(entry));
+  notify();
+}
+
+export async function removeQueuedReport(localId: number): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(localId));
+  notify();
+}
+
+/**
+ * Whether an error means the server couldn't be reached at all, as opposed
+ * to the server refusing the request. Only the former is worth queueing.
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message =
+    err instanceof Error
+      ? err.message
+      : typeof err === "object" && err && "message" in err
+        ? String((err as { message: unknown }).message)
+        : String(err);
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(
+    message,
+  );
+}
+
+/**
+ * Attaches photos one at a time so that, when the connection drops partway,
+ * the ones not yet uploaded can be queued against the already-saved report.
+ * Returns how many were queued; errors other than lost connectivity are
+ * thrown as usual.
+ */
+export async function attachEvidenceOrQueue({
+  workProgressId,
+  userProfileId,
+  workDetailsId,
+  label,
+  progressPercentage,
+  reportDate,
+  photos,
+}: {
+  workProgressId: number;
+  userProfileId: number;
+  workDetailsId: number;
+  label: string;
+  progressPercentage: number;
+  reportDate: string;
+  photos: PendingEvidencePhoto[];
+}): Promise<number> {
+  for (const [index, photo] of photos.entries()) {
+    try {
+      await attachProgressEvidencePhotos({
+        workProgressId,
+        workDetailsId,
+        reportDate,
+        photos: [photo],
+        startOrder: index,
+      });
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      const remaining = photos.slice(index);
+      await queueProgressReport({
+        userProfileId,
+        workDetailsId,
+        label,
+        workProgressId,
+        progressPercentage,
+        reportDate,
+        notes: null,
+        regressionReason: null,
+        photos: remaining,
+        photoStartOrder: index,
+      });
+      return remaining.length;
+    }
+  }
+  return 0;
+}
+
+// Judged against the server as it is now, with the same latest-by-
+// report_date rule as everywhere else: if someone filed a report after this
+// one was queued that is at least as recent, or this would now come in below
+// the report before it without a regression reason, a person needs to decide.
+async function findConflict(
+  entry: QueuedProgressReport,
+): Promise<QueuedProgressReport["conflict"] | null> {
+  const { data, error } = await supabase
+    .from("work_progress")
+    .select("id, progress_percentage, report_date, created_at")
+    .eq("work_details_id", entry.workDetailsId)
+    .is("deleted_at", null);
+
+  if (error) throw error;
+
+  const latest = getLatestProgressRecord(data || []);
+  if (!latest) return null;
+
+  const previous = getPreviousProgressRecord(data || [], {
+    report_date: entry.reportDate,
+  });
+  const regresses =
+    !entry.regressionReason &&
+    previous !== undefined &&
+    entry.progressPercentage < previous.progress_percentage;
+
+  const summary = {
+    latestProgress: latest.progress_percentage,
+    latestReportDate: latest.report_date,
+    needsRegressionReason: regresses,
+  };
+  const latestDate = new Date(latest.report_date).getTime();
+  const entryDate = new Date(entry.reportDate).getTime();
+
+  if (
+    !entry.sentBeforeIds.includes(latest.id) &&
+    latestDate >= entryDate &&
+    new Date(latest.created_at).getTime() > new Date(entry.queuedAt).getTime()
+  ) {
+    return {
+      ...summary,
+      reason: `A newer report (${formatProgressPercentage(latest.progress_percentage)}% on ${latest.report_date}) was filed while this one was waiting.`,
+    };
+  }
+
+  if (regresses && previous) {
+    return {
+      ...summary,
+      reason: `The report before it is now ${formatProgressPercentage(previous.progress_percentage)}% — sending this would lower progress to ${formatProgressPercentage(entry.progressPercentage)}%.`,
+    };
+  }
+
+  return null;
+}
+
+async function sendQueuedReport(entry: QueuedProgressReport): Promise<void> {
+  let workProgressId = entry.workProgressId;
+
+  if (workProgressId === undefined) {
+    const { data: inserted, error } = await supabase
+      .from("work_progress")
+      .insert({
+        work_details_id: entry.workDetailsId,
+        progress_percentage: entry.progressPercentage,
+        report_date: entry.reportDate,
+        notes: entry.notes,
+        user_id: entry.userProfileId,
+        regression_reason: entry.regressionReason ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    workProgressId = inserted.id as number;
+
+    await ActivityLogService.logActivity({
+      action: "create",
+      tableName: "work_progress",
+      recordId: workProgressId,
+      newData: inserted,
+      description: `Created work progress report (${entry.progressPercentage}%) for work details ID ${entry.workDetailsId} (filed offline ${entry.queuedAt})`,
+    });
+
+    for (const later of await listQueuedReports(entry.userProfileId)) {
+      if (
+        later.localId > entry.localId &&
+        later.workDetailsId === entry.workDetailsId
+      ) {
+        await saveQueuedReport({
+          ...later,
+          sentBeforeIds: [...later.sentBeforeIds, workProgressId],
+        });
+      }
+    }
+
+    // From here on a retry must only send the photos, never the report.
+    if (entry.photos.length > 0) {
+      entry = { ...entry, workProgressId };
+      await saveQueuedReport(entry);
+    }
+  }
+
+  // Photos go one at a time, dropping each from the entry once it's
+  // attached, so a retry picks up exactly where this left off.
+  while (entry.photos.length > 0) {
+    await attachProgressEvidencePhotos({
+      workProgressId,
+      workDetailsId: entry.workDetailsId,
+      reportDate: entry.reportDate,
+      photos: [entry.photos[0]],
+      startOrder: entry.photoStartOrder,
+    });
+    entry = {
+      ...entry,
+      photos: entry.photos.slice(1),
+      photoStartOrder: entry.photoStartOrder + 1,
+    };
+    if (entry.photos.length > 0) await saveQueuedReport(entry);
+  }
+
+  await removeQueuedReport(entry.localId);
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+/**
+ * Sends this profile's queued reports in the order they were filed. A
+ * conflict holds back the later reports of the same work detail so they
+ * can't overtake it; a dropped connection stops the run. Calls made while
+ * a replay is underway share it.
+ */
+export function replayProgressQueue(
+  userProfileId: number,
+): Promise<ReplayResult> {
+  replaying ??= runReplay(userProfileId).finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+async function runReplay(userProfileId: number): Promise<ReplayResult> {
+  const result: ReplayResult = {
+    sent: 0,
+    conflicts: 0,
+    failed: 0,
+    interrupted: false,
+  };
+  const heldWorkDetails = new Set<number>();
+
+  for (const queued of await listQueuedReports(userProfileId)) {
+    // Sending an earlier report rewrites this one's sentBeforeIds, and it
+    // may have been discarded meanwhile — work from the stored copy.
+    const entry = await getQueuedReport(queued.localId);
+    if (!entry) continue;
+
+    // Conflicts and failures wait for someone to look at them (see
+    // sendQueuedReportAnyway / retryQueuedReport).
+    if (
+      entry.status !== "pending" ||
+      heldWorkDetails.has(entry.workDetailsId)
+    ) {
+      heldWorkDetails.add(entry.workDetailsId);
+      continue;
+    }
+
+    try {
+      if (entry.workProgressId === undefined) {
+        const conflict = await findConflict(entry);
+        if (conflict) {
+          await saveQueuedReport({
+            ...entry,
+            status: "conflict",
+            conflict,
+            error: undefined,
+          });
+          heldWorkDetails.add(entry.workDetailsId);
+          result.conflicts++;
+          continue;
+        }
+      }
+      await sendQueuedReport(entry);
+      result.sent++;
+    } catch (err) {
+      if (isNetworkError(err)) {
+        result.interrupted = true;
+        break;
+      }
+      console.error("Error replaying queued progress report:", err);
+      // Re-read: a partly sent entry was saved with fewer photos.
+      const current = await withStore<QueuedProgressReport | undefined>(
+        "readonly",
+        (store) => store.get(entry.localId),
+      );
+      if (current) {
+        await saveQueuedReport({
+          ...current,
+          status: "failed",
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      heldWorkDetails.add(entry.workDetailsId);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sends one entry regardless of conflicts — the person reviewing it has
+ * decided it should go in as filed, with a regression reason when it now
+ * comes in below the report before it.
+ */
+export async function sendQueuedReportAnyway(
+  entry: QueuedProgressReport,
+  regressionReason?: RegressionReason,
+): Promise<void> {
+  if (regressionReason) entry = { ...entry, regressionReason };
+  try {
+    await sendQueuedReport(entry);
+  } catch (err) {
+    if (!isNetworkError(err)) {
+      const current = await withStore<QueuedProgressReport | undefined>(
+        "readonly",
+        (store) => store.get(entry.localId),
+      );
+      if (current) {
+        await saveQueuedReport({
+          ...current,
+          status: "failed",
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    throw err;
+  }
+}
+
+/** Puts a failed entry back in line for the next replay. */
+export async function retryQueuedReport(
+  entry: QueuedProgressReport,
+): Promise<void> {
+  await saveQueuedReport({ ...entry, status: "pending", error: undefined });
+}
@@ -1,4 +1,10 @@
 import { supabase } from "../lib/supabase";
+import {
+  EVIDENCE_JPEG_QUALITY,
+  EVIDENCE_MAX_DIMENSION,
+} from "../constants/evidencePhotos";
+import { compressImage } from "./imageCompression";
+import { readEvidenceMetadata, type EvidenceMetadata } from "./evidenceMetadata";
 
 export interface ProgressEvidenceUpload {
   file: File;
@@ -13,6 +19,49 @@ export interface ProgressEvidenceResponse {
   error?: string;
 }
 
+// One photo of a progress report (work_progress_evidence). The first by
+// sort_order is also mirrored into work_progress.storage_path.
+export interface ProgressEvidencePhoto {
+  id: number;
+  work_progress_id: number;
+  storage_path: string;
+  caption: string | null;
+  sort_order: number;
+  created_at: string;
+  captured_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  original_size_bytes: number | null;
+  size_bytes: number | null;
+}
+
+const EVIDENCE_COLUMNS =
+  "id, work_progress_id, storage_path, caption, sort_order, created_at, captured_at, latitude, longitude, original_size_bytes, size_bytes";
+
+// A photo picked in a form but not uploaded yet — already compressed, with
+// the metadata read from the original (see prepareEvidencePhoto).
+export interface PendingEvidencePhoto {
+  file: File;
+  caption: string;
+  metadata: EvidenceMetadata;
+  originalSize: number;
+}
+
+/**
+ * Reads EXIF from the picked file, then shrinks it for upload. Metadata has
+ * to come first: re-encoding through a canvas strips it.
+ */
+export async function prepareEvidencePhoto(
+  file: File
+): Promise<PendingEvidencePhoto> {
+  const metadata = await readEvidenceMetadata(file);
+  const compressed = await compressImage(file, {
+    maxDimension: EVIDENCE_MAX_DIMENSION,
+    quality: EVIDENCE_JPEG_QUALITY,
+  });
+  return { file: compressed, caption: "", metadata, originalSize: file.size };
+}
+
 export async function uploadProgressEvidence({
   file,
   workDetailsId,
@@ -217,3 +266,146 @@ export const validateProgressEvidenceFile = (
 
   return { isValid: true };
 };
+
+/**
+ * Signed URLs for many evidence files in one request, keyed by storage path.
+ * Paths that fail to sign are left out.
+ */
+export async function getProgressEvidenceSignedUrls(
+  storagePaths: string[],
+  expiresIn: number = 3600
+): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+  if (storagePaths.length === 0) return urls;
+
+  const { data, error } = await supabase.storage
+    .from("progress_evidence")
+    .createSignedUrls(storagePaths, expiresIn);
+
+  if (error) {
+    console.error("Error creating signed URLs:", error);
+    return urls;
+  }
+
+  for (const item of data || []) {
+    if (item.path && item.signedUrl) urls.set(item.path, item.signedUrl);
+  }
+  return urls;
+}
+
+/**
+ * Evidence photos of the given progress reports, keyed by work_progress_id
+ * and in display order.
+ */
+export async function fetchProgressEvidencePhotos(
+  workProgressIds: number[]
+): Promise<Map<number, ProgressEvidencePhoto[]>> {
+  const photos = new Map<number, ProgressEvidencePhoto[]>();
+  if (workProgressIds.length === 0) return photos;
+
+  const { data, error } = await supabase
+    .from("work_progress_evidence")
+    .select(EVIDENCE_COLUMNS)
+    .in("work_progress_id", workProgressIds)
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+
+  if (error) throw error;
+
+  for (const photo of data || []) {
+    photos.set(photo.work_progress_id, [
+      ...(photos.get(photo.work_progress_id) || []),
+      photo,
+    ]);
+  }
+  return photos;
+}
+
+/**
+ * Uploads the picked photos and attaches them to a progress report after
+ * any it already has. A photo whose row can't be saved is removed from
+ * storage again so no orphan files are left behind.
+ */
+export async function attachProgressEvidencePhotos({
+  workProgressId,
+  workDetailsId,
+  reportDate,
+  photos,
+  startOrder = 0,
+}: {
+  workProgressId: number;
+  workDetailsId: number;
+  reportDate: string;
+  photos: PendingEvidencePhoto[];
+  startOrder?: number;
+}): Promise<ProgressEvidencePhoto[]> {
+  const saved: ProgressEvidencePhoto[] = [];
+
+  for (const [index, photo] of photos.entries()) {
+    const upload = await uploadProgressEvidence({
+      file: photo.file,
+      workDetailsId,
+      reportDate,
+    });
+    if (!upload.success || !upload.storagePath) {
+      throw new Error(
+        `${photo.file.name}: ${upload.error || "Failed to upload evidence"}`
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("work_progress_evidence")
+      .insert({
+        work_progress_id: workProgressId,
+        storage_path: upload.storagePath,
+        caption: photo.caption.trim() || null,
+        sort_order: startOrder + index,
+        captured_at: photo.metadata.capturedAt,
+        latitude: photo.metadata.latitude,
+        longitude: photo.metadata.longitude,
+        original_size_bytes: photo.originalSize,
+        size_bytes: photo.file.size,
+      })
+      .select(EVIDENCE_COLUMNS)
+      .single();
+
+    if (error) {
+      await deleteProgressEvidence(upload.storagePath);
+      throw new Error(`${photo.file.name}: ${error.message}`);
+    }
+    saved.push(data);
+  }
+
+  return saved;
+}
+
+/**
+ * Removes a photo from its progress report and from storage.
+ */
+export async function removeProgressEvidencePhoto(
+  photo: ProgressEvidencePhoto
+): Promise<void> {
+  const { error } = await supabase
+    .from("work_progress_evidence")
+    .delete()
+    .eq("id", photo.id);
+
+  if (error) throw error;
+
+  const removed = await deleteProgressEvidence(photo.storage_path);
+  if (!removed.success) {
+    console.error("Evidence row removed but file remains:", removed.error);
+  }
+}
+
+export async function updateProgressEvidenceCaption(
+  photoId: number,
+  caption: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("work_progress_evidence")
+    .update({ caption: caption.trim() || null })
+    .eq("id", photoId);
+
+  if (error) throw error;
+}
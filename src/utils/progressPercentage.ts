@@ -60,3 +60,97 @@ export function getLatestProgressRecord<
     return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
   })[0];
 }
+
+/**
+ * Why a progress report is lower than the one before it. Stored in
+ * work_progress.regression_reason; a regression without one is rejected by
+ * trg_work_progress_regression.
+ */
+export const REGRESSION_REASONS = [
+  { value: "REWORK", label: "Rework" },
+  { value: "RECOUNT", label: "Recount" },
+  { value: "DATA_ENTRY_ERROR", label: "Data-entry error" },
+] as const;
+
+export type RegressionReason = (typeof REGRESSION_REASONS)[number]["value"];
+
+export function regressionReasonLabel(
+  reason: string | null | undefined,
+): string | null {
+  return REGRESSION_REASONS.find((r) => r.value === reason)?.label ?? null;
+}
+
+/**
+ * Reads a regression reason typed by hand (e.g. an import sheet):
+ * "rework", "Data-entry error" and "DATA_ENTRY_ERROR" all work. Returns
+ * null for anything unrecognised.
+ */
+export function parseRegressionReason(value: string): RegressionReason | null {
+  const normalised = value
+    .trim()
+    .toUpperCase()
+    .replace(/[\s-]+/g, "_");
+  return (
+    REGRESSION_REASONS.find(
+      (r) =>
+        r.value === normalised ||
+        r.label.toUpperCase().replace(/[\s-]+/g, "_") === normalised,
+    )?.value ?? null
+  );
+}
+
+/**
+ * The report that comes right before `report` in a work detail's history,
+ * in the same order as getLatestProgressRecord. A report that isn't saved
+ * yet (no created_at) goes after everything on its date. This is what a
+ * report is compared against to decide whether it regresses.
+ */
+export function getPreviousProgressRecord<
+  T extends { id?: number; report_date: string; created_at: string },
+>(
+  records: T[],
+  report: { id?: number; report_date: string; created_at?: string },
+): T | undefined {
+  const reportDate = new Date(report.report_date).getTime();
+  const reportCreated = report.created_at
+    ? new Date(report.created_at).getTime()
+    : Infinity;
+  return getLatestProgressRecord(
+    records.filter((r) => {
+      if (report.id !== undefined && r.id === report.id) return false;
+      const date = new Date(r.report_date).getTime();
+      return (
+        date < reportDate ||
+        (date === reportDate &&
+          new Date(r.created_at).getTime() < reportCreated)
+      );
+    }),
+  );
+}
+
+/**
+ * Reports that are lower than the one before them, keyed by report id,
+ * with that previous report's percentage.
+ */
+export function findProgressRegressions<
+  T extends {
+    id: number;
+    progress_percentage: number;
+    report_date: string;
+    created_at: string;
+  },
+>(records: T[]): Map<number, number> {
+  // Oldest first — the reverse of getLatestProgressRecord's order.
+  const sorted = [...records].sort(
+    (a, b) =>
+      new Date(a.report_date).getTime() - new Date(b.report_date).getTime() ||
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+  );
+  const regressions = new Map<number, number>();
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].progress_percentage < sorted[i - 1].progress_percentage) {
+      regressions.set(sorted[i].id, sorted[i - 1].progress_percentage);
+    }
+  }
+  return regressions;
+}
@@ -0,0 +1,207 @@
+import { supabase } from "../lib/supabase";
+import { ActivityLogService } from "../services/activityLogService";
+import { daysBetween, shiftDate } from "./deadlineUtils";
+
+/**
+ * Starting a new docking from a previous project of the same vessel
+ * (clone_project_work() — see 20260807210000_clone_project_work.sql).
+ * The preview here re-dates with the same rule the database uses, so what
+ * the user confirms is what gets inserted.
+ */
+
+export interface PreviousProject {
+  id: number;
+  project_name: string;
+  docking_type: string | null;
+  created_at: string;
+  docking_date: string | null;
+  work_order_count: number;
+}
+
+export interface CloneSourceWorkDetail {
+  id: number;
+  description: string;
+  quantity: number;
+  uom: string;
+  planned_start_date: string | null;
+  target_close_date: string | null;
+}
+
+export interface CloneSourceWorkOrder {
+  id: number;
+  shipyard_wo_number: string;
+  shipyard_wo_date: string;
+  is_additional_wo: boolean | null;
+  work_type: string | null;
+  work_details: CloneSourceWorkDetail[];
+}
+
+export interface CloneSource {
+  project: PreviousProject;
+  workOrders: CloneSourceWorkOrder[];
+}
+
+export interface ClonePlan {
+  anchorDate: string;
+  offsetDays: number;
+  workOrders: (CloneSourceWorkOrder & {
+    new_wo_date: string;
+    new_work_details: (CloneSourceWorkDetail & {
+      new_planned_start_date: string | null;
+      new_target_close_date: string | null;
+    })[];
+  })[];
+}
+
+export interface CloneResult {
+  work_order: number;
+  work_details: number;
+  offset_days: number;
+}
+
+/** Other active projects of the vessel, newest first. */
+export async function fetchPreviousProjects(
+  vesselId: number,
+  excludeProjectId?: number,
+): Promise<PreviousProject[]> {
+  const { data, error } = await supabase
+    .from("projects")
+    .select(
+      `
+      id,
+      project_name,
+      docking_type,
+      created_at,
+      readiness_form:readiness_form_id ( docking_date ),
+      work_order ( id, deleted_at )
+    `,
+    )
+    .eq("vessel_id", vesselId)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return ((data as any[]) || [])
+    .filter((p) => p.id !== excludeProjectId)
+    .map((p) => ({
+      id: p.id,
+      project_name: p.project_name,
+      docking_type: p.docking_type,
+      created_at: p.created_at,
+      docking_date: p.readiness_form?.docking_date ?? null,
+      work_order_count: (p.work_order || []).filter(
+        (wo: { deleted_at: string | null }) => !wo.deleted_at,
+      ).length,
+    }));
+}
+
+/** The project's active work orders with their non-cancelled work details. */
+export async function fetchCloneSource(
+  project: PreviousProject,
+): Promise<CloneSource> {
+  const { data, error } = await supabase
+    .from("work_order")
+    .select(
+      `
+      id,
+      shipyard_wo_number,
+      shipyard_wo_date,
+      is_additional_wo,
+      work_type,
+      work_details (
+        id,
+        description,
+        quantity,
+        uom,
+        planned_start_date,
+        target_close_date,
+        deleted_at,
+        cancelled_at
+      )
+    `,
+    )
+    .eq("project_id", project.id)
+    .is("deleted_at", null)
+    .order("shipyard_wo_date", { ascending: true })
+    .order("id", { ascending: true });
+
+  if (error) throw error;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const workOrders = ((data as any[]) || []).map((wo) => ({
+    ...wo,
+    work_details: (wo.work_details || [])
+      .filter(
+        (wd: { deleted_at: string | null; cancelled_at: string | null }) =>
+          !wd.deleted_at && !wd.cancelled_at,
+      )
+      .sort((a: { id: number }, b: { id: number }) => a.id - b.id),
+  }));
+
+  return { project, workOrders };
+}
+
+/**
+ * Everything moves by the days between the source's docking date (its
+ * readiness form, else its earliest work order) and the new docking date.
+ * Null when the source has nothing to anchor on.
+ */
+export function planProjectClone(
+  source: CloneSource,
+  dockingDate: string,
+): ClonePlan | null {
+  const anchorDate =
+    source.project.docking_date ||
+    source.workOrders.map((wo) => wo.shipyard_wo_date.slice(0, 10)).sort()[0];
+  if (!anchorDate || !dockingDate) return null;
+
+  const offsetDays = daysBetween(anchorDate, dockingDate);
+  const shift = (date: string | null) =>
+    date ? shiftDate(date, offsetDays) : null;
+
+  return {
+    anchorDate,
+    offsetDays,
+    workOrders: source.workOrders.map((wo) => ({
+      ...wo,
+      new_wo_date: shiftDate(wo.shipyard_wo_date, offsetDays),
+      new_work_details: wo.work_details.map((wd) => ({
+        ...wd,
+        new_planned_start_date: shift(wd.planned_start_date),
+        new_target_close_date: shift(wd.target_close_date),
+      })),
+    })),
+  };
+}
+
+/** Copies the source's work into the target and logs it against the target. */
+export async function cloneProjectWork(
+  source: PreviousProject,
+  target: { id: number; project_name: string },
+  dockingDate: string,
+): Promise<CloneResult> {
+  const { data, error } = await supabase.rpc("clone_project_work", {
+    p_source_project_id: source.id,
+    p_target_project_id: target.id,
+    p_docking_date: dockingDate,
+  });
+  if (error) throw error;
+
+  const copied = data as CloneResult;
+  await ActivityLogService.logActivity({
+    action: "create",
+    tableName: "projects",
+    recordId: target.id,
+    newData: {
+      cloned_from_project_id: source.id,
+      cloned_from_project_name: source.project_name,
+      docking_date: dockingDate,
+      copied,
+    },
+    description: `Copied ${copied.work_order} work orders and ${copied.work_details} work details from ${source.project_name} into ${target.project_name}`,
+  });
+
+  return copied;
+}
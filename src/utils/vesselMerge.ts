@@ -0,0 +1,104 @@
+import { supabase } from "../lib/supabase";
+import { isNearVesselName } from "./vesselSync";
+
+/**
+ * Duplicate vessel rows and merging them (merge_vessels() — see
+ * 20260807190000_merge_vessels.sql). Duplicates are found with the same
+ * near-spelling rule the fleet sync uses; the merge itself runs in the
+ * database so every referencing row moves, and the merge is logged, in one
+ * transaction.
+ */
+
+export interface MergeableVessel {
+  id: number;
+  name: string;
+}
+
+// Tables whose rows point at a vessel, in the order merge_vessels() moves them.
+export const VESSEL_REFERENCES = [
+  { table: "projects", label: "projects" },
+  { table: "work_order", label: "work orders" },
+  { table: "vessel_readiness_forms", label: "readiness forms" },
+  { table: "additional_wo_requests", label: "additional WO requests" },
+  { table: "bastp", label: "BASTPs" },
+] as const;
+
+export type VesselReferenceTable = (typeof VESSEL_REFERENCES)[number]["table"];
+export type VesselReferenceCounts = Record<VesselReferenceTable, number>;
+
+export const totalReferences = (counts: VesselReferenceCounts) =>
+  Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+export const describeReferences = (counts: VesselReferenceCounts) =>
+  VESSEL_REFERENCES.filter(({ table }) => counts[table] > 0)
+    .map(({ table, label }) => `${counts[table]} ${label}`)
+    .join(", ") || "nothing";
+
+/**
+ * Groups of vessels whose names look like spellings of the same vessel,
+ * ordered by name. Near-ness chains, so A~B and B~C put A, B and C together.
+ */
+export function findDuplicateVesselGroups<T extends MergeableVessel>(
+  vessels: T[],
+): T[][] {
+  const parent = vessels.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+  for (let i = 0; i < vessels.length; i++) {
+    for (let j = i + 1; j < vessels.length; j++) {
+      if (isNearVesselName(vessels[i].name, vessels[j].name)) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  vessels.forEach((vessel, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), vessel]);
+  });
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => [...group].sort((a, b) => a.id - b.id))
+    .sort((a, b) => a[0].name.localeCompare(b[0].name));
+}
+
+/** Rows referencing the vessel per table, soft-deleted ones included. */
+export async function countVesselReferences(
+  vesselId: number,
+): Promise<VesselReferenceCounts> {
+  const results = await Promise.all(
+    VESSEL_REFERENCES.map(({ table }) =>
+      supabase
+        .from(table)
+        .select("id", { count: "exact", head: true })
+        .eq("vessel_id", vesselId),
+    ),
+  );
+
+  return Object.fromEntries(
+    results.map((result, i) => {
+      if (result.error) throw result.error;
+      return [VESSEL_REFERENCES[i].table, result.count ?? 0];
+    }),
+  ) as VesselReferenceCounts;
+}
+
+/**
+ * Merges `duplicate` into `survivor`; merge_vessels() logs it against the
+ * survivor. Returns the rows moved per table.
+ */
+export async function mergeVessels(
+  duplicate: MergeableVessel,
+  survivor: MergeableVessel,
+): Promise<VesselReferenceCounts> {
+  const { data, error } = await supabase.rpc("merge_vessels", {
+    p_duplicate_id: duplicate.id,
+    p_survivor_id: survivor.id,
+  });
+  if (error) throw error;
+
+  return data as VesselReferenceCounts;
+}
@@ -0,0 +1,363 @@
+/**
+ * Vessel sync against the company's fleet API. Replaces the one-off
+ * 20260730200000_sync_vessel_data_from_company_api.sql with a repeatable
+ * review: parseFleetApiResponse() reads the API's JSON (fetched live or from
+ * a saved file), planVesselSync() compares it with our vessel rows and
+ * proposes changes, and VesselSyncModal lets a reviewer accept or reject
+ * each one before utils/vesselSyncApply.ts writes it.
+ *
+ * Nothing here touches the database, so a plan can be reproduced from a
+ * saved API response and a vessel export alone —
+ * supabase/fixtures/vessel-sync/ holds the pair behind the original
+ * migration, with the plan it should produce.
+ *
+ * Matching follows the original migration:
+ *   - by name, never by id (the API's ids are an unrelated sequence),
+ *     case- and whitespace-insensitive;
+ *   - a name with no exact match but one near-spelling match ("AHTS PASIFIC
+ *     PREMIUM" vs "AHTS PACIFIC PREMIUM") is a rename to the API spelling;
+ *   - a near-spelling row next to an exact match ("SPOB ALVINA 03" beside
+ *     "SPOB ALLVINA 03") is a duplicate;
+ *   - type and company only ever fill in or replace, never clear — a
+ *     missing API value keeps ours, and a literal "NULL" type counts as
+ *     missing;
+ *   - company names are mapped onto this app's spelling (COMPANY_ALIASES).
+ * Vessels the API doesn't list are left alone.
+ */
+
+/** One vessel as the fleet API returns it. */
+export interface FleetApiVessel {
+  id?: number | string | null;
+  vessel_name: string;
+  fleet_number: number | null;
+  ship_type: string | null;
+  ship_company: string | null;
+}
+
+/** The vessel columns the sync reads. */
+export interface SyncableVessel {
+  id: number;
+  name: string;
+  type: string | null;
+  company: string | null;
+  fleet_number: number | null;
+}
+
+export type VesselSyncField = "type" | "company" | "fleet_number";
+
+export interface VesselFieldChange {
+  field: VesselSyncField;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export type VesselSyncProposal =
+  | {
+      kind: "create";
+      key: string;
+      api: FleetApiVessel;
+      values: {
+        name: string;
+        type: string | null;
+        company: string | null;
+        fleet_number: number | null;
+      };
+    }
+  | {
+      kind: "update";
+      key: string;
+      api: FleetApiVessel;
+      vessel: SyncableVessel;
+      changes: VesselFieldChange[];
+    }
+  | {
+      kind: "rename";
+      key: string;
+      api: FleetApiVessel;
+      vessel: SyncableVessel;
+      newName: string;
+      changes: VesselFieldChange[];
+    }
+  | {
+      kind: "duplicate";
+      key: string;
+      api: FleetApiVessel;
+      vessel: SyncableVessel;
+      duplicateOf: SyncableVessel;
+    };
+
+export type VesselSyncKind = VesselSyncProposal["kind"];
+
+// The API's spelling (normalised) -> this app's spelling. Extend when the
+// API introduces another variant of a company we already have.
+export const COMPANY_ALIASES: Record<string, string> = {
+  "armada samudra global": "Armada Samudera Global",
+};
+
+const FIELD_LABELS: Record<VesselSyncField, string> = {
+  type: "Type",
+  company: "Company",
+  fleet_number: "Fleet #",
+};
+
+export const describeFieldChange = (change: VesselFieldChange) =>
+  `${FIELD_LABELS[change.field]}: ${change.from ?? "—"} → ${change.to ?? "—"}`;
+
+/** Upper-case, trimmed, single-spaced — the key exact matches use. */
+export const normalizeVesselName = (name: string) =>
+  name.trim().replace(/\s+/g, " ").toUpperCase();
+
+// Spacing, punctuation and doubled letters removed, so "SPOB BB SS 27" and
+// "SPOB BBSS 27", or "ALLVINA" and "ALVINA", share a key.
+const looseKey = (name: string) =>
+  normalizeVesselName(name)
+    .replace(/[^A-Z0-9]/g, "")
+    .replace(/(.)\1+/g, "$1");
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether two names look like spellings of the same vessel: equal loose
+ * keys, or one letter apart on names long enough that a single letter
+ * isn't the whole difference between two hull numbers.
+ */
+export function isNearVesselName(a: string, b: string): boolean {
+  const keyA = looseKey(a);
+  const keyB = looseKey(b);
+  if (keyA === keyB) return true;
+  // Digits differ between sister ships ("SEA ROYAL 18" / "SEA ROYAL 27").
+  if (keyA.replace(/\D/g, "") !== keyB.replace(/\D/g, "")) return false;
+  return (
+    Math.min(keyA.length, keyB.length) >= 8 && editDistance(keyA, keyB) <= 1
+  );
+}
+
+const cleanText = (value: string | null | undefined) => {
+  const text = (value ?? "").trim().replace(/\s+/g, " ");
+  return text && text.toUpperCase() !== "NULL" ? text : null;
+};
+
+/** The API's company name in this app's spelling. */
+export function normalizeCompanyName(
+  company: string | null | undefined,
+): string | null {
+  const text = cleanText(company);
+  if (!text) return null;
+  return COMPANY_ALIASES[text.toLowerCase()] ?? text;
+}
+
+const toFleetNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const number = Number(value);
+  return Number.isInteger(number) ? number : null;
+};
+
+/**
+ * Reads the fleet API's response body. Accepts the bare array or the
+ * `{ data: [...] }` envelope; rows without a vessel name are dropped.
+ */
+export function parseFleetApiResponse(json: unknown): FleetApiVessel[] {
+  const rows = Array.isArray(json)
+    ? json
+    : json &&
+        typeof json === "object" &&
+        Array.isArray((json as { data?: unknown }).data)
+      ? (json as { data: unknown[] }).data
+      : null;
+  if (!rows) {
+    throw new Error(
+      "Not a fleet API response — expected an array of vessels or { data: [...] }.",
+    );
+  }
+
+  return rows.flatMap((row) => {
+    if (!row || typeof row !== "object") return [];
+    const r = row as Record<string, unknown>;
+    const vesselName = cleanText(
+      typeof r.vessel_name === "string" ? r.vessel_name : null,
+    );
+    if (!vesselName) return [];
+    return [
+      {
+        id: (r.id as number | string | null | undefined) ?? null,
+        vessel_name: vesselName,
+        fleet_number: toFleetNumber(r.fleet_number),
+        ship_type: cleanText(
+          typeof r.ship_type === "string" ? r.ship_type : null,
+        ),
+        ship_company: cleanText(
+          typeof r.ship_company === "string" ? r.ship_company : null,
+        ),
+      },
+    ];
+  });
+}
+
+function fieldChanges(
+  vessel: SyncableVessel,
+  api: FleetApiVessel,
+): VesselFieldChange[] {
+  const changes: VesselFieldChange[] = [];
+  const currentType = cleanText(vessel.type);
+  const currentCompany = cleanText(vessel.company);
+  const type = api.ship_type ?? currentType;
+  const company = normalizeCompanyName(api.ship_company) ?? currentCompany;
+
+  if (type !== currentType || (vessel.type !== null && currentType === null)) {
+    changes.push({ field: "type", from: vessel.type, to: type });
+  }
+  // Case-only differences aren't worth a change: linked vessels carry the
+  // customer's spelling.
+  if (company?.toLowerCase() !== currentCompany?.toLowerCase()) {
+    changes.push({ field: "company", from: vessel.company, to: company });
+  }
+  if (api.fleet_number !== null && api.fleet_number !== vessel.fleet_number) {
+    changes.push({
+      field: "fleet_number",
+      from: vessel.fleet_number,
+      to: api.fleet_number,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Proposed changes that would bring `vessels` (active rows only) in line
+ * with the fleet API. Each proposal has a stable `key` for tracking the
+ * reviewer's decision.
+ */
+export function planVesselSync(
+  apiVessels: FleetApiVessel[],
+  vessels: SyncableVessel[],
+): VesselSyncProposal[] {
+  const proposals: VesselSyncProposal[] = [];
+  const byName = new Map<string, SyncableVessel[]>();
+  for (const vessel of [...vessels].sort((a, b) => a.id - b.id)) {
+    const name = normalizeVesselName(vessel.name);
+    byName.set(name, [...(byName.get(name) || []), vessel]);
+  }
+
+  // The API can list the same vessel twice; the first entry wins.
+  const seen = new Set<string>();
+  const apiRows = apiVessels.filter((api) => {
+    const name = normalizeVesselName(api.vessel_name);
+    if (seen.has(name)) return false;
+    seen.add(name);
+    return true;
+  });
+
+  // Rows claimed by an exact name match, then by a rename.
+  const claimed = new Map<number, FleetApiVessel>();
+  const unmatched: FleetApiVessel[] = [];
+
+  for (const api of apiRows) {
+    const exact = byName.get(normalizeVesselName(api.vessel_name)) || [];
+    if (exact.length === 0) {
+      unmatched.push(api);
+      continue;
+    }
+    const [primary, ...others] = exact;
+    claimed.set(primary.id, api);
+    const changes = fieldChanges(primary, api);
+    if (changes.length > 0) {
+      proposals.push({
+        kind: "update",
+        key: `update-${primary.id}`,
+        api,
+        vessel: primary,
+        changes,
+      });
+    }
+    for (const other of others) {
+      claimed.set(other.id, api);
+      proposals.push({
+        kind: "duplicate",
+        key: `duplicate-${other.id}`,
+        api,
+        vessel: other,
+        duplicateOf: primary,
+      });
+    }
+  }
+
+  const isFree = (vessel: SyncableVessel) => !claimed.has(vessel.id);
+
+  for (const api of unmatched) {
+    const near = vessels
+      .filter((v) => isFree(v) && isNearVesselName(v.name, api.vessel_name))
+      .sort((a, b) => a.id - b.id);
+    if (near.length === 0) {
+      proposals.push({
+        kind: "create",
+        key: `create-${normalizeVesselName(api.vessel_name)}`,
+        api,
+        values: {
+          name: api.vessel_name,
+          type: api.ship_type,
+          company: normalizeCompanyName(api.ship_company),
+          fleet_number: api.fleet_number,
+        },
+      });
+      continue;
+    }
+    const [target, ...others] = near;
+    claimed.set(target.id, api);
+    proposals.push({
+      kind: "rename",
+      key: `rename-${target.id}`,
+      api,
+      vessel: target,
+      newName: api.vessel_name,
+      changes: fieldChanges(target, api),
+    });
+    for (const other of others) {
+      claimed.set(other.id, api);
+      proposals.push({
+        kind: "duplicate",
+        key: `duplicate-${other.id}`,
+        api,
+        vessel: other,
+        duplicateOf: target,
+      });
+    }
+  }
+
+  // Near-spelling leftovers beside a vessel the API matched exactly.
+  const exactByApi = new Map<FleetApiVessel, SyncableVessel>();
+  for (const vessel of [...vessels].sort((a, b) => a.id - b.id)) {
+    const api = claimed.get(vessel.id);
+    if (api && !exactByApi.has(api)) exactByApi.set(api, vessel);
+  }
+  for (const vessel of vessels) {
+    if (!isFree(vessel)) continue;
+    for (const [api, primary] of exactByApi) {
+      if (isNearVesselName(vessel.name, api.vessel_name)) {
+        claimed.set(vessel.id, api);
+        proposals.push({
+          kind: "duplicate",
+          key: `duplicate-${vessel.id}`,
+          api,
+          vessel,
+          duplicateOf: primary,
+        });
+        break;
+      }
+    }
+  }
+
+  return proposals;
+}
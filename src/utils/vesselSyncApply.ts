@@ -0,0 +1,107 @@
+import { supabase } from "../lib/supabase";
+import { normalizeVesselName, type VesselSyncProposal } from "./vesselSync";
+import { mergeVessels } from "./vesselMerge";
+
+/**
+ * Writes one accepted fleet-sync proposal (see utils/vesselSync.ts). Company
+ * changes go through the customer master: the vessel is linked to the
+ * customer with that name, which is created if it doesn't exist yet, and
+ * the customer trigger from 20260807180000_customers.sql fills in
+ * vessel.company. A duplicate is merged into the vessel it duplicates.
+ */
+
+async function resolveCustomerId(company: string): Promise<number> {
+  const { data, error } = await supabase
+    .from("customers")
+    .select("id, name")
+    .is("deleted_at", null);
+  if (error) throw error;
+
+  const wanted = company.trim().toLowerCase();
+  const existing = (data || []).find(
+    (c: { id: number; name: string }) => c.name.trim().toLowerCase() === wanted,
+  );
+  if (existing) return existing.id;
+
+  const { data: created, error: insertError } = await supabase
+    .from("customers")
+    .insert({ name: company.trim() })
+    .select("id")
+    .single();
+  if (insertError) throw insertError;
+  return created.id;
+}
+
+// type/fleet_number as-is; company becomes a customer link.
+async function buildVesselPatch(
+  values: Partial<Record<"type" | "company" | "fleet_number", unknown>>,
+) {
+  const patch: Record<string, unknown> = {};
+  if ("type" in values) patch.type = values.type ?? null;
+  if ("fleet_number" in values) {
+    patch.fleet_number = values.fleet_number ?? null;
+  }
+  if ("company" in values) {
+    const company = values.company as string | null | undefined;
+    patch.customer_id = company ? await resolveCustomerId(company) : null;
+    patch.company = company ?? null;
+  }
+  return patch;
+}
+
+async function ensureNameFree(name: string, exceptId?: number) {
+  const { data, error } = await supabase
+    .from("vessel")
+    .select("id, name")
+    .is("deleted_at", null);
+  if (error) throw error;
+  const wanted = normalizeVesselName(name);
+  if (
+    (data || []).some(
+      (v: { id: number; name: string }) =>
+        v.id !== exceptId && normalizeVesselName(v.name) === wanted,
+    )
+  ) {
+    throw new Error(`An active vessel named "${name}" already exists.`);
+  }
+}
+
+export async function applyVesselSyncProposal(
+  proposal: VesselSyncProposal,
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  switch (proposal.kind) {
+    case "create": {
+      await ensureNameFree(proposal.values.name);
+      const patch = await buildVesselPatch(proposal.values);
+      const { error } = await supabase
+        .from("vessel")
+        .insert({ name: proposal.values.name, ...patch });
+      if (error) throw error;
+      return;
+    }
+
+    case "update":
+    case "rename": {
+      const patch = await buildVesselPatch(
+        Object.fromEntries(proposal.changes.map((c) => [c.field, c.to])),
+      );
+      if (proposal.kind === "rename") {
+        await ensureNameFree(proposal.newName, proposal.vessel.id);
+        patch.name = proposal.newName;
+      }
+      const { error } = await supabase
+        .from("vessel")
+        .update({ ...patch, updated_at: now })
+        .eq("id", proposal.vessel.id);
+      if (error) throw error;
+      return;
+    }
+
+    case "duplicate": {
+      await mergeVessels(proposal.vessel, proposal.duplicateOf);
+      return;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { supabase } from "../lib/supabase";
+import type {
+  WorkDetailTemplate,
+  WorkDetailTemplateMaterial,
+} from "../types/workDetailTemplate.types";
+
+/**
+ * Standard job library (see 20260807200000_work_detail_templates.sql).
+ * A template's values are copied into a new work detail; nothing links the
+ * two afterwards.
+ */
+
+export const WORK_DETAIL_TEMPLATE_SELECT =
+  "*, work_scope:work_scope_id(id, work_scope), location:location_id(id, location), materials:work_detail_template_materials(id, template_id, material_id, typical_quantity, uom, material:material_id(id, material, specification))";
+
+/** Active templates, ordered by work scope and description. */
+export async function fetchWorkDetailTemplates(): Promise<
+  WorkDetailTemplate[]
+> {
+  const { data, error } = await supabase
+    .from("work_detail_templates")
+    .select(WORK_DETAIL_TEMPLATE_SELECT)
+    .is("deleted_at", null)
+    .order("description", { ascending: true });
+  if (error) throw error;
+  return sortTemplates((data as WorkDetailTemplate[]) || []);
+}
+
+export function sortTemplates<T extends WorkDetailTemplate>(
+  templates: T[],
+): T[] {
+  return [...templates].sort(
+    (a, b) =>
+      (a.work_scope?.work_scope || "").localeCompare(
+        b.work_scope?.work_scope || "",
+      ) || a.description.localeCompare(b.description),
+  );
+}
+
+/**
+ * Whether a template belongs on a work order of this type. Templates
+ * without a work type fit any work order, and so does every template when
+ * the work order has no type.
+ */
+export function templateMatchesWorkType(
+  template: Pick<WorkDetailTemplate, "work_type">,
+  workType: string | null | undefined,
+): boolean {
+  if (!template.work_type || !workType) return true;
+  return (
+    template.work_type.trim().toLowerCase() === workType.trim().toLowerCase()
+  );
+}
+
+export function describeTemplateMaterials(
+  materials: WorkDetailTemplateMaterial[] | undefined,
+): string {
+  return (materials || [])
+    .map((m) => {
+      const name = m.material
+        ? [m.material.material, m.material.specification]
+            .filter(Boolean)
+            .join(" ")
+        : `Material #${m.material_id}`;
+      return m.typical_quantity != null
+        ? `${name} (${m.typical_quantity}${m.uom ? ` ${m.uom}` : ""})`
+        : name;
+    })
+    .join(", ");
+}
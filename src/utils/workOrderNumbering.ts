@@ -1,4 +1,8 @@
-import { suggestSequentialNumber } from "./documentNumbering";
+import {
+  reserveSequentialNumber,
+  suggestSequentialNumber,
+  type DocumentNumberReservation,
+} from "./documentNumbering";
 
 /**
  * [####]/WO-PPIC/GAL-PL/[Roman month]/[YYYY]
@@ -10,10 +14,14 @@ import { suggestSequentialNumber } from "./documentNumbering";
 export async function suggestWorkOrderNumber(
   shipyardWoDate: string,
 ): Promise<string> {
-  return suggestSequentialNumber(
-    "work_order",
-    "shipyard_wo_number",
-    shipyardWoDate,
-    "WO-PPIC/GAL-PL",
-  );
+  return suggestSequentialNumber("WORK_ORDER", shipyardWoDate);
+}
+
+/**
+ * Reserves the WO number actually saved — see reserveSequentialNumber().
+ */
+export async function reserveWorkOrderNumber(
+  shipyardWoDate: string,
+): Promise<DocumentNumberReservation> {
+  return reserveSequentialNumber("WORK_ORDER", shipyardWoDate);
 }
@@ -1,45 +1,54 @@
 import { supabase } from "../lib/supabase";
 
 /**
- * Lazily assigns a work order's "No." document print number (the printed
+ * Returns a work order's "No." document print number (the printed
  * Perintah Kerja form's own serial number, distinct from shipyard_wo_number
- * and customer_wo_number) the first time its document is printed.
+ * and customer_wo_number), assigning one the first time its document is
+ * printed.
  *
- * Resets per calendar year of shipyard_wo_date, same query-max-then-increment
- * approach as suggestWorkOrderNumber() in workOrderNumbering.ts. Idempotent:
- * if the work order already has a wo_print_number, it's returned unchanged.
+ * Resets per calendar year of shipyard_wo_date. Allocation happens
+ * server-side in assign_work_order_print_number(), serialized per year, so
+ * two people printing at once can't be handed the same number. Every call
+ * is logged as an issue or a reprint for the print register.
  */
 export async function ensureWorkOrderPrintNumber(
   workOrderId: number,
-  shipyardWoDate: string,
-  existingPrintNumber: number | null | undefined,
 ): Promise<number> {
-  if (existingPrintNumber != null) return existingPrintNumber;
-
-  const year = shipyardWoDate.split("-")[0];
-
-  const { data, error } = await supabase
-    .from("work_order")
-    .select("wo_print_number, shipyard_wo_date")
-    .is("deleted_at", null)
-    .not("wo_print_number", "is", null)
-    .gte("shipyard_wo_date", `${year}-01-01`)
-    .lte("shipyard_wo_date", `${year}-12-31`);
+  const { data, error } = await supabase.rpc("assign_work_order_print_number", {
+    p_work_order_id: workOrderId,
+  });
 
   if (error) throw error;
 
-  const maxNumber = (data || []).reduce(
-    (max, row) => (row.wo_print_number! > max ? row.wo_print_number! : max),
-    0,
-  );
-  const nextNumber = maxNumber + 1;
+  return data as number;
+}
+
+export type PrintRegisterStatus = "ISSUED" | "REPRINTED" | "SKIPPED";
+
+export interface PrintRegisterEntry {
+  print_number: number;
+  status: PrintRegisterStatus;
+  work_order_id: number | null;
+  shipyard_wo_number: string | null;
+  vessel_id: number | null;
+  vessel_name: string | null;
+  first_printed_at: string | null;
+  last_printed_at: string | null;
+  print_count: number;
+}
 
-  const { error: updateError } = await supabase
-    .from("work_order")
-    .update({ wo_print_number: nextNumber })
-    .eq("id", workOrderId);
+/**
+ * Every print number from 1 to the last one issued in `year`, for
+ * reconciling the paper register — see work_order_print_register().
+ */
+export async function fetchWorkOrderPrintRegister(
+  year: number,
+): Promise<PrintRegisterEntry[]> {
+  const { data, error } = await supabase.rpc("work_order_print_register", {
+    p_year: year,
+  });
 
-  if (updateError) throw updateError;
+  if (error) throw error;
 
-  return nextNumber;
+  return (data || []) as PrintRegisterEntry[];
 }
@@ -0,0 +1,312 @@
+import { supabase } from "../lib/supabase";
+import { ActivityLogService } from "../services/activityLogService";
+import { WORK_LOCATION_OPTIONS } from "../constants/workLocations";
+import { shiftDate } from "./deadlineUtils";
+
+/**
+ * Dock occupancy for the yard calendar. A booking is one vessel's stay at
+ * one work location: a project's work orders there, or a vessel's work
+ * orders that don't belong to a project yet.
+ *
+ * Planned dates come from the readiness form docking date (else the
+ * earliest planned start) through the latest target close. Once a BASTP
+ * records tanggal_naik_docking / tanggal_turun_docking, those win.
+ */
+
+export const NO_LOCATION = "No location";
+
+export type YardBookingState = "planned" | "docked" | "completed";
+
+export interface YardWorkOrder {
+  id: number;
+  shipyard_wo_number: string;
+  shipyard_wo_date: string;
+  work_location: string | null;
+  vessel: { id: number; name: string } | null;
+  project: {
+    id: number;
+    project_name: string;
+    deleted_at: string | null;
+    readiness_form: { docking_date: string | null } | null;
+  } | null;
+  work_details: {
+    planned_start_date: string | null;
+    target_close_date: string | null;
+    cancelled_at: string | null;
+    deleted_at: string | null;
+  }[];
+}
+
+export interface YardDocking {
+  bastp_number: string;
+  tanggal_naik_docking: string;
+  tanggal_turun_docking: string | null;
+  work_order_ids: number[];
+}
+
+export interface YardBooking {
+  key: string;
+  location: string;
+  vesselId: number;
+  vesselName: string;
+  projectId: number | null;
+  projectName: string | null;
+  workOrderNumbers: string[];
+  bastpNumbers: string[];
+  plannedStart: string;
+  plannedEnd: string;
+  actualStart: string | null;
+  actualEnd: string | null;
+  state: YardBookingState;
+  // What the calendar draws: actual dates where known, else the plan. A
+  // vessel still in dock occupies its berth at least until today.
+  start: string;
+  end: string;
+}
+
+const minDate = (dates: (string | null | undefined)[]) =>
+  dates
+    .filter((d): d is string => !!d)
+    .map((d) => d.slice(0, 10))
+    .sort()[0] ?? null;
+
+const maxDate = (dates: (string | null | undefined)[]) =>
+  dates
+    .filter((d): d is string => !!d)
+    .map((d) => d.slice(0, 10))
+    .sort()
+    .pop() ?? null;
+
+export const periodsOverlap = (
+  a: { start: string; end: string },
+  b: { start: string; end: string },
+) => a.start <= b.end && b.start <= a.end;
+
+export function buildYardBookings(
+  workOrders: YardWorkOrder[],
+  dockings: YardDocking[],
+  today: string,
+): YardBooking[] {
+  const groups = new Map<string, YardWorkOrder[]>();
+  for (const wo of workOrders) {
+    if (!wo.vessel) continue;
+    const project = wo.project && !wo.project.deleted_at ? wo.project : null;
+    const location = wo.work_location?.trim() || NO_LOCATION;
+    const key = project
+      ? `p${project.id}:${location}`
+      : `v${wo.vessel.id}:${location}`;
+    groups.set(key, [...(groups.get(key) || []), wo]);
+  }
+
+  const bookings: YardBooking[] = [];
+  for (const [key, wos] of groups) {
+    const first = wos[0];
+    const project = key.startsWith("p") ? first.project : null;
+    const details = wos.flatMap((wo) =>
+      wo.work_details.filter((wd) => !wd.deleted_at && !wd.cancelled_at),
+    );
+
+    const plannedStart =
+      project?.readiness_form?.docking_date?.slice(0, 10) ||
+      minDate(details.map((wd) => wd.planned_start_date)) ||
+      minDate(wos.map((wo) => wo.shipyard_wo_date));
+    if (!plannedStart) continue;
+    const latestTarget = maxDate(details.map((wd) => wd.target_close_date));
+    const plannedEnd =
+      latestTarget && latestTarget > plannedStart ? latestTarget : plannedStart;
+
+    const woIds = new Set(wos.map((wo) => wo.id));
+    const ownDockings = dockings.filter((d) =>
+      d.work_order_ids.some((id) => woIds.has(id)),
+    );
+    const actualStart = minDate(ownDockings.map((d) => d.tanggal_naik_docking));
+    // Out of dock only once every BASTP that took it in also let it out.
+    const actualEnd = ownDockings.every((d) => d.tanggal_turun_docking)
+      ? maxDate(ownDockings.map((d) => d.tanggal_turun_docking))
+      : null;
+
+    const state: YardBookingState = !actualStart
+      ? "planned"
+      : actualEnd
+        ? "completed"
+        : "docked";
+    const start = actualStart || plannedStart;
+    const end =
+      state === "completed"
+        ? (actualEnd as string)
+        : state === "docked"
+          ? maxDate([plannedEnd, today, start])!
+          : plannedEnd;
+
+    bookings.push({
+      key,
+      location: key.slice(key.indexOf(":") + 1),
+      vesselId: first.vessel!.id,
+      vesselName: first.vessel!.name,
+      projectId: project?.id ?? null,
+      projectName: project?.project_name ?? null,
+      workOrderNumbers: wos.map((wo) => wo.shipyard_wo_number),
+      bastpNumbers: ownDockings.map((d) => d.bastp_number),
+      plannedStart,
+      plannedEnd,
+      actualStart,
+      actualEnd,
+      state,
+      start,
+      end,
+    });
+  }
+
+  return bookings.sort(
+    (a, b) => a.start.localeCompare(b.start) || a.key.localeCompare(b.key),
+  );
+}
+
+/**
+ * Other vessels booked at the same location for overlapping dates, keyed
+ * by booking. Bookings without a location can't clash.
+ */
+export function findYardConflicts(
+  bookings: YardBooking[],
+): Map<string, YardBooking[]> {
+  const conflicts = new Map<string, YardBooking[]>();
+  for (const a of bookings) {
+    if (a.location === NO_LOCATION) continue;
+    const clashes = bookings.filter(
+      (b) =>
+        b.key !== a.key &&
+        b.location === a.location &&
+        b.vesselId !== a.vesselId &&
+        periodsOverlap(a, b),
+    );
+    if (clashes.length) conflicts.set(a.key, clashes);
+  }
+  return conflicts;
+}
+
+// The standard docks first, then any free-text locations, then bookings
+// whose work orders have no location.
+export function yardLanes(bookings: YardBooking[]): string[] {
+  const present = new Set(bookings.map((b) => b.location));
+  const others = [...present]
+    .filter((l) => !WORK_LOCATION_OPTIONS.includes(l) && l !== NO_LOCATION)
+    .sort();
+  return [
+    ...WORK_LOCATION_OPTIONS,
+    ...others,
+    ...(present.has(NO_LOCATION) ? [NO_LOCATION] : []),
+  ];
+}
+
+/** The booking as it would be after moving it by `days`. */
+export const moveBooking = (booking: YardBooking, days: number) => ({
+  ...booking,
+  plannedStart: shiftDate(booking.plannedStart, days),
+  plannedEnd: shiftDate(booking.plannedEnd, days),
+  start: shiftDate(booking.start, days),
+  end: shiftDate(booking.end, days),
+});
+
+export async function fetchYardData(): Promise<{
+  workOrders: YardWorkOrder[];
+  dockings: YardDocking[];
+}> {
+  const [woResult, bastpResult] = await Promise.all([
+    supabase
+      .from("work_order")
+      .select(
+        `
+        id,
+        shipyard_wo_number,
+        shipyard_wo_date,
+        work_location,
+        vessel:vessel_id ( id, name ),
+        project:project_id (
+          id,
+          project_name,
+          deleted_at,
+          readiness_form:readiness_form_id ( docking_date )
+        ),
+        work_details ( planned_start_date, target_close_date, cancelled_at, deleted_at )
+      `,
+      )
+      .is("deleted_at", null),
+    supabase
+      .from("bastp")
+      .select(
+        `
+        number,
+        tanggal_naik_docking,
+        tanggal_turun_docking,
+        bastp_work_details ( deleted_at, work_details ( work_order_id ) )
+      `,
+      )
+      .is("deleted_at", null)
+      .not("tanggal_naik_docking", "is", null),
+  ]);
+
+  if (woResult.error) throw woResult.error;
+  if (bastpResult.error) throw bastpResult.error;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const dockings = ((bastpResult.data as any[]) || []).map((b) => ({
+    bastp_number: b.number,
+    tanggal_naik_docking: b.tanggal_naik_docking,
+    tanggal_turun_docking: b.tanggal_turun_docking,
+    work_order_ids: [
+      ...new Set<number>(
+        (b.bastp_work_details || [])
+          .filter(
+            (bwd: { deleted_at: string | null; work_details: unknown }) =>
+              !bwd.deleted_at && bwd.work_details,
+          )
+          .map(
+            (bwd: { work_details: { work_order_id: number } }) =>
+              bwd.work_details.work_order_id,
+          ),
+      ),
+    ],
+  }));
+
+  return {
+    workOrders: (woResult.data as unknown as YardWorkOrder[]) || [],
+    dockings,
+  };
+}
+
+/** Moves a planned docking by `days` and logs it against the project. */
+export async function shiftProjectSchedule(
+  booking: YardBooking,
+  days: number,
+): Promise<{ vessel_readiness_forms: number; work_details: number }> {
+  if (!booking.projectId) {
+    throw new Error("Only a project's docking can be moved.");
+  }
+  const { data, error } = await supabase.rpc("shift_project_schedule", {
+    p_project_id: booking.projectId,
+    p_days: days,
+  });
+  if (error) throw error;
+
+  const moved = data as {
+    vessel_readiness_forms: number;
+    work_details: number;
+  };
+  await ActivityLogService.logActivity({
+    action: "update",
+    tableName: "projects",
+    recordId: booking.projectId,
+    oldData: { start: booking.plannedStart, end: booking.plannedEnd },
+    newData: {
+      start: shiftDate(booking.plannedStart, days),
+      end: shiftDate(booking.plannedEnd, days),
+      shifted_days: days,
+      moved,
+    },
+    description: `Moved the docking of ${booking.projectName} by ${days} day${
+      Math.abs(days) !== 1 ? "s" : ""
+    } on the yard calendar`,
+  });
+
+  return moved;
+}
@@ -0,0 +1,321 @@
+-- ============================================================================
+-- Server-side, atomic allocation of document numbers (Work Order, BASTP,
+-- Invoice).
+--
+-- Until now every number was suggested client-side by
+-- suggestSequentialNumber() (src/utils/documentNumbering.ts): read every
+-- number already used that year, add one. Two PPIC users creating a work
+-- order at the same moment both read the same max and both saved the same
+-- "NNNN/WO-PPIC/GAL-PL/M/YYYY" — same for BASTP and invoice numbers.
+--
+-- The number is now reserved here, at save time, under a row lock on the
+-- (doc_type, year) counter, so concurrent callers are serialized and can
+-- never be handed the same sequence number:
+--
+--   peek_document_number()     - what the next number would be; read-only,
+--                                used to pre-fill the (locked) number field
+--   reserve_document_number()  - atomically takes the next number and
+--                                records a RESERVED reservation for it
+--   release_document_number()  - the save that reserved it failed, so the
+--                                number is never going to be used -> RELEASED
+--
+-- A reservation flips to USED on its own (trg_*_document_number_used) as
+-- soon as a row carrying that number is inserted, so the app only has to
+-- call release on its failure path. RELEASED reservations are the gap log
+-- (document_number_gaps) finance/PPIC can reconcile the paper registers
+-- against: numbers that were handed out but never ended up on a document.
+--
+-- The counter never goes backwards, and it also never falls behind what's
+-- actually stored: each reservation takes one past the greater of the
+-- counter and the highest number already in the source table, so numbers
+-- typed in by hand from the Edit screens are still respected.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+-- ----------------------------------------------------------------------------
+-- 1. Series definitions (one row per numbered document type)
+-- ----------------------------------------------------------------------------
+create table document_number_series (
+  doc_type text primary key,
+  suffix text not null,            -- middle part of NNNN/<suffix>/<roman month>/<year>
+  source_table text not null,      -- table the finished number is stored on
+  source_column text not null      -- column on source_table holding the number
+);
+
+insert into document_number_series (doc_type, suffix, source_table, source_column) values
+  ('WORK_ORDER', 'WO-PPIC/GAL-PL', 'work_order', 'shipyard_wo_number'),
+  ('BASTP', 'HR-PPIC', 'bastp', 'number'),
+  ('INVOICE', 'GAL-SMD', 'invoice_details', 'invoice_number');
+
+comment on table document_number_series is
+  'Numbered document types and where their finished numbers are stored. Format is always NNNN/<suffix>/<roman month>/<year>, NNNN resetting per calendar year.';
+
+-- ----------------------------------------------------------------------------
+-- 2. Per-type, per-year counters
+-- ----------------------------------------------------------------------------
+create table document_number_sequences (
+  doc_type text not null references document_number_series(doc_type),
+  year int not null,
+  last_seq int not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (doc_type, year)
+);
+
+comment on table document_number_sequences is
+  'Highest sequence number handed out so far per document type and year. Only ever written by reserve_document_number(), under a row lock.';
+
+-- ----------------------------------------------------------------------------
+-- 3. Reservations (and the gap log derived from them)
+-- ----------------------------------------------------------------------------
+create table document_number_reservations (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  doc_type text not null references document_number_series(doc_type),
+  year int not null,
+  seq int not null,
+  document_number text not null,
+  reserved_by bigint references profiles(id),
+  status text not null default 'RESERVED'
+    check (status in ('RESERVED', 'USED', 'RELEASED')),
+  used_at timestamptz,
+  released_at timestamptz,
+  unique (doc_type, year, seq)
+);
+
+create index idx_document_number_reservations_lookup
+  on document_number_reservations(doc_type, document_number);
+
+comment on table document_number_reservations is
+  'Every number handed out by reserve_document_number(). RESERVED -> USED once a row with that number is inserted, or -> RELEASED when the save that reserved it failed (or it was abandoned). unique (doc_type, year, seq) is the hard guarantee that no number is ever handed out twice.';
+comment on column document_number_reservations.status is
+  'RESERVED (handed out, save still in flight), USED (a document carries this number), RELEASED (never used — a gap in the sequence).';
+
+create view document_number_gaps as
+  select id, doc_type, year, seq, document_number, reserved_by, created_at, released_at
+  from document_number_reservations
+  where status = 'RELEASED';
+
+comment on view document_number_gaps is
+  'Numbers that were reserved but never ended up on a document, for reconciling the paper registers.';
+
+alter table document_number_series enable row level security;
+alter table document_number_sequences enable row level security;
+alter table document_number_reservations enable row level security;
+
+create policy "Authenticated users can read document number series"
+  on document_number_series for select to authenticated using (true);
+create policy "Authenticated users can read document number sequences"
+  on document_number_sequences for select to authenticated using (true);
+create policy "Authenticated users can read document number reservations"
+  on document_number_reservations for select to authenticated using (true);
+
+-- No insert/update/delete policies: every write goes through the
+-- SECURITY DEFINER functions below.
+
+-- ----------------------------------------------------------------------------
+-- 4. Helpers
+-- ----------------------------------------------------------------------------
+create or replace function format_document_number(p_seq int, p_suffix text, p_date date)
+returns text
+language sql
+immutable
+as $$
+  select lpad(p_seq::text, 4, '0') || '/' || p_suffix || '/'
+    || (array['I','II','III','IV','V','VI','VII','VIII','IX','X','XI','XII'])[extract(month from p_date)::int]
+    || '/' || extract(year from p_date)::int;
+$$;
+
+-- Highest NNNN already stored for this type/year, same rule the old
+-- client-side suggestSequentialNumber() applied: soft-deleted rows don't
+-- count, and only numbers ending in "/<year>" belong to that year.
+create or replace function document_number_max_used(p_doc_type text, p_year int)
+returns int
+language plpgsql
+stable
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_series document_number_series%rowtype;
+  v_max int;
+begin
+  select * into v_series from document_number_series where doc_type = p_doc_type;
+  if not found then
+    raise exception 'Unknown document type: %', p_doc_type;
+  end if;
+
+  execute format(
+    'select coalesce(max(substring(%1$I from ''^(\d+)/'')::int), 0)
+       from %2$I
+      where deleted_at is null and %1$I like $1',
+    v_series.source_column, v_series.source_table
+  )
+  into v_max
+  using '%/' || p_year;
+
+  return v_max;
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- 5. Peek: the number the next reservation would get (no side effects).
+-- ----------------------------------------------------------------------------
+create or replace function peek_document_number(p_doc_type text, p_date date)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_year int := extract(year from p_date)::int;
+  v_last int;
+begin
+  if admin_caller_role() is null then
+    raise exception 'Access denied: active profile required';
+  end if;
+
+  select last_seq into v_last
+  from document_number_sequences
+  where doc_type = p_doc_type and year = v_year;
+
+  return format_document_number(
+    greatest(coalesce(v_last, 0), document_number_max_used(p_doc_type, v_year)) + 1,
+    (select suffix from document_number_series where doc_type = p_doc_type),
+    p_date
+  );
+end;
+$$;
+
+comment on function peek_document_number(text, date) is
+  'Preview of the next number for this document type/date. Does not reserve anything — two callers can see the same preview; only reserve_document_number() is authoritative.';
+
+-- ----------------------------------------------------------------------------
+-- 6. Reserve: atomically take the next number.
+-- ----------------------------------------------------------------------------
+create or replace function reserve_document_number(p_doc_type text, p_date date)
+returns table (reservation_id bigint, document_number text)
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+#variable_conflict use_column
+declare
+  v_year int := extract(year from p_date)::int;
+  v_caller_id bigint;
+  v_suffix text;
+  v_last int;
+  v_next int;
+  v_number text;
+  v_reservation_id bigint;
+begin
+  if admin_caller_role() is null then
+    raise exception 'Access denied: active profile required';
+  end if;
+
+  select suffix into v_suffix from document_number_series where doc_type = p_doc_type;
+  if not found then
+    raise exception 'Unknown document type: %', p_doc_type;
+  end if;
+
+  select id into v_caller_id
+  from profiles
+  where auth_user_id = auth.uid() and deleted_at is null
+  limit 1;
+
+  -- Reservations still RESERVED after an hour belong to a browser that
+  -- never came back to use or release them — log them as gaps.
+  update document_number_reservations r
+  set status = 'RELEASED', released_at = now()
+  where r.doc_type = p_doc_type
+    and r.status = 'RESERVED'
+    and r.created_at < now() - interval '1 hour';
+
+  insert into document_number_sequences (doc_type, year)
+  values (p_doc_type, v_year)
+  on conflict on constraint document_number_sequences_pkey do nothing;
+
+  -- The row lock is what serializes concurrent callers for this type/year.
+  select s.last_seq into v_last
+  from document_number_sequences s
+  where s.doc_type = p_doc_type and s.year = v_year
+  for update;
+
+  v_next := greatest(v_last, document_number_max_used(p_doc_type, v_year)) + 1;
+  v_number := format_document_number(v_next, v_suffix, p_date);
+
+  update document_number_sequences s
+  set last_seq = v_next, updated_at = now()
+  where s.doc_type = p_doc_type and s.year = v_year;
+
+  insert into document_number_reservations (doc_type, year, seq, document_number, reserved_by)
+  values (p_doc_type, v_year, v_next, v_number, v_caller_id)
+  returning id into v_reservation_id;
+
+  return query select v_reservation_id, v_number;
+end;
+$$;
+
+comment on function reserve_document_number(text, date) is
+  'Atomically reserves the next NNNN/<suffix>/<roman month>/<year> number for this document type. Call right before inserting the document; call release_document_number() if that insert fails.';
+
+-- ----------------------------------------------------------------------------
+-- 7. Release: the save that reserved this number didn't go through.
+-- ----------------------------------------------------------------------------
+create or replace function release_document_number(p_reservation_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+begin
+  if admin_caller_role() is null then
+    raise exception 'Access denied: active profile required';
+  end if;
+
+  update document_number_reservations
+  set status = 'RELEASED', released_at = now()
+  where id = p_reservation_id and status = 'RESERVED';
+end;
+$$;
+
+comment on function release_document_number(bigint) is
+  'Moves a still-RESERVED number to the gap log (status RELEASED). No-op if it was already used or released.';
+
+-- ----------------------------------------------------------------------------
+-- 8. Mark reservations USED as soon as a document carrying them is inserted.
+--    TG_ARGV: [0] doc_type, [1] column holding the number.
+-- ----------------------------------------------------------------------------
+create or replace function mark_document_number_used()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+begin
+  update document_number_reservations
+  set status = 'USED', used_at = now()
+  where doc_type = tg_argv[0]
+    and document_number = to_jsonb(new) ->> tg_argv[1]
+    and status = 'RESERVED';
+  return new;
+end;
+$$;
+
+create trigger trg_work_order_document_number_used
+  after insert on work_order
+  for each row execute function mark_document_number_used('WORK_ORDER', 'shipyard_wo_number');
+
+create trigger trg_bastp_document_number_used
+  after insert on bastp
+  for each row execute function mark_document_number_used('BASTP', 'number');
+
+create trigger trg_invoice_details_document_number_used
+  after insert on invoice_details
+  for each row execute function mark_document_number_used('INVOICE', 'invoice_number');
+
+grant execute on function peek_document_number(text, date) to authenticated;
+grant execute on function reserve_document_number(text, date) to authenticated;
+grant execute on function release_document_number(bigint) to authenticated;
+grant select on document_number_gaps to authenticated;
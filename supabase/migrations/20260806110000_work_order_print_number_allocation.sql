@@ -0,0 +1,229 @@
+-- ============================================================================
+-- Race-free assignment of work_order.wo_print_number, plus a print register.
+--
+-- ensureWorkOrderPrintNumber() (src/utils/workOrderPrintNumbering.ts) used
+-- the same query-max-then-update approach as the old document numbering:
+-- two people opening the Perintah Kerja print preview at once from
+-- VesselWorkOrders both read the same max and both tried to write max + 1.
+-- The unique index from 20260730100000 turned the loser into a raw
+-- constraint error at best.
+--
+-- assign_work_order_print_number() now does the whole thing server-side
+-- under a row lock on that year's counter, so callers for the same year are
+-- serialized. The counter only moves forward — a number freed by
+-- soft-deleting its work order is never handed to a different work order,
+-- so the paper register never shows one number on two forms.
+--
+-- Every call is logged in work_order_print_log (ISSUED the first time,
+-- REPRINTED after that), and work_order_print_register() turns that into
+-- the per-year listing the paper register is reconciled against: every
+-- number from 1 to the year's last, including SKIPPED ones (no active work
+-- order carries them — never issued, or their work order was deleted).
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create table work_order_print_sequences (
+  year int primary key,
+  last_number int not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+comment on table work_order_print_sequences is
+  'Highest wo_print_number handed out per calendar year of shipyard_wo_date. Only written by assign_work_order_print_number(), under a row lock.';
+
+create table work_order_print_log (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  work_order_id bigint not null references work_order(id),
+  year int not null,
+  print_number int not null,
+  event text not null check (event in ('ISSUED', 'REPRINTED')),
+  printed_by bigint references profiles(id)
+);
+
+create index idx_work_order_print_log_year on work_order_print_log(year, print_number);
+
+comment on table work_order_print_log is
+  'One row per time a work order''s Perintah Kerja document was opened for printing: ISSUED when its print number was assigned, REPRINTED on every later print.';
+
+alter table work_order_print_sequences enable row level security;
+alter table work_order_print_log enable row level security;
+
+create policy "Authenticated users can read work order print sequences"
+  on work_order_print_sequences for select to authenticated using (true);
+create policy "Authenticated users can read work order print log"
+  on work_order_print_log for select to authenticated using (true);
+
+-- ----------------------------------------------------------------------------
+-- Assign (or re-use) a work order's print number. Idempotent per work
+-- order: the first call issues a number, every later call returns the same
+-- one and logs a reprint.
+-- ----------------------------------------------------------------------------
+create or replace function assign_work_order_print_number(p_work_order_id bigint)
+returns int
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_caller_id bigint;
+  v_wo_date date;
+  v_existing int;
+  v_year int;
+  v_last int;
+  v_max_used int;
+  v_next int;
+begin
+  if admin_caller_role() is null then
+    raise exception 'Access denied: active profile required';
+  end if;
+
+  select id into v_caller_id
+  from profiles
+  where auth_user_id = auth.uid() and deleted_at is null
+  limit 1;
+
+  -- Lock the work order itself too, so two first prints of the SAME work
+  -- order can't both issue it a number.
+  select shipyard_wo_date, wo_print_number into v_wo_date, v_existing
+  from work_order
+  where id = p_work_order_id and deleted_at is null
+  for update;
+
+  if not found then
+    raise exception 'Work order not found';
+  end if;
+
+  if v_wo_date is null then
+    raise exception 'Work order has no Shipyard WO Date to number its print from';
+  end if;
+
+  v_year := extract(year from v_wo_date)::int;
+
+  if v_existing is not null then
+    insert into work_order_print_log (work_order_id, year, print_number, event, printed_by)
+    values (p_work_order_id, v_year, v_existing, 'REPRINTED', v_caller_id);
+    return v_existing;
+  end if;
+
+  insert into work_order_print_sequences (year)
+  values (v_year)
+  on conflict (year) do nothing;
+
+  select last_number into v_last
+  from work_order_print_sequences
+  where year = v_year
+  for update;
+
+  -- Numbers assigned before this counter existed still count.
+  select coalesce(max(wo_print_number), 0) into v_max_used
+  from work_order
+  where wo_print_number is not null
+    and date_part('year', shipyard_wo_date) = v_year;
+
+  v_next := greatest(v_last, v_max_used) + 1;
+
+  update work_order_print_sequences
+  set last_number = v_next, updated_at = now()
+  where year = v_year;
+
+  update work_order
+  set wo_print_number = v_next, updated_at = now()
+  where id = p_work_order_id;
+
+  insert into work_order_print_log (work_order_id, year, print_number, event, printed_by)
+  values (p_work_order_id, v_year, v_next, 'ISSUED', v_caller_id);
+
+  return v_next;
+end;
+$$;
+
+comment on function assign_work_order_print_number(bigint) is
+  'Returns the work order''s Perintah Kerja print number, issuing the next one for its shipyard_wo_date year on first call. Serialized per year; every call is logged in work_order_print_log.';
+
+-- ----------------------------------------------------------------------------
+-- The per-year register: one row per number from 1 to the year's last.
+-- MASTER/PPIC/MANAGER only, matching the screen that shows it.
+-- ----------------------------------------------------------------------------
+create or replace function work_order_print_register(p_year int)
+returns table (
+  print_number int,
+  status text,
+  work_order_id bigint,
+  shipyard_wo_number text,
+  vessel_id bigint,
+  vessel_name text,
+  first_printed_at timestamptz,
+  last_printed_at timestamptz,
+  print_count int
+)
+language plpgsql
+stable
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+#variable_conflict use_column
+begin
+  if coalesce(admin_caller_role(), '') not in ('MASTER', 'PPIC', 'MANAGER') then
+    raise exception 'Access denied: MASTER, PPIC or MANAGER role required';
+  end if;
+
+  return query
+    with bounds as (
+      select greatest(
+        coalesce((select s.last_number from work_order_print_sequences s where s.year = p_year), 0),
+        coalesce((
+          select max(w.wo_print_number) from work_order w
+          where w.wo_print_number is not null
+            and date_part('year', w.shipyard_wo_date) = p_year
+        ), 0)
+      ) as last_number
+    ),
+    holders as (
+      select w.id, w.wo_print_number, w.shipyard_wo_number, w.vessel_id, v.name as vessel_name
+      from work_order w
+      left join vessel v on v.id = w.vessel_id
+      where w.deleted_at is null
+        and w.wo_print_number is not null
+        and date_part('year', w.shipyard_wo_date) = p_year
+    ),
+    prints as (
+      select l.work_order_id, l.print_number,
+             min(l.created_at) as first_printed_at,
+             max(l.created_at) as last_printed_at,
+             count(*)::int as print_count
+      from work_order_print_log l
+      where l.year = p_year
+      group by l.work_order_id, l.print_number
+    )
+    select
+      n::int,
+      case
+        when h.id is null then 'SKIPPED'
+        when coalesce(p.print_count, 1) > 1 then 'REPRINTED'
+        else 'ISSUED'
+      end,
+      h.id::bigint,
+      h.shipyard_wo_number::text,
+      h.vessel_id::bigint,
+      h.vessel_name::text,
+      p.first_printed_at,
+      p.last_printed_at,
+      coalesce(p.print_count, case when h.id is null then 0 else 1 end)
+    from bounds b
+    cross join generate_series(1, b.last_number) as n
+    left join holders h on h.wo_print_number = n
+    left join prints p on p.work_order_id = h.id and p.print_number = n
+    order by n;
+end;
+$$;
+
+comment on function work_order_print_register(int) is
+  'Per-year Perintah Kerja print register: every number from 1 to the last one issued, as ISSUED (printed once), REPRINTED (printed again since) or SKIPPED (no active work order carries it).';
+
+grant execute on function assign_work_order_print_number(bigint) to authenticated;
+grant execute on function work_order_print_register(int) to authenticated;
+
+comment on column work_order.wo_print_number is
+  'Sequential document number for the printed "Perintah Kerja" (Work Order) form, e.g. 25 for "No.: 025". Resets per calendar year (of shipyard_wo_date). Null until the document has been printed once. Assigned only by assign_work_order_print_number().';
@@ -0,0 +1,159 @@
+-- ============================================================================
+-- Move the 2-day work verification auto-approval into a scheduled database
+-- job.
+--
+-- 20260729130000_work_verification_auto_approval.sql introduced the rule but
+-- had no job runner, so it was evaluated client-side by WorkVerification.tsx
+-- — only while an OP_HEAD/MASTER session had the queue open. Over a holiday
+-- nobody opens it, nothing gets auto-approved, and every BASTP waiting on
+-- those items stalls.
+--
+-- auto_verify_stale_work_details() now applies the same rule on its own,
+-- scheduled hourly through pg_cron. It approves a work detail when all of
+-- these hold:
+--   - the work detail and its work order are active (not deleted/cancelled)
+--   - its current progress record (latest report_date, created_at as the
+--     tiebreaker — same rule as getLatestProgressRecord()) is 100%
+--   - its latest work_verification row is not APPROVED
+--   - it isn't open for rework (latest review is a REJECTED row newer than
+--     the newest progress report — same rule as isOpenForRework())
+--   - the newest progress report is at least 2 days old
+--
+-- Each run is logged in work_verification_auto_approval_runs with how many
+-- items it looked at and approved, and every row it writes points back at
+-- its run through work_verification.auto_approval_run_id.
+--
+-- Testing against the local Supabase stack: `supabase db reset`, then call
+-- the function directly with a simulated clock instead of waiting two days,
+-- e.g. `select daily_report_shipyard.auto_verify_stale_work_details(now() + interval '3 days');`
+-- and check the returned run row / work_verification. `supabase test db`
+-- runs supabase/tests/auto_verify_stale_work_details.test.sql, which does
+-- the same against a never-reviewed and a rejected item.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create extension if not exists pg_cron;
+
+create table work_verification_auto_approval_runs (
+  id bigint generated always as identity primary key,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  evaluated_at timestamptz not null,      -- the "now" the 2-day deadline was measured against
+  candidate_count int not null default 0,  -- completed, unreviewed items looked at
+  approved_count int not null default 0,   -- of those, how many were past the deadline and approved
+  triggered_by text not null default 'SCHEDULE'
+    check (triggered_by in ('SCHEDULE', 'MANUAL'))
+);
+
+comment on table work_verification_auto_approval_runs is
+  'One row per run of auto_verify_stale_work_details(), with how many completed-but-unreviewed work details it evaluated and how many it auto-approved.';
+
+alter table work_verification_auto_approval_runs enable row level security;
+
+create policy "Authenticated users can read auto-approval runs"
+  on work_verification_auto_approval_runs for select to authenticated using (true);
+
+alter table work_verification
+  add column auto_approval_run_id bigint references work_verification_auto_approval_runs(id);
+
+comment on column work_verification.auto_approval_run_id is
+  'The auto_verify_stale_work_details() run that wrote this row. Null for manual reviews and for auto-approvals written client-side before the scheduled job existed.';
+
+-- ----------------------------------------------------------------------------
+-- The job itself. p_now exists so the rule can be exercised locally without
+-- waiting two real days; the schedule always calls it with the default.
+-- ----------------------------------------------------------------------------
+create or replace function auto_verify_stale_work_details(
+  p_now timestamptz default now(),
+  p_triggered_by text default 'SCHEDULE'
+)
+returns work_verification_auto_approval_runs
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_run work_verification_auto_approval_runs%rowtype;
+  v_candidates int;
+  v_approved int;
+begin
+  insert into work_verification_auto_approval_runs (evaluated_at, triggered_by)
+  values (p_now, p_triggered_by)
+  returning * into v_run;
+
+  with progress_summary as (
+    select distinct on (wp.work_details_id)
+      wp.work_details_id,
+      wp.progress_percentage,
+      max(wp.created_at) over (partition by wp.work_details_id) as newest_progress_at
+    from work_progress wp
+    where wp.deleted_at is null
+    order by wp.work_details_id, wp.report_date desc, wp.created_at desc
+  ),
+  latest_review as (
+    select distinct on (wv.work_details_id)
+      wv.work_details_id,
+      wv.status,
+      wv.created_at
+    from work_verification wv
+    where wv.deleted_at is null
+    order by wv.work_details_id, wv.created_at desc
+  ),
+  candidates as (
+    select wd.id, ps.newest_progress_at
+    from work_details wd
+    join work_order wo on wo.id = wd.work_order_id and wo.deleted_at is null
+    join progress_summary ps on ps.work_details_id = wd.id
+    left join latest_review lr on lr.work_details_id = wd.id
+    where wd.deleted_at is null
+      and wd.cancelled_at is null
+      and ps.progress_percentage = 100
+      and lr.status is distinct from 'APPROVED'
+      -- Never-reviewed items have no lr row; a bare not (...) would be null
+      -- for them and drop exactly the items this job is for.
+      and not coalesce(lr.status = 'REJECTED' and lr.created_at > ps.newest_progress_at, false)
+  ),
+  approved as (
+    insert into work_verification (
+      work_details_id, verification_date, user_id, status, is_auto_verified,
+      verification_notes, auto_approval_run_id
+    )
+    select
+      c.id,
+      p_now::date,
+      null,
+      'APPROVED',
+      true,
+      'Automatically approved — Operation Head did not review this within 2 days of it reaching 100% progress.',
+      v_run.id
+    from candidates c
+    where c.newest_progress_at <= p_now - interval '2 days'
+    returning id
+  )
+  select (select count(*) from candidates), (select count(*) from approved)
+  into v_candidates, v_approved;
+
+  update work_verification_auto_approval_runs
+  set candidate_count = v_candidates,
+      approved_count = v_approved,
+      finished_at = clock_timestamp()
+  where id = v_run.id
+  returning * into v_run;
+
+  return v_run;
+end;
+$$;
+
+comment on function auto_verify_stale_work_details(timestamptz, text) is
+  'Auto-approves completed work details the Operation Head has not reviewed within 2 days of their newest progress report, and logs the run. Scheduled hourly via pg_cron (job "auto-verify-stale-work-details").';
+
+-- Not granted to authenticated: it writes on nobody's behalf and only the
+-- scheduler (running as the owner) should call it.
+revoke execute on function auto_verify_stale_work_details(timestamptz, text) from public, anon, authenticated;
+
+select cron.schedule(
+  'auto-verify-stale-work-details',
+  '0 * * * *',
+  $$select daily_report_shipyard.auto_verify_stale_work_details()$$
+);
@@ -0,0 +1,183 @@
+-- ============================================================================
+-- Enforce the BASTP status ladder DRAFT -> VERIFIED -> READY_FOR_INVOICE in
+-- the database.
+--
+-- Until now both transitions were applied by the BASTP list page
+-- (src/components/bastp/BASTP.tsx) inside its fetch, so the stored status
+-- was only right after somebody had opened that page — the dashboard's
+-- BASTP status counts and the invoice form's READY_FOR_INVOICE picker could
+-- lag by days.
+--
+-- sync_bastp_status() recomputes a BASTP's place on the ladder from its
+-- gates, and triggers call it whenever one of those gates can change:
+--   - work_verification rows written (approve / send back / auto-approval)
+--   - work_details.cancelled_at (cancelled items never get verified and
+--     don't count toward either gate)
+--   - bastp_work_details added, removed, or materials_status changed
+--   - bastp.form_penawaran_storage_path set
+--
+-- The gates are unchanged from the client version:
+--   VERIFIED          every non-cancelled work detail's latest review is
+--                     APPROVED
+--   READY_FOR_INVOICE additionally, every non-cancelled work detail's
+--                     materials are SUBMITTED and the Form Penawaran is
+--                     uploaded (see 20260729140000 / 20260729150000)
+--
+-- Only DRAFT and VERIFIED BASTPs are ever recomputed, and they can move
+-- back to DRAFT when an unreviewed work detail joins them — what
+-- CreateBASTP.tsx already did by hand when the composition changed.
+-- READY_FOR_INVOICE and INVOICED stay owned by the invoice screens.
+--
+-- ready_for_invoice_date is now stamped here, at the moment of promotion,
+-- instead of from the browser's clock.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create or replace function sync_bastp_status(p_bastp_id bigint)
+returns text
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_status text;
+  v_form_penawaran text;
+  v_total int;
+  v_unapproved int;
+  v_active int;
+  v_materials_pending int;
+  v_target text;
+begin
+  select status, form_penawaran_storage_path into v_status, v_form_penawaran
+  from bastp
+  where id = p_bastp_id and deleted_at is null
+  for update;
+
+  if not found or v_status not in ('DRAFT', 'VERIFIED') then
+    return v_status;
+  end if;
+
+  select
+    count(*),
+    count(*) filter (
+      where wd.cancelled_at is null
+        and coalesce((
+          select wv.status from work_verification wv
+          where wv.work_details_id = wd.id and wv.deleted_at is null
+          order by wv.created_at desc
+          limit 1
+        ), '') <> 'APPROVED'
+    ),
+    count(*) filter (where wd.cancelled_at is null),
+    count(*) filter (where wd.cancelled_at is null and bwd.materials_status <> 'SUBMITTED')
+  into v_total, v_unapproved, v_active, v_materials_pending
+  from bastp_work_details bwd
+  join work_details wd on wd.id = bwd.work_details_id
+  where bwd.bastp_id = p_bastp_id and bwd.deleted_at is null;
+
+  if v_total = 0 or v_unapproved > 0 then
+    v_target := 'DRAFT';
+  elsif v_active > 0 and v_materials_pending = 0 and v_form_penawaran is not null then
+    v_target := 'READY_FOR_INVOICE';
+  else
+    v_target := 'VERIFIED';
+  end if;
+
+  if v_target <> v_status then
+    update bastp
+    set status = v_target,
+        ready_for_invoice_date = case
+          when v_target = 'READY_FOR_INVOICE' then now()
+          else ready_for_invoice_date
+        end,
+        updated_at = now()
+    where id = p_bastp_id;
+  end if;
+
+  return v_target;
+end;
+$$;
+
+comment on function sync_bastp_status(bigint) is
+  'Moves a DRAFT/VERIFIED BASTP to the status its gates call for (DRAFT, VERIFIED or READY_FOR_INVOICE), stamping ready_for_invoice_date on promotion. Called by triggers; returns the resulting status.';
+
+-- ----------------------------------------------------------------------------
+-- Triggers. Each one resolves the affected BASTP(s) and re-syncs them.
+-- ----------------------------------------------------------------------------
+create or replace function sync_bastp_status_for_work_details()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_work_details_id bigint;
+  v_bastp_id bigint;
+begin
+  -- tg_argv[0] names the column holding the work_details id on the
+  -- triggering table ("id" on work_details, "work_details_id" elsewhere).
+  v_work_details_id := (to_jsonb(coalesce(new, old)) ->> tg_argv[0])::bigint;
+
+  for v_bastp_id in
+    select distinct bastp_id from bastp_work_details
+    where work_details_id = v_work_details_id and deleted_at is null
+  loop
+    perform sync_bastp_status(v_bastp_id);
+  end loop;
+
+  return null;
+end;
+$$;
+
+create or replace function sync_bastp_status_for_bastp_work_details()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+begin
+  perform sync_bastp_status(coalesce(new, old).bastp_id);
+  return null;
+end;
+$$;
+
+create or replace function sync_bastp_status_for_bastp()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+begin
+  perform sync_bastp_status(new.id);
+  return null;
+end;
+$$;
+
+create trigger trg_work_verification_sync_bastp_status
+  after insert or update on work_verification
+  for each row execute function sync_bastp_status_for_work_details('work_details_id');
+
+create trigger trg_work_details_cancel_sync_bastp_status
+  after update of cancelled_at on work_details
+  for each row
+  when (old.cancelled_at is distinct from new.cancelled_at)
+  execute function sync_bastp_status_for_work_details('id');
+
+create trigger trg_bastp_work_details_sync_bastp_status
+  after insert or delete or update of materials_status, deleted_at on bastp_work_details
+  for each row execute function sync_bastp_status_for_bastp_work_details();
+
+create trigger trg_bastp_form_penawaran_sync_status
+  after update of form_penawaran_storage_path on bastp
+  for each row
+  when (old.form_penawaran_storage_path is distinct from new.form_penawaran_storage_path)
+  execute function sync_bastp_status_for_bastp();
+
+-- Catch up every BASTP whose list page nobody opened since its gates changed.
+select sync_bastp_status(id)
+from bastp
+where deleted_at is null and status in ('DRAFT', 'VERIFIED');
+
+comment on column bastp.ready_for_invoice_date is
+  'Timestamp when this BASTP''s status transitioned to READY_FOR_INVOICE, stamped by sync_bastp_status(). Used to auto-fill the invoice''s BASTP Collection Date.';
@@ -0,0 +1,149 @@
+-- ============================================================================
+-- Invoice tax rates as effective-dated data instead of constants.
+--
+-- ManageInvoice.tsx hard-coded PPN at 11% and PPh 23 at 2%, with only the
+-- per-invoice ppn_applicable switch (20260728091000). That breaks on the
+-- first rate change: every invoice — including ones dated before the
+-- change — would be computed (and, on re-save, re-priced) at whatever the
+-- constant currently says.
+--
+-- tax_rates: one row per tax type per rate change. The rate for an
+-- invoice is the row with the latest effective_from on or before the
+-- invoice's tax date (its BASTP Collection Date, falling back to today —
+-- the same date its number is generated from). dpp_numerator /
+-- dpp_denominator are the "DPP Nilai Lain" fraction the rate is applied
+-- to: 1/1 is the plain subtotal, 11/12 is the base used with 12% PPN from
+-- 2025 (PMK 131/2024), which keeps the effective charge at 11%.
+--
+-- tax_exemptions: per-customer exemptions from PPN or PPh 23 (e.g. a
+-- customer with an SKB / bebas pungut letter), matched on the invoice's
+-- company name, case- and whitespace-insensitive, within an optional
+-- validity window.
+--
+-- invoice_details now stores the rates, DPP fraction and any exemption
+-- reason it was computed with, so reprinting an old invoice shows the same
+-- numbers even after the rate tables change. Existing invoices are
+-- backfilled with the 11% / 2% they were actually computed with.
+--
+-- Writes are MASTER/FINANCE only, matching the invoice screens.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create table tax_rates (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  tax_type text not null check (tax_type in ('PPN', 'PPH_23')),
+  rate numeric(7, 4) not null check (rate >= 0 and rate < 1),
+  dpp_numerator int not null default 1 check (dpp_numerator > 0),
+  dpp_denominator int not null default 1 check (dpp_denominator > 0),
+  effective_from date not null,
+  notes text
+);
+
+create unique index uq_tax_rates_type_effective_from
+  on tax_rates(tax_type, effective_from)
+  where deleted_at is null;
+
+comment on table tax_rates is
+  'Effective-dated invoice tax rates. An invoice uses, per tax type, the active row with the latest effective_from on or before its tax date.';
+comment on column tax_rates.rate is
+  'Fraction, e.g. 0.12 for 12%.';
+comment on column tax_rates.dpp_numerator is
+  'Numerator of the DPP (tax base) fraction the rate is applied to — 11 for DPP Nilai Lain 11/12, 1 for the plain subtotal.';
+comment on column tax_rates.dpp_denominator is
+  'Denominator of the DPP fraction — 12 for DPP Nilai Lain 11/12, 1 for the plain subtotal.';
+
+create table tax_exemptions (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  company text not null check (btrim(company) <> ''),
+  tax_type text not null check (tax_type in ('PPN', 'PPH_23')),
+  reason text not null check (btrim(reason) <> ''),
+  effective_from date not null,
+  effective_to date,
+  check (effective_to is null or effective_to >= effective_from)
+);
+
+create index idx_tax_exemptions_company on tax_exemptions(lower(btrim(company)));
+
+comment on table tax_exemptions is
+  'Per-customer PPN / PPh 23 exemptions, matched on invoice_details.company (case- and whitespace-insensitive) for invoices whose tax date falls within effective_from..effective_to (open-ended when effective_to is null).';
+
+insert into tax_rates (tax_type, rate, dpp_numerator, dpp_denominator, effective_from, notes) values
+  ('PPN', 0.11, 1, 1, '2022-04-01', 'UU HPP — 11% of the subtotal'),
+  ('PPN', 0.12, 11, 12, '2025-01-01', 'PMK 131/2024 — 12% of DPP Nilai Lain (11/12 of the subtotal)'),
+  ('PPH_23', 0.02, 1, 1, '2009-01-01', 'PPh 23 on services — 2% of the subtotal');
+
+alter table invoice_details
+  add column ppn_rate numeric(7, 4),
+  add column ppn_dpp_numerator int,
+  add column ppn_dpp_denominator int,
+  add column ppn_exemption_reason text,
+  add column pph_23_rate numeric(7, 4),
+  add column pph_23_applicable boolean not null default true,
+  add column pph_23_exemption_reason text;
+
+update invoice_details
+set ppn_rate = 0.11,
+    ppn_dpp_numerator = 1,
+    ppn_dpp_denominator = 1,
+    pph_23_rate = 0.02;
+
+alter table invoice_details
+  alter column ppn_rate set not null,
+  alter column ppn_dpp_numerator set not null,
+  alter column ppn_dpp_denominator set not null,
+  alter column pph_23_rate set not null;
+
+comment on column invoice_details.ppn_rate is
+  'PPN rate this invoice was computed with (from tax_rates at save time), stored even when ppn_applicable is false.';
+comment on column invoice_details.ppn_dpp_numerator is
+  'DPP fraction numerator this invoice''s PPN was computed on (11 for DPP Nilai Lain 11/12).';
+comment on column invoice_details.ppn_dpp_denominator is
+  'DPP fraction denominator this invoice''s PPN was computed on (12 for DPP Nilai Lain 11/12).';
+comment on column invoice_details.ppn_exemption_reason is
+  'Reason of the tax_exemptions row that waived PPN on this invoice, as it read at save time. Null if PPN was not waived by an exemption.';
+comment on column invoice_details.pph_23_rate is
+  'PPh 23 rate this invoice was computed with (from tax_rates at save time).';
+comment on column invoice_details.pph_23_applicable is
+  'False only when a per-customer exemption waived PPh 23 on this invoice.';
+comment on column invoice_details.pph_23_exemption_reason is
+  'Reason of the tax_exemptions row that waived PPh 23 on this invoice, as it read at save time.';
+comment on column invoice_details.ppn_applicable is
+  'Whether PPN is charged on this invoice — unchecked by hand, or waived by a per-customer exemption (see ppn_exemption_reason).';
+
+alter table tax_rates enable row level security;
+alter table tax_exemptions enable row level security;
+
+create policy "Authenticated users can read tax rates"
+  on tax_rates for select to authenticated using (true);
+
+create policy "MASTER/FINANCE can insert tax rates"
+  on tax_rates for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'FINANCE'));
+
+create policy "MASTER/FINANCE can update tax rates"
+  on tax_rates for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'FINANCE'))
+  with check (admin_caller_role() in ('MASTER', 'FINANCE'));
+
+create policy "Authenticated users can read tax exemptions"
+  on tax_exemptions for select to authenticated using (true);
+
+create policy "MASTER/FINANCE can insert tax exemptions"
+  on tax_exemptions for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'FINANCE'));
+
+create policy "MASTER/FINANCE can update tax exemptions"
+  on tax_exemptions for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'FINANCE'))
+  with check (admin_caller_role() in ('MASTER', 'FINANCE'));
@@ -0,0 +1,159 @@
+-- ============================================================================
+-- Payment ledger for invoices: partial payments and PPh 23 withholding.
+--
+-- invoice_details.payment_status was a single paid/unpaid boolean with one
+-- payment_date. Vessel owners routinely pay in instalments, and the PPh 23
+-- they withhold is settled separately — the invoice is only fully settled
+-- once the bukti potong (withholding certificate) for it comes in.
+--
+-- invoice_payments records each settlement against an invoice:
+--   PAYMENT      money received (amount, date, method, bank reference)
+--   WITHHOLDING  PPh 23 withheld by the customer, evidenced by its
+--                withholding certificate number
+--
+-- An invoice's gross amount due is total_price_after + pph_23 (= subtotal +
+-- PPN): cash covers total_price_after, withholding certificates cover
+-- pph_23. Its payment state is derived from the ledger:
+--   UNPAID          nothing recorded
+--   PARTIALLY_PAID  something recorded, balance still outstanding
+--   PAID            recorded settlements cover the gross amount due
+-- The same rule lives client-side in src/utils/invoicePayments.ts.
+--
+-- payment_status / payment_date on invoice_details are kept as a derived
+-- cache of that state (PAID, and the date of the settlement that completed
+-- it) for screens that only need the yes/no answer, and are no longer
+-- written by the app — sync_invoice_payment_status() maintains them.
+--
+-- Invoices already marked paid are backfilled with one PAYMENT for
+-- total_price_after and, if any PPh 23 was withheld, one WITHHOLDING for
+-- pph_23 without a certificate number, both on their recorded payment_date.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create table invoice_payments (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  invoice_details_id bigint not null references invoice_details(id),
+  entry_type text not null default 'PAYMENT'
+    check (entry_type in ('PAYMENT', 'WITHHOLDING')),
+  payment_date date not null,
+  amount numeric(18, 2) not null check (amount > 0),
+  method text check (method in ('BANK_TRANSFER', 'CASH', 'GIRO', 'CHEQUE', 'OTHER')),
+  reference text,
+  withholding_certificate_number text,
+  notes text,
+  recorded_by bigint references profiles(id)
+);
+
+create index idx_invoice_payments_invoice on invoice_payments(invoice_details_id)
+  where deleted_at is null;
+
+comment on table invoice_payments is
+  'Settlement ledger per invoice: PAYMENT rows for money received, WITHHOLDING rows for PPh 23 withheld by the customer (with its withholding certificate). An invoice is PAID once its non-deleted rows add up to total_price_after + pph_23.';
+comment on column invoice_payments.method is
+  'How a PAYMENT was received. Null for WITHHOLDING rows and for payments backfilled from the old paid/unpaid flag.';
+comment on column invoice_payments.reference is
+  'Bank transfer / giro / cheque reference for a PAYMENT.';
+comment on column invoice_payments.withholding_certificate_number is
+  'Bukti potong PPh 23 number for a WITHHOLDING row.';
+
+alter table invoice_payments enable row level security;
+
+create policy "Authenticated users can read invoice payments"
+  on invoice_payments for select to authenticated using (true);
+
+create policy "MASTER/FINANCE can insert invoice payments"
+  on invoice_payments for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'FINANCE'));
+
+create policy "MASTER/FINANCE can update invoice payments"
+  on invoice_payments for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'FINANCE'))
+  with check (admin_caller_role() in ('MASTER', 'FINANCE'));
+
+-- ----------------------------------------------------------------------------
+-- Derived paid flag. Runs as a BEFORE trigger on invoice_details itself, so
+-- it also holds when an invoice is re-priced, and the ledger trigger below
+-- just nudges the invoice row to re-run it.
+-- ----------------------------------------------------------------------------
+create or replace function sync_invoice_payment_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_settled numeric;
+  v_last_date date;
+  v_due numeric;
+begin
+  select coalesce(sum(amount), 0), max(payment_date)
+  into v_settled, v_last_date
+  from invoice_payments
+  where invoice_details_id = new.id and deleted_at is null;
+
+  v_due := coalesce(new.total_price_after, 0) + coalesce(new.pph_23, 0);
+
+  new.payment_status := v_due > 0 and v_settled >= v_due;
+  new.payment_date := case when new.payment_status then v_last_date end;
+  return new;
+end;
+$$;
+
+create trigger trg_invoice_details_sync_payment_status
+  before insert or update on invoice_details
+  for each row execute function sync_invoice_payment_status();
+
+create or replace function touch_invoice_for_payment()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+begin
+  update invoice_details
+  set payment_status = payment_status
+  where id = coalesce(new, old).invoice_details_id;
+  return null;
+end;
+$$;
+
+create trigger trg_invoice_payments_sync_invoice
+  after insert or update or delete on invoice_payments
+  for each row execute function touch_invoice_for_payment();
+
+-- ----------------------------------------------------------------------------
+-- Backfill from the old flag. Inserted with the invoice triggers in place,
+-- so each backfilled invoice re-derives as PAID on its original date.
+--
+-- Both entry types come from one snapshot of the paid invoices: the trigger
+-- re-derives an invoice as soon as its PAYMENT lands, and one with PPh 23
+-- reads as unpaid until its WITHHOLDING is in, so a second pass over
+-- payment_status would miss it.
+-- ----------------------------------------------------------------------------
+with paid as (
+  select id, coalesce(payment_date, updated_at::date) as paid_on,
+         total_price_after, pph_23
+  from invoice_details
+  where payment_status and deleted_at is null
+)
+insert into invoice_payments (invoice_details_id, entry_type, payment_date, amount, notes)
+select id, 'PAYMENT', paid_on, total_price_after,
+       'Recorded from the paid/unpaid flag before the payment ledger existed'
+from paid
+where coalesce(total_price_after, 0) > 0
+union all
+select id, 'WITHHOLDING', paid_on, pph_23,
+       'Recorded from the paid/unpaid flag before the payment ledger existed'
+from paid
+where coalesce(pph_23, 0) > 0;
+
+comment on column invoice_details.payment_status is
+  'Derived: true once the invoice_payments ledger covers total_price_after + pph_23. Maintained by sync_invoice_payment_status(); not written by the app.';
+comment on column invoice_details.payment_date is
+  'Derived: date of the latest ledger entry once payment_status is true, otherwise null.';
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- Per-user dismiss / snooze for the Alerts page.
+--
+-- Alerts are derived on the client (useDashboardData) from live data, so
+-- there is no alert row to mark as read. alert_dismissals instead records,
+-- per user, which alert keys they have put away:
+--   snoozed_until null   dismissed until the alert's key changes
+--   snoozed_until set    hidden until that moment, then shown again
+--
+-- Alert keys embed whatever makes the alert "the same alert" (e.g. the
+-- invoice id and its due date), so moving a due date re-raises an invoice
+-- alert someone had dismissed.
+--
+-- Rows are private to their owner: RLS only exposes and accepts rows whose
+-- profile_id is the caller's own profile.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create or replace function caller_profile_id()
+returns bigint
+language sql
+stable
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+  select id from profiles
+  where auth_user_id = auth.uid() and deleted_at is null
+  limit 1;
+$$;
+
+comment on function caller_profile_id() is
+  'Internal helper: the calling user''s own profiles.id, for per-user RLS and column defaults.';
+
+grant execute on function caller_profile_id() to authenticated;
+
+create table alert_dismissals (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  profile_id bigint not null default caller_profile_id() references profiles(id),
+  alert_key text not null,
+  snoozed_until timestamptz,
+  unique (profile_id, alert_key)
+);
+
+comment on table alert_dismissals is
+  'Alerts a user has dismissed (snoozed_until null) or snoozed (until snoozed_until). Keys match DashboardAlert.key on the client.';
+
+alter table alert_dismissals enable row level security;
+
+create policy "Users read their own alert dismissals"
+  on alert_dismissals for select
+  to authenticated
+  using (profile_id = caller_profile_id());
+
+create policy "Users insert their own alert dismissals"
+  on alert_dismissals for insert
+  to authenticated
+  with check (profile_id = caller_profile_id());
+
+create policy "Users update their own alert dismissals"
+  on alert_dismissals for update
+  to authenticated
+  using (profile_id = caller_profile_id())
+  with check (profile_id = caller_profile_id());
+
+create policy "Users delete their own alert dismissals"
+  on alert_dismissals for delete
+  to authenticated
+  using (profile_id = caller_profile_id());
@@ -0,0 +1,383 @@
+-- ============================================================================
+-- Credit notes, and sent invoices becoming immutable.
+--
+-- Until now the only way to correct an invoice was to edit it in place
+-- (or delete it), even after the customer already had it in hand. Once an
+-- invoice has been sent — invoice_details.delivery_date is set — it is now
+-- frozen, and corrections go through a credit note instead:
+--
+--   credit_notes       one per correction, numbered in its own series
+--                      (NNNN/CN-GAL-SMD/<roman month>/<year>), referencing
+--                      the invoice it credits and carrying its own subtotal,
+--                      PPN, PPh 23 and total computed with the invoice's
+--                      tax snapshot
+--     kind PARTIAL       reverses some amount of selected lines
+--     kind CANCELLATION  reverses everything still uncredited and marks the
+--                        invoice cancelled
+--   credit_note_lines  the invoice lines a credit note reverses: either an
+--                      invoice_work_details row or one of the BASTP's
+--                      general_services, and how much of it is reversed.
+--                      A line can be credited across several notes, never
+--                      beyond its invoiced payment_price.
+--
+-- Credit notes are documents sent to the customer too, so they are never
+-- edited; the only update allowed is voiding one (deleted_at) when saving
+-- its lines fails half-way.
+--
+-- invoice_details gains credited_total_after / credited_pph_23 (running
+-- sums of its credit notes) and cancelled_at, all maintained by
+-- sync_invoice_credit_notes(). The payment ledger's amount due becomes the
+-- invoice's gross amount less what has been credited, so a cancelled
+-- invoice drops out of outstanding balances, aging and alerts.
+--
+-- The freeze is enforced here rather than only in ManageInvoice:
+--   invoice_details      once delivery_date is set, only the receipt
+--                        fields (collection_date, receiver_name, remarks)
+--                        and the derived payment / credit columns change
+--   invoice_work_details no inserts, updates or deletes on a sent invoice
+--   general_services     no changes on a BASTP whose invoice was sent —
+--                        the invoice and its printout read them live
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+-- ----------------------------------------------------------------------------
+-- 1. Credit notes
+-- ----------------------------------------------------------------------------
+create table credit_notes (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  invoice_details_id bigint not null references invoice_details(id),
+  user_id bigint references profiles(id),
+  credit_note_number text not null,
+  credit_note_date date not null,
+  kind text not null check (kind in ('PARTIAL', 'CANCELLATION')),
+  reason text not null check (length(trim(reason)) > 0),
+  total_price_before numeric(18, 2) not null check (total_price_before >= 0),
+  ppn numeric(18, 2) not null default 0,
+  pph_23 numeric(18, 2) not null default 0,
+  total_price_after numeric(18, 2) not null
+);
+
+create unique index idx_credit_notes_number on credit_notes(credit_note_number)
+  where deleted_at is null;
+create index idx_credit_notes_invoice on credit_notes(invoice_details_id)
+  where deleted_at is null;
+
+comment on table credit_notes is
+  'Credit notes against sent invoices. Amounts use the credited invoice''s tax snapshot; total_price_after = total_price_before + ppn - pph_23, same as invoice_details.';
+comment on column credit_notes.kind is
+  'PARTIAL reverses selected line amounts; CANCELLATION reverses everything still uncredited and marks the invoice cancelled.';
+
+create table credit_note_lines (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  credit_note_id bigint not null references credit_notes(id),
+  invoice_work_details_id bigint references invoice_work_details(id),
+  general_service_id bigint references general_services(id),
+  description text,
+  amount numeric(18, 2) not null check (amount > 0),
+  check (num_nonnulls(invoice_work_details_id, general_service_id) = 1)
+);
+
+create index idx_credit_note_lines_note on credit_note_lines(credit_note_id);
+
+comment on table credit_note_lines is
+  'Invoice lines reversed by a credit note — one invoice_work_details row or one general_services row each. description is copied from the line at issue time for the printout.';
+
+alter table credit_notes enable row level security;
+alter table credit_note_lines enable row level security;
+
+create policy "Authenticated users can read credit notes"
+  on credit_notes for select to authenticated using (true);
+
+create policy "MASTER/FINANCE can insert credit notes"
+  on credit_notes for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'FINANCE'));
+
+create policy "MASTER/FINANCE can update credit notes"
+  on credit_notes for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'FINANCE'))
+  with check (admin_caller_role() in ('MASTER', 'FINANCE'));
+
+create policy "Authenticated users can read credit note lines"
+  on credit_note_lines for select to authenticated using (true);
+
+create policy "MASTER/FINANCE can insert credit note lines"
+  on credit_note_lines for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'FINANCE'));
+
+-- Only voiding is allowed after issue.
+create or replace function guard_credit_note_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+begin
+  if (to_jsonb(new) - array['deleted_at', 'updated_at'])
+     is distinct from (to_jsonb(old) - array['deleted_at', 'updated_at']) then
+    raise exception 'Credit note % has been issued and cannot be changed.',
+      old.credit_note_number;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_credit_notes_guard_update
+  before update on credit_notes
+  for each row execute function guard_credit_note_update();
+
+-- Credit notes can only be issued against a sent, not-yet-cancelled invoice.
+create or replace function check_credit_note_invoice()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_invoice invoice_details%rowtype;
+begin
+  select * into v_invoice from invoice_details where id = new.invoice_details_id;
+
+  if v_invoice.id is null or v_invoice.deleted_at is not null then
+    raise exception 'Invoice % does not exist.', new.invoice_details_id;
+  end if;
+  if v_invoice.delivery_date is null then
+    raise exception 'Invoice % has not been sent yet — edit it instead of issuing a credit note.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text);
+  end if;
+  if v_invoice.cancelled_at is not null then
+    raise exception 'Invoice % is already cancelled.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_credit_notes_check_invoice
+  before insert on credit_notes
+  for each row execute function check_credit_note_invoice();
+
+-- A line must belong to the credited invoice and can't be credited past
+-- what was invoiced for it.
+create or replace function check_credit_note_line()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_invoice_id bigint;
+  v_invoiced numeric;
+  v_credited numeric;
+begin
+  select invoice_details_id into v_invoice_id
+  from credit_notes where id = new.credit_note_id;
+
+  if new.invoice_work_details_id is not null then
+    select payment_price into v_invoiced
+    from invoice_work_details
+    where id = new.invoice_work_details_id and invoice_details_id = v_invoice_id;
+
+    select coalesce(sum(l.amount), 0) into v_credited
+    from credit_note_lines l
+    join credit_notes cn on cn.id = l.credit_note_id
+    where l.invoice_work_details_id = new.invoice_work_details_id
+      and cn.deleted_at is null;
+  else
+    select gs.payment_price into v_invoiced
+    from general_services gs
+    join invoice_details inv on inv.bastp_id = gs.bastp_id
+    where gs.id = new.general_service_id and inv.id = v_invoice_id;
+
+    select coalesce(sum(l.amount), 0) into v_credited
+    from credit_note_lines l
+    join credit_notes cn on cn.id = l.credit_note_id
+    where l.general_service_id = new.general_service_id
+      and cn.deleted_at is null;
+  end if;
+
+  if v_invoiced is null then
+    raise exception 'Credit note line does not belong to the credited invoice.';
+  end if;
+  if v_credited + new.amount > v_invoiced then
+    raise exception 'Credit note line exceeds the uncredited amount of the invoice line (% of % already credited).',
+      v_credited, v_invoiced;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_credit_note_lines_check
+  before insert on credit_note_lines
+  for each row execute function check_credit_note_line();
+
+-- ----------------------------------------------------------------------------
+-- 2. Number series
+-- ----------------------------------------------------------------------------
+insert into document_number_series (doc_type, suffix, source_table, source_column) values
+  ('CREDIT_NOTE', 'CN-GAL-SMD', 'credit_notes', 'credit_note_number');
+
+create trigger trg_credit_notes_document_number_used
+  after insert on credit_notes
+  for each row execute function mark_document_number_used('CREDIT_NOTE', 'credit_note_number');
+
+-- ----------------------------------------------------------------------------
+-- 3. Credited totals on the invoice
+-- ----------------------------------------------------------------------------
+alter table invoice_details
+  add column credited_total_after numeric(18, 2) not null default 0,
+  add column credited_pph_23 numeric(18, 2) not null default 0,
+  add column cancelled_at timestamptz;
+
+comment on column invoice_details.credited_total_after is
+  'Derived: sum of total_price_after over this invoice''s non-deleted credit notes. Maintained by sync_invoice_credit_notes().';
+comment on column invoice_details.credited_pph_23 is
+  'Derived: sum of pph_23 over this invoice''s non-deleted credit notes.';
+comment on column invoice_details.cancelled_at is
+  'Derived: when a CANCELLATION credit note was issued against this invoice, null otherwise.';
+
+create or replace function sync_invoice_credit_notes()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_invoice_id bigint := coalesce(new, old).invoice_details_id;
+begin
+  update invoice_details inv
+  set credited_total_after = totals.total_after,
+      credited_pph_23 = totals.pph_23,
+      cancelled_at = totals.cancelled_at
+  from (
+    select coalesce(sum(total_price_after), 0) as total_after,
+           coalesce(sum(pph_23), 0) as pph_23,
+           min(created_at) filter (where kind = 'CANCELLATION') as cancelled_at
+    from credit_notes
+    where invoice_details_id = v_invoice_id and deleted_at is null
+  ) totals
+  where inv.id = v_invoice_id;
+  return null;
+end;
+$$;
+
+create trigger trg_credit_notes_sync_invoice
+  after insert or update on credit_notes
+  for each row execute function sync_invoice_credit_notes();
+
+-- Same rule as 20260807120000, with the amount due reduced by whatever
+-- has been credited. A fully credited invoice counts as settled.
+create or replace function sync_invoice_payment_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_settled numeric;
+  v_last_date date;
+  v_due numeric;
+begin
+  select coalesce(sum(amount), 0), max(payment_date)
+  into v_settled, v_last_date
+  from invoice_payments
+  where invoice_details_id = new.id and deleted_at is null;
+
+  v_due := coalesce(new.total_price_after, 0) + coalesce(new.pph_23, 0)
+         - coalesce(new.credited_total_after, 0) - coalesce(new.credited_pph_23, 0);
+
+  new.payment_status := (v_due > 0 or coalesce(new.credited_total_after, 0) > 0)
+                        and v_settled >= v_due;
+  new.payment_date := case when new.payment_status then v_last_date end;
+  return new;
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- 4. Sent invoices are frozen
+-- ----------------------------------------------------------------------------
+create or replace function guard_sent_invoice()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_mutable text[] := array[
+    'updated_at', 'collection_date', 'receiver_name', 'remarks',
+    'payment_status', 'payment_date',
+    'credited_total_after', 'credited_pph_23', 'cancelled_at'
+  ];
+begin
+  if old.delivery_date is not null
+     and (to_jsonb(new) - v_mutable) is distinct from (to_jsonb(old) - v_mutable) then
+    raise exception 'Invoice % was sent to the customer on % and can no longer be changed — issue a credit note instead.',
+      coalesce(old.invoice_number, old.id::text), old.delivery_date;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_invoice_details_guard_sent
+  before update on invoice_details
+  for each row execute function guard_sent_invoice();
+
+create or replace function guard_sent_invoice_lines()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_invoice invoice_details%rowtype;
+begin
+  select * into v_invoice
+  from invoice_details
+  where id = coalesce(new, old).invoice_details_id;
+
+  if v_invoice.delivery_date is not null then
+    raise exception 'Invoice % was sent to the customer on % and its lines can no longer be changed — issue a credit note instead.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text), v_invoice.delivery_date;
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger trg_invoice_work_details_guard_sent
+  before insert or update or delete on invoice_work_details
+  for each row execute function guard_sent_invoice_lines();
+
+create or replace function guard_sent_invoice_general_services()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_invoice invoice_details%rowtype;
+begin
+  select * into v_invoice
+  from invoice_details
+  where bastp_id = coalesce(new, old).bastp_id
+    and deleted_at is null
+    and delivery_date is not null
+  limit 1;
+
+  if v_invoice.id is not null then
+    raise exception 'Invoice % for this BASTP was sent to the customer on % — its general services can no longer be changed.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text), v_invoice.delivery_date;
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger trg_general_services_guard_sent_invoice
+  before insert or update or delete on general_services
+  for each row execute function guard_sent_invoice_general_services();
@@ -0,0 +1,292 @@
+-- ============================================================================
+-- Issued invoices and audited amendments.
+--
+-- 20260807140000 froze invoices once sent (delivery_date set). Before that
+-- point an invoice could still be reopened from /invoices/edit/:id and
+-- re-priced freely, even after it had been printed and handed to finance.
+-- Invoices now go through an explicit "issued" state first:
+--
+--   draft    editable as before
+--   issued   issued_at set (the Issue Invoice action, or automatically when
+--            a delivery date is saved). Read-only except through an
+--            amendment: amend_invoice() rewrites the invoice, its lines and
+--            its BASTP's general service prices in one transaction, requires
+--            a reason, and bumps revision (shown on the printout). The app
+--            records the before/after values in activity_logs.
+--   sent     delivery_date set — frozen, corrections by credit note only
+--
+-- The guards from 20260807140000 are replaced by ones that know about both
+-- states. amend_invoice() marks its own transaction with the
+-- daily_report_shipyard.amending_invoice setting, which is the only way
+-- past the issued-state guards.
+--
+-- Existing invoices that were already sent or have payments recorded are
+-- backfilled as issued (revision 0).
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+alter table invoice_details
+  add column issued_at timestamptz,
+  add column issued_by bigint references profiles(id),
+  add column revision int not null default 0,
+  add column amendment_reason text,
+  add column amended_at timestamptz,
+  add column amended_by bigint references profiles(id);
+
+comment on column invoice_details.issued_at is
+  'When the invoice was issued. From then on it only changes through amend_invoice().';
+comment on column invoice_details.revision is
+  'Number of amendments since issue; printed as "Rev. N" once above zero.';
+comment on column invoice_details.amendment_reason is
+  'Reason given for the latest amendment (revision). Earlier reasons are in activity_logs.';
+
+-- ----------------------------------------------------------------------------
+-- 1. Replace the sent-only guards
+-- ----------------------------------------------------------------------------
+drop trigger trg_invoice_details_guard_sent on invoice_details;
+drop trigger trg_invoice_work_details_guard_sent on invoice_work_details;
+drop trigger trg_general_services_guard_sent_invoice on general_services;
+drop function guard_sent_invoice();
+drop function guard_sent_invoice_lines();
+drop function guard_sent_invoice_general_services();
+
+-- True inside amend_invoice() for this invoice.
+create or replace function is_amending_invoice(p_invoice_id bigint)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(current_setting('daily_report_shipyard.amending_invoice', true), '')
+         = p_invoice_id::text;
+$$;
+
+comment on function is_amending_invoice(bigint) is
+  'Internal helper: whether the current transaction is amend_invoice() rewriting this invoice.';
+
+create or replace function guard_locked_invoice()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  -- Receipt details, derived payment / credit columns and the act of
+  -- sending stay writable on an issued invoice.
+  v_issued_mutable text[] := array[
+    'updated_at', 'collection_date', 'receiver_name', 'remarks',
+    'payment_status', 'payment_date',
+    'credited_total_after', 'credited_pph_23', 'cancelled_at',
+    'delivery_date'
+  ];
+  v_sent_mutable text[] := array[
+    'updated_at', 'collection_date', 'receiver_name', 'remarks',
+    'payment_status', 'payment_date',
+    'credited_total_after', 'credited_pph_23', 'cancelled_at'
+  ];
+begin
+  if old.delivery_date is not null
+     and (to_jsonb(new) - v_sent_mutable) is distinct from (to_jsonb(old) - v_sent_mutable) then
+    raise exception 'Invoice % was sent to the customer on % and can no longer be changed — issue a credit note instead.',
+      coalesce(old.invoice_number, old.id::text), old.delivery_date;
+  end if;
+
+  if old.issued_at is not null
+     and not is_amending_invoice(old.id)
+     and (to_jsonb(new) - v_issued_mutable) is distinct from (to_jsonb(old) - v_issued_mutable) then
+    raise exception 'Invoice % has been issued and is read-only — amend it with a reason instead.',
+      coalesce(old.invoice_number, old.id::text);
+  end if;
+
+  -- Saving a delivery date issues the invoice if nobody did so explicitly.
+  if new.delivery_date is not null and new.issued_at is null then
+    new.issued_at := now();
+    new.issued_by := caller_profile_id();
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_invoice_details_guard_locked
+  before update on invoice_details
+  for each row execute function guard_locked_invoice();
+
+create or replace function guard_locked_invoice_lines()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_invoice invoice_details%rowtype;
+begin
+  select * into v_invoice
+  from invoice_details
+  where id = coalesce(new, old).invoice_details_id;
+
+  if v_invoice.delivery_date is not null then
+    raise exception 'Invoice % was sent to the customer on % and its lines can no longer be changed — issue a credit note instead.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text), v_invoice.delivery_date;
+  end if;
+  if v_invoice.issued_at is not null and not is_amending_invoice(v_invoice.id) then
+    raise exception 'Invoice % has been issued — its lines can only change through an amendment.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text);
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger trg_invoice_work_details_guard_locked
+  before insert or update or delete on invoice_work_details
+  for each row execute function guard_locked_invoice_lines();
+
+create or replace function guard_locked_invoice_general_services()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_invoice invoice_details%rowtype;
+begin
+  select * into v_invoice
+  from invoice_details
+  where bastp_id = coalesce(new, old).bastp_id
+    and deleted_at is null
+    and (delivery_date is not null or issued_at is not null)
+  limit 1;
+
+  if v_invoice.delivery_date is not null then
+    raise exception 'Invoice % for this BASTP was sent to the customer on % — its general services can no longer be changed.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text), v_invoice.delivery_date;
+  end if;
+  if v_invoice.issued_at is not null and not is_amending_invoice(v_invoice.id) then
+    raise exception 'Invoice % for this BASTP has been issued — its general services can only change through an amendment.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text);
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger trg_general_services_guard_locked_invoice
+  before insert or update or delete on general_services
+  for each row execute function guard_locked_invoice_general_services();
+
+-- ----------------------------------------------------------------------------
+-- 2. Amendments
+--    p_invoice: the editable invoice_details columns, as ManageInvoice saves
+--               them (missing keys become null)
+--    p_work_details: [{ work_details_id, unit_price, payment_price }]
+--    p_general_services: [{ service_type_id, unit_price, payment_price }]
+-- ----------------------------------------------------------------------------
+create or replace function amend_invoice(
+  p_invoice_id bigint,
+  p_reason text,
+  p_invoice jsonb,
+  p_work_details jsonb,
+  p_general_services jsonb
+)
+returns int
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_invoice invoice_details%rowtype;
+  v_revision int;
+begin
+  if admin_caller_role() is null
+     or admin_caller_role() not in ('MASTER', 'FINANCE') then
+    raise exception 'Only MASTER and FINANCE can amend invoices.';
+  end if;
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'An amendment needs a reason.';
+  end if;
+
+  select * into v_invoice
+  from invoice_details
+  where id = p_invoice_id and deleted_at is null
+  for update;
+
+  if v_invoice.id is null then
+    raise exception 'Invoice % does not exist.', p_invoice_id;
+  end if;
+  if v_invoice.issued_at is null then
+    raise exception 'Invoice % has not been issued — edit it directly.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text);
+  end if;
+
+  perform set_config('daily_report_shipyard.amending_invoice', p_invoice_id::text, true);
+
+  -- Lines before the invoice row: the amendment may itself save a delivery
+  -- date, after which the lines are frozen.
+  delete from invoice_work_details where invoice_details_id = p_invoice_id;
+
+  insert into invoice_work_details (invoice_details_id, work_details_id, unit_price, payment_price)
+  select p_invoice_id, x.work_details_id, x.unit_price, x.payment_price
+  from jsonb_to_recordset(coalesce(p_work_details, '[]'::jsonb))
+    as x(work_details_id bigint, unit_price numeric, payment_price numeric);
+
+  update general_services gs
+  set unit_price = x.unit_price,
+      payment_price = x.payment_price
+  from jsonb_to_recordset(coalesce(p_general_services, '[]'::jsonb))
+    as x(service_type_id bigint, unit_price numeric, payment_price numeric)
+  where gs.bastp_id = v_invoice.bastp_id
+    and gs.service_type_id = x.service_type_id;
+
+  update invoice_details inv
+  set bastp_collection_date = r.bastp_collection_date,
+      company = r.company,
+      invoice_number = r.invoice_number,
+      faktur_number = r.faktur_number,
+      due_date = r.due_date,
+      delivery_date = r.delivery_date,
+      collection_date = r.collection_date,
+      receiver_name = r.receiver_name,
+      remarks = r.remarks,
+      total_price_before = r.total_price_before,
+      ppn = r.ppn,
+      ppn_applicable = r.ppn_applicable,
+      pph_23 = r.pph_23,
+      total_price_after = r.total_price_after,
+      ppn_rate = r.ppn_rate,
+      ppn_dpp_numerator = r.ppn_dpp_numerator,
+      ppn_dpp_denominator = r.ppn_dpp_denominator,
+      ppn_exemption_reason = r.ppn_exemption_reason,
+      pph_23_rate = r.pph_23_rate,
+      pph_23_applicable = r.pph_23_applicable,
+      pph_23_exemption_reason = r.pph_23_exemption_reason,
+      revision = inv.revision + 1,
+      amendment_reason = trim(p_reason),
+      amended_at = now(),
+      amended_by = caller_profile_id(),
+      updated_at = now()
+  from jsonb_populate_record(null::invoice_details, p_invoice) r
+  where inv.id = p_invoice_id
+  returning inv.revision into v_revision;
+
+  return v_revision;
+end;
+$$;
+
+comment on function amend_invoice(bigint, text, jsonb, jsonb, jsonb) is
+  'Rewrites an issued (not yet sent) invoice, its lines and its BASTP''s general service prices atomically, recording the reason and bumping revision. Returns the new revision.';
+
+grant execute on function amend_invoice(bigint, text, jsonb, jsonb, jsonb) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- 3. Backfill: invoices already sent or paid against count as issued
+-- ----------------------------------------------------------------------------
+alter table invoice_details disable trigger trg_invoice_details_guard_locked;
+
+update invoice_details inv
+set issued_at = coalesce(inv.delivery_date::timestamptz, inv.updated_at)
+where inv.deleted_at is null
+  and (inv.delivery_date is not null
+       or exists (
+         select 1 from invoice_payments p
+         where p.invoice_details_id = inv.id and p.deleted_at is null
+       ));
+
+alter table invoice_details enable trigger trg_invoice_details_guard_locked;
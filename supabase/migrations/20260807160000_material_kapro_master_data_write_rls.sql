@@ -0,0 +1,54 @@
+-- ============================================================================
+-- In-app write path for the remaining master data: material_lists,
+-- material_densities and kapro.
+--
+-- Same shape as 20260805100000_master_data_write_rls.sql: the Master Data
+-- screen now has Materials, Densities and Kapro tabs, so MASTER/PPIC get
+-- INSERT/UPDATE policies (soft-delete and restore go through UPDATE of
+-- deleted_at) and the blanket "any authenticated user" insert is dropped.
+--
+-- material_lists keeps its existing insert policy: the Material Control form
+-- lets whoever is entering BASTP materials add a missing material inline.
+-- Only editing an existing material is restricted.
+--
+-- Editing a material never touches material_control. Its calc_mode, density
+-- and computed total_amount are snapshotted on each row when it is entered
+-- (20260730160000), so changing a material's default mode or density only
+-- affects entries made afterwards.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+drop policy if exists "Enable insert for authenticated users only" on material_densities;
+drop policy if exists "Enable insert for authenticated users only" on kapro;
+
+create policy "MASTER/PPIC can update material_lists"
+  on material_lists for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PPIC'))
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "MASTER/PPIC can insert material_densities"
+  on material_densities for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "MASTER/PPIC can update material_densities"
+  on material_densities for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PPIC'))
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "MASTER/PPIC can insert kapro"
+  on kapro for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "MASTER/PPIC can update kapro"
+  on kapro for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PPIC'))
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+comment on column material_lists.material_density_id is
+  'Default density for this material, copied onto material_control when an entry is made. Changing it does not alter existing entries.';
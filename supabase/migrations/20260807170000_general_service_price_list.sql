@@ -0,0 +1,87 @@
+-- ============================================================================
+-- Managed price list for general services (crane, electricity, water, ...).
+--
+-- general_service_types was a seeded lookup with no price: CreateBASTP
+-- inserted every general_services row at unit_price 0 and finance typed the
+-- per-day price into ManageInvoice by hand for each invoice.
+--
+-- general_service_prices: effective-dated per-day unit prices per service
+-- type, optionally scoped to a vessel company and/or vessel type (matched
+-- against vessel.company / vessel.type, case- and whitespace-insensitive).
+-- The price for a BASTP is picked among the rows effective on or before the
+-- BASTP date whose scope matches its vessel:
+--   1. the most specific scope wins (company + type, then company, then
+--      type, then the unscoped default),
+--   2. within that scope, the latest effective_from.
+-- The app resolves this (src/utils/generalServicePrices.ts) and copies the
+-- result into general_services.unit_price, so later price changes never
+-- re-price an existing BASTP or invoice.
+--
+-- Service types themselves become editable master data with soft delete.
+-- Writes are MASTER/PPIC only, matching 20260805100000.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+alter table general_service_types
+  add column if not exists deleted_at timestamptz;
+
+create table general_service_prices (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  service_type_id bigint not null references general_service_types(id),
+  unit_price numeric(15, 2) not null check (unit_price >= 0),
+  effective_from date not null,
+  vessel_company text check (vessel_company is null or btrim(vessel_company) <> ''),
+  vessel_type text check (vessel_type is null or btrim(vessel_type) <> ''),
+  notes text
+);
+
+create unique index uq_general_service_prices_scope_effective_from
+  on general_service_prices (
+    service_type_id,
+    coalesce(lower(btrim(vessel_company)), ''),
+    coalesce(lower(btrim(vessel_type)), ''),
+    effective_from
+  )
+  where deleted_at is null;
+
+comment on table general_service_prices is
+  'Effective-dated per-day unit prices for general services, optionally per vessel company and/or vessel type. A BASTP uses the most specific matching scope, then the latest effective_from on or before the BASTP date.';
+comment on column general_service_prices.vessel_company is
+  'Only applies to vessels of this company (vessel.company, case- and whitespace-insensitive). Null for any company.';
+comment on column general_service_prices.vessel_type is
+  'Only applies to vessels of this type (vessel.type, e.g. TB, SPOB). Null for any type.';
+comment on column general_services.unit_price is
+  'Per-day price, prefilled from general_service_prices on the BASTP date and editable on the invoice.';
+
+alter table general_service_prices enable row level security;
+
+create policy "Authenticated users can read general service prices"
+  on general_service_prices for select to authenticated using (true);
+
+create policy "MASTER/PPIC can insert general service prices"
+  on general_service_prices for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "MASTER/PPIC can update general service prices"
+  on general_service_prices for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PPIC'))
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+drop policy if exists "Enable insert for authenticated users only" on general_service_types;
+
+create policy "MASTER/PPIC can insert general_service_types"
+  on general_service_types for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "MASTER/PPIC can update general_service_types"
+  on general_service_types for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PPIC'))
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
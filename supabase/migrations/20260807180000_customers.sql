@@ -0,0 +1,276 @@
+-- ============================================================================
+-- Customer master with billing details.
+--
+-- Vessel ownership was the free-text vessel.company, and ManageInvoice
+-- copied it into invoice_details.company, with finance retyping NPWP and
+-- address by hand. Spelling drift had to be fixed in bulk by
+-- 20260730200000 ("Armada Samudra Global" vs "Armada Samudera Global").
+--
+-- customers: one row per billed company, with legal name, NPWP, billing
+-- address, default payment terms and invoice recipient (the "UP:" line).
+--
+-- vessel.customer_id links a vessel to its owner. vessel.company stays as
+-- a denormalised copy of customers.name, maintained by triggers here,
+-- because tax exemptions, price list scopes, AR aging and alerts all still
+-- match on it.
+--
+-- invoice_details.customer_id plus customer_* snapshot columns: the billing
+-- details are copied onto the invoice when it is saved (like the tax
+-- snapshot from 20260807110000), so editing a customer later never changes
+-- an invoice that has already been printed. amend_invoice() is redefined to
+-- carry the new columns.
+--
+-- Backfill: one customer per distinct company name on vessels and invoices
+-- (case- and whitespace-insensitive), then link vessels and invoices to it.
+-- Existing invoices keep an empty snapshot and print as before.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+-- ----------------------------------------------------------------------------
+-- 1. Customers
+-- ----------------------------------------------------------------------------
+create table customers (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  name text not null check (btrim(name) <> ''),
+  legal_name text,
+  npwp text,
+  billing_address text,
+  payment_terms_days int check (payment_terms_days is null or payment_terms_days >= 0),
+  invoice_recipient text,
+  notes text
+);
+
+create unique index uq_customers_name
+  on customers (lower(btrim(name)))
+  where deleted_at is null;
+
+comment on table customers is
+  'Vessel owners / billed companies. vessel.company and new invoices take their company name from here.';
+comment on column customers.name is
+  'Short display name, copied into vessel.company and invoice_details.company.';
+comment on column customers.legal_name is
+  'Legal entity name printed on invoices (e.g. "PT Armada Samudera Global"). Falls back to name.';
+comment on column customers.payment_terms_days is
+  'Default days from invoice collection date to due date.';
+comment on column customers.invoice_recipient is
+  'Printed on the invoice "UP:" line. Falls back to ACCOUNTING.';
+
+alter table customers enable row level security;
+
+create policy "Authenticated users can read customers"
+  on customers for select to authenticated using (true);
+
+create policy "MASTER/PPIC can insert customers"
+  on customers for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "MASTER/PPIC can update customers"
+  on customers for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PPIC'))
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+-- ----------------------------------------------------------------------------
+-- 2. Vessels
+-- ----------------------------------------------------------------------------
+alter table vessel
+  add column customer_id bigint references customers(id);
+
+create index idx_vessel_customer_id on vessel (customer_id);
+
+comment on column vessel.customer_id is
+  'Owning customer. vessel.company is kept equal to customers.name by triggers.';
+comment on column vessel.company is
+  'Denormalised copy of customers.name for customer_id; free text only on vessels without a customer.';
+
+create or replace function sync_vessel_company()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+begin
+  if new.customer_id is not null then
+    select c.name into new.company
+    from customers c
+    where c.id = new.customer_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_vessel_sync_company
+  before insert or update of customer_id, company on vessel
+  for each row execute function sync_vessel_company();
+
+create or replace function propagate_customer_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+begin
+  update vessel
+  set company = new.name,
+      updated_at = now()
+  where customer_id = new.id
+    and company is distinct from new.name;
+  return new;
+end;
+$$;
+
+create trigger trg_customers_propagate_name
+  after update of name on customers
+  for each row
+  when (old.name is distinct from new.name)
+  execute function propagate_customer_name();
+
+-- ----------------------------------------------------------------------------
+-- 3. Invoices
+-- ----------------------------------------------------------------------------
+alter table invoice_details
+  add column customer_id bigint references customers(id),
+  add column customer_legal_name text,
+  add column customer_npwp text,
+  add column customer_billing_address text,
+  add column customer_invoice_recipient text;
+
+create index idx_invoice_details_customer_id on invoice_details (customer_id);
+
+comment on column invoice_details.customer_id is
+  'Billed customer. The customer_* columns are a snapshot of its billing details taken when the invoice was saved.';
+comment on column invoice_details.customer_invoice_recipient is
+  'Snapshot of customers.invoice_recipient, printed on the "UP:" line.';
+
+-- Same as 20260807150000, plus customer_id and the customer snapshot.
+create or replace function amend_invoice(
+  p_invoice_id bigint,
+  p_reason text,
+  p_invoice jsonb,
+  p_work_details jsonb,
+  p_general_services jsonb
+)
+returns int
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_invoice invoice_details%rowtype;
+  v_revision int;
+begin
+  if admin_caller_role() is null
+     or admin_caller_role() not in ('MASTER', 'FINANCE') then
+    raise exception 'Only MASTER and FINANCE can amend invoices.';
+  end if;
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'An amendment needs a reason.';
+  end if;
+
+  select * into v_invoice
+  from invoice_details
+  where id = p_invoice_id and deleted_at is null
+  for update;
+
+  if v_invoice.id is null then
+    raise exception 'Invoice % does not exist.', p_invoice_id;
+  end if;
+  if v_invoice.issued_at is null then
+    raise exception 'Invoice % has not been issued — edit it directly.',
+      coalesce(v_invoice.invoice_number, v_invoice.id::text);
+  end if;
+
+  perform set_config('daily_report_shipyard.amending_invoice', p_invoice_id::text, true);
+
+  -- Lines before the invoice row: the amendment may itself save a delivery
+  -- date, after which the lines are frozen.
+  delete from invoice_work_details where invoice_details_id = p_invoice_id;
+
+  insert into invoice_work_details (invoice_details_id, work_details_id, unit_price, payment_price)
+  select p_invoice_id, x.work_details_id, x.unit_price, x.payment_price
+  from jsonb_to_recordset(coalesce(p_work_details, '[]'::jsonb))
+    as x(work_details_id bigint, unit_price numeric, payment_price numeric);
+
+  update general_services gs
+  set unit_price = x.unit_price,
+      payment_price = x.payment_price
+  from jsonb_to_recordset(coalesce(p_general_services, '[]'::jsonb))
+    as x(service_type_id bigint, unit_price numeric, payment_price numeric)
+  where gs.bastp_id = v_invoice.bastp_id
+    and gs.service_type_id = x.service_type_id;
+
+  update invoice_details inv
+  set bastp_collection_date = r.bastp_collection_date,
+      company = r.company,
+      customer_id = r.customer_id,
+      customer_legal_name = r.customer_legal_name,
+      customer_npwp = r.customer_npwp,
+      customer_billing_address = r.customer_billing_address,
+      customer_invoice_recipient = r.customer_invoice_recipient,
+      invoice_number = r.invoice_number,
+      faktur_number = r.faktur_number,
+      due_date = r.due_date,
+      delivery_date = r.delivery_date,
+      collection_date = r.collection_date,
+      receiver_name = r.receiver_name,
+      remarks = r.remarks,
+      total_price_before = r.total_price_before,
+      ppn = r.ppn,
+      ppn_applicable = r.ppn_applicable,
+      pph_23 = r.pph_23,
+      total_price_after = r.total_price_after,
+      ppn_rate = r.ppn_rate,
+      ppn_dpp_numerator = r.ppn_dpp_numerator,
+      ppn_dpp_denominator = r.ppn_dpp_denominator,
+      ppn_exemption_reason = r.ppn_exemption_reason,
+      pph_23_rate = r.pph_23_rate,
+      pph_23_applicable = r.pph_23_applicable,
+      pph_23_exemption_reason = r.pph_23_exemption_reason,
+      revision = inv.revision + 1,
+      amendment_reason = trim(p_reason),
+      amended_at = now(),
+      amended_by = caller_profile_id(),
+      updated_at = now()
+  from jsonb_populate_record(null::invoice_details, p_invoice) r
+  where inv.id = p_invoice_id
+  returning inv.revision into v_revision;
+
+  return v_revision;
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- 4. Backfill
+-- ----------------------------------------------------------------------------
+insert into customers (name)
+select distinct on (lower(btrim(src.company))) btrim(src.company)
+from (
+  select company from vessel where deleted_at is null
+  union all
+  select company from invoice_details where deleted_at is null
+) src
+where nullif(btrim(src.company), '') is not null
+order by lower(btrim(src.company)), btrim(src.company);
+
+update vessel v
+set customer_id = c.id
+from customers c
+where lower(btrim(v.company)) = lower(btrim(c.name))
+  and c.deleted_at is null;
+
+-- Issued invoices are read-only outside amend_invoice(); linking them to
+-- the customer they already name changes nothing printed.
+alter table invoice_details disable trigger trg_invoice_details_guard_locked;
+
+update invoice_details inv
+set customer_id = c.id
+from customers c
+where lower(btrim(inv.company)) = lower(btrim(c.name))
+  and c.deleted_at is null;
+
+alter table invoice_details enable trigger trg_invoice_details_guard_locked;
@@ -0,0 +1,146 @@
+-- ============================================================================
+-- Merge a duplicate vessel row into the vessel it duplicates.
+--
+-- 20260730200000 could only soft-delete its near-duplicates (ids 108/109)
+-- because nothing referenced them. merge_vessels() handles the general case:
+-- every row pointing at the duplicate is re-pointed at the surviving vessel
+-- in one transaction, then the duplicate is soft-deleted.
+--
+-- Re-pointed (soft-deleted rows included, so history follows the vessel):
+--   projects, work_order, vessel_readiness_forms, additional_wo_requests,
+--   bastp
+-- projects go first: the work_order / readiness form / additional WO
+-- request triggers require those rows to match their project's vessel.
+--
+-- The survivor keeps its own type, company, customer and fleet number and
+-- only takes the duplicate's where it has none.
+--
+-- MASTER/PPIC only, like the rest of vessel master data (20260805100000).
+-- Returns the number of rows moved per table. The merge is recorded in
+-- activity_logs against the survivor inside the same transaction, so a
+-- merge can't happen without its audit row.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create or replace function merge_vessels(
+  p_duplicate_id bigint,
+  p_survivor_id bigint
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_duplicate vessel%rowtype;
+  v_survivor vessel%rowtype;
+  v_projects int;
+  v_work_orders int;
+  v_readiness_forms int;
+  v_additional_wo_requests int;
+  v_bastp int;
+  v_moved jsonb;
+  v_moved_text text;
+begin
+  if admin_caller_role() is null
+     or admin_caller_role() not in ('MASTER', 'PPIC') then
+    raise exception 'Only MASTER and PPIC can merge vessels.';
+  end if;
+  if p_duplicate_id = p_survivor_id then
+    raise exception 'A vessel can''t be merged into itself.';
+  end if;
+
+  -- Lock both rows in id order so two concurrent merges can't deadlock.
+  perform 1 from vessel
+  where id in (p_duplicate_id, p_survivor_id)
+  order by id
+  for update;
+
+  select * into v_duplicate from vessel where id = p_duplicate_id;
+  select * into v_survivor from vessel where id = p_survivor_id;
+
+  if v_duplicate.id is null or v_duplicate.deleted_at is not null then
+    raise exception 'Vessel % does not exist or was already removed.', p_duplicate_id;
+  end if;
+  if v_survivor.id is null or v_survivor.deleted_at is not null then
+    raise exception 'Vessel % does not exist or was removed — pick an active vessel to keep.', p_survivor_id;
+  end if;
+
+  update projects set vessel_id = p_survivor_id, updated_at = now()
+  where vessel_id = p_duplicate_id;
+  get diagnostics v_projects = row_count;
+
+  update work_order set vessel_id = p_survivor_id, updated_at = now()
+  where vessel_id = p_duplicate_id;
+  get diagnostics v_work_orders = row_count;
+
+  update vessel_readiness_forms set vessel_id = p_survivor_id, updated_at = now()
+  where vessel_id = p_duplicate_id;
+  get diagnostics v_readiness_forms = row_count;
+
+  update additional_wo_requests set vessel_id = p_survivor_id, updated_at = now()
+  where vessel_id = p_duplicate_id;
+  get diagnostics v_additional_wo_requests = row_count;
+
+  update bastp set vessel_id = p_survivor_id, updated_at = now()
+  where vessel_id = p_duplicate_id;
+  get diagnostics v_bastp = row_count;
+
+  update vessel
+  set type = coalesce(nullif(btrim(type), ''), v_duplicate.type),
+      customer_id = coalesce(customer_id, v_duplicate.customer_id),
+      company = coalesce(nullif(btrim(company), ''), v_duplicate.company),
+      fleet = coalesce(nullif(btrim(fleet), ''), v_duplicate.fleet),
+      fleet_number = coalesce(fleet_number, v_duplicate.fleet_number),
+      updated_at = now()
+  where id = p_survivor_id;
+
+  update vessel
+  set deleted_at = now(), updated_at = now()
+  where id = p_duplicate_id;
+
+  v_moved := jsonb_build_object(
+    'projects', v_projects,
+    'work_order', v_work_orders,
+    'vessel_readiness_forms', v_readiness_forms,
+    'additional_wo_requests', v_additional_wo_requests,
+    'bastp', v_bastp
+  );
+
+  -- Same wording as describeReferences() in utils/vesselMerge.ts.
+  select coalesce(string_agg(format('%s %s', r.moved, r.label), ', ' order by r.ord), 'nothing')
+  into v_moved_text
+  from (values
+    (1, v_projects, 'projects'),
+    (2, v_work_orders, 'work orders'),
+    (3, v_readiness_forms, 'readiness forms'),
+    (4, v_additional_wo_requests, 'additional WO requests'),
+    (5, v_bastp, 'BASTPs')
+  ) as r (ord, moved, label)
+  where r.moved > 0;
+
+  insert into activity_logs (
+    user_id, user_name, user_email, action, table_name, record_id,
+    new_data, description
+  )
+  select
+    p.id, p.name, p.email, 'update', 'vessel', p_survivor_id,
+    jsonb_build_object(
+      'merged_vessel_id', v_duplicate.id,
+      'merged_vessel_name', v_duplicate.name,
+      'moved', v_moved
+    ),
+    format('Merged vessel %s (#%s) into %s (#%s) — moved %s',
+      v_duplicate.name, v_duplicate.id, v_survivor.name, v_survivor.id, v_moved_text)
+  from profiles p
+  where p.id = caller_profile_id();
+
+  return v_moved;
+end;
+$$;
+
+comment on function merge_vessels(bigint, bigint) is
+  'Re-points every project, work order, readiness form, additional WO request and BASTP from the duplicate vessel to the survivor, fills the survivor''s missing details from the duplicate, soft-deletes the duplicate and logs the merge in activity_logs. Returns rows moved per table.';
+
+grant execute on function merge_vessels(bigint, bigint) to authenticated;
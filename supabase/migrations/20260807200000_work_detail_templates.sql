@@ -0,0 +1,96 @@
+-- ============================================================================
+-- Standard job library: reusable work detail templates.
+--
+-- Every docking repeats the same jobs (hull blasting, painting, propeller
+-- polishing, anode renewal), and AddWorkDetails / the Work Details import
+-- had them typed in again for each work order.
+--
+-- work_detail_templates: one standard job — description, work scope,
+-- optional default location, default quantity and UOM. work_type is the
+-- work order category it belongs to (same options as work_order.work_type);
+-- null means it applies to any work order.
+--
+-- work_detail_template_materials: the materials such a job typically uses,
+-- with an optional typical quantity. Reference only — material_control rows
+-- are still entered per BASTP.
+--
+-- Instantiating a template copies its values into a new work_details row;
+-- nothing links back, so editing a template never changes existing work.
+--
+-- Writes are MASTER/PPIC only, matching 20260805100000. A template's
+-- material list is replaced as a whole when it is saved, so those rows can
+-- also be deleted.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create table work_detail_templates (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  description text not null check (btrim(description) <> ''),
+  work_scope_id bigint not null references work_scope(id),
+  work_type text check (work_type is null or btrim(work_type) <> ''),
+  location_id bigint references location(id),
+  default_quantity numeric not null default 1 check (default_quantity > 0),
+  default_uom text not null default 'Ls' check (btrim(default_uom) <> ''),
+  notes text
+);
+
+create unique index uq_work_detail_templates_description
+  on work_detail_templates (lower(btrim(description)))
+  where deleted_at is null;
+
+comment on table work_detail_templates is
+  'Standard jobs that can be added to a work order as new work details. Values are copied on use; existing work details never change with the template.';
+comment on column work_detail_templates.work_type is
+  'Work order category this job belongs to (same options as work_order.work_type). Null for any work type.';
+comment on column work_detail_templates.location_id is
+  'Default location for the new work detail. Null when it differs per vessel and has to be picked each time.';
+
+create table work_detail_template_materials (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  template_id bigint not null references work_detail_templates(id) on delete cascade,
+  material_id bigint not null references material_lists(id),
+  typical_quantity numeric check (typical_quantity is null or typical_quantity > 0),
+  uom text,
+  unique (template_id, material_id)
+);
+
+create index idx_work_detail_template_materials_template
+  on work_detail_template_materials (template_id);
+
+comment on table work_detail_template_materials is
+  'Materials a standard job typically uses. Shown when picking templates; material_control is still entered per BASTP.';
+
+alter table work_detail_templates enable row level security;
+alter table work_detail_template_materials enable row level security;
+
+create policy "Authenticated users can read work detail templates"
+  on work_detail_templates for select to authenticated using (true);
+
+create policy "MASTER/PPIC can insert work detail templates"
+  on work_detail_templates for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "MASTER/PPIC can update work detail templates"
+  on work_detail_templates for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PPIC'))
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "Authenticated users can read work detail template materials"
+  on work_detail_template_materials for select to authenticated using (true);
+
+create policy "MASTER/PPIC can insert work detail template materials"
+  on work_detail_template_materials for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'PPIC'));
+
+create policy "MASTER/PPIC can delete work detail template materials"
+  on work_detail_template_materials for delete
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PPIC'));
@@ -0,0 +1,183 @@
+-- ============================================================================
+-- Start a new docking from a previous project's work.
+--
+-- A vessel back for its next Annual or Special Survey mostly repeats the
+-- jobs of its last docking. clone_project_work() copies a past project's
+-- active work orders and their active (non-cancelled) work details into a
+-- new project of the same vessel, in one transaction.
+--
+-- Re-dating: every date moves by the same number of days, from the source
+-- project's docking date (its readiness form, else its earliest work order
+-- date) to the new docking date.
+--
+-- Copied: work order kapro, work location and (unless the new project has a
+-- jenis docking of its own) work type; work detail description, location,
+-- work scope, quantity, UOM and PPIC price.
+-- Left fresh: customer WO number/date, PIC, SPK/SPKK/PTW numbers, permits,
+-- notes, actual dates. Progress, verification and BASTP rows belong to the
+-- old work details and are never copied.
+--
+-- Each copy gets a new shipyard WO number for its shifted date, and every
+-- copied work order is ORIGINAL: last docking's additional work is known up
+-- front this time. So the copy is held to the same gate as an original work
+-- order created by hand (20260720100000): the new project's readiness form
+-- must be APPROVED, and the new project must not have work orders yet.
+--
+-- projects.cloned_from_project_id records the source. AddProject sets it when
+-- the project is started from a previous one; the copy itself runs later,
+-- from ProjectDetails, once readiness is approved.
+--
+-- MASTER/PPIC/ADMIN_SHIPPING, the roles that create work orders. Returns
+-- the number of rows copied; the app records the copy in activity_logs.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+alter table projects
+  add column cloned_from_project_id bigint references projects(id);
+
+comment on column projects.cloned_from_project_id is
+  'Previous project (same vessel) this project was started from. Its work orders are copied by clone_project_work() once the readiness form is approved.';
+
+create or replace function clone_project_work(
+  p_source_project_id bigint,
+  p_target_project_id bigint,
+  p_docking_date date
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_source projects%rowtype;
+  v_target projects%rowtype;
+  v_readiness_status text;
+  v_anchor date;
+  v_offset int;
+  v_caller_id bigint := caller_profile_id();
+  v_wo record;
+  v_new_date date;
+  v_number text;
+  v_new_wo_id bigint;
+  v_details int;
+  v_work_orders int := 0;
+  v_work_details int := 0;
+begin
+  if admin_caller_role() is null
+     or admin_caller_role() not in ('MASTER', 'PPIC', 'ADMIN_SHIPPING') then
+    raise exception 'Only MASTER, PPIC and ADMIN_SHIPPING can copy project work.';
+  end if;
+  if p_docking_date is null then
+    raise exception 'A docking date is required to re-date the copied work.';
+  end if;
+  if p_source_project_id = p_target_project_id then
+    raise exception 'A project can''t be copied into itself.';
+  end if;
+
+  -- Lock the target so two users can't copy into it at the same time.
+  select * into v_target from projects where id = p_target_project_id for update;
+  select * into v_source from projects where id = p_source_project_id;
+
+  if v_target.id is null or v_target.deleted_at is not null then
+    raise exception 'Project % does not exist or was removed.', p_target_project_id;
+  end if;
+  if v_source.id is null or v_source.deleted_at is not null then
+    raise exception 'Project % does not exist or was removed.', p_source_project_id;
+  end if;
+  if v_source.vessel_id is distinct from v_target.vessel_id then
+    raise exception 'Work can only be copied from a previous project of the same vessel.';
+  end if;
+
+  select status into v_readiness_status
+  from vessel_readiness_forms
+  where id = v_target.readiness_form_id and deleted_at is null;
+  if v_readiness_status is distinct from 'APPROVED' then
+    raise exception 'The Vessel Readiness Form for % must be approved before work orders can be copied into it.', v_target.project_name;
+  end if;
+
+  if exists (
+    select 1 from work_order
+    where project_id = p_target_project_id and deleted_at is null
+  ) then
+    raise exception '% already has work orders — copy only into a project that has none.', v_target.project_name;
+  end if;
+
+  select f.docking_date into v_anchor
+  from vessel_readiness_forms f
+  where f.id = v_source.readiness_form_id and f.deleted_at is null;
+
+  if v_anchor is null then
+    select min(shipyard_wo_date) into v_anchor
+    from work_order
+    where project_id = p_source_project_id and deleted_at is null;
+  end if;
+  if v_anchor is null then
+    raise exception '% has no work orders to copy.', v_source.project_name;
+  end if;
+
+  v_offset := p_docking_date - v_anchor;
+
+  for v_wo in
+    select * from work_order
+    where project_id = p_source_project_id and deleted_at is null
+    order by shipyard_wo_date, id
+  loop
+    v_new_date := v_wo.shipyard_wo_date + v_offset;
+    select r.document_number into v_number
+    from reserve_document_number('WORK_ORDER', v_new_date) r;
+
+    -- trg_work_order_document_number_used marks the reservation USED.
+    insert into work_order (
+      vessel_id, project_id, shipyard_wo_number, shipyard_wo_date,
+      customer_wo_number, customer_wo_date, is_additional_wo,
+      kapro_id, work_location, work_type, user_id
+    )
+    values (
+      v_target.vessel_id, v_target.id, v_number, v_new_date,
+      null, null, false,
+      v_wo.kapro_id, v_wo.work_location,
+      coalesce(v_target.docking_type, v_wo.work_type), v_caller_id
+    )
+    returning id into v_new_wo_id;
+
+    insert into work_details (
+      work_order_id, description, location_id, work_scope_id, quantity, uom,
+      ppic_price, is_additional_wo_details, planned_start_date,
+      target_close_date, period_close_target, user_id, pic
+    )
+    select
+      v_new_wo_id, wd.description, wd.location_id, wd.work_scope_id,
+      wd.quantity, wd.uom, wd.ppic_price, false,
+      wd.planned_start_date + v_offset,
+      wd.target_close_date + v_offset,
+      -- Same English month names AddWorkDetails derives from the target date.
+      to_char(wd.target_close_date + v_offset, 'FMMonth'),
+      v_caller_id, ''
+    from work_details wd
+    where wd.work_order_id = v_wo.id
+      and wd.deleted_at is null
+      and wd.cancelled_at is null
+    order by wd.id;
+    get diagnostics v_details = row_count;
+
+    v_work_orders := v_work_orders + 1;
+    v_work_details := v_work_details + v_details;
+  end loop;
+
+  update projects
+  set cloned_from_project_id = p_source_project_id, updated_at = now()
+  where id = p_target_project_id;
+
+  return jsonb_build_object(
+    'work_order', v_work_orders,
+    'work_details', v_work_details,
+    'offset_days', v_offset
+  );
+end;
+$$;
+
+comment on function clone_project_work(bigint, bigint, date) is
+  'Copies a previous project''s active work orders and non-cancelled work details into an empty project of the same vessel whose readiness form is approved, shifted to the new docking date. Progress, verification and BASTP links are not copied. Returns rows copied.';
+
+grant execute on function clone_project_work(bigint, bigint, date) to authenticated;
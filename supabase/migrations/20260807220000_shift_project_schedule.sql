@@ -0,0 +1,107 @@
+-- ============================================================================
+-- Move a planned docking to other dates (yard calendar drag-and-drop).
+--
+-- The yard calendar draws each project's dock booking from its readiness
+-- form docking date and its work details' planned dates. Dragging a booking
+-- calls shift_project_schedule(), which moves all of those by the same
+-- number of days in one transaction:
+--   vessel_readiness_forms.docking_date
+--   work_details.planned_start_date / target_close_date (active,
+--     non-cancelled), with period_close_target re-derived from the new
+--     target date the way AddWorkDetails does
+-- Work order dates are document dates and stay as they are.
+--
+-- Only a booking that is still a plan can move: once any work detail has an
+-- actual start, or a BASTP for the project records tanggal_naik_docking, the
+-- vessel is physically in the yard and the dates are history.
+--
+-- MASTER/PPIC only — they own the yard plan. Returns rows moved; the app
+-- records the move in activity_logs.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create or replace function shift_project_schedule(
+  p_project_id bigint,
+  p_days int
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_project projects%rowtype;
+  v_readiness_forms int;
+  v_work_details int;
+begin
+  if admin_caller_role() is null
+     or admin_caller_role() not in ('MASTER', 'PPIC') then
+    raise exception 'Only MASTER and PPIC can reschedule a docking.';
+  end if;
+  if p_days is null or p_days = 0 then
+    raise exception 'Pick a different date to move the docking to.';
+  end if;
+
+  select * into v_project from projects where id = p_project_id for update;
+  if v_project.id is null or v_project.deleted_at is not null then
+    raise exception 'Project % does not exist or was removed.', p_project_id;
+  end if;
+
+  if exists (
+    select 1
+    from work_details wd
+    join work_order wo on wo.id = wd.work_order_id
+    where wo.project_id = p_project_id
+      and wo.deleted_at is null
+      and wd.deleted_at is null
+      and wd.cancelled_at is null
+      and wd.actual_start_date is not null
+  ) or exists (
+    select 1
+    from bastp b
+    join bastp_work_details bwd on bwd.bastp_id = b.id and bwd.deleted_at is null
+    join work_details wd on wd.id = bwd.work_details_id
+    join work_order wo on wo.id = wd.work_order_id
+    where wo.project_id = p_project_id
+      and b.deleted_at is null
+      and b.tanggal_naik_docking is not null
+  ) then
+    raise exception '% has already started in the yard — its docking can no longer be moved.', v_project.project_name;
+  end if;
+
+  update vessel_readiness_forms
+  set docking_date = docking_date + p_days, updated_at = now()
+  where id = v_project.readiness_form_id
+    and deleted_at is null
+    and docking_date is not null;
+  get diagnostics v_readiness_forms = row_count;
+
+  update work_details wd
+  set planned_start_date = wd.planned_start_date + p_days,
+      target_close_date = wd.target_close_date + p_days,
+      period_close_target = case
+        when wd.target_close_date is null then wd.period_close_target
+        else to_char(wd.target_close_date + p_days, 'FMMonth')
+      end,
+      updated_at = now()
+  from work_order wo
+  where wo.id = wd.work_order_id
+    and wo.project_id = p_project_id
+    and wo.deleted_at is null
+    and wd.deleted_at is null
+    and wd.cancelled_at is null
+    and (wd.planned_start_date is not null or wd.target_close_date is not null);
+  get diagnostics v_work_details = row_count;
+
+  return jsonb_build_object(
+    'vessel_readiness_forms', v_readiness_forms,
+    'work_details', v_work_details
+  );
+end;
+$$;
+
+comment on function shift_project_schedule(bigint, int) is
+  'Moves a not-yet-started project''s readiness docking date and its work details'' planned start/target close dates by p_days. Returns rows moved per table.';
+
+grant execute on function shift_project_schedule(bigint, int) to authenticated;
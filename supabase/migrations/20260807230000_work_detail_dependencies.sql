@@ -0,0 +1,132 @@
+-- ============================================================================
+-- Finish-to-start links between work details of the same project.
+--
+-- Some jobs can only start once another is finished (painting after
+-- blasting). work_detail_dependencies records "successor waits for
+-- predecessor"; both must belong to work orders of the same project, and a
+-- link may not close a cycle.
+--
+-- Enforcement: a work_progress report above 0% is rejected while any
+-- predecessor's current progress (its latest report by report_date, then
+-- created_at — the convention used everywhere in the app) is below 100%.
+-- Cancelled predecessors no longer block.
+-- AddWorkProgress checks the same thing up front for a readable message;
+-- this trigger also covers EditWorkProgress and the Work Progress import.
+--
+-- The links also feed the critical path on ProjectDetails
+-- (src/utils/criticalPath.ts): a late predecessor pushes every successor,
+-- and with it possibly the project's end date.
+--
+-- Writes follow work detail editing: everyone on the operations side except
+-- the read-only roles and ADMIN_SHIPPING (create-only).
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create table work_detail_dependencies (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  predecessor_id bigint not null references work_details(id) on delete cascade,
+  successor_id bigint not null references work_details(id) on delete cascade,
+  user_id bigint default caller_profile_id() references profiles(id),
+  unique (predecessor_id, successor_id),
+  check (predecessor_id <> successor_id)
+);
+
+create index idx_work_detail_dependencies_successor
+  on work_detail_dependencies (successor_id);
+
+comment on table work_detail_dependencies is
+  'Finish-to-start links: the successor work detail can''t report progress until the predecessor is at 100%. Both belong to the same project.';
+
+create or replace function check_work_detail_dependency() returns trigger as $$
+declare
+  v_predecessor_project bigint;
+  v_successor_project bigint;
+begin
+  select wo.project_id into v_predecessor_project
+  from work_details wd join work_order wo on wo.id = wd.work_order_id
+  where wd.id = new.predecessor_id;
+
+  select wo.project_id into v_successor_project
+  from work_details wd join work_order wo on wo.id = wd.work_order_id
+  where wd.id = new.successor_id;
+
+  if v_predecessor_project is null
+     or v_predecessor_project is distinct from v_successor_project then
+    raise exception 'Both work details must belong to work orders of the same project.';
+  end if;
+
+  -- A cycle exists if the new predecessor already (transitively) waits for
+  -- the new successor.
+  if exists (
+    with recursive upstream(id) as (
+      select predecessor_id from work_detail_dependencies
+      where successor_id = new.predecessor_id
+      union
+      select d.predecessor_id
+      from work_detail_dependencies d
+      join upstream u on d.successor_id = u.id
+    )
+    select 1 from upstream where id = new.successor_id
+  ) then
+    raise exception 'This link would make the work details wait for each other.';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_work_detail_dependency_check
+  before insert or update on work_detail_dependencies
+  for each row execute function check_work_detail_dependency();
+
+create or replace function check_work_progress_predecessors() returns trigger as $$
+declare
+  v_blocking text;
+begin
+  if new.progress_percentage is null or new.progress_percentage <= 0 then
+    return new;
+  end if;
+
+  select string_agg(p.description, ', ' order by p.description) into v_blocking
+  from work_detail_dependencies d
+  join work_details p on p.id = d.predecessor_id
+  left join lateral (
+    select wp.progress_percentage
+    from work_progress wp
+    where wp.work_details_id = p.id and wp.deleted_at is null
+    order by wp.report_date desc, wp.created_at desc
+    limit 1
+  ) latest on true
+  where d.successor_id = new.work_details_id
+    and p.deleted_at is null
+    and p.cancelled_at is null
+    and coalesce(latest.progress_percentage, 0) < 100;
+
+  if v_blocking is not null then
+    raise exception 'Progress can''t be reported yet — waiting for: %', v_blocking;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_work_progress_predecessors
+  before insert or update of progress_percentage, work_details_id on work_progress
+  for each row execute function check_work_progress_predecessors();
+
+alter table work_detail_dependencies enable row level security;
+
+create policy "Authenticated users can read work detail dependencies"
+  on work_detail_dependencies for select to authenticated using (true);
+
+create policy "Operations can insert work detail dependencies"
+  on work_detail_dependencies for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'PPIC', 'PRODUCTION', 'ADMIN'));
+
+create policy "Operations can delete work detail dependencies"
+  on work_detail_dependencies for delete
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PPIC', 'PRODUCTION', 'ADMIN'));
@@ -0,0 +1,104 @@
+-- ============================================================================
+-- Several evidence photos per progress report, each with a caption.
+--
+-- Until now a work_progress row carried exactly one photo in storage_path /
+-- evidence_url, so supervisors filed separate reports just to attach the
+-- before, during and after shots of the same job. work_progress_evidence
+-- holds any number of photos (still in the "progress_evidence" bucket) per
+-- report, ordered by sort_order.
+--
+-- work_progress.storage_path stays as the report's cover photo — the first
+-- photo by sort_order — kept in sync by trigger, so exports, the Work
+-- Details table and anything else reading the single column keep working.
+-- evidence_url only ever held a one-hour signed URL; the app no longer
+-- writes it and signs storage paths when it shows them.
+--
+-- Existing single photos are copied in as each report's first photo.
+--
+-- Writes follow who can file progress reports: MASTER and PRODUCTION.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+create table work_progress_evidence (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  work_progress_id bigint not null references work_progress(id) on delete cascade,
+  storage_path text not null,
+  caption text,
+  sort_order int not null default 0,
+  user_id bigint default caller_profile_id() references profiles(id)
+);
+
+create index idx_work_progress_evidence_progress
+  on work_progress_evidence (work_progress_id, sort_order);
+
+comment on table work_progress_evidence is
+  'Evidence photos of a progress report (bucket "progress_evidence"). The first by sort_order is mirrored into work_progress.storage_path.';
+comment on column work_progress_evidence.caption is
+  'Optional note shown under the photo, e.g. "Before blasting".';
+
+insert into work_progress_evidence (created_at, work_progress_id, storage_path, sort_order, user_id)
+select wp.created_at, wp.id, wp.storage_path, 0, wp.user_id
+from work_progress wp
+where wp.storage_path is not null
+  and wp.storage_path <> '';
+
+create or replace function sync_work_progress_cover_evidence() returns trigger
+language plpgsql
+security definer
+set search_path = daily_report_shipyard, public
+as $$
+declare
+  v_work_progress_id bigint := coalesce(new.work_progress_id, old.work_progress_id);
+begin
+  update work_progress
+  set storage_path = (
+        select e.storage_path
+        from work_progress_evidence e
+        where e.work_progress_id = v_work_progress_id
+        order by e.sort_order, e.id
+        limit 1
+      )
+  where id = v_work_progress_id;
+
+  if tg_op = 'UPDATE' and old.work_progress_id <> new.work_progress_id then
+    update work_progress
+    set storage_path = (
+          select e.storage_path
+          from work_progress_evidence e
+          where e.work_progress_id = old.work_progress_id
+          order by e.sort_order, e.id
+          limit 1
+        )
+    where id = old.work_progress_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger trg_work_progress_cover_evidence
+  after insert or update or delete on work_progress_evidence
+  for each row execute function sync_work_progress_cover_evidence();
+
+alter table work_progress_evidence enable row level security;
+
+create policy "Authenticated users can read work progress evidence"
+  on work_progress_evidence for select to authenticated using (true);
+
+create policy "MASTER/PRODUCTION can insert work progress evidence"
+  on work_progress_evidence for insert
+  to authenticated
+  with check (admin_caller_role() in ('MASTER', 'PRODUCTION'));
+
+create policy "MASTER/PRODUCTION can update work progress evidence"
+  on work_progress_evidence for update
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PRODUCTION'))
+  with check (admin_caller_role() in ('MASTER', 'PRODUCTION'));
+
+create policy "MASTER/PRODUCTION can delete work progress evidence"
+  on work_progress_evidence for delete
+  to authenticated
+  using (admin_caller_role() in ('MASTER', 'PRODUCTION'));
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- Capture metadata for evidence photos.
+--
+-- The app now shrinks and re-encodes photos in the browser before upload
+-- (longest edge / JPEG quality set by VITE_EVIDENCE_MAX_DIMENSION and
+-- VITE_EVIDENCE_JPEG_QUALITY). Re-encoding drops EXIF, so the capture time
+-- and GPS position are read from the original first and stored here.
+--
+-- captured_at is the camera's wall-clock time (EXIF rarely carries a zone),
+-- hence timestamp without time zone. Work verification flags a photo whose
+-- capture date is more than a couple of days from its report's report_date.
+-- Photos uploaded before this change keep nulls.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+alter table work_progress_evidence
+  add column captured_at timestamp,
+  add column latitude double precision,
+  add column longitude double precision,
+  add column original_size_bytes bigint,
+  add column size_bytes bigint;
+
+comment on column work_progress_evidence.captured_at is
+  'EXIF DateTimeOriginal of the original photo (camera local time). Null when the photo had none.';
+comment on column work_progress_evidence.latitude is
+  'EXIF GPS latitude in decimal degrees (south negative). Null when the photo had no fix.';
+comment on column work_progress_evidence.longitude is
+  'EXIF GPS longitude in decimal degrees (west negative). Null when the photo had no fix.';
+comment on column work_progress_evidence.original_size_bytes is
+  'Size of the file as picked, before in-browser compression.';
+comment on column work_progress_evidence.size_bytes is
+  'Size of the file as stored in the progress_evidence bucket.';
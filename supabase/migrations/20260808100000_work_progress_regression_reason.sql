@@ -0,0 +1,72 @@
+-- ============================================================================
+-- Progress regressions need a reason.
+--
+-- A progress report "regresses" when it is lower than the report before it
+-- in the work detail's history — the previous one by report_date, then
+-- created_at, the same order that decides current progress everywhere in
+-- the app. That happens for real (rework after a rejected verification, a
+-- recount on site) but also by typo, and until now nothing told them apart:
+-- 80% after 95% just became the current value.
+--
+-- work_progress.regression_reason records why: REWORK, RECOUNT or
+-- DATA_ENTRY_ERROR. The trigger below rejects a regressing insert or edit
+-- without one, and clears the reason on a report that doesn't regress so a
+-- stale reason doesn't linger after a correction. AddWorkProgress,
+-- EditWorkProgress, the bulk grid and the Work Progress import ask for it
+-- up front; work verification lists regressions for the reviewer.
+--
+-- Existing rows are left as they are — historical regressions simply show
+-- up without a reason.
+-- ============================================================================
+
+set search_path to daily_report_shipyard;
+
+alter table work_progress
+  add column regression_reason text
+    check (regression_reason in ('REWORK', 'RECOUNT', 'DATA_ENTRY_ERROR'));
+
+comment on column work_progress.regression_reason is
+  'Why this report is lower than the previous one (REWORK, RECOUNT, DATA_ENTRY_ERROR). Null when it is not a regression.';
+
+create or replace function check_work_progress_regression() returns trigger as $$
+declare
+  v_previous numeric;
+begin
+  -- Notes-only edits don't re-judge a report.
+  if tg_op = 'UPDATE'
+     and new.progress_percentage = old.progress_percentage
+     and new.report_date = old.report_date
+     and new.work_details_id = old.work_details_id
+     and new.regression_reason is not distinct from old.regression_reason then
+    return new;
+  end if;
+
+  select wp.progress_percentage into v_previous
+  from work_progress wp
+  where wp.work_details_id = new.work_details_id
+    and wp.id <> new.id
+    and wp.deleted_at is null
+    and (wp.report_date, wp.created_at) < (new.report_date, new.created_at)
+  order by wp.report_date desc, wp.created_at desc
+  limit 1;
+
+  if v_previous is null or new.progress_percentage >= v_previous then
+    new.regression_reason := null;
+    return new;
+  end if;
+
+  if new.regression_reason is null then
+    raise exception using message = format(
+      'Progress can''t drop from %s%% to %s%% without a reason (REWORK, RECOUNT or DATA_ENTRY_ERROR)',
+      v_previous,
+      new.progress_percentage
+    );
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_work_progress_regression
+  before insert or update on work_progress
+  for each row execute function check_work_progress_regression();
@@ -0,0 +1,88 @@
+-- ============================================================================
+-- auto_verify_stale_work_details(): a completed work detail nobody has
+-- reviewed is approved once its newest report is 2 days old, and one the
+-- Operation Head rejected after that report stays open for rework.
+--
+-- Run with `supabase test db`; everything is rolled back.
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+set search_path to daily_report_shipyard, extensions, public;
+
+select plan(4);
+
+create temporary table fixture on commit drop as
+with v as (
+  insert into vessel (name, type, company)
+  values ('TB AUTO VERIFY TEST', 'TB', 'Test Company')
+  returning id
+),
+wo as (
+  insert into work_order (vessel_id, shipyard_wo_number, shipyard_wo_date, is_additional_wo)
+  select v.id, 'WO-AUTO-VERIFY-TEST', current_date, false from v
+  returning id
+),
+wd as (
+  insert into work_details (
+    work_order_id, description, quantity, uom, is_additional_wo_details,
+    planned_start_date, target_close_date, period_close_target, pic
+  )
+  select wo.id, d.description, 1, 'Ls', false, current_date, current_date,
+         to_char(current_date, 'FMMonth'), ''
+  from wo, (values ('never reviewed'), ('rejected')) as d (description)
+  returning id, description
+)
+select id, description from wd;
+
+insert into work_progress (work_details_id, progress_percentage, report_date)
+select id, 100, current_date from fixture;
+
+-- Rejected after the 100% report: open for rework, not for auto-approval.
+insert into work_verification (work_details_id, verification_date, status, created_at)
+select id, current_date, 'REJECTED', now() + interval '1 minute'
+from fixture
+where description = 'rejected';
+
+create temporary table run on commit drop as
+select * from auto_verify_stale_work_details(now() + interval '3 days', 'MANUAL');
+
+select ok(
+  exists (
+    select 1
+    from work_verification wv
+    join fixture f on f.id = wv.work_details_id
+    where f.description = 'never reviewed'
+      and wv.status = 'APPROVED'
+      and wv.is_auto_verified
+      and wv.auto_approval_run_id = (select id from run)
+  ),
+  'a completed work detail that was never reviewed is auto-approved'
+);
+
+select ok(
+  not exists (
+    select 1
+    from work_verification wv
+    join fixture f on f.id = wv.work_details_id
+    where f.description = 'rejected'
+      and wv.status = 'APPROVED'
+  ),
+  'a work detail rejected after its last report is left for rework'
+);
+
+select ok(
+  (select candidate_count from run) >= 1,
+  'the never-reviewed work detail is counted as a candidate'
+);
+
+select ok(
+  (select approved_count from run) >= 1,
+  'the run records the approval'
+);
+
+select * from finish();
+
+rollback;